@@ -3,6 +3,7 @@
 import { useEffect, useMemo, useState } from 'react'
 import Link from 'next/link'
 import RequireAuth from '@/components/RequireAuth'
+import TableExportButtons from '@/components/TableExportButtons'
 import UserEmail from '@/components/UserEmail'
 import {
   formatYenOrDash,
@@ -13,6 +14,9 @@ import {
   type EntrySummaryRow,
   type StockSummaryRow,
 } from '@/lib/complexCards'
+import { buildFloorPatternOptions, formatFloorPatternLabel, type CustomFloorPattern } from '@/lib/floorPatterns'
+import { COMPLEX_EXPORT_COLUMNS } from '@/lib/listExports'
+import { listFloorPatterns } from '@/lib/repositories/floorPatterns'
 import { getSupabase } from '@/lib/supabaseClient'
 
 function toErrorMessage(e: unknown): string {
@@ -24,6 +28,7 @@ function toErrorMessage(e: unknown): string {
 export default function TabComplexListPage() {
   const supabase = getSupabase()
   const [cards, setCards] = useState<Card[]>([])
+  const [floorPatterns, setFloorPatterns] = useState<CustomFloorPattern[]>([])
   const [msg, setMsg] = useState('')
   const [loading, setLoading] = useState(false)
   const [deletingId, setDeletingId] = useState<string | null>(null)
@@ -80,8 +85,17 @@ export default function TabComplexListPage() {
             stockRows = (stockData ?? []) as StockSummaryRow[]
           }
         }
+        let patterns: CustomFloorPattern[] = []
+        try {
+          patterns = await listFloorPatterns(supabase)
+        } catch (patternError) {
+          console.warn('failed to load floor patterns', patternError)
+        }
         const mapped = mapComplexesToCards(rows, entryRows, stockRows)
-        if (mounted) setCards(mapped)
+        if (mounted) {
+          setCards(mapped)
+          setFloorPatterns(patterns)
+        }
       } catch (e) {
         console.error(e)
         if (mounted) setMsg('読み込みに失敗しました: ' + toErrorMessage(e))
@@ -127,6 +141,11 @@ export default function TabComplexListPage() {
     })
   }, [cards, fKey, fPref, fScoreMin, fBuiltAgeMax, fElev, fAreaBand])
 
+  const exportRows = useMemo(
+    () => filtered.map((c) => ({ ...c, floorPatternLabel: formatFloorPatternLabel(c.floorPattern, buildFloorPatternOptions(floorPatterns, c.id)) })),
+    [filtered, floorPatterns],
+  )
+
   const headerMsg = useMemo(() => {
     if (loading) return '読み込み中...'
     if (msg) return msg
@@ -209,6 +228,13 @@ export default function TabComplexListPage() {
                       <option>20件</option><option>50件</option><option>100件</option>
                     </select>
                   </label>
+                  <TableExportButtons
+                    filenamePrefix="complexes"
+                    sheetName="団地一覧"
+                    columns={COMPLEX_EXPORT_COLUMNS}
+                    rows={exportRows}
+                    disabled={loading}
+                  />
                 </div>
               </div>
 
@@ -303,7 +329,7 @@ export default function TabComplexListPage() {
                             <div className="text-sm text-gray-600">{c.addr}</div>
                             <div className="text-xs text-gray-500">{c.station}</div>
                             <div className="text-xs text-gray-500">築年月 {c.built} / 戸数 {c.units}</div>
-                            <div className="text-xs text-gray-500">階数効用: {c.floorPattern || '—'}</div>
+                            <div className="text-xs text-gray-500">階数効用: {formatFloorPatternLabel(c.floorPattern, buildFloorPatternOptions(floorPatterns, c.id)) || '—'}</div>
                             <div className="mt-2 grid md:grid-cols-3 gap-2 text-xs">
                               <div className="px-2 py-1.5 rounded-lg bg-rose-50 text-rose-700">
                                 <div className="text-[11px] text-rose-500">過去MAX</div>
@@ -0,0 +1,185 @@
+'use client'
+
+import { useState, type ChangeEvent } from 'react'
+
+import {
+  buildFloorPatternDraft,
+  findFloorPatternOption,
+  fitFloorCoefs,
+  formatFloorPatternOptionLabel,
+  MAX_PATTERN_FLOORS,
+  MIN_PATTERN_FLOORS,
+  resolveFloorPatternCoefs,
+  type FloorPatternDraft,
+  type FloorPatternOption,
+  type FloorPatternScope,
+} from '@/lib/floorPatterns'
+import { suggestFloorPattern } from '@/lib/floorPatternSuggestion'
+import type { ReferenceValueEntry } from '@/lib/referenceValue'
+import { ComplexFloorPatternSuggestion } from './ComplexFloorPatternSuggestion'
+import type { ComplexChangeHandler } from './complexEditShared'
+
+type Props = {
+  floorCoefPattern: string
+  floorCount: number | null
+  options: FloorPatternOption[]
+  referenceRows: ReferenceValueEntry[]
+  savingPattern: boolean
+  patternMsg: string
+  onComplexChange: ComplexChangeHandler
+  onFloorPatternSelect: (key: string) => void
+  onCreatePattern: (draft: FloorPatternDraft) => Promise<boolean>
+  onDeletePattern: (key: string) => Promise<void>
+}
+
+const scopeGroups: { scope: FloorPatternScope; label: string }[] = [
+  { scope: 'preset', label: '標準パターン' },
+  { scope: 'complex', label: 'この団地専用' },
+  { scope: 'shared', label: '共有テンプレート' },
+]
+
+function formatCoef(value: number): string {
+  return value.toFixed(2)
+}
+
+export function ComplexFloorPatternSection({
+  floorCoefPattern,
+  floorCount,
+  options,
+  referenceRows,
+  savingPattern,
+  patternMsg,
+  onComplexChange,
+  onFloorPatternSelect,
+  onCreatePattern,
+  onDeletePattern,
+}: Props) {
+  const selected = findFloorPatternOption(floorCoefPattern, options)
+  const previewCoefs = resolveFloorPatternCoefs(floorCoefPattern, options, floorCount)
+  const suggestion = suggestFloorPattern({ rows: referenceRows, maxFloor: floorCount })
+  const [draft, setDraft] = useState<FloorPatternDraft | null>(null)
+
+  function startDraft(coefs: number[] = previewCoefs) {
+    setDraft(buildFloorPatternDraft(coefs, floorCount))
+  }
+
+  function onDraftFloorsChange(e: ChangeEvent<HTMLInputElement>) {
+    const floors = Number.parseInt(e.target.value, 10)
+    if (!Number.isFinite(floors)) return
+    setDraft((prev) => {
+      if (!prev) return prev
+      const current = prev.coefs.map((coef) => Number.parseFloat(coef)).map((coef) => (Number.isFinite(coef) ? coef : 1))
+      const clamped = Math.min(Math.max(floors, MIN_PATTERN_FLOORS), MAX_PATTERN_FLOORS)
+      return { ...prev, coefs: fitFloorCoefs(current, clamped).map((coef) => String(coef)) }
+    })
+  }
+
+  function onDraftCoefChange(index: number) {
+    return (e: ChangeEvent<HTMLInputElement>) => {
+      const value = e.target.value
+      setDraft((prev) => (prev ? { ...prev, coefs: prev.coefs.map((coef, i) => (i === index ? value : coef)) } : prev))
+    }
+  }
+
+  async function saveDraft() {
+    if (!draft) return
+    const saved = await onCreatePattern(draft)
+    if (saved) setDraft(null)
+  }
+
+  return (
+    <section className="space-y-4">
+      <h3 className="font-semibold">階数効用パターン</h3>
+      <div className="grid md:grid-cols-3 gap-4 text-sm">
+        <label className="block md:col-span-2">適用パターン
+          <select className="mt-1 w-full border rounded-lg px-3 py-2" value={floorCoefPattern} onChange={onComplexChange('floorCoefPattern')}>
+            <option value="">未設定（全階 1.00）</option>
+            {scopeGroups.map((group) => {
+              const groupOptions = options.filter((option) => option.scope === group.scope)
+              if (groupOptions.length === 0) return null
+              return (
+                <optgroup key={group.scope} label={group.label}>
+                  {groupOptions.map((option) => (
+                    <option key={option.key} value={option.key}>{formatFloorPatternOptionLabel(option)}</option>
+                  ))}
+                </optgroup>
+              )
+            })}
+          </select>
+        </label>
+        <div className="flex items-end gap-2">
+          <button type="button" className="px-3 py-2 rounded-lg bg-gray-100 text-sm" onClick={() => startDraft()}>
+            このパターンを元に新規作成
+          </button>
+          {selected && selected.scope !== 'preset' && (
+            <button type="button" className="px-3 py-2 rounded-lg bg-gray-100 text-sm text-red-700" onClick={() => { onDeletePattern(selected.key).catch(console.error) }}>
+              削除
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              <th className="px-3 py-2 text-left whitespace-nowrap">階</th>
+              {previewCoefs.map((_, index) => <th key={index} className="px-3 py-2 text-right whitespace-nowrap">{index + 1}F</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-t border-gray-200">
+              <td className="px-3 py-2 whitespace-nowrap">係数</td>
+              {previewCoefs.map((coef, index) => <td key={index} className="px-3 py-2 text-right tabular-nums">{formatCoef(coef)}</td>)}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      {selected && floorCount != null && selected.coefs.length !== floorCount && (
+        <p className="text-xs text-amber-700">
+          パターンは{selected.coefs.length}階分です。団地の階数（{floorCount}階）に合わせ、不足階は最上階の係数を引き継いで計算します。
+        </p>
+      )}
+
+      <ComplexFloorPatternSuggestion
+        suggestion={suggestion}
+        onApplyPreset={onFloorPatternSelect}
+        onCreateCustom={(coefs) => startDraft(coefs)}
+      />
+
+      {draft && (
+        <div className="space-y-3 rounded-xl border border-gray-200 p-4 bg-gray-50 text-sm">
+          <div className="grid md:grid-cols-3 gap-4">
+            <label className="block">パターン名
+              <input type="text" className="mt-1 w-full border rounded-lg px-3 py-2" placeholder="例）14階建・上層プレミアム" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            </label>
+            <label className="block">保存先
+              <select className="mt-1 w-full border rounded-lg px-3 py-2" value={draft.scope} onChange={(e) => setDraft({ ...draft, scope: e.target.value as FloorPatternDraft['scope'] })}>
+                <option value="complex">この団地専用</option>
+                <option value="shared">共有テンプレート</option>
+              </select>
+            </label>
+            <label className="block">階数
+              <input type="number" min={MIN_PATTERN_FLOORS} max={MAX_PATTERN_FLOORS} step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={draft.coefs.length} onChange={onDraftFloorsChange} />
+            </label>
+          </div>
+          <div className="grid grid-cols-3 md:grid-cols-7 gap-2">
+            {draft.coefs.map((coef, index) => (
+              <label key={index} className="block text-xs">{index + 1}F
+                <input type="number" min="0" step="0.01" className="mt-1 w-full border rounded-lg px-2 py-1.5 num" value={coef} onChange={onDraftCoefChange(index)} />
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-end gap-2">
+            <span className="text-xs text-gray-500">{patternMsg}</span>
+            <button type="button" className="px-3 py-1.5 rounded-lg bg-gray-100" onClick={() => setDraft(null)}>キャンセル</button>
+            <button type="button" className="px-3 py-1.5 rounded-lg bg-black text-white disabled:opacity-60" disabled={savingPattern} onClick={() => { saveDraft().catch(console.error) }}>
+              {savingPattern ? '保存中...' : 'パターンを保存して選択'}
+            </button>
+          </div>
+        </div>
+      )}
+      {!draft && patternMsg && <p className="text-xs text-gray-500">{patternMsg}</p>}
+    </section>
+  )
+}
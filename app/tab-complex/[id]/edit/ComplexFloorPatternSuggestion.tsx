@@ -0,0 +1,80 @@
+'use client'
+
+import type { FloorPatternSuggestion } from '@/lib/floorPatternSuggestion'
+
+type Props = {
+  suggestion: FloorPatternSuggestion | null
+  onApplyPreset: (pattern: string) => void
+  onCreateCustom: (coefs: number[]) => void
+}
+
+function formatCoef(value: number | null): string {
+  return value == null ? '—' : value.toFixed(2)
+}
+
+export function ComplexFloorPatternSuggestion({ suggestion, onApplyPreset, onCreateCustom }: Props) {
+  if (!suggestion) {
+    return (
+      <div className="rounded-xl border border-gray-200 p-4 text-xs text-gray-500">
+        パターン提案: 2階以上の過去成約（状態区分あり）が登録されると、参考値の平均値から階数カーブを提案します。
+      </div>
+    )
+  }
+
+  const { points, coefs, presets, closestPreset, recommendCustom, totalSamples } = suggestion
+
+  return (
+    <div className="space-y-3 rounded-xl border border-gray-200 p-4 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="font-semibold">パターン提案（参考値・平均値より）</div>
+          <div className="text-xs text-gray-500">1階=1.00 として、各階の平均値係数を件数で重み付けし曲線を当てはめています（計{totalSamples}件）</div>
+        </div>
+        <div className="flex gap-2">
+          {closestPreset && (
+            <button type="button" className="px-3 py-1.5 rounded-lg bg-gray-100" onClick={() => onApplyPreset(closestPreset.pattern)}>
+              {closestPreset.pattern}を適用
+            </button>
+          )}
+          <button type="button" className="px-3 py-1.5 rounded-lg bg-gray-100" onClick={() => onCreateCustom(coefs)}>
+            提案値でカスタム作成
+          </button>
+        </div>
+      </div>
+
+      <div className="text-xs">
+        {closestPreset && (
+          <span className="text-gray-700">最も近い標準パターン: <span className="font-semibold">{closestPreset.pattern}</span>（誤差 {closestPreset.rmse.toFixed(3)}）</span>
+        )}
+        {recommendCustom && <span className="ml-2 text-amber-700">標準パターンとの差が大きいため、カスタムパターンの作成をおすすめします</span>}
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              <th className="px-3 py-2 text-left whitespace-nowrap">階</th>
+              <th className="px-3 py-2 text-right whitespace-nowrap">実績係数</th>
+              <th className="px-3 py-2 text-right whitespace-nowrap">提案係数</th>
+              <th className="px-3 py-2 text-right whitespace-nowrap">件数</th>
+            </tr>
+          </thead>
+          <tbody>
+            {points.map((point) => (
+              <tr key={point.floor} className="border-t border-gray-200">
+                <td className="px-3 py-2 whitespace-nowrap">{point.floor}F</td>
+                <td className="px-3 py-2 text-right tabular-nums">{formatCoef(point.observedCoef)}</td>
+                <td className="px-3 py-2 text-right tabular-nums">{formatCoef(point.fittedCoef)}</td>
+                <td className={`px-3 py-2 text-right tabular-nums ${point.sampleCount === 0 ? 'text-gray-400' : ''}`}>{point.sampleCount}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="text-xs text-gray-500">
+        標準パターンとの誤差: {presets.map((preset) => `${preset.pattern} ${preset.rmse.toFixed(3)}`).join(' / ')}
+      </div>
+    </div>
+  )
+}
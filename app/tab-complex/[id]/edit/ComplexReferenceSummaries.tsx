@@ -1,12 +1,26 @@
 'use client'
 
-import { Fragment } from 'react'
+import { Fragment, useState } from 'react'
 
+import { summarizeBorrowedComplexes } from '@/lib/borrowedComparables'
 import { formatComplexUnitPrice } from '@/lib/complexForm'
 import {
   buildReferenceValueTables,
+  CENTRAL_STATISTIC_OPTIONS,
+  filterReferenceRowsBySource,
+  REFERENCE_SOURCE_OPTIONS,
   REFERENCE_VALUE_MATRIX_COLUMNS,
+  resolveReferenceSource,
+  type CentralStatistic,
+  type ReferenceSource,
+  type ReferenceValueMatrixCell,
 } from '@/lib/referenceValue'
+import {
+  adjustReferenceEntries,
+  buildPriceIndex,
+  TIME_ADJUSTMENT_OPTIONS,
+  type TimeAdjustmentMode,
+} from '@/lib/referenceTimeAdjustment'
 import type { ReferenceSummaryProps } from './complexEditShared'
 
 function formatCoef(value: number | null): string {
@@ -14,13 +28,37 @@ function formatCoef(value: number | null): string {
   return value.toLocaleString('ja-JP', { minimumFractionDigits: value === 1 ? 0 : 2, maximumFractionDigits: 2 })
 }
 
-export function ComplexReferenceSummaries({ referenceRows, maxFloor, hideMaxCoefColumns = false }: ReferenceSummaryProps) {
+function formatOutlierTitle(cell: ReferenceValueMatrixCell): string {
+  return `外れ値候補: ${cell.outliers.map((value) => formatComplexUnitPrice(value)).join(', ')}`
+}
+
+export function ComplexReferenceSummaries({
+  referenceRows: allReferenceRows,
+  maxFloor,
+  hideMaxCoefColumns = false,
+}: ReferenceSummaryProps) {
+  const [statistic, setStatistic] = useState<CentralStatistic>('mean')
+  const [timeAdjustment, setTimeAdjustment] = useState<TimeAdjustmentMode>('none')
+  const [enabledSources, setEnabledSources] = useState<Record<ReferenceSource, boolean>>({ REINS: true, MLIT: true })
+  const referenceRows = filterReferenceRowsBySource(allReferenceRows, enabledSources)
+  const sourceCounts = allReferenceRows.reduce<Record<ReferenceSource, number>>((counts, row) => {
+    const source = resolveReferenceSource(row)
+    return { ...counts, [source]: counts[source] + 1 }
+  }, { REINS: 0, MLIT: 0 })
+  const statisticLabel = CENTRAL_STATISTIC_OPTIONS.find((option) => option.value === statistic)?.label ?? '平均値'
+  const priceIndex = buildPriceIndex(referenceRows, timeAdjustment)
   const { maxRows, meanRows } = buildReferenceValueTables({
-    rows: referenceRows,
+    rows: adjustReferenceEntries(referenceRows, priceIndex),
     maxFloor,
+    statistic,
   })
+  const borrowedComplexes = summarizeBorrowedComplexes(referenceRows)
+  // 時点修正時は補正前の値も並べて表示する
+  const rawTables = priceIndex.rows.length > 0
+    ? buildReferenceValueTables({ rows: referenceRows, maxFloor, statistic })
+    : null
 
-  const renderTable = (title: string, rows: typeof maxRows, hideCoefColumns = false) => (
+  const renderTable = (title: string, rows: typeof maxRows, rawRows: typeof maxRows | null, hideCoefColumns = false) => (
     <div className="space-y-2">
       <div className="text-sm font-medium text-gray-700">{title}</div>
       <div className="overflow-x-auto rounded-lg border border-gray-200">
@@ -37,13 +75,25 @@ export function ComplexReferenceSummaries({ referenceRows, maxFloor, hideMaxCoef
             </tr>
           </thead>
           <tbody>
-            {rows.map((row) => (
+            {rows.map((row, rowIndex) => (
               <tr key={row.floor} className="border-t border-gray-200">
                 <td className="px-3 py-2 whitespace-nowrap">{row.floor}</td>
                 {REFERENCE_VALUE_MATRIX_COLUMNS.map((column) => (
                   <Fragment key={column.key}>
                     <td className="px-3 py-2 text-right tabular-nums whitespace-nowrap">
                       {formatComplexUnitPrice(row.values[column.key].value)}
+                      {row.values[column.key].count > 0 && (
+                        <span className="ml-1 text-[10px] text-gray-400">n={row.values[column.key].count}</span>
+                      )}
+                      {row.values[column.key].borrowedCount > 0 && (
+                        <span className="ml-1 text-[10px] text-sky-700" title="類似団地から借用した事例（類似度補正済み）を含みます">借{row.values[column.key].borrowedCount}</span>
+                      )}
+                      {row.values[column.key].outliers.length > 0 && (
+                        <span className="ml-1 text-[10px] text-amber-700" title={formatOutlierTitle(row.values[column.key])}>外れ値{row.values[column.key].outliers.length}</span>
+                      )}
+                      {rawRows && rawRows[rowIndex]?.values[column.key].value !== row.values[column.key].value && (
+                        <div className="text-[10px] text-gray-400">補正前 {formatComplexUnitPrice(rawRows[rowIndex]?.values[column.key].value ?? null)}</div>
+                      )}
                     </td>
                     {!hideCoefColumns && (
                       <td className="px-3 py-2 text-right tabular-nums whitespace-nowrap">
@@ -62,17 +112,59 @@ export function ComplexReferenceSummaries({ referenceRows, maxFloor, hideMaxCoef
 
   return (
     <section className="space-y-4 rounded-xl border border-gray-200 p-4">
-      <div>
-        <h4 className="font-semibold">参考値</h4>
-        <div className="mt-1 text-xs text-gray-500 space-y-1">
-          <div>MAX値 = 各階の過去成約㎡単価の最大値（各項目ごと）</div>
-          <div>平均値 = 各階の過去成約㎡単価の平均値（各項目ごと）</div>
-          <div>係数 = 1階の値を `1` として計算</div>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h4 className="font-semibold">参考値</h4>
+          <div className="mt-1 text-xs text-gray-500 space-y-1">
+            <div>MAX値 = 各階の過去成約㎡単価の最大値（各項目ごと）</div>
+            <div>{statisticLabel} = 各階の過去成約㎡単価の{statisticLabel}（各項目ごと・トリム平均は上下20%を除外）</div>
+            <div>係数 = 1階の値を `1` として計算</div>
+            <div>n = 件数 / 外れ値 = 四分位範囲（IQR）の1.5倍を超える事例（4件以上で判定）</div>
+            <div>借 = nのうち類似団地から借用した事例の件数</div>
+            <div>国交省 取引価格情報は階数を入力した事例だけが表に入ります（成約日は四半期の中央で扱います）</div>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <div className="flex items-center gap-2 text-xs text-gray-600" title="この表の表示だけを絞り込みます。在庫の値付けには全出典の事例を使います">
+            出典（表示のみ）
+            {REFERENCE_SOURCE_OPTIONS.map((option) => (
+              <label key={option.value} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={enabledSources[option.value]}
+                  onChange={(e) => setEnabledSources((prev) => ({ ...prev, [option.value]: e.target.checked }))}
+                />
+                {option.label}（{sourceCounts[option.value]}件）
+              </label>
+            ))}
+          </div>
+          <label className="text-xs text-gray-600">時点修正
+            <select className="ml-2 border rounded-lg px-2 py-1" value={timeAdjustment} onChange={(e) => setTimeAdjustment(e.target.value as TimeAdjustmentMode)}>
+              {TIME_ADJUSTMENT_OPTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+          <label className="text-xs text-gray-600" title="この表の表示だけを切り替えます。在庫の値付けには使いません">集計方法（表示のみ）
+            <select className="ml-2 border rounded-lg px-2 py-1" value={statistic} onChange={(e) => setStatistic(e.target.value as CentralStatistic)}>
+              {CENTRAL_STATISTIC_OPTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
         </div>
       </div>
+      {priceIndex.targetYear != null && (
+        <div className="text-xs text-gray-600">
+          {priceIndex.targetYear}年（現在）の水準に換算（年率{((priceIndex.annualGrowth ?? 0) * 100).toFixed(1)}%で最終成約年から外挿、成約年不明の事例は補正なし）:{' '}
+          {priceIndex.rows.map((row) => `${row.year}年 ×${row.factor.toFixed(2)}`).join(' / ')}
+        </div>
+      )}
+      {borrowedComplexes.length > 0 && (
+        <div className="rounded-lg bg-sky-50 px-3 py-2 text-xs text-sky-800">
+          自団地の事例が少ないため、同じ駅・近い築年・近い総戸数の団地から事例を借用しています（単価は類似度補正後）:{' '}
+          {borrowedComplexes.map((complex) => `${complex.complexName} ×${complex.adjustment.toFixed(3)}（${complex.count}件）`).join(' / ')}
+        </div>
+      )}
       <div className="grid gap-4">
-        {renderTable('MAX値', maxRows, hideMaxCoefColumns)}
-        {renderTable('平均値', meanRows)}
+        {renderTable('MAX値', maxRows, rawTables?.maxRows ?? null, hideMaxCoefColumns)}
+        {renderTable(statisticLabel, meanRows, rawTables?.meanRows ?? null)}
       </div>
     </section>
   )
@@ -28,6 +28,7 @@ export type ComplexForm = {
   rentCaseMaxMonthlyRent: string
   buildingStructure: BuildingStructure
   floorCount: string
+  floorCoefPattern: string
   sameAddressNewSeismicCase: string
   sameAddressOldSeismicCase: string
   sameStationNewSeismicCase: string
@@ -10,12 +10,23 @@ import { insertComplexEvaluation, updateComplex } from '@/lib/repositories/compl
 import {
   countComplexContractsSince,
   loadComplexEditSnapshot,
-  loadComplexReferenceSummaries,
+  loadComplexReferenceRows,
 } from '@/lib/repositories/complexEdit'
+import { insertFloorPattern, listFloorPatterns, softDeleteFloorPattern } from '@/lib/repositories/floorPatterns'
+import {
+  buildFloorPatternOptions,
+  buildFloorPatternPayload,
+  CUSTOM_FLOOR_PATTERN_PREFIX,
+  toCustomFloorPatternKey,
+  validateFloorPatternDraft,
+  type CustomFloorPattern,
+  type FloorPatternDraft,
+} from '@/lib/floorPatterns'
 import type { ReferenceValueEntry } from '@/lib/referenceValue'
 import { getSupabase } from '@/lib/supabaseClient'
 import { ComplexBasicsSection } from './ComplexBasicsSection'
 import { ComplexEvaluationSection } from './ComplexEvaluationSection'
+import { ComplexFloorPatternSection } from './ComplexFloorPatternSection'
 import {
   type Access,
   type ComplexForm,
@@ -156,6 +167,7 @@ const initialComplex: ComplexForm = {
   rentCaseMaxMonthlyRent: '',
   buildingStructure: '',
   floorCount: '',
+  floorCoefPattern: '',
   sameAddressNewSeismicCase: '',
   sameAddressOldSeismicCase: '',
   sameStationNewSeismicCase: '',
@@ -187,6 +199,9 @@ export default function TabComplexEditPage() {
     ratioPerUnit: null,
   })
   const [referenceRows, setReferenceRows] = useState<ReferenceValueEntry[]>([])
+  const [floorPatterns, setFloorPatterns] = useState<CustomFloorPattern[]>([])
+  const [savingPattern, setSavingPattern] = useState(false)
+  const [patternMsg, setPatternMsg] = useState('')
   const [builtAge, setBuiltAge] = useState<number | null>(null)
   const [saving, setSaving] = useState(false)
   const [loading, setLoading] = useState(false)
@@ -250,8 +265,7 @@ export default function TabComplexEditPage() {
     async function loadConditionSummaries() {
       if (!id) return
       try {
-        const { rows } =
-          await loadComplexReferenceSummaries(supabase, id)
+        const rows = await loadComplexReferenceRows(supabase, id)
 
         if (mounted) {
           setReferenceRows(rows)
@@ -268,6 +282,23 @@ export default function TabComplexEditPage() {
     return () => { mounted = false }
   }, [supabase, id])
 
+  useEffect(() => {
+    let mounted = true
+
+    async function loadPatterns() {
+      try {
+        const patterns = await listFloorPatterns(supabase)
+        if (mounted) setFloorPatterns(patterns)
+      } catch (e) {
+        console.error('[complex/edit:floor-patterns]', e)
+        if (mounted) setPatternMsg('階数効用パターンの読み込みに失敗しました: ' + toErrorMessage(e))
+      }
+    }
+
+    loadPatterns().catch(console.error)
+    return () => { mounted = false }
+  }, [supabase])
+
   useEffect(() => {
     let mounted = true
     async function run() {
@@ -302,6 +333,7 @@ export default function TabComplexEditPage() {
             rentCaseMaxMonthlyRent: typeof complex.rent_case_max_monthly_rent === 'number' ? String(complex.rent_case_max_monthly_rent) : '',
             buildingStructure: (complex.building_structure ?? '') as ComplexForm['buildingStructure'],
             floorCount: typeof complex.floor_count === 'number' ? String(complex.floor_count) : '',
+            floorCoefPattern: complex.floor_coef_pattern ?? '',
             sameAddressNewSeismicCase: complex.same_address_new_seismic_case ?? '',
             sameAddressOldSeismicCase: complex.same_address_old_seismic_case ?? '',
             sameStationNewSeismicCase: complex.same_station_new_seismic_case ?? '',
@@ -358,6 +390,9 @@ export default function TabComplexEditPage() {
     [form.mgmtFee, form.repairReserveFee, form.otherMonthlyFee],
   )
 
+  const floorPatternOptions = useMemo(() => buildFloorPatternOptions(floorPatterns, id ?? null), [floorPatterns, id])
+  const floorCountValue = Number.parseInt(form.floorCount, 10) || null
+
   const marketDealsOptions = useMemo(() => {
     if (marketDealsAuto.value !== 'unregistered') return evalOptions.marketDeals
     return [
@@ -373,6 +408,42 @@ export default function TabComplexEditPage() {
     setEvalForm((prev) => ({ ...prev, [key]: e.target.value }))
   }
 
+  async function handleCreatePattern(draft: FloorPatternDraft): Promise<boolean> {
+    const invalid = validateFloorPatternDraft(draft)
+    if (invalid) { setPatternMsg(invalid); return false }
+    setSavingPattern(true); setPatternMsg('保存中...')
+    try {
+      const { data: { user }, error: uerr } = await supabase.auth.getUser()
+      if (uerr) throw uerr
+      const patternId = await insertFloorPattern(supabase, buildFloorPatternPayload(draft, id ?? null, user?.id))
+      setFloorPatterns(await listFloorPatterns(supabase))
+      setForm((prev) => ({ ...prev, floorCoefPattern: toCustomFloorPatternKey(patternId) }))
+      setPatternMsg('パターンを保存しました（団地情報の更新で確定します）')
+      return true
+    } catch (e) {
+      console.error('[complex/edit:floor-pattern:create]', e)
+      setPatternMsg('パターンの保存に失敗しました: ' + toErrorMessage(e))
+      return false
+    } finally {
+      setSavingPattern(false)
+    }
+  }
+
+  async function handleDeletePattern(key: string) {
+    if (!key.startsWith(CUSTOM_FLOOR_PATTERN_PREFIX)) return
+    if (!window.confirm('このパターンを削除しますか？')) return
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      await softDeleteFloorPattern(supabase, key.slice(CUSTOM_FLOOR_PATTERN_PREFIX.length), user?.id)
+      setFloorPatterns(await listFloorPatterns(supabase))
+      setForm((prev) => ({ ...prev, floorCoefPattern: prev.floorCoefPattern === key ? '' : prev.floorCoefPattern }))
+      setPatternMsg('パターンを削除しました')
+    } catch (e) {
+      console.error('[complex/edit:floor-pattern:delete]', e)
+      setPatternMsg('パターンの削除に失敗しました: ' + toErrorMessage(e))
+    }
+  }
+
   async function handleSubmit(ev: FormEvent<HTMLFormElement>) {
     ev.preventDefault()
     if (!id) { setMsg('対象IDが不明です'); return }
@@ -406,6 +477,7 @@ export default function TabComplexEditPage() {
         unit_count: parseMonthlyAmount(form.unitCount),
         building_structure: form.buildingStructure || null,
         floor_count: parseMonthlyAmount(form.floorCount),
+        floor_coef_pattern: form.floorCoefPattern || null,
         same_address_new_seismic_case: form.sameAddressNewSeismicCase.trim() || null,
         same_address_old_seismic_case: form.sameAddressOldSeismicCase.trim() || null,
         same_station_new_seismic_case: form.sameStationNewSeismicCase.trim() || null,
@@ -498,6 +570,18 @@ export default function TabComplexEditPage() {
 
             <form className="space-y-6" onSubmit={(ev) => { handleSubmit(ev).catch(console.error) }}>
               <ComplexBasicsSection form={form} builtAge={builtAge} totalMonthlyCost={totalMonthlyCost} onComplexChange={onComplexChange} />
+              <ComplexFloorPatternSection
+                floorCoefPattern={form.floorCoefPattern}
+                floorCount={floorCountValue}
+                options={floorPatternOptions}
+                referenceRows={referenceRows}
+                savingPattern={savingPattern}
+                patternMsg={patternMsg}
+                onComplexChange={onComplexChange}
+                onFloorPatternSelect={(key) => setForm((prev) => ({ ...prev, floorCoefPattern: key }))}
+                onCreatePattern={handleCreatePattern}
+                onDeletePattern={handleDeletePattern}
+              />
               <ComplexEvaluationSection
                 evalForm={evalForm}
                 evalOptions={evalOptions}
@@ -506,7 +590,7 @@ export default function TabComplexEditPage() {
                 categoryTotals={categoryTotals}
                 totalScore={totalScore}
                 referenceRows={referenceRows}
-                maxFloor={Number.parseInt(form.floorCount, 10) || null}
+                maxFloor={floorCountValue}
                 saving={saving}
                 onEvalChange={onEvalChange}
               />
@@ -0,0 +1,420 @@
+'use client'
+
+import { useEffect, useMemo, useState, type ChangeEvent, type FormEvent } from 'react'
+import Link from 'next/link'
+import RequireAuth from '@/components/RequireAuth'
+import UserEmail from '@/components/UserEmail'
+import {
+  ACQUISITION_SCALAR_FIELDS,
+  BROKERAGE_SIDES_OPTIONS,
+  buildCostProfilePayload,
+  costProfileToForm,
+  DEFAULT_COST_PROFILE,
+  nextCostProfileVersion,
+  resolveActiveCostProfile,
+  validateCostProfileForm,
+  type AcquisitionScalarKey,
+  type AcquisitionTaxDeductionForm,
+  type BrokerageMode,
+  type BrokerageSides,
+  type CostProfile,
+  type CostProfileForm,
+  type MoveCostBandForm,
+  type OtherCostMode,
+  type StampDutyBandForm,
+} from '@/lib/costProfile'
+import { insertCostProfile, listCostProfiles } from '@/lib/repositories/costProfiles'
+import { formatYen } from '@/lib/stockPricing'
+import { getSupabase } from '@/lib/supabaseClient'
+
+type ScalarField = Exclude<
+  keyof CostProfileForm,
+  'moveCostBands' | 'otherCostMode' | 'acquisitionCost' | 'acquisitionTaxDeductions' | 'stampDutyBands' | 'brokerageMode' | 'brokerageSides'
+>
+
+function toErrorMessage(e: unknown): string {
+  if (e instanceof Error) return e.message
+  if (typeof e === 'string') return e
+  try { return JSON.stringify(e) } catch { return 'Unknown error' }
+}
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toLocaleString('ja-JP', { maximumFractionDigits: 2 })}%`
+}
+
+function formatBrokerage(profile: CostProfile): string {
+  const rule = profile.brokerage
+  const sides = BROKERAGE_SIDES_OPTIONS.find((option) => option.value === rule.sides)?.label ?? rule.sides
+  if (rule.mode === 'flat') return `${formatYen(rule.thresholdPrice)}未満 ${formatYen(rule.flatFee)} / 以上 ${formatPercent(rule.rate)}（${sides}）`
+  const lowPrice = rule.lowPriceCeiling > 0 ? `・${formatYen(rule.lowPriceLimit)}以下は${formatYen(rule.lowPriceCeiling)}` : ''
+  return `法定上限 税${formatPercent(rule.taxRate)}${lowPrice}（${sides}）`
+}
+
+function formatBands(profile: CostProfile): string {
+  return profile.moveCostBands
+    .map((band) => `${band.minArea}㎡〜 ${band.unitCost.toLocaleString('ja-JP')}円/㎡${band.slopePerSqm ? `（1㎡毎に-${band.slopePerSqm}円）` : ''}`)
+    .join(' / ')
+}
+
+export default function CostProfilePage() {
+  const supabase = getSupabase()
+  const [profiles, setProfiles] = useState<CostProfile[]>([])
+  const [form, setForm] = useState<CostProfileForm>(costProfileToForm(DEFAULT_COST_PROFILE))
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [msg, setMsg] = useState('')
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    let mounted = true
+    async function run() {
+      setLoading(true)
+      try {
+        const list = await listCostProfiles(supabase)
+        if (mounted) {
+          setProfiles(list)
+          setForm(costProfileToForm(resolveActiveCostProfile(list)))
+        }
+      } catch (e) {
+        console.error(e)
+        if (mounted) setMsg('原価モデルの取得に失敗しました: ' + toErrorMessage(e))
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+    run()
+    return () => { mounted = false }
+  }, [supabase, reloadKey])
+
+  const activeProfile = useMemo(() => resolveActiveCostProfile(profiles), [profiles])
+  const nextVersion = useMemo(() => nextCostProfileVersion(profiles), [profiles])
+
+  const onFieldChange = (key: ScalarField) => (e: ChangeEvent<HTMLInputElement>) => {
+    setForm((prev) => ({ ...prev, [key]: e.target.value }))
+  }
+
+  const onAcquisitionChange = (key: AcquisitionScalarKey) => (e: ChangeEvent<HTMLInputElement>) => {
+    setForm((prev) => ({ ...prev, acquisitionCost: { ...prev.acquisitionCost, [key]: e.target.value } }))
+  }
+
+  const onBandChange = (index: number, key: keyof MoveCostBandForm) => (e: ChangeEvent<HTMLInputElement>) => {
+    setForm((prev) => ({
+      ...prev,
+      moveCostBands: prev.moveCostBands.map((band, i) => (i === index ? { ...band, [key]: e.target.value } : band)),
+    }))
+  }
+
+  function addBand() {
+    setForm((prev) => ({ ...prev, moveCostBands: [...prev.moveCostBands, { minArea: '', unitCost: '', slopePerSqm: '0' }] }))
+  }
+
+  function removeBand(index: number) {
+    setForm((prev) => ({ ...prev, moveCostBands: prev.moveCostBands.filter((_, i) => i !== index) }))
+  }
+
+  const onDeductionChange = (index: number, key: keyof AcquisitionTaxDeductionForm) => (e: ChangeEvent<HTMLInputElement>) => {
+    setForm((prev) => ({
+      ...prev,
+      acquisitionTaxDeductions: prev.acquisitionTaxDeductions.map((item, i) => (i === index ? { ...item, [key]: e.target.value } : item)),
+    }))
+  }
+
+  function addDeduction() {
+    setForm((prev) => ({ ...prev, acquisitionTaxDeductions: [...prev.acquisitionTaxDeductions, { builtFrom: '', deduction: '' }] }))
+  }
+
+  function removeDeduction(index: number) {
+    setForm((prev) => ({ ...prev, acquisitionTaxDeductions: prev.acquisitionTaxDeductions.filter((_, i) => i !== index) }))
+  }
+
+  const onStampBandChange = (index: number, key: keyof StampDutyBandForm) => (e: ChangeEvent<HTMLInputElement>) => {
+    setForm((prev) => ({
+      ...prev,
+      stampDutyBands: prev.stampDutyBands.map((band, i) => (i === index ? { ...band, [key]: e.target.value } : band)),
+    }))
+  }
+
+  function addStampBand() {
+    setForm((prev) => ({ ...prev, stampDutyBands: [...prev.stampDutyBands, { maxPrice: '', amount: '' }] }))
+  }
+
+  function removeStampBand(index: number) {
+    setForm((prev) => ({ ...prev, stampDutyBands: prev.stampDutyBands.filter((_, i) => i !== index) }))
+  }
+
+  async function handleSubmit(ev: FormEvent<HTMLFormElement>) {
+    ev.preventDefault()
+    const invalid = validateCostProfileForm(form)
+    if (invalid) { setMsg(invalid); return }
+    setSaving(true); setMsg('保存中...')
+    try {
+      const { data: { user }, error: uerr } = await supabase.auth.getUser()
+      if (uerr) throw uerr
+      if (!user) { setMsg('ログインが必要です'); setSaving(false); return }
+      await insertCostProfile(supabase, buildCostProfilePayload(form, nextVersion, user.id))
+      setMsg(`v${nextVersion} として保存しました`)
+      setReloadKey((k) => k + 1)
+    } catch (e) {
+      console.error('[cost-profile/save]', e)
+      setMsg('保存に失敗しました: ' + toErrorMessage(e))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <RequireAuth>
+      <div className="bg-gray-50 text-gray-900 min-h-screen">
+        <header className="bg-white border-b sticky top-0 z-50">
+          <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="h-8 w-8 rounded-xl bg-gray-900 text-white grid place-items-center font-bold">DX</div>
+              <h1 className="text-lg font-semibold">原価モデル（買付目標額の計算条件）</h1>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <UserEmail />
+              <button className="px-3 py-1.5 bg-gray-100 rounded-lg" onClick={() => { supabase.auth.signOut().then(() => { window.location.href = '/' }) }}>
+                サインアウト
+              </button>
+            </div>
+          </div>
+          <nav className="max-w-7xl mx-auto px-4 pb-2 pt-1">
+            <ul className="flex flex-wrap gap-2 text-sm">
+              <li><Link href="/tab-complex-list" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">団地一覧</Link></li>
+              <li><Link href="/tab-stock" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">在庫一覧</Link></li>
+              <li><Link href="/tab-stock-reg" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">在庫登録</Link></li>
+              <li><span className="tabbtn px-3 py-1.5 rounded-lg bg-black text-white">原価モデル</span></li>
+            </ul>
+          </nav>
+        </header>
+
+        <main className="max-w-7xl mx-auto p-4 space-y-6">
+          <section className="bg-white rounded-2xl shadow p-5 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold">登録済みの版</h2>
+              <span className="text-sm text-gray-500">{loading ? '読み込み中...' : `全${profiles.length}件`}</span>
+            </div>
+            <div className="overflow-x-auto rounded-lg border border-gray-200">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50 text-gray-600">
+                  <tr>
+                    <th className="px-3 py-2 text-left">版</th>
+                    <th className="px-3 py-2 text-left">名称</th>
+                    <th className="px-3 py-2 text-left">適用開始日</th>
+                    <th className="px-3 py-2 text-left">リノベ費用（面積帯）</th>
+                    <th className="px-3 py-2 text-right">仲介手数料</th>
+                    <th className="px-3 py-2 text-right">諸費用</th>
+                    <th className="px-3 py-2 text-right">除数</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {profiles.map((profile) => (
+                    <tr key={profile.id ?? profile.version} className={`border-t ${profile.id === activeProfile.id ? 'bg-amber-50' : ''}`}>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        v{profile.version}
+                        {profile.id === activeProfile.id && <span className="ml-1 px-1.5 py-0.5 rounded bg-emerald-100 text-emerald-700">適用中</span>}
+                      </td>
+                      <td className="px-3 py-2">{profile.name}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{profile.effectiveFrom}</td>
+                      <td className="px-3 py-2">{formatBands(profile)}</td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap num">{formatBrokerage(profile)}</td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap num">
+                        {profile.otherCostMode === 'itemized' ? '内訳計算' : formatPercent(profile.otherCostRate)}
+                      </td>
+                      <td className="px-3 py-2 text-right num">{profile.marginDivisor}</td>
+                    </tr>
+                  ))}
+                  {!loading && profiles.length === 0 && (
+                    <tr className="border-t">
+                      <td className="px-3 py-2 text-gray-500" colSpan={7}>登録された版はありません（初期値で計算しています）</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <section className="bg-white rounded-2xl shadow p-5 space-y-6">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold">新しい版を登録（v{nextVersion}）</h2>
+              <span className="text-sm text-gray-500">{msg || '適用中の版を元に編集できます'}</span>
+            </div>
+
+            <form className="space-y-6" onSubmit={(ev) => { handleSubmit(ev).catch(console.error) }}>
+              <div className="grid md:grid-cols-2 gap-4 text-sm">
+                <label className="block">名称
+                  <input type="text" className="mt-1 w-full border rounded-lg px-3 py-2" placeholder="例）2026年度 標準" value={form.name} onChange={onFieldChange('name')} />
+                </label>
+                <label className="block">適用開始日
+                  <input type="date" className="mt-1 w-full border rounded-lg px-3 py-2" value={form.effectiveFrom} onChange={onFieldChange('effectiveFrom')} />
+                </label>
+              </div>
+
+              <section className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">リノベ費用（㎡単価 × 面積）</h3>
+                  <button type="button" className="px-3 py-1.5 rounded-lg bg-gray-100 text-sm" onClick={addBand}>面積帯を追加</button>
+                </div>
+                <p className="text-xs text-gray-500">面積が下限以上の帯のうち最も大きい帯を適用します。㎡単価 = 基準単価 - (面積 - 下限面積) × 逓減額</p>
+                <div className="space-y-2">
+                  {form.moveCostBands.map((band, index) => (
+                    <div key={index} className="grid md:grid-cols-[1fr_1fr_1fr_auto] gap-3 text-sm items-end">
+                      <label className="block">下限面積（㎡）
+                        <input type="number" min="0" step="0.01" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={band.minArea} onChange={onBandChange(index, 'minArea')} />
+                      </label>
+                      <label className="block">基準単価（円/㎡）
+                        <input type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={band.unitCost} onChange={onBandChange(index, 'unitCost')} />
+                      </label>
+                      <label className="block">逓減額（円/㎡・1㎡毎）
+                        <input type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={band.slopePerSqm} onChange={onBandChange(index, 'slopePerSqm')} />
+                      </label>
+                      <button type="button" className="px-3 py-2 rounded-lg bg-gray-100 text-sm text-red-700" onClick={() => removeBand(index)}>削除</button>
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h3 className="font-semibold">仲介手数料・その他費用・利益</h3>
+                <div className="grid md:grid-cols-3 gap-4 text-sm">
+                  <label className="block">仲介手数料の計算方法
+                    <select
+                      className="mt-1 w-full border rounded-lg px-3 py-2"
+                      value={form.brokerageMode}
+                      onChange={(e) => setForm((prev) => ({ ...prev, brokerageMode: e.target.value as BrokerageMode }))}
+                    >
+                      <option value="statutory">法定上限（物件価格に対する3%+6万円等・税込）</option>
+                      <option value="flat">定額・定率（募集総額に対して）</option>
+                    </select>
+                  </label>
+                  <label className="block">仲介手数料を支払う取引
+                    <select
+                      className="mt-1 w-full border rounded-lg px-3 py-2"
+                      value={form.brokerageSides}
+                      onChange={(e) => setForm((prev) => ({ ...prev, brokerageSides: e.target.value as BrokerageSides }))}
+                    >
+                      {BROKERAGE_SIDES_OPTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
+                  </label>
+                  {form.brokerageMode === 'statutory' ? (
+                    <>
+                      <label className="block">消費税率（例 0.1）
+                        <input type="number" min="0" step="0.01" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.brokerageTaxRate} onChange={onFieldChange('brokerageTaxRate')} />
+                      </label>
+                      <label className="block">低廉な空家等の対象上限（物件価格・円以下）
+                        <input type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.brokerageLowPriceLimit} onChange={onFieldChange('brokerageLowPriceLimit')} />
+                      </label>
+                      <label className="block">低廉な空家等の報酬上限（税別・0で適用しない）
+                        <input type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.brokerageLowPriceCeiling} onChange={onFieldChange('brokerageLowPriceCeiling')} />
+                      </label>
+                    </>
+                  ) : (
+                    <>
+                      <label className="block">定額適用の上限（募集総額・円未満）
+                        <input type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.brokerageThreshold} onChange={onFieldChange('brokerageThreshold')} />
+                      </label>
+                      <label className="block">定額手数料（円）
+                        <input type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.brokerageFlatFee} onChange={onFieldChange('brokerageFlatFee')} />
+                      </label>
+                      <label className="block">料率（上限以上・例 0.055）
+                        <input type="number" min="0" step="0.001" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.brokerageRate} onChange={onFieldChange('brokerageRate')} />
+                      </label>
+                    </>
+                  )}
+                  <label className="block">諸費用の計算方法
+                    <select
+                      className="mt-1 w-full border rounded-lg px-3 py-2"
+                      value={form.otherCostMode}
+                      onChange={(e) => setForm((prev) => ({ ...prev, otherCostMode: e.target.value as OtherCostMode }))}
+                    >
+                      <option value="itemized">内訳計算（税金・登記費用等を積み上げ）</option>
+                      <option value="flat">一律（その他費用率）</option>
+                    </select>
+                  </label>
+                  {form.otherCostMode === 'flat' && (
+                    <label className="block">その他費用率（募集総額比・例 0.075）
+                      <input type="number" min="0" step="0.001" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.otherCostRate} onChange={onFieldChange('otherCostRate')} />
+                    </label>
+                  )}
+                  <label className="block">利益率の除数（目標成約価格 ÷ 除数 = 募集総額）
+                    <input type="number" min="0" step="0.01" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.marginDivisor} onChange={onFieldChange('marginDivisor')} />
+                  </label>
+                </div>
+              </section>
+
+              {form.otherCostMode === 'itemized' && (
+                <section className="space-y-2">
+                  <h3 className="font-semibold">諸費用の内訳計算</h3>
+                  <p className="text-xs text-gray-500">
+                    登録免許税・不動産取得税は固定資産税評価額から、印紙税は物件価格の区分から計算します。不動産取得税の控除額は築年月と面積（下限〜上限）で判定します。
+                  </p>
+                  <div className="grid md:grid-cols-3 gap-4 text-sm">
+                    {ACQUISITION_SCALAR_FIELDS.map((field) => (
+                      <label key={field.key} className="block">{field.label}
+                        <input
+                          type="number"
+                          min="0"
+                          step={field.step}
+                          className="mt-1 w-full border rounded-lg px-3 py-2 num"
+                          value={form.acquisitionCost[field.key]}
+                          onChange={onAcquisitionChange(field.key)}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <div className="grid md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <h4 className="text-sm font-semibold">不動産取得税の築年控除</h4>
+                        <button type="button" className="px-3 py-1.5 rounded-lg bg-gray-100 text-sm" onClick={addDeduction}>行を追加</button>
+                      </div>
+                      <p className="text-xs text-gray-500">新築年月が開始年月以降の行のうち、最も新しい行の控除額を使います。</p>
+                      {form.acquisitionTaxDeductions.map((item, index) => (
+                        <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-3 text-sm items-end">
+                          <label className="block">新築年月（以降）
+                            <input type="month" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={item.builtFrom} onChange={onDeductionChange(index, 'builtFrom')} />
+                          </label>
+                          <label className="block">控除額（円）
+                            <input type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={item.deduction} onChange={onDeductionChange(index, 'deduction')} />
+                          </label>
+                          <button type="button" className="px-3 py-2 rounded-lg bg-gray-100 text-sm text-red-700" onClick={() => removeDeduction(index)}>削除</button>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <h4 className="text-sm font-semibold">印紙税の価格帯</h4>
+                        <button type="button" className="px-3 py-1.5 rounded-lg bg-gray-100 text-sm" onClick={addStampBand}>価格帯を追加</button>
+                      </div>
+                      <p className="text-xs text-gray-500">物件価格が上限以下の帯のうち最も小さい帯の税額を使います（最上位の帯を超える場合は最上位の税額）。</p>
+                      {form.stampDutyBands.map((band, index) => (
+                        <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-3 text-sm items-end">
+                          <label className="block">上限価格（円以下）
+                            <input type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={band.maxPrice} onChange={onStampBandChange(index, 'maxPrice')} />
+                          </label>
+                          <label className="block">税額（円）
+                            <input type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={band.amount} onChange={onStampBandChange(index, 'amount')} />
+                          </label>
+                          <button type="button" className="px-3 py-2 rounded-lg bg-gray-100 text-sm text-red-700" onClick={() => removeStampBand(index)}>削除</button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </section>
+              )}
+
+              <div className="flex items-center justify-end gap-2">
+                <button type="button" className="px-3 py-1.5 rounded-lg bg-gray-100 text-sm" onClick={() => { setForm(costProfileToForm(activeProfile)); setMsg('') }}>
+                  適用中の版に戻す
+                </button>
+                <button type="submit" className="px-3 py-1.5 rounded-lg bg-black text-white text-sm disabled:opacity-60" disabled={saving}>
+                  {saving ? '保存中...' : '新しい版として保存'}
+                </button>
+              </div>
+            </form>
+          </section>
+        </main>
+      </div>
+    </RequireAuth>
+  )
+}
@@ -1,8 +1,11 @@
 'use client'
 
+import { useMemo } from 'react'
 import Link from 'next/link'
 import RequireAuth from '@/components/RequireAuth'
+import TableExportButtons from '@/components/TableExportButtons'
 import UserEmail from '@/components/UserEmail'
+import { buildEntryExportRows, ENTRY_EXPORT_COLUMNS } from '@/lib/listExports'
 import { TabListFilters } from './TabListFilters'
 import { TabListTable } from './TabListTable'
 import { useTabList } from './useTabList'
@@ -38,6 +41,7 @@ export default function TabListClient() {
     handleDelete,
     handleOpenPdf,
   } = useTabList()
+  const exportRows = useMemo(() => buildEntryExportRows(selectedComplex, filteredAndSorted), [selectedComplex, filteredAndSorted])
 
   return (
     <RequireAuth>
@@ -113,6 +117,15 @@ export default function TabListClient() {
                 <Link className="underline text-blue-700" href="/tab-regist">過去成約を追加</Link>
                 <Link className="underline text-blue-700" href={`/tab-stock?complexId=${encodeURIComponent(selectedComplexId)}`}>在庫一覧へ</Link>
                 <Link className="underline text-blue-700" href="/tab-stock-reg">在庫登録へ</Link>
+                <Link className="underline text-blue-700" href={`/tab-list/duplicates?complexId=${encodeURIComponent(selectedComplexId)}`}>重複成約を確認</Link>
+                <span className="flex-1" />
+                <TableExportButtons
+                  filenamePrefix="entries"
+                  sheetName="過去成約"
+                  columns={ENTRY_EXPORT_COLUMNS}
+                  rows={exportRows}
+                  disabled={loadingEntries}
+                />
               </div>
             </div>
           </section>
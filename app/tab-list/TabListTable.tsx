@@ -86,6 +86,7 @@ export function TabListTable({
                     <option value="MAX">MAX</option>
                     <option value="MINI">MINI</option>
                   </select>
+                  {row.source === 'MLIT' && <div className="mt-1 text-[10px] text-sky-700">国交省データ</div>}
                 </td>
                 <td className="p-2">{selectedComplex?.name ?? '—'}</td>
                 <td className="p-2">{locationText}</td>
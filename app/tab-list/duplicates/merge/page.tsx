@@ -0,0 +1,271 @@
+'use client'
+
+import { Suspense, useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import RequireAuth from '@/components/RequireAuth'
+import UserEmail from '@/components/UserEmail'
+import {
+  buildDefaultMergeChoice,
+  buildEntryMergePayloads,
+  ENTRY_MERGE_FIELDS,
+  hasMergedKindConflict,
+  readEntryMergeValue,
+  type EntryDuplicateRow,
+  type EntryMergeChoice,
+  type EntryMergeField,
+  type EntryMergeSide,
+} from '@/lib/entryDuplicates'
+import type { EntryContractKind } from '@/lib/entryDrafts'
+import { CONDITION_STATUS_OPTIONS } from '@/lib/referenceValue'
+import { createEntryPdfSignedUrl, listTabListEntries, mergeTabListEntries } from '@/lib/repositories/tabList'
+import { getSupabase } from '@/lib/supabaseClient'
+import { useClientSearchParams } from '@/lib/useClientSearchParams'
+import { toErrorMessage } from '../../tabListShared'
+
+function formatMergeValue(field: EntryMergeField, value: string | number | boolean | null): string {
+  if (value == null || value === '') return '—'
+  if (field === 'has_elevator') return value ? 'あり' : 'なし'
+  if (field === 'contract_price') return `${Math.round(Number(value)).toLocaleString('ja-JP')}円`
+  if (field === 'built_month') return String(value).slice(0, 7)
+  if (field === 'condition_status') return CONDITION_STATUS_OPTIONS.find((x) => x.value === value)?.label ?? String(value)
+  if (field === 'mysoku_pdf_path') return String(value).split('/').pop() ?? String(value)
+  return String(value)
+}
+
+function sourceLabel(row: EntryDuplicateRow): string {
+  if (row.source === 'MLIT') return '国交省'
+  return row.source ?? 'REINS'
+}
+
+function TabListMergeContent() {
+  const supabase = getSupabase()
+  const router = useRouter()
+  const searchParams = useClientSearchParams()
+  const complexId = searchParams?.get('complexId') ?? ''
+
+  const [entries, setEntries] = useState<EntryDuplicateRow[]>([])
+  const [keepId, setKeepId] = useState('')
+  const [dropId, setDropId] = useState('')
+  const [choice, setChoice] = useState<EntryMergeChoice | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [openingPdf, setOpeningPdf] = useState(false)
+  const [msg, setMsg] = useState('')
+
+  useEffect(() => {
+    if (!searchParams) return
+    setKeepId(searchParams.get('keep') ?? '')
+    setDropId(searchParams.get('drop') ?? '')
+  }, [searchParams])
+
+  useEffect(() => {
+    if (!complexId) return
+    let mounted = true
+    async function run() {
+      try {
+        setLoading(true)
+        const rows = await listTabListEntries(supabase, complexId)
+        if (mounted) setEntries(rows)
+      } catch (e) {
+        console.error('[tab-list:merge:entries]', e)
+        if (mounted) setMsg('過去成約の取得に失敗しました: ' + toErrorMessage(e))
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+    run()
+    return () => { mounted = false }
+  }, [supabase, complexId])
+
+  const keep = useMemo(() => entries.find((row) => row.id === keepId) ?? null, [entries, keepId])
+  const drop = useMemo(() => entries.find((row) => row.id === dropId) ?? null, [entries, dropId])
+
+  useEffect(() => {
+    setChoice(keep && drop ? buildDefaultMergeChoice(keep, drop) : null)
+  }, [keep, drop])
+
+  const mergedKind = keep && drop && choice
+    ? (readEntryMergeValue(choice.contract_kind === 'drop' ? drop : keep, 'contract_kind') as EntryContractKind)
+    : null
+  const kindConflict = keep && drop ? hasMergedKindConflict(entries, keep, drop, mergedKind) : false
+  const backHref = `/tab-list/duplicates?complexId=${encodeURIComponent(complexId)}`
+
+  function handleSwap() {
+    setKeepId(dropId)
+    setDropId(keepId)
+  }
+
+  function updateChoice(field: EntryMergeField, side: EntryMergeSide) {
+    setChoice((prev) => (prev ? { ...prev, [field]: side } : prev))
+  }
+
+  async function handleOpenPdf(path: string) {
+    try {
+      setOpeningPdf(true)
+      window.open(await createEntryPdfSignedUrl(supabase, path), '_blank', 'noopener,noreferrer')
+    } catch (e) {
+      console.error('[tab-list:merge:pdf]', e)
+      setMsg('PDFを開けませんでした: ' + toErrorMessage(e))
+    } finally {
+      setOpeningPdf(false)
+    }
+  }
+
+  async function handleMerge() {
+    setMsg('')
+    if (!keep || !drop || !choice) return
+    if (kindConflict) { setMsg(`この団地には他に${mergedKind}の成約があります。ラベルを選び直してください`); return }
+    if (!window.confirm('選んだ値で残す側の成約を更新し、紐づく在庫を付け替えてもう一方を削除します。よろしいですか？')) return
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError) { setMsg('認証エラー: ' + authError.message); return }
+    if (!user) { setMsg('ログインが必要です'); return }
+
+    try {
+      setSaving(true)
+      const { keepPayload, dropPayload } = buildEntryMergePayloads({ keep, drop, choice, userId: user.id })
+      await mergeTabListEntries(supabase, keep.id, keepPayload, drop.id, dropPayload)
+      router.push(backHref)
+    } catch (e) {
+      console.error('[tab-list:merge:save]', e)
+      setMsg('統合に失敗しました: ' + toErrorMessage(e))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <RequireAuth>
+      <div className="bg-gray-50 text-gray-900 min-h-screen">
+        <header className="bg-white border-b sticky top-0 z-50">
+          <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="h-8 w-8 rounded-xl bg-gray-900 text-white grid place-items-center font-bold">DX</div>
+              <h1 className="text-lg font-semibold">重複成約の統合</h1>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <UserEmail />
+              <button
+                className="px-3 py-1.5 bg-gray-100 rounded-lg"
+                onClick={() => { supabase.auth.signOut().then(() => { window.location.href = '/' }) }}
+              >
+                サインアウト
+              </button>
+            </div>
+          </div>
+          <nav className="max-w-7xl mx-auto px-4 pb-2 pt-1">
+            <ul className="flex flex-wrap items-center gap-2 text-sm">
+              <li><Link href="/tab-complex-list" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">団地一覧</Link></li>
+              <li><Link href={`/tab-list?complexId=${encodeURIComponent(complexId)}`} className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">過去成約一覧</Link></li>
+              <li><Link href={backHref} className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">重複成約</Link></li>
+              <li><span className="tabbtn px-3 py-1.5 rounded-lg bg-black text-white">統合</span></li>
+            </ul>
+          </nav>
+        </header>
+
+        <main className="max-w-7xl mx-auto p-4 space-y-6">
+          <section className="bg-white rounded-2xl shadow p-5 space-y-5">
+            <div>
+              <h2 className="text-lg font-semibold">項目ごとに残す値を選ぶ</h2>
+              {msg ? (
+                <p className="mt-1 inline-flex items-center rounded-lg border border-red-200 bg-red-50 px-3 py-1 text-sm font-semibold text-red-700">
+                  {msg}
+                </p>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  残す側の成約を選んだ値で更新し、統合される側は削除済みにして残す側を参照させます。統合される側に紐づく在庫は残す側に付け替えます。残す側が空欄の項目は統合される側の値を初期選択にしています。
+                </p>
+              )}
+            </div>
+
+            {loading ? (
+              <p className="text-sm text-gray-500">読み込み中...</p>
+            ) : !keep || !drop || !choice ? (
+              <p className="text-sm text-gray-500">
+                統合する成約が見つかりません。すでに統合・削除されている可能性があります。
+                <Link className="ml-2 underline text-blue-700" href={backHref}>重複成約の一覧へ戻る</Link>
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <div className="overflow-x-auto rounded-xl border border-gray-200">
+                  <table className="min-w-[720px] w-full text-sm">
+                    <thead className="bg-gray-100 text-gray-700">
+                      <tr>
+                        <th className="text-left p-2 border-b w-44">項目</th>
+                        <th className="text-left p-2 border-b">残す側（{sourceLabel(keep)}・{keep.created_at.slice(0, 10)}登録）</th>
+                        <th className="text-left p-2 border-b">統合される側（{sourceLabel(drop)}・{drop.created_at.slice(0, 10)}登録）</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {ENTRY_MERGE_FIELDS.map(({ key, label }) => {
+                        const keepValue = readEntryMergeValue(keep, key)
+                        const dropValue = readEntryMergeValue(drop, key)
+                        const same = keepValue === dropValue
+                        return (
+                          <tr key={key} className={`border-b ${same ? 'text-gray-500' : ''}`}>
+                            <td className="p-2 font-medium">{label}</td>
+                            {([['keep', keepValue], ['drop', dropValue]] as const).map(([side, value]) => (
+                              <td key={side} className="p-2">
+                                <label className="inline-flex items-center gap-2">
+                                  <input
+                                    type="radio"
+                                    name={`merge-${key}`}
+                                    checked={choice[key] === side}
+                                    disabled={same}
+                                    onChange={() => updateChoice(key, side)}
+                                  />
+                                  <span>{formatMergeValue(key, value)}</span>
+                                </label>
+                                {key === 'mysoku_pdf_path' && typeof value === 'string' && value && (
+                                  <button
+                                    type="button"
+                                    className="ml-2 text-xs underline text-blue-700 disabled:opacity-50"
+                                    disabled={openingPdf}
+                                    onClick={() => { handleOpenPdf(value).catch(console.error) }}
+                                  >
+                                    開く
+                                  </button>
+                                )}
+                              </td>
+                            ))}
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                {kindConflict && (
+                  <p className="text-sm text-red-600">この団地には他に{mergedKind}の成約があるため、このラベルでは統合できません。</p>
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                  <button type="button" className="px-4 py-2 bg-gray-100 rounded-lg text-sm" onClick={handleSwap}>
+                    残す側を入れ替える
+                  </button>
+                  <span className="flex-1" />
+                  <Link className="px-4 py-2 bg-gray-100 rounded-lg text-sm" href={backHref}>キャンセル</Link>
+                  <button
+                    type="button"
+                    className="px-4 py-2 bg-black text-white rounded-lg text-sm disabled:opacity-60"
+                    disabled={saving || kindConflict}
+                    onClick={() => { handleMerge().catch(console.error) }}
+                  >
+                    {saving ? '統合中...' : '統合する'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </section>
+        </main>
+      </div>
+    </RequireAuth>
+  )
+}
+
+export default function TabListMergePage() {
+  return (
+    <Suspense fallback={null}>
+      <TabListMergeContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,218 @@
+'use client'
+
+import { Suspense, useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import RequireAuth from '@/components/RequireAuth'
+import UserEmail from '@/components/UserEmail'
+import {
+  ENTRY_DUPLICATE_AREA_TOLERANCE,
+  ENTRY_DUPLICATE_DATE_TOLERANCE_DAYS,
+  ENTRY_DUPLICATE_PRICE_TOLERANCE,
+  findEntryDuplicatePairs,
+  type EntryDuplicateRow,
+} from '@/lib/entryDuplicates'
+import { effectivePrice } from '@/lib/entryMath'
+import { CONDITION_STATUS_OPTIONS } from '@/lib/referenceValue'
+import { listTabListComplexes, listTabListEntries, type TabListComplexOption } from '@/lib/repositories/tabList'
+import { getSupabase } from '@/lib/supabaseClient'
+import { useClientSearchParams } from '@/lib/useClientSearchParams'
+import { toErrorMessage } from '../tabListShared'
+
+function formatYen(v: number | null): string {
+  if (v == null) return '—'
+  return `${Math.round(v).toLocaleString('ja-JP')}円`
+}
+
+function statusLabel(v: string | null): string {
+  if (!v) return '—'
+  return CONDITION_STATUS_OPTIONS.find((x) => x.value === v)?.label ?? v
+}
+
+function sourceLabel(row: EntryDuplicateRow): string {
+  if (row.source === 'MLIT') return '国交省'
+  return row.source ?? 'REINS'
+}
+
+function buildMergeHref(complexId: string, keepId: string, dropId: string): string {
+  const params = new URLSearchParams({ complexId, keep: keepId, drop: dropId })
+  return `/tab-list/duplicates/merge?${params.toString()}`
+}
+
+function TabListDuplicatesContent() {
+  const supabase = getSupabase()
+  const searchParams = useClientSearchParams()
+
+  const [complexes, setComplexes] = useState<TabListComplexOption[]>([])
+  const [selectedComplexId, setSelectedComplexId] = useState('')
+  const [entries, setEntries] = useState<EntryDuplicateRow[]>([])
+  const [loading, setLoading] = useState(false)
+  const [msg, setMsg] = useState('')
+
+  useEffect(() => {
+    let mounted = true
+    async function run() {
+      try {
+        const list = await listTabListComplexes(supabase)
+        if (!mounted) return
+        setComplexes(list)
+        const requestedId = searchParams?.get('complexId') ?? ''
+        setSelectedComplexId((prev) => {
+          if (requestedId && list.some((x) => x.id === requestedId)) return requestedId
+          if (prev && list.some((x) => x.id === prev)) return prev
+          return list[0]?.id ?? ''
+        })
+      } catch (e) {
+        console.error('[tab-list:duplicates:complexes]', e)
+        if (mounted) setMsg('団地一覧の取得に失敗しました: ' + toErrorMessage(e))
+      }
+    }
+    run()
+    return () => { mounted = false }
+  }, [supabase, searchParams])
+
+  useEffect(() => {
+    if (!selectedComplexId) { setEntries([]); return }
+    let mounted = true
+    async function run() {
+      try {
+        setLoading(true)
+        setMsg('')
+        const rows = await listTabListEntries(supabase, selectedComplexId)
+        if (mounted) setEntries(rows)
+      } catch (e) {
+        console.error('[tab-list:duplicates:entries]', e)
+        if (mounted) setMsg('過去成約の取得に失敗しました: ' + toErrorMessage(e))
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+    run()
+    return () => { mounted = false }
+  }, [supabase, selectedComplexId])
+
+  const pairs = useMemo(() => findEntryDuplicatePairs(entries), [entries])
+
+  return (
+    <RequireAuth>
+      <div className="bg-gray-50 text-gray-900 min-h-screen">
+        <header className="bg-white border-b sticky top-0 z-50">
+          <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="h-8 w-8 rounded-xl bg-gray-900 text-white grid place-items-center font-bold">DX</div>
+              <h1 className="text-lg font-semibold">重複成約の確認</h1>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <UserEmail />
+              <button
+                className="px-3 py-1.5 bg-gray-100 rounded-lg"
+                onClick={() => { supabase.auth.signOut().then(() => { window.location.href = '/' }) }}
+              >
+                サインアウト
+              </button>
+            </div>
+          </div>
+          <nav className="max-w-7xl mx-auto px-4 pb-2 pt-1">
+            <ul className="flex flex-wrap items-center gap-2 text-sm">
+              <li><Link href="/tab-complex-list" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">団地一覧</Link></li>
+              <li><Link href="/tab-regist" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">過去成約登録</Link></li>
+              <li><Link href={`/tab-list?complexId=${encodeURIComponent(selectedComplexId)}`} className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">過去成約一覧</Link></li>
+              <li><span className="tabbtn px-3 py-1.5 rounded-lg bg-black text-white">重複成約</span></li>
+            </ul>
+          </nav>
+        </header>
+
+        <main className="max-w-7xl mx-auto p-4 space-y-6">
+          <section className="bg-white rounded-2xl shadow p-5 space-y-5">
+            <div>
+              <h2 className="text-lg font-semibold">同じ取引の二重登録を探す</h2>
+              {msg ? (
+                <p className="mt-1 inline-flex items-center rounded-lg border border-red-200 bg-red-50 px-3 py-1 text-sm font-semibold text-red-700">
+                  {msg}
+                </p>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  階数が同じで、㎡数の差が{ENTRY_DUPLICATE_AREA_TOLERANCE}㎡以内、成約日（無ければ登録日）の差が{ENTRY_DUPLICATE_DATE_TOLERANCE_DAYS}日以内、価格の差が{ENTRY_DUPLICATE_PRICE_TOLERANCE * 100}%以内の組を候補にします。
+                </p>
+              )}
+            </div>
+
+            <label className="block text-sm max-w-md">団地
+              <select
+                className="mt-1 w-full border rounded-lg px-3 py-2 bg-white"
+                value={selectedComplexId}
+                onChange={(e) => setSelectedComplexId(e.target.value)}
+              >
+                {complexes.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </label>
+
+            {loading ? (
+              <p className="text-sm text-gray-500">読み込み中...</p>
+            ) : pairs.length === 0 ? (
+              <p className="text-sm text-gray-500">重複の候補はありません（{entries.length}件を確認）</p>
+            ) : (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-700">重複の候補 <span className="font-semibold">{pairs.length}</span>組（{entries.length}件を確認）</p>
+                {pairs.map((pair) => (
+                  <div key={`${pair.keep.id}:${pair.drop.id}`} className="rounded-xl border border-gray-200 p-3 space-y-2">
+                    <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-600">
+                      <span>
+                        日付の差 {pair.dateDiffDays}日 / 価格の差 {pair.priceDiffRatio == null ? '—' : `${(pair.priceDiffRatio * 100).toFixed(1)}%`}
+                      </span>
+                      <Link
+                        className="px-3 py-1.5 rounded-lg bg-black text-white text-sm"
+                        href={buildMergeHref(selectedComplexId, pair.keep.id, pair.drop.id)}
+                      >
+                        統合する
+                      </Link>
+                    </div>
+                    <table className="w-full text-xs">
+                      <thead className="bg-gray-100 text-gray-700">
+                        <tr>
+                          <th className="text-left p-2">残す候補</th>
+                          <th className="text-left p-2">出典</th>
+                          <th className="text-left p-2">ラベル</th>
+                          <th className="text-right p-2">階数</th>
+                          <th className="text-right p-2">㎡数</th>
+                          <th className="text-right p-2">成約価格</th>
+                          <th className="text-left p-2">登録日</th>
+                          <th className="text-left p-2">成約日</th>
+                          <th className="text-left p-2">状態</th>
+                          <th className="text-left p-2">PDF</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {[pair.keep, pair.drop].map((row, index) => (
+                          <tr key={row.id} className="border-b">
+                            <td className="p-2">{index === 0 ? '残す' : '統合される'}</td>
+                            <td className="p-2">{sourceLabel(row)}</td>
+                            <td className="p-2">{row.contract_kind ?? '—'}</td>
+                            <td className="p-2 text-right">{row.floor ?? '—'}</td>
+                            <td className="p-2 text-right">{row.area_sqm ?? '—'}</td>
+                            <td className="p-2 text-right">{formatYen(effectivePrice(row))}</td>
+                            <td className="p-2">{row.reins_registered_date ?? '—'}</td>
+                            <td className="p-2">{row.contract_date ?? '—'}</td>
+                            <td className="p-2">{statusLabel(row.condition_status)}</td>
+                            <td className="p-2">{row.mysoku_pdf_path ? 'あり' : '—'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </main>
+      </div>
+    </RequireAuth>
+  )
+}
+
+export default function TabListDuplicatesPage() {
+  return (
+    <Suspense fallback={null}>
+      <TabListDuplicatesContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,331 @@
+'use client'
+
+import { Suspense, useEffect, useMemo, useState, type ChangeEvent } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import {
+  buildEntryCsvPayloads,
+  buildEntryCsvPreview,
+  decodeCsvBytes,
+  ENTRY_CSV_DUPLICATE_LABELS,
+  ENTRY_CSV_FIELDS,
+  guessEntryCsvMapping,
+  isEntryCsvRowImportable,
+  parseCsvText,
+  type EntryCsvField,
+  type EntryCsvMapping,
+} from '@/lib/entryCsvImport'
+import { formatUnitPrice } from '@/lib/entryMath'
+import { CONDITION_STATUS_OPTIONS } from '@/lib/referenceValue'
+import { insertEntries } from '@/lib/repositories/entries'
+import {
+  listTabListComplexes,
+  listTabListEntries,
+  type TabListComplexOption,
+  type TabListEntryRow,
+} from '@/lib/repositories/tabList'
+import { getSupabase } from '@/lib/supabaseClient'
+import { useClientSearchParams } from '@/lib/useClientSearchParams'
+import RequireAuth from '@/components/RequireAuth'
+import UserEmail from '@/components/UserEmail'
+
+function toErrorMessage(e: unknown): string {
+  if (e instanceof Error) return e.message
+  if (typeof e === 'string') return e
+  try { return JSON.stringify(e) } catch { return 'Unknown error' }
+}
+
+function formatYen(v: number | null): string {
+  if (v == null) return '—'
+  return `${Math.round(v).toLocaleString('ja-JP')}円`
+}
+
+function statusLabel(v: string | null): string {
+  if (!v) return '—'
+  return CONDITION_STATUS_OPTIONS.find((x) => x.value === v)?.label ?? v
+}
+
+function TabRegistImportPageContent() {
+  const supabase = getSupabase()
+  const router = useRouter()
+  const searchParams = useClientSearchParams()
+
+  const [complexes, setComplexes] = useState<TabListComplexOption[]>([])
+  const [selectedComplexId, setSelectedComplexId] = useState('')
+  const [existing, setExisting] = useState<TabListEntryRow[]>([])
+  const [fileName, setFileName] = useState('')
+  const [headers, setHeaders] = useState<string[]>([])
+  const [rows, setRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<EntryCsvMapping | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [msg, setMsg] = useState('')
+
+  const selectedComplex = useMemo(
+    () => complexes.find((c) => c.id === selectedComplexId) ?? null,
+    [complexes, selectedComplexId],
+  )
+
+  useEffect(() => {
+    let mounted = true
+    async function run() {
+      try {
+        const list = await listTabListComplexes(supabase)
+        if (!mounted) return
+        setComplexes(list)
+        const requestedId = searchParams?.get('complexId') ?? ''
+        setSelectedComplexId((prev) => {
+          if (requestedId && list.some((x) => x.id === requestedId)) return requestedId
+          if (prev && list.some((x) => x.id === prev)) return prev
+          return list[0]?.id ?? ''
+        })
+      } catch (e) {
+        console.error(e)
+        if (mounted) setMsg('団地一覧の取得に失敗しました: ' + toErrorMessage(e))
+      }
+    }
+    run()
+    return () => { mounted = false }
+  }, [supabase, searchParams])
+
+  useEffect(() => {
+    let mounted = true
+    async function run() {
+      if (!selectedComplexId) { setExisting([]); return }
+      try {
+        const list = await listTabListEntries(supabase, selectedComplexId)
+        if (mounted) setExisting(list)
+      } catch (e) {
+        console.error(e)
+        if (mounted) setMsg('登録済みの成約の取得に失敗しました: ' + toErrorMessage(e))
+      }
+    }
+    run()
+    return () => { mounted = false }
+  }, [supabase, selectedComplexId])
+
+  async function handleFile(ev: ChangeEvent<HTMLInputElement>) {
+    const file = ev.target.files?.[0] ?? null
+    setMsg('')
+    if (!file) return
+    try {
+      const [head = [], ...body] = parseCsvText(decodeCsvBytes(await file.arrayBuffer()))
+      setFileName(file.name)
+      setHeaders(head)
+      setRows(body)
+      setMapping(guessEntryCsvMapping(head))
+      if (body.length === 0) setMsg('データ行がありません')
+    } catch (e) {
+      console.error('[tab-regist:import:read]', e)
+      setMsg('CSVの読み込みに失敗しました: ' + toErrorMessage(e))
+    }
+  }
+
+  function updateMapping(field: EntryCsvField, value: string) {
+    setMapping((prev) => (prev ? { ...prev, [field]: value === '' ? null : Number(value) } : prev))
+  }
+
+  const preview = useMemo(
+    () => (mapping ? buildEntryCsvPreview({ rows, mapping, existing }) : []),
+    [rows, mapping, existing],
+  )
+  const importableCount = preview.filter(isEntryCsvRowImportable).length
+  const errorCount = preview.filter((row) => row.errors.length > 0).length
+  const duplicateCount = preview.filter((row) => row.duplicate != null).length
+
+  async function handleImport() {
+    setMsg('')
+    if (!selectedComplex) { setMsg('団地を選択してください'); return }
+    if (importableCount === 0) { setMsg('取り込める行がありません'); return }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError) { setMsg('認証エラー: ' + authError.message); return }
+    if (!user) { setMsg('ログインが必要です'); return }
+
+    try {
+      setSaving(true)
+      await insertEntries(supabase, buildEntryCsvPayloads(preview, selectedComplex, user.id))
+      router.push(`/tab-list?complexId=${encodeURIComponent(selectedComplex.id)}`)
+    } catch (e) {
+      console.error('[tab-regist:import:save]', e)
+      setMsg('取り込みに失敗しました: ' + toErrorMessage(e))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <RequireAuth>
+      <div className="bg-gray-50 text-gray-900 min-h-screen">
+        <header className="bg-white border-b sticky top-0 z-50">
+          <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="h-8 w-8 rounded-xl bg-gray-900 text-white grid place-items-center font-bold">DX</div>
+              <h1 className="text-lg font-semibold">過去成約のCSV取り込み</h1>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <UserEmail />
+              <button
+                className="px-3 py-1.5 bg-gray-100 rounded-lg"
+                onClick={() => { supabase.auth.signOut().then(() => { window.location.href = '/' }) }}
+              >
+                サインアウト
+              </button>
+            </div>
+          </div>
+          <nav className="max-w-7xl mx-auto px-4 pb-2 pt-1">
+            <ul className="flex flex-wrap items-center gap-2 text-sm">
+              <li><Link href="/tab-complex-list" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">団地一覧</Link></li>
+              <li><Link href="/tab-regist" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">過去成約登録</Link></li>
+              <li><span className="tabbtn px-3 py-1.5 rounded-lg bg-black text-white">CSV取り込み</span></li>
+              <li><Link href="/tab-regist/mlit" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">国交省データ取り込み</Link></li>
+              <li><Link href="/tab-list" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">過去成約一覧</Link></li>
+            </ul>
+          </nav>
+        </header>
+
+        <main className="max-w-7xl mx-auto p-4 space-y-6">
+          <section className="bg-white rounded-2xl shadow p-5 space-y-5">
+            <div>
+              <h2 className="text-lg font-semibold">REINSのCSVから一括登録</h2>
+              {msg ? (
+                <p className="mt-1 inline-flex items-center rounded-lg border border-red-200 bg-red-50 px-3 py-1 text-sm font-semibold text-red-700">
+                  {msg}
+                </p>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  列の対応を確認し、取り込み前のプレビューでエラー・重複を確認してから登録してください。MAX/MINIラベルは取り込み後に一覧で付けてください。
+                </p>
+              )}
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4 text-sm">
+              <label className="block">対象団地
+                <select
+                  className="mt-1 w-full border rounded-lg px-3 py-2"
+                  value={selectedComplexId}
+                  onChange={(e) => setSelectedComplexId(e.target.value)}
+                >
+                  {complexes.map((complex) => (
+                    <option key={complex.id} value={complex.id}>
+                      {complex.name} {complex.pref ?? ''}{complex.city ? ` ${complex.city}` : ''}
+                    </option>
+                  ))}
+                  {complexes.length === 0 && <option value="">団地がありません（先に団地基本情報を登録してください）</option>}
+                </select>
+              </label>
+              <label className="block">CSVファイル（UTF-8 / Shift_JIS）
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="mt-1 w-full border rounded-lg px-3 py-2 bg-white"
+                  onChange={(e) => { handleFile(e).catch(console.error) }}
+                />
+                {fileName && <span className="text-xs text-gray-500">{fileName}（{rows.length}行）</span>}
+              </label>
+            </div>
+
+            {mapping && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium text-gray-700">列の対応</div>
+                <div className="grid sm:grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                  {ENTRY_CSV_FIELDS.map((field) => (
+                    <label className="block" key={field.key}>{field.label}
+                      <select
+                        className="mt-1 w-full border rounded-lg px-2 py-1.5"
+                        value={mapping[field.key] ?? ''}
+                        onChange={(e) => updateMapping(field.key, e.target.value)}
+                      >
+                        <option value="">取り込まない</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `${index + 1}列目`}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {preview.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="text-sm text-gray-700">
+                    取り込み可能 <span className="font-semibold">{importableCount}</span>件 /
+                    エラー <span className="font-semibold text-red-600">{errorCount}</span>件 /
+                    重複 <span className="font-semibold text-amber-700">{duplicateCount}</span>件
+                  </div>
+                  <button
+                    type="button"
+                    className="px-4 py-2 bg-black text-white rounded-lg text-sm disabled:opacity-60"
+                    disabled={saving || !selectedComplex || importableCount === 0}
+                    onClick={() => { handleImport().catch(console.error) }}
+                  >
+                    {saving ? '取り込み中...' : `${importableCount}件を取り込む`}
+                  </button>
+                </div>
+                <div className="overflow-x-auto rounded-xl border border-gray-200">
+                  <table className="min-w-[1100px] w-full text-xs">
+                    <thead className="bg-gray-100 text-gray-700">
+                      <tr>
+                        <th className="text-left p-2 border-b">行</th>
+                        <th className="text-left p-2 border-b">判定</th>
+                        <th className="text-left p-2 border-b">成約年月日</th>
+                        <th className="text-left p-2 border-b">登録年月日</th>
+                        <th className="text-right p-2 border-b">階数</th>
+                        <th className="text-right p-2 border-b">㎡数</th>
+                        <th className="text-right p-2 border-b">成約価格</th>
+                        <th className="text-right p-2 border-b">㎡単価</th>
+                        <th className="text-left p-2 border-b">間取り</th>
+                        <th className="text-left p-2 border-b">状態</th>
+                        <th className="text-left p-2 border-b">メッセージ</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.map((item) => (
+                        <tr
+                          key={item.line}
+                          className={`border-b align-top ${item.errors.length > 0 ? 'bg-red-50' : item.duplicate ? 'bg-amber-50' : ''}`}
+                        >
+                          <td className="p-2">{item.line}</td>
+                          <td className="p-2 whitespace-nowrap">
+                            {item.errors.length > 0 ? (
+                              <span className="text-red-600 font-semibold">エラー</span>
+                            ) : item.duplicate ? (
+                              <span className="text-amber-700 font-semibold">{ENTRY_CSV_DUPLICATE_LABELS[item.duplicate]}</span>
+                            ) : (
+                              <span className="text-emerald-700">取り込み</span>
+                            )}
+                          </td>
+                          <td className="p-2">{item.row.contract_date ?? '—'}</td>
+                          <td className="p-2">{item.row.reins_registered_date ?? '—'}</td>
+                          <td className="p-2 text-right">{item.row.floor ?? '—'}</td>
+                          <td className="p-2 text-right">{item.row.area_sqm ?? '—'}</td>
+                          <td className="p-2 text-right">{formatYen(item.row.contract_price)}</td>
+                          <td className="p-2 text-right">{formatUnitPrice(item.row.unit_price ?? null)}</td>
+                          <td className="p-2">{item.layout ?? '—'}</td>
+                          <td className="p-2">{statusLabel(item.row.condition_status)}</td>
+                          <td className="p-2">
+                            {item.errors.map((text) => <div className="text-red-600" key={text}>{text}</div>)}
+                            {item.warnings.map((text) => <div className="text-gray-500" key={text}>{text}</div>)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </section>
+        </main>
+      </div>
+    </RequireAuth>
+  )
+}
+
+export default function TabRegistImportPage() {
+  return (
+    <Suspense fallback={null}>
+      <TabRegistImportPageContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,295 @@
+'use client'
+
+import { useEffect, useMemo, useState, type ChangeEvent } from 'react'
+import Link from 'next/link'
+import { decodeCsvBytes, parseCsvText } from '@/lib/entryCsvImport'
+import { formatUnitPrice, toIntOrNull } from '@/lib/entryMath'
+import {
+  buildMlitPayloads,
+  buildMlitPreview,
+  findMlitColumns,
+  isMlitRowImportable,
+  listMissingMlitColumns,
+  MLIT_SOURCE,
+  type MlitComplexProfile,
+  type MlitCsvColumns,
+  type MlitExistingRow,
+  type MlitRowOverride,
+} from '@/lib/mlitImport'
+import { CONDITION_STATUS_OPTIONS } from '@/lib/referenceValue'
+import { listComplexAddressProfiles } from '@/lib/repositories/complexes'
+import { insertEntries, listEntriesBySource } from '@/lib/repositories/entries'
+import { getSupabase } from '@/lib/supabaseClient'
+import RequireAuth from '@/components/RequireAuth'
+import UserEmail from '@/components/UserEmail'
+
+function toErrorMessage(e: unknown): string {
+  if (e instanceof Error) return e.message
+  if (typeof e === 'string') return e
+  try { return JSON.stringify(e) } catch { return 'Unknown error' }
+}
+
+function formatYen(v: number | null): string {
+  if (v == null) return '—'
+  return `${Math.round(v).toLocaleString('ja-JP')}円`
+}
+
+function statusLabel(v: string | null): string {
+  if (!v) return '—'
+  return CONDITION_STATUS_OPTIONS.find((x) => x.value === v)?.label ?? v
+}
+
+export default function TabRegistMlitImportPage() {
+  const supabase = getSupabase()
+
+  const [complexes, setComplexes] = useState<MlitComplexProfile[]>([])
+  const [existing, setExisting] = useState<MlitExistingRow[]>([])
+  const [fileName, setFileName] = useState('')
+  const [rows, setRows] = useState<string[][]>([])
+  const [columns, setColumns] = useState<MlitCsvColumns | null>(null)
+  const [overrides, setOverrides] = useState<Record<number, MlitRowOverride>>({})
+  const [saving, setSaving] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [msg, setMsg] = useState('')
+
+  useEffect(() => {
+    let mounted = true
+    async function run() {
+      try {
+        const [list, imported] = await Promise.all([
+          listComplexAddressProfiles(supabase),
+          listEntriesBySource(supabase, MLIT_SOURCE),
+        ])
+        if (!mounted) return
+        setComplexes(list)
+        setExisting(imported)
+      } catch (e) {
+        console.error(e)
+        if (mounted) setMsg('団地・取り込み済みデータの取得に失敗しました: ' + toErrorMessage(e))
+      }
+    }
+    run()
+    return () => { mounted = false }
+  }, [supabase, reloadKey])
+
+  const complexNames = useMemo(() => new Map(complexes.map((c) => [c.id, c.name])), [complexes])
+
+  async function handleFile(ev: ChangeEvent<HTMLInputElement>) {
+    const file = ev.target.files?.[0] ?? null
+    setMsg('')
+    if (!file) return
+    try {
+      const [head = [], ...body] = parseCsvText(decodeCsvBytes(await file.arrayBuffer()))
+      const found = findMlitColumns(head)
+      const missing = listMissingMlitColumns(found)
+      setFileName(file.name)
+      setRows(body)
+      setOverrides({})
+      if (missing.length > 0) {
+        setColumns(null)
+        setMsg(`国交省の取引価格CSVの列が見つかりません: ${missing.join('、')}`)
+        return
+      }
+      setColumns(found)
+      if (body.length === 0) setMsg('データ行がありません')
+    } catch (e) {
+      console.error('[tab-regist:mlit:read]', e)
+      setMsg('CSVの読み込みに失敗しました: ' + toErrorMessage(e))
+    }
+  }
+
+  function updateOverride(line: number, patch: MlitRowOverride) {
+    setOverrides((prev) => ({ ...prev, [line]: { ...prev[line], ...patch } }))
+  }
+
+  const preview = useMemo(
+    () => (columns ? buildMlitPreview({ rows, columns, complexes, existing, overrides }) : []),
+    [rows, columns, complexes, existing, overrides],
+  )
+  const importableCount = preview.filter(isMlitRowImportable).length
+  const errorCount = preview.filter((row) => row.errors.length > 0).length
+  const unmatchedCount = preview.filter((row) => row.errors.length === 0 && row.complexId == null).length
+  const duplicateCount = preview.filter((row) => row.duplicate).length
+
+  async function handleImport() {
+    setMsg('')
+    if (importableCount === 0) { setMsg('取り込める行がありません'); return }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError) { setMsg('認証エラー: ' + authError.message); return }
+    if (!user) { setMsg('ログインが必要です'); return }
+
+    try {
+      setSaving(true)
+      await insertEntries(supabase, buildMlitPayloads(preview, complexes, user.id))
+      setMsg(`${importableCount}件を参考事例として取り込みました`)
+      setReloadKey((key) => key + 1)
+    } catch (e) {
+      console.error('[tab-regist:mlit:save]', e)
+      setMsg('取り込みに失敗しました: ' + toErrorMessage(e))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <RequireAuth>
+      <div className="bg-gray-50 text-gray-900 min-h-screen">
+        <header className="bg-white border-b sticky top-0 z-50">
+          <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="h-8 w-8 rounded-xl bg-gray-900 text-white grid place-items-center font-bold">DX</div>
+              <h1 className="text-lg font-semibold">国交省 取引価格情報の取り込み</h1>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <UserEmail />
+              <button
+                className="px-3 py-1.5 bg-gray-100 rounded-lg"
+                onClick={() => { supabase.auth.signOut().then(() => { window.location.href = '/' }) }}
+              >
+                サインアウト
+              </button>
+            </div>
+          </div>
+          <nav className="max-w-7xl mx-auto px-4 pb-2 pt-1">
+            <ul className="flex flex-wrap items-center gap-2 text-sm">
+              <li><Link href="/tab-complex-list" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">団地一覧</Link></li>
+              <li><Link href="/tab-regist" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">過去成約登録</Link></li>
+              <li><Link href="/tab-regist/import" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">CSV取り込み</Link></li>
+              <li><span className="tabbtn px-3 py-1.5 rounded-lg bg-black text-white">国交省データ取り込み</span></li>
+              <li><Link href="/tab-list" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">過去成約一覧</Link></li>
+            </ul>
+          </nav>
+        </header>
+
+        <main className="max-w-7xl mx-auto p-4 space-y-6">
+          <section className="bg-white rounded-2xl shadow p-5 space-y-5">
+            <div>
+              <h2 className="text-lg font-semibold">不動産取引価格情報（CSV）から参考事例を登録</h2>
+              {msg ? (
+                <p className="mt-1 inline-flex items-center rounded-lg border border-red-200 bg-red-50 px-3 py-1 text-sm font-semibold text-red-700">
+                  {msg}
+                </p>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  所在地（都道府県・市区町村・地区）と建築年（前後1年）で団地に照合します。取引時期は四半期の中央日、改装済み→一部リフォーム・未改装→売主居住中として登録します。
+                </p>
+              )}
+              <p className="text-xs text-gray-500">元データには階数がないため、参考値表に入れたい行は階数を入力してください。</p>
+            </div>
+
+            <label className="block text-sm max-w-xl">CSVファイル（国交省 不動産情報ライブラリ / 土地総合情報システム）
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="mt-1 w-full border rounded-lg px-3 py-2 bg-white"
+                onChange={(e) => { handleFile(e).catch(console.error) }}
+              />
+              {fileName && <span className="text-xs text-gray-500">{fileName}（{rows.length}行）</span>}
+            </label>
+
+            {preview.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="text-sm text-gray-700">
+                    取り込み可能 <span className="font-semibold">{importableCount}</span>件 /
+                    団地未照合 <span className="font-semibold text-gray-500">{unmatchedCount}</span>件 /
+                    エラー <span className="font-semibold text-red-600">{errorCount}</span>件 /
+                    重複 <span className="font-semibold text-amber-700">{duplicateCount}</span>件
+                  </div>
+                  <button
+                    type="button"
+                    className="px-4 py-2 bg-black text-white rounded-lg text-sm disabled:opacity-60"
+                    disabled={saving || importableCount === 0}
+                    onClick={() => { handleImport().catch(console.error) }}
+                  >
+                    {saving ? '取り込み中...' : `${importableCount}件を取り込む`}
+                  </button>
+                </div>
+                <div className="overflow-x-auto rounded-xl border border-gray-200">
+                  <table className="min-w-[1300px] w-full text-xs">
+                    <thead className="bg-gray-100 text-gray-700">
+                      <tr>
+                        <th className="text-left p-2 border-b">行</th>
+                        <th className="text-left p-2 border-b">判定</th>
+                        <th className="text-left p-2 border-b">所在地</th>
+                        <th className="text-right p-2 border-b">建築年</th>
+                        <th className="text-left p-2 border-b">団地</th>
+                        <th className="text-left p-2 border-b">階数</th>
+                        <th className="text-left p-2 border-b">取引時期</th>
+                        <th className="text-right p-2 border-b">㎡数</th>
+                        <th className="text-right p-2 border-b">取引価格</th>
+                        <th className="text-right p-2 border-b">㎡単価</th>
+                        <th className="text-left p-2 border-b">間取り</th>
+                        <th className="text-left p-2 border-b">状態</th>
+                        <th className="text-left p-2 border-b">メッセージ</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.map((item) => {
+                        const options = item.candidateIds.length > 0 ? item.candidateIds : complexes.map((c) => c.id)
+                        return (
+                          <tr
+                            key={item.line}
+                            className={`border-b align-top ${item.errors.length > 0 ? 'bg-red-50' : item.duplicate ? 'bg-amber-50' : item.complexId == null ? 'bg-gray-50' : ''}`}
+                          >
+                            <td className="p-2">{item.line}</td>
+                            <td className="p-2 whitespace-nowrap">
+                              {item.errors.length > 0 ? (
+                                <span className="text-red-600 font-semibold">エラー</span>
+                              ) : item.duplicate ? (
+                                <span className="text-amber-700 font-semibold">重複</span>
+                              ) : item.complexId == null ? (
+                                <span className="text-gray-500">未照合</span>
+                              ) : (
+                                <span className="text-emerald-700">取り込み</span>
+                              )}
+                            </td>
+                            <td className="p-2">{item.address || '—'}</td>
+                            <td className="p-2 text-right">{item.builtYear ?? '—'}</td>
+                            <td className="p-2">
+                              <select
+                                className="w-48 border rounded px-2 py-1 bg-white"
+                                value={item.complexId ?? ''}
+                                disabled={item.errors.length > 0}
+                                onChange={(e) => updateOverride(item.line, { complexId: e.target.value })}
+                              >
+                                <option value="">取り込まない</option>
+                                {options.map((id) => <option key={id} value={id}>{complexNames.get(id) ?? id}</option>)}
+                              </select>
+                              {item.candidateIds.length === 0 && <div className="text-[10px] text-gray-500">所在地・築年が合う団地なし</div>}
+                            </td>
+                            <td className="p-2">
+                              <input
+                                type="number"
+                                min={1}
+                                step={1}
+                                className="w-16 border rounded px-2 py-1 bg-white"
+                                value={item.floor ?? ''}
+                                onChange={(e) => updateOverride(item.line, { floor: toIntOrNull(e.target.value) })}
+                              />
+                            </td>
+                            <td className="p-2">{item.period || '—'}</td>
+                            <td className="p-2 text-right">{item.area ?? '—'}</td>
+                            <td className="p-2 text-right">{formatYen(item.price)}</td>
+                            <td className="p-2 text-right">{formatUnitPrice(item.unitPrice)}</td>
+                            <td className="p-2">{item.layout ?? '—'}</td>
+                            <td className="p-2">{statusLabel(item.condition)}</td>
+                            <td className="p-2">
+                              {item.errors.map((text) => <div className="text-red-600" key={text}>{text}</div>)}
+                              {item.warnings.map((text) => <div className="text-gray-500" key={text}>{text}</div>)}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </section>
+        </main>
+      </div>
+    </RequireAuth>
+  )
+}
@@ -13,6 +13,7 @@ import {
   toFloatOrNull,
   toIntOrNull,
 } from '@/lib/entryMath'
+import { formatMysokuValue, listMysokuFields, MYSOKU_FIELD_LABELS, readMysokuPdf, type MysokuFields } from '@/lib/mysokuExtract'
 import { insertEntries, uploadEntryPdf } from '@/lib/repositories/entries'
 import { listTabListComplexes } from '@/lib/repositories/tabList'
 import { getSupabase } from '@/lib/supabaseClient'
@@ -60,9 +61,11 @@ type DealRow = {
   status: ConditionStatus
   label: DealLabel
   pdf: File | null
+  mysoku: MysokuFields | null
+  prefilled: EditableRowField[]
 }
 
-type EditableRowField = Exclude<keyof DealRow, 'id' | 'pdf'>
+type EditableRowField = Exclude<keyof DealRow, 'id' | 'pdf' | 'mysoku' | 'prefilled'>
 
 const STATUS_OPTIONS: { value: Exclude<ConditionStatus, ''>; label: string }[] = [
   { value: 'FULL_RENO_INSULATED', label: 'フルリノベーション+断熱' },
@@ -121,9 +124,25 @@ function buildEmptyRow(seed: number): DealRow {
     status: '',
     label: '',
     pdf: null,
+    mysoku: null,
+    prefilled: [],
   }
 }
 
+// マイソクから読み取った値を行に仮入力し、確認待ちの欄として記録する
+function applyMysokuToRow(row: DealRow, fields: MysokuFields): DealRow {
+  const values: Partial<Pick<DealRow, 'price' | 'area' | 'floor' | 'builtYm'>> = {}
+  if (fields.price != null) values.price = String(fields.price)
+  if (fields.area != null) values.area = String(fields.area)
+  if (fields.floor != null) values.floor = String(fields.floor)
+  if (fields.builtMonth) values.builtYm = fields.builtMonth
+  return { ...row, ...values, mysoku: fields, prefilled: Object.keys(values) as EditableRowField[] }
+}
+
+function prefilledClass(row: DealRow, field: EditableRowField): string {
+  return row.prefilled.includes(field) ? ' border-amber-400 bg-amber-50' : ''
+}
+
 function formatDateWithEra(v: string): string {
   if (!v) return '—'
   const d = new Date(`${v}T00:00:00`)
@@ -253,12 +272,25 @@ function TabRegistPageContent() {
       if (field === 'elevator') {
         return { ...row, elevator: value as ElevatorChoice }
       }
-      return { ...row, [field]: value }
+      return { ...row, [field]: value, prefilled: row.prefilled.filter((item) => item !== field) }
     }))
   }
 
   function updateRowPdf(rowId: string, file: File | null) {
-    setRows((prev) => prev.map((row) => row.id === rowId ? { ...row, pdf: file } : row))
+    setRows((prev) => prev.map((row) => row.id === rowId ? { ...row, pdf: file, mysoku: null, prefilled: [] } : row))
+    if (!file) return
+    readMysokuPdf(file)
+      .then((fields) => {
+        setRows((prev) => prev.map((row) => row.id === rowId && row.pdf === file ? applyMysokuToRow(row, fields) : row))
+      })
+      .catch((e) => {
+        console.error('[tab-regist:mysoku]', e)
+        setMsg('PDFの読み取りに失敗しました。値は手入力してください。')
+      })
+  }
+
+  function confirmRowPrefill(rowId: string) {
+    setRows((prev) => prev.map((row) => row.id === rowId ? { ...row, prefilled: [] } : row))
   }
 
   function removeRow(rowId: string) {
@@ -299,6 +331,11 @@ function TabRegistPageContent() {
       return
     }
 
+    if (activeRows.some((row) => row.prefilled.length > 0)) {
+      setMsg('PDFから読み取った値（黄色の欄）を確認してください')
+      return
+    }
+
     for (const row of activeRows) {
       if (row.pdf && row.label === '') {
         setMsg('PDF添付はMAX/MINIラベルが付いた行のみ可能です')
@@ -529,7 +566,7 @@ function TabRegistPageContent() {
                           <td className="p-2 min-w-44">
                             <input
                               type="month"
-                              className="w-full border rounded-lg px-2 py-1.5"
+                              className={`w-full border rounded-lg px-2 py-1.5${prefilledClass(row, 'builtYm')}`}
                               value={row.builtYm}
                               onChange={(e) => updateRowField(row.id, 'builtYm', e.target.value)}
                             />
@@ -550,7 +587,7 @@ function TabRegistPageContent() {
                               type="number"
                               min={0}
                               step={1}
-                              className="w-full border rounded-lg px-2 py-1.5"
+                              className={`w-full border rounded-lg px-2 py-1.5${prefilledClass(row, 'floor')}`}
                               value={row.floor}
                               onChange={(e) => updateRowField(row.id, 'floor', e.target.value)}
                             />
@@ -560,7 +597,7 @@ function TabRegistPageContent() {
                               type="number"
                               min={0}
                               step={1}
-                              className="w-full border rounded-lg px-2 py-1.5"
+                              className={`w-full border rounded-lg px-2 py-1.5${prefilledClass(row, 'price')}`}
                               value={row.price}
                               onChange={(e) => updateRowField(row.id, 'price', e.target.value)}
                             />
@@ -571,7 +608,7 @@ function TabRegistPageContent() {
                               type="number"
                               min={0}
                               step={0.01}
-                              className="w-full border rounded-lg px-2 py-1.5"
+                              className={`w-full border rounded-lg px-2 py-1.5${prefilledClass(row, 'area')}`}
                               value={row.area}
                               onChange={(e) => updateRowField(row.id, 'area', e.target.value)}
                             />
@@ -633,6 +670,26 @@ function TabRegistPageContent() {
                               className="w-full border rounded-lg px-2 py-1.5 bg-white disabled:bg-gray-100 disabled:text-gray-400"
                               onChange={(e: ChangeEvent<HTMLInputElement>) => updateRowPdf(row.id, e.target.files?.[0] ?? null)}
                             />
+                            {row.mysoku && (
+                              <div className="mt-1 space-y-1 text-[11px] text-gray-600">
+                                {listMysokuFields(row.mysoku).length === 0 ? (
+                                  <p>PDFから読み取れる項目がありませんでした</p>
+                                ) : (
+                                  listMysokuFields(row.mysoku).map((field) => (
+                                    <p key={field}>{MYSOKU_FIELD_LABELS[field]}: {formatMysokuValue(field, row.mysoku as MysokuFields)}</p>
+                                  ))
+                                )}
+                                {row.prefilled.length > 0 && (
+                                  <button
+                                    type="button"
+                                    className="px-2 py-1 rounded bg-amber-600 text-white"
+                                    onClick={() => confirmRowPrefill(row.id)}
+                                  >
+                                    読み取り値を確認済みにする
+                                  </button>
+                                )}
+                              </div>
+                            )}
                           </td>
                           <td className="p-2 min-w-20">
                             <button
@@ -652,13 +709,24 @@ function TabRegistPageContent() {
               </div>
 
               <div className="flex flex-wrap items-center justify-between gap-2">
-                <button
-                  type="button"
-                  className="px-3 py-2 bg-gray-100 rounded-lg text-sm"
-                  onClick={addRow}
-                >
-                  行を追加
-                </button>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    className="px-3 py-2 bg-gray-100 rounded-lg text-sm"
+                    onClick={addRow}
+                  >
+                    行を追加
+                  </button>
+                  <Link
+                    href={selectedComplex ? `/tab-regist/import?complexId=${encodeURIComponent(selectedComplex.id)}` : '/tab-regist/import'}
+                    className="px-3 py-2 bg-gray-100 rounded-lg text-sm"
+                  >
+                    CSVから取り込む
+                  </Link>
+                  <Link href="/tab-regist/mlit" className="px-3 py-2 bg-gray-100 rounded-lg text-sm">
+                    国交省データを取り込む
+                  </Link>
+                </div>
                 <button
                   type="submit"
                   className="px-4 py-2 bg-black text-white rounded-lg text-sm disabled:opacity-60"
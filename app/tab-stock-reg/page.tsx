@@ -4,7 +4,29 @@ import { useEffect, useMemo, useState, type ChangeEvent, type FormEvent } from '
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { toIntOrNull } from '@/lib/entryMath'
-import { loadComplexReferenceSummaries } from '@/lib/repositories/complexEdit'
+import { resolveStockAreaAdjustment } from '@/lib/areaAdjustment'
+import { buildStockComparablesPayload, calcComparableUnitPrice, type StockComparable } from '@/lib/comparables'
+import { buildStockCostProfileFields, DEFAULT_COST_PROFILE, type CostProfile } from '@/lib/costProfile'
+import { loadComplexReferenceRows } from '@/lib/repositories/complexEdit'
+import { loadActiveCostProfile } from '@/lib/repositories/costProfiles'
+import { listFloorPatterns } from '@/lib/repositories/floorPatterns'
+import { listHedonicSamples } from '@/lib/repositories/hedonic'
+import {
+  buildHedonicStockInput,
+  fitHedonicModel,
+  predictHedonicUnitPrice,
+  type HedonicFitResult,
+  type HedonicSample,
+} from '@/lib/hedonicModel'
+import {
+  buildFloorPatternOptions,
+  formatFloorPatternLabel,
+  resolveFloorPatternCoefs,
+  type CustomFloorPattern,
+} from '@/lib/floorPatterns'
+import { buildStockBrokerFields } from '@/lib/mysokuExtract'
+import { buildPricingSnapshot, buildStockPricingSnapshotPayload } from '@/lib/pricingSnapshot'
+import { buildRenovationSpec } from '@/lib/renovationEstimate'
 import { buildFloorRows, safeNumber } from '@/lib/stockPricing'
 import {
   insertStock,
@@ -18,6 +40,7 @@ import { useClientSearchParams } from '@/lib/useClientSearchParams'
 import RequireAuth from '@/components/RequireAuth'
 import UserEmail from '@/components/UserEmail'
 import StockForm from '../tab-stock/StockForm'
+import { useStockMysokuPrefill } from '../tab-stock/useStockMysokuPrefill'
 import type { ReferenceValueEntry } from '@/lib/referenceValue'
 import type { StockComplexOption as Complex, StockEntryOption as Entry, StockFormState as FormState } from '../tab-stock/stockFormShared'
 
@@ -30,6 +53,8 @@ const initialForm: FormState = {
   yearCoef: '',
   otherCoef: '',
   coefTotal: '',
+  currentCondition: '',
+  targetCondition: '',
 }
 
 function toErrorMessage(e: unknown): string {
@@ -51,10 +76,16 @@ export default function StockRegPage() {
   const [selectedEntryId, setSelectedEntryId] = useState<string>('')
   const [form, setForm] = useState<FormState>(initialForm)
   const [pdf, setPdf] = useState<File | null>(null)
+  const mysokuPrefill = useStockMysokuPrefill(setForm)
   const [saving, setSaving] = useState(false)
   const [msg, setMsg] = useState('')
   const [requestedEntryHandled, setRequestedEntryHandled] = useState(false)
   const [referenceRows, setReferenceRows] = useState<ReferenceValueEntry[]>([])
+  const [comparables, setComparables] = useState<StockComparable[]>([])
+  const [costProfile, setCostProfile] = useState<CostProfile>(DEFAULT_COST_PROFILE)
+  const [floorPatterns, setFloorPatterns] = useState<CustomFloorPattern[]>([])
+  const [hedonicFit, setHedonicFit] = useState<HedonicFitResult | null>(null)
+  const [marketSamples, setMarketSamples] = useState<HedonicSample[]>([])
 
   useEffect(() => {
     if (!requestedEntryId || requestedEntryHandled) return
@@ -89,6 +120,7 @@ export default function StockRegPage() {
     if (values.length === 0) return null
     return Math.max(...values)
   }, [entries])
+  const comparableUnitPrice = useMemo(() => calcComparableUnitPrice(referenceRows, comparables), [referenceRows, comparables])
 
   useEffect(() => {
     let mounted = true
@@ -140,6 +172,51 @@ export default function StockRegPage() {
     return () => { mounted = false }
   }, [requestedEntryId, selectedComplexId, selectedEntryId, supabase])
 
+  useEffect(() => {
+    let mounted = true
+    async function loadCostProfile() {
+      try {
+        const profile = await loadActiveCostProfile(supabase)
+        if (mounted) setCostProfile(profile)
+      } catch (e) {
+        console.error(e)
+        if (mounted) setCostProfile(DEFAULT_COST_PROFILE)
+      }
+    }
+    loadCostProfile()
+    return () => { mounted = false }
+  }, [supabase])
+
+  useEffect(() => {
+    let mounted = true
+    async function loadPatterns() {
+      try {
+        const patterns = await listFloorPatterns(supabase)
+        if (mounted) setFloorPatterns(patterns)
+      } catch (e) {
+        console.error(e)
+        if (mounted) setFloorPatterns([])
+      }
+    }
+    loadPatterns()
+    return () => { mounted = false }
+  }, [supabase])
+
+  useEffect(() => {
+    let mounted = true
+    async function loadHedonicModel() {
+      try {
+        const samples = await listHedonicSamples(supabase)
+        if (mounted) { setHedonicFit(fitHedonicModel(samples)); setMarketSamples(samples) }
+      } catch (e) {
+        console.error(e)
+        if (mounted) setHedonicFit({ model: null, reason: '過去成約の読み込みに失敗しました' })
+      }
+    }
+    loadHedonicModel()
+    return () => { mounted = false }
+  }, [supabase])
+
   useEffect(() => {
     if (!selectedComplexId) {
       setReferenceRows([])
@@ -148,7 +225,7 @@ export default function StockRegPage() {
     let mounted = true
     async function loadReferenceRows() {
       try {
-        const { rows } = await loadComplexReferenceSummaries(supabase, selectedComplexId)
+        const rows = await loadComplexReferenceRows(supabase, selectedComplexId)
         if (mounted) setReferenceRows(rows)
       } catch (e) {
         console.error(e)
@@ -171,10 +248,11 @@ export default function StockRegPage() {
 
   useEffect(() => {
     setForm((prev) => {
-      const nextValue = maxLabelUnitPrice != null ? String(maxLabelUnitPrice) : ''
+      const basisUnitPrice = comparableUnitPrice ?? maxLabelUnitPrice
+      const nextValue = basisUnitPrice != null ? String(basisUnitPrice) : ''
       return prev.maxUnit === nextValue ? prev : { ...prev, maxUnit: nextValue }
     })
-  }, [maxLabelUnitPrice])
+  }, [comparableUnitPrice, maxLabelUnitPrice])
 
   const settingUnit = useMemo(() => safeNumber(form.coefTotal), [form.coefTotal])
   const areaNum = useMemo(() => safeNumber(form.area), [form.area])
@@ -185,19 +263,52 @@ export default function StockRegPage() {
   const coefTotalDisplay = useMemo(() => {
     return coefTotalValue == null ? null : coefTotalValue.toFixed(2)
   }, [coefTotalValue])
+  const floorPatternOptions = useMemo(
+    () => buildFloorPatternOptions(floorPatterns, selectedComplexId || null),
+    [floorPatterns, selectedComplexId],
+  )
+  const floorCoefs = useMemo(
+    () => resolveFloorPatternCoefs(selectedComplex?.floorPattern, floorPatternOptions, selectedComplex?.floorCount),
+    [selectedComplex?.floorPattern, selectedComplex?.floorCount, floorPatternOptions],
+  )
+  const renovationSpec = useMemo(
+    () => buildRenovationSpec(form.currentCondition, form.targetCondition, form.layout),
+    [form.currentCondition, form.targetCondition, form.layout],
+  )
+  const areaAdjustment = useMemo(() => resolveStockAreaAdjustment({
+    referenceRows,
+    marketSamples,
+    comparables,
+    stockArea: areaNum,
+    entryArea: selectedEntry?.area,
+  }), [referenceRows, marketSamples, comparables, areaNum, selectedEntry?.area])
+  const areaCoef = areaAdjustment?.coef ?? 1
   const floors = useMemo(
-    () => buildFloorRows(settingUnit, coefTotalValue ?? 1, areaNum, selectedComplex?.floorPattern),
-    [selectedComplex?.floorPattern, settingUnit, coefTotalValue, areaNum],
+    () => buildFloorRows(settingUnit, (coefTotalValue ?? 1) * areaCoef, areaNum, floorCoefs, costProfile, { builtYm: selectedComplex?.builtYm, renovation: renovationSpec }),
+    [floorCoefs, settingUnit, coefTotalValue, areaCoef, areaNum, costProfile, selectedComplex?.builtYm, renovationSpec],
   )
 
   const selectedFloorNum = useMemo(() => {
     const n = Number.parseInt(form.floor, 10)
     return Number.isFinite(n) ? n : null
   }, [form.floor])
+  const hedonicPrediction = useMemo(() => {
+    const model = hedonicFit?.model
+    if (!model || selectedFloorNum == null || areaNum <= 0) return null
+    return predictHedonicUnitPrice(model, buildHedonicStockInput({
+      complexId: selectedComplexId || null,
+      floor: selectedFloorNum,
+      area: areaNum,
+      builtYm: selectedComplex?.builtYm,
+      stationMinutes: selectedComplex?.stationMinutes,
+      hasElevator: selectedComplex?.hasElevator,
+    }))
+  }, [hedonicFit, selectedFloorNum, areaNum, selectedComplexId, selectedComplex])
   const selectedFloorRow = floors.find((f) => f.floor === selectedFloorNum) ?? floors[0]
 
   const onFormChange = <K extends keyof FormState>(key: K) => (e: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     setForm((prev) => ({ ...prev, [key]: e.target.value }))
+    mysokuPrefill.markEdited(key)
   }
 
   async function handleSubmit(ev: FormEvent<HTMLFormElement>) {
@@ -211,9 +322,31 @@ export default function StockRegPage() {
       if (!selectedEntryId) { setMsg('紐づく過去成約（MAX）を選択してください'); setSaving(false); return }
       const area = safeNumber(form.area) || null
       if (!area || area <= 0) { setMsg('面積を入力してください'); setSaving(false); return }
+      if (mysokuPrefill.view.pending) { setMsg('マイソクから読み取った値を確認してください'); setSaving(false); return }
 
       const stock_mysoku_path = await uploadStockPdf(supabase, pdf, user.id)
       const target = selectedFloorRow
+      const pricingSnapshot = buildPricingSnapshot({
+        inputs: {
+          estateEntryId: selectedEntryId,
+          basisUnitPrice: safeNumber(form.maxUnit) || null,
+          entryArea: selectedEntry?.area ?? null,
+          settingUnit,
+          yearCoef: safeNumber(form.yearCoef),
+          otherCoef: safeNumber(form.otherCoef),
+          area,
+          floor: selectedFloorNum,
+          layout: renovationSpec.layout,
+          currentCondition: renovationSpec.currentCondition,
+          targetCondition: renovationSpec.targetCondition,
+          builtYm: selectedComplex?.builtYm ?? null,
+        },
+        floorPattern: { label: formatFloorPatternLabel(selectedComplex?.floorPattern, floorPatternOptions) || null, coefs: floorCoefs },
+        profile: costProfile,
+        referenceRows,
+        comparables,
+        marketSamples,
+      })
       const payload = {
         created_by: user.id,
         estate_entry_id: selectedEntryId,
@@ -225,17 +358,25 @@ export default function StockRegPage() {
         list_price: target?.targetClose ?? null,
         base_unit_price: settingUnit || null,
         coef_total: coefTotalValue,
+        area_coef: areaAdjustment?.coef ?? null,
         floor_coef: target?.floorCoef ?? null,
         target_unit_price: target?.targetUnit ?? null,
         target_close_price: target?.targetClose ?? null,
         raise_price: target?.raise ?? null,
         buy_target_price: target?.buyTarget ?? null,
+        current_condition: renovationSpec.currentCondition,
+        target_condition: renovationSpec.targetCondition,
+        ...buildStockComparablesPayload(comparables),
+        ...buildStockPricingSnapshotPayload(pricingSnapshot),
+        ...buildStockCostProfileFields(costProfile),
+        ...(mysokuPrefill.confirmedFields ? buildStockBrokerFields(mysokuPrefill.confirmedFields) : {}),
         stock_mysoku_path,
       }
       await insertStock(supabase, payload)
       setMsg('保存しました')
       setForm(initialForm)
       setPdf(null)
+      setComparables([])
       router.push(`/tab-stock?complexId=${encodeURIComponent(selectedComplexId)}`)
     } catch (e) {
       console.error('[stock/save]', e)
@@ -291,14 +432,24 @@ export default function StockRegPage() {
                   floors={floors}
                   selectedFloorNum={selectedFloorNum}
                   referenceRows={referenceRows}
+                  comparables={comparables}
+                  costProfile={costProfile}
+                  floorPatternLabel={formatFloorPatternLabel(selectedComplex?.floorPattern, floorPatternOptions)}
+                  hedonic={{ fit: hedonicFit, prediction: hedonicPrediction }}
+                  sensitivity={{ floorCoefs, floorPatternOptions, floorCount: selectedComplex?.floorCount ?? null, builtYm: selectedComplex?.builtYm, renovation: renovationSpec, areaCoef }}
+                  areaAdjustment={areaAdjustment}
                   coefTotalDisplay={coefTotalDisplay}
                   saving={saving}
                   submitLabel="保存"
-                  onComplexChange={(value) => { setSelectedComplexId(value); setSelectedEntryId('') }}
+                  onComplexChange={(value) => { setSelectedComplexId(value); setSelectedEntryId(''); setComparables([]) }}
                   onEntryChange={setSelectedEntryId}
                   onFormChange={onFormChange}
-                  onPdfChange={setPdf}
-                  onReset={() => { setForm(initialForm); setPdf(null); setMsg('') }}
+                  onApplyYearCoef={(value) => setForm((prev) => ({ ...prev, yearCoef: value }))}
+                  onComparablesChange={setComparables}
+                  mysoku={mysokuPrefill.view}
+                  onPdfChange={(file) => { setPdf(file); mysokuPrefill.read(file).catch(console.error) }}
+                  onConfirmMysoku={mysokuPrefill.confirm}
+                  onReset={() => { setForm(initialForm); setPdf(null); mysokuPrefill.reset(); setComparables([]); setMsg('') }}
                 />
               </form>
             </div>
@@ -0,0 +1,105 @@
+'use client'
+
+import {
+  calcComparableUnitPrice,
+  setComparableWeight,
+  toggleComparable,
+  type StockComparable,
+} from '@/lib/comparables'
+import { CONDITION_STATUS_OPTIONS, resolveReferenceUnitPrice, type ReferenceValueEntry } from '@/lib/referenceValue'
+import { formatUnit, safeNumber } from '@/lib/stockPricing'
+
+type Props = {
+  rows: ReferenceValueEntry[]
+  comparables: StockComparable[]
+  onChange: (comparables: StockComparable[]) => void
+}
+
+function formatCondition(value: ReferenceValueEntry['condition_status']): string {
+  return CONDITION_STATUS_OPTIONS.find((option) => option.value === value)?.label ?? '—'
+}
+
+export function StockComparablePicker({ rows, comparables, onChange }: Props) {
+  const candidates = rows
+    .filter((row): row is ReferenceValueEntry & { id: string } => typeof row.id === 'string')
+    .sort((a, b) => (b.contract_date ?? '').localeCompare(a.contract_date ?? ''))
+  const weights = new Map(comparables.map((comparable) => [comparable.entryId, comparable.weight]))
+  const unitPrice = calcComparableUnitPrice(rows, comparables)
+
+  return (
+    <details className="rounded-xl border border-gray-200 p-4 bg-gray-50 text-sm" open={comparables.length > 0}>
+      <summary className="cursor-pointer font-semibold">
+        比較事例の選択（{comparables.length > 0 ? `${comparables.length}件選択・加重平均 ${unitPrice != null ? formatUnit(unitPrice) : '—'}` : '未選択：団地内の全事例とMAX成約を参照'}）
+      </summary>
+      <div className="mt-3 space-y-2">
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>チェックした成約だけを基準単価・年数係数・参照値の計算に使います。重みは加重平均の比率です。「他団地」は類似団地から借用した補正後の事例です。</span>
+          {comparables.length > 0 && (
+            <button type="button" className="px-2 py-0.5 rounded bg-gray-100" onClick={() => onChange([])}>選択を解除</button>
+          )}
+        </div>
+        <div className="max-h-72 overflow-auto">
+          <table className="w-full text-xs">
+            <thead className="text-gray-600 bg-gray-100 sticky top-0">
+              <tr>
+                <th className="py-2 px-2 w-8" />
+                <th className="text-left py-2 px-2">成約日</th>
+                <th className="text-right py-2 px-2">階</th>
+                <th className="text-right py-2 px-2">面積</th>
+                <th className="text-left py-2 px-2">状態</th>
+                <th className="text-right py-2 px-2">㎡単価</th>
+                <th className="text-right py-2 px-2 w-24">重み</th>
+              </tr>
+            </thead>
+            <tbody>
+              {candidates.map((row) => {
+                const weight = weights.get(row.id)
+                const rowUnitPrice = resolveReferenceUnitPrice(row)
+                return (
+                  <tr className={`border-t ${weight != null ? 'bg-amber-50' : ''}`} key={row.id}>
+                    <td className="py-1 px-2">
+                      <input type="checkbox" checked={weight != null} onChange={() => onChange(toggleComparable(comparables, row.id))} />
+                    </td>
+                    <td className="py-1 px-2">
+                      {row.contract_date ?? row.reins_registered_date ?? '—'}
+                      {row.borrowed && (
+                        <span className="ml-1 px-1 rounded bg-sky-100 text-sky-800 text-[10px]" title={`${row.borrowed.complexName}の事例を類似度補正 ×${row.borrowed.adjustment.toFixed(3)} して借用`}>
+                          他団地 {row.borrowed.complexName}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-1 px-2 text-right num">{row.floor != null ? `${row.floor}F` : '—'}</td>
+                    <td className="py-1 px-2 text-right num">{row.area_sqm != null ? `${row.area_sqm.toFixed(1)}㎡` : '—'}</td>
+                    <td className="py-1 px-2">{formatCondition(row.condition_status)}</td>
+                    <td className="py-1 px-2 text-right num">
+                      {rowUnitPrice != null ? formatUnit(Math.round(rowUnitPrice)) : '—'}
+                      {row.borrowed && (
+                        <div className="text-[10px] text-gray-400">補正前 {formatUnit(Math.round(row.borrowed.originalUnitPrice))}</div>
+                      )}
+                    </td>
+                    <td className="py-1 px-2 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        className="w-20 border rounded px-2 py-0.5 num bg-white disabled:opacity-40"
+                        disabled={weight == null}
+                        value={weight ?? ''}
+                        onChange={(e) => onChange(setComparableWeight(comparables, row.id, safeNumber(e.target.value)))}
+                      />
+                    </td>
+                  </tr>
+                )
+              })}
+              {candidates.length === 0 && (
+                <tr className="border-t">
+                  <td className="py-2 px-2 text-gray-500" colSpan={7}>この団地の過去成約はありません</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </details>
+  )
+}
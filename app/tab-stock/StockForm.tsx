@@ -1,8 +1,18 @@
 'use client'
 
 import { ComplexReferenceSummaries } from '@/app/tab-complex/[id]/edit/ComplexReferenceSummaries'
-import { buildYearlyReferenceSummaries } from '@/lib/referenceValue'
-import { formatUnit, formatYen } from '@/lib/stockPricing'
+import { AREA_CURVE_SOURCE_LABELS } from '@/lib/areaAdjustment'
+import { selectComparableRows } from '@/lib/comparables'
+import { DEFAULT_COST_PROFILE, formatCostProfileLabel } from '@/lib/costProfile'
+import { formatMysokuValue, listMysokuFields, MYSOKU_FIELD_LABELS } from '@/lib/mysokuExtract'
+import { buildYearlyReferenceSummaries, CONDITION_STATUS_OPTIONS, resolveYearGrowthCoefResult } from '@/lib/referenceValue'
+import { buildRenovationSpec, RENOVATION_TARGET_OPTIONS } from '@/lib/renovationEstimate'
+import { formatUnit, formatYen, safeNumber } from '@/lib/stockPricing'
+import { StockComparablePicker } from './StockComparablePicker'
+import { StockHedonicEstimate } from './StockHedonicEstimate'
+import { StockRenovationEstimate } from './StockRenovationEstimate'
+import { StockRentalYieldPanel } from './StockRentalYieldPanel'
+import { StockSensitivityPanel } from './StockSensitivityPanel'
 import type { StockFormProps } from './stockFormShared'
 
 function fmtCoef(n: number | null | undefined): string {
@@ -24,6 +34,14 @@ export default function StockForm({
   floors,
   selectedFloorNum,
   referenceRows,
+  comparables = [],
+  costProfile,
+  floorPatternLabel,
+  hedonic,
+  sensitivity,
+  areaAdjustment,
+  onApplyYearCoef,
+  onComparablesChange,
   coefTotalDisplay,
   saving,
   submitLabel,
@@ -31,16 +49,26 @@ export default function StockForm({
   showContractDate = false,
   showOnlySelectedFloorRow = false,
   existingPdf,
+  mysoku,
   onComplexChange,
   onEntryChange,
   onFormChange,
   onPdfChange,
+  onConfirmMysoku,
   onReset,
 }: StockFormProps) {
+  const mysokuFields = mysoku?.fields ?? null
+  const prefilledClass = (key: keyof typeof form) => (mysoku?.prefilledFields.includes(key) ? ' border-amber-400 bg-amber-50' : '')
   const floorRowsToDisplay = showOnlySelectedFloorRow && selectedFloorNum != null
     ? floors.filter((floor) => floor.floor === selectedFloorNum)
     : floors
-  const yearlyReferenceRows = buildYearlyReferenceSummaries(referenceRows)
+  const basisRows = selectComparableRows(referenceRows, comparables)
+  const yearlyReferenceRows = buildYearlyReferenceSummaries(basisRows)
+  const yearGrowth = resolveYearGrowthCoefResult({ rows: basisRows, floor: selectedFloorNum })
+  const suggestedYearCoef = yearGrowth.value
+  const fittedByYear = new Map(yearGrowth.points.map((point) => [point.label, point.fittedUnitPrice]))
+  const activeCostProfile = costProfile ?? DEFAULT_COST_PROFILE
+  const renovationSpec = buildRenovationSpec(form.currentCondition, form.targetCondition, form.layout)
 
   return (
     <>
@@ -57,7 +85,7 @@ export default function StockForm({
         </label>
         <div className="rounded-xl border border-gray-200 p-3 bg-gray-50">
           <div className="text-xs text-gray-600">階数効用パターン</div>
-          <div className="font-semibold text-sm">{selectedComplex?.floorPattern || '未設定'}</div>
+          <div className="font-semibold text-sm">{floorPatternLabel || selectedComplex?.floorPattern || '未設定'}</div>
           <div className="text-xs text-gray-500 mt-1">計算に適用します</div>
         </div>
       </div>
@@ -65,7 +93,14 @@ export default function StockForm({
       <div className="rounded-xl border border-gray-200 p-4 bg-gray-50 text-sm space-y-1">
         <div className="font-semibold">計算メモ</div>
         <p className="text-gray-700">目標販売成約価格=(MAX成約m²単価×階層係数)×(年数係数×加点係数)</p>
-        <p className="text-gray-700">買付目標額 = 募集総額（目標成約価格/1.21） - リノベ予算 - アップフロント - その他。</p>
+        <p className="text-gray-700">買付目標額 = 募集総額（目標成約価格/{activeCostProfile.marginDivisor}） - リノベ予算（仕上げ別の見積、未設定なら面積帯の概算） - アップフロント - 諸費用。</p>
+        <p className="text-gray-700">
+          アップフロント（仕入時の仲介手数料） = {activeCostProfile.brokerage.sides === 'sell' ? '負担なし' : activeCostProfile.brokerage.mode === 'statutory' ? '買付目標額に対する法定上限（税込）' : '募集総額に対する定額・定率'}
+        </p>
+        <p className="text-gray-700">
+          諸費用 = {activeCostProfile.otherCostMode === 'itemized' ? '登録免許税・不動産取得税・印紙税・司法書士報酬・火災保険・固定資産税等の内訳計算' : `募集総額 × ${activeCostProfile.otherCostRate}`}
+        </p>
+        <p className="text-xs text-gray-500">適用中の原価モデル: {formatCostProfileLabel(activeCostProfile)}</p>
       </div>
 
       <section className="space-y-4">
@@ -81,9 +116,21 @@ export default function StockForm({
               {entries.length === 0 && <option value="">MAX成約がありません</option>}
             </select>
           </label>
-          <label className="block">階数<input name="floor" type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" placeholder="5" value={form.floor} onChange={onFormChange('floor')} /></label>
-          <label className="block">面積（㎡）<input name="area" type="number" min="0" step="0.01" className="mt-1 w-full border rounded-lg px-3 py-2 num" placeholder="55.20" value={form.area} onChange={onFormChange('area')} /></label>
-          <label className="block">間取り<input name="layout" type="text" className="mt-1 w-full border rounded-lg px-3 py-2" placeholder="3LDK" value={form.layout} onChange={onFormChange('layout')} /></label>
+          <label className="block">階数<input name="floor" type="number" min="0" step="1" className={`mt-1 w-full border rounded-lg px-3 py-2 num${prefilledClass('floor')}`} placeholder="5" value={form.floor} onChange={onFormChange('floor')} /></label>
+          <label className="block">面積（㎡）<input name="area" type="number" min="0" step="0.01" className={`mt-1 w-full border rounded-lg px-3 py-2 num${prefilledClass('area')}`} placeholder="55.20" value={form.area} onChange={onFormChange('area')} /></label>
+          <label className="block">間取り<input name="layout" type="text" className={`mt-1 w-full border rounded-lg px-3 py-2${prefilledClass('layout')}`} placeholder="3LDK" value={form.layout} onChange={onFormChange('layout')} /></label>
+          <label className="block">現況
+            <select name="current_condition" className="mt-1 w-full border rounded-lg px-3 py-2" value={form.currentCondition} onChange={onFormChange('currentCondition')}>
+              <option value="">未設定</option>
+              {CONDITION_STATUS_OPTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+          <label className="block">仕上げ（リノベ後の状態）
+            <select name="target_condition" className="mt-1 w-full border rounded-lg px-3 py-2" value={form.targetCondition} onChange={onFormChange('targetCondition')}>
+              <option value="">未設定（面積帯で概算）</option>
+              {RENOVATION_TARGET_OPTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
           <label className="block">登録年月日<input name="registered" type="date" className="mt-1 w-full border rounded-lg px-3 py-2" value={form.registered} onChange={onFormChange('registered')} /></label>
           {showContractDate && (
             <label className="block">成約（予定）年月日<input name="contract" type="date" className="mt-1 w-full border rounded-lg px-3 py-2" value={form.contract ?? ''} onChange={onFormChange('contract')} /></label>
@@ -100,14 +147,45 @@ export default function StockForm({
               <p className="mt-1 text-xs text-gray-400">既存PDFなし</p>
             ) : null}
           </label>
+          {mysoku?.reading && <p className="md:col-span-3 text-xs text-gray-500">PDFを読み取り中...</p>}
+          {mysoku?.error && <p className="md:col-span-3 text-xs text-red-600">{mysoku.error}</p>}
+          {mysoku && mysokuFields && (
+            <div className={`md:col-span-3 rounded-xl border p-3 text-xs space-y-2 ${mysoku.pending ? 'border-amber-300 bg-amber-50' : 'border-gray-200 bg-gray-50'}`}>
+              {listMysokuFields(mysokuFields).length === 0 ? (
+                <p className="text-gray-600">PDFから読み取れる項目がありませんでした（画像のみのPDFは読み取れません）。</p>
+              ) : (
+                <>
+                  <p className="text-gray-700">
+                    マイソクから読み取った値です。黄色の欄（階数・面積・間取り）に仮入力し、仲介会社の連絡先は保存時に反映します。内容を確認してください。
+                  </p>
+                  <div className="grid sm:grid-cols-2 md:grid-cols-5 gap-2">
+                    {listMysokuFields(mysokuFields).map((field) => (
+                      <div key={field}>
+                        <div className="text-gray-500">{MYSOKU_FIELD_LABELS[field]}</div>
+                        <div className="font-medium num">{formatMysokuValue(field, mysokuFields)}</div>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+              {mysoku.pending ? (
+                <button type="button" className="px-3 py-1.5 rounded-lg bg-amber-600 text-white" onClick={onConfirmMysoku}>確認済みにする</button>
+              ) : (
+                <p className="text-emerald-700">確認済み</p>
+              )}
+            </div>
+          )}
         </div>
       </section>
 
       <section className="space-y-4">
         <h3 className="font-semibold">計算（目標販売成約価格 / 買付目標額）</h3>
+        {onComparablesChange && (
+          <StockComparablePicker rows={referenceRows} comparables={comparables} onChange={onComparablesChange} />
+        )}
         <div className="grid gap-4 text-sm md:grid-cols-2 xl:grid-cols-[minmax(0,0.95fr)_minmax(0,1.35fr)_minmax(0,1.25fr)_minmax(0,1fr)_minmax(0,0.85fr)]">
           <label className="block">
-            <span className="block text-xs leading-5 text-gray-600">MAX成約単価</span>
+            <span className="block text-xs leading-5 text-gray-600">{comparables.length > 0 ? '比較事例の加重平均単価' : 'MAX成約単価'}</span>
             <span className="block text-sm leading-5">（円/㎡）</span>
             <input name="max_unit" type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" placeholder="350000" value={form.maxUnit} onChange={onFormChange('maxUnit')} />
           </label>
@@ -118,8 +196,19 @@ export default function StockForm({
           </label>
           <label className="block">
             <span className="block text-xs leading-5 text-gray-600">年数係数</span>
-            <span className="block text-sm leading-5">(1年間の伸び率の平均×年数)</span>
+            <span className="block text-sm leading-5">(状態・階別回帰の年率で基準成約から複利)</span>
             <input name="year_coef" type="number" min="0" step="0.01" value={form.yearCoef} className="mt-1 w-full border rounded-lg px-3 py-2 num" onChange={onFormChange('yearCoef')} />
+            {suggestedYearCoef != null ? (
+              <span className="mt-1 flex items-center gap-2 text-xs text-gray-600">
+                <span>提案 {suggestedYearCoef.toFixed(2)}（年率{((yearGrowth.cagr ?? 0) * 100).toFixed(1)}%×{yearGrowth.elapsedYears}年）</span>
+                {onApplyYearCoef && (
+                  <button type="button" className="px-2 py-0.5 rounded bg-gray-100" onClick={() => onApplyYearCoef(suggestedYearCoef.toFixed(2))}>適用</button>
+                )}
+              </span>
+            ) : (
+              <span className="mt-1 block text-xs text-gray-400">{yearGrowth.reason}</span>
+            )}
+            {yearGrowth.notes.map((note) => <span key={note} className="mt-1 block text-xs text-amber-700">{note}</span>)}
           </label>
           <label className="block">
             <span className="block text-xs leading-5 text-gray-600">その他</span>
@@ -133,6 +222,19 @@ export default function StockForm({
             </div>
           </div>
           <div className="md:col-span-4 space-y-2">
+            {areaAdjustment ? (
+              <div className="rounded-xl border border-gray-200 p-3 bg-gray-50">
+                <div className="text-gray-500 text-xs">面積補正係数（設定単価×係数合計にさらに掛けます）</div>
+                <div className="mt-1 flex flex-wrap items-baseline gap-3">
+                  <div className="font-semibold num">{areaAdjustment.coef.toFixed(3)}</div>
+                  <div className="text-xs text-gray-500">
+                    基準 {areaAdjustment.referenceArea.toFixed(1)}㎡ → 在庫 {areaAdjustment.stockArea.toFixed(1)}㎡ / 面積弾力性 {areaAdjustment.curve.elasticity.toFixed(3)}（{AREA_CURVE_SOURCE_LABELS[areaAdjustment.curve.source]} {areaAdjustment.curve.sampleCount}件から推定）
+                  </div>
+                </div>
+              </div>
+            ) : safeNumber(form.area) > 0 && (
+              <div className="text-xs text-gray-400">面積補正なし（基準事例の面積が不明か、面積と単価の関係を推定できる事例が不足しています）</div>
+            )}
             {selectedEntry && (selectedEntry.interiorCoef != null || selectedEntry.yearCoef != null) && (
               <div className="rounded-xl border border-gray-200 p-3 bg-gray-50">
                 <div className="text-gray-500 text-xs">過去MAXの係数（内装 / 年数）</div>
@@ -174,6 +276,20 @@ export default function StockForm({
             </tbody>
           </table>
         </div>
+        <StockRenovationEstimate spec={renovationSpec} area={safeNumber(form.area)} costProfile={activeCostProfile} />
+        {hedonic && (
+          <StockHedonicEstimate hedonic={hedonic} floorRow={floors.find((floor) => floor.floor === selectedFloorNum) ?? null} />
+        )}
+        {sensitivity && (
+          <StockSensitivityPanel sensitivity={sensitivity} form={form} floorNum={selectedFloorNum} costProfile={activeCostProfile} />
+        )}
+        <StockRentalYieldPanel
+          complex={selectedComplex}
+          floorRow={floors.find((floor) => floor.floor === selectedFloorNum) ?? null}
+          area={safeNumber(form.area)}
+          costProfile={activeCostProfile}
+          renovation={renovationSpec}
+        />
         <div className="overflow-auto rounded-xl border border-gray-200 bg-gray-50">
           <table className="w-full text-xs">
             <thead className="text-gray-600 bg-gray-100">
@@ -181,6 +297,7 @@ export default function StockForm({
                 <th className="text-left py-2 px-2">年度</th>
                 <th className="text-right py-2 px-2">平均㎡単価</th>
                 <th className="text-right py-2 px-2">成約件数</th>
+                <th className="text-right py-2 px-2">回帰値（該当階・状態の水準）</th>
               </tr>
             </thead>
             <tbody>
@@ -189,18 +306,19 @@ export default function StockForm({
                   <td className="py-2 px-2 num">{row.year}</td>
                   <td className="py-2 px-2 text-right num">{row.meanUnitPrice.toLocaleString('ja-JP')}</td>
                   <td className="py-2 px-2 text-right num">{row.contractCount.toLocaleString('ja-JP')}件</td>
+                  <td className="py-2 px-2 text-right num">{fittedByYear.get(String(row.year))?.toLocaleString('ja-JP') ?? '—'}</td>
                 </tr>
               ))}
               {yearlyReferenceRows.length === 0 && (
                 <tr className="border-t">
-                  <td className="py-2 px-2 text-gray-500" colSpan={3}>年度別の過去成約データはありません</td>
+                  <td className="py-2 px-2 text-gray-500" colSpan={4}>年度別の過去成約データはありません</td>
                 </tr>
               )}
             </tbody>
           </table>
         </div>
         <ComplexReferenceSummaries
-          referenceRows={referenceRows}
+          referenceRows={basisRows}
           maxFloor={selectedComplex?.floorCount ?? null}
           hideMaxCoefColumns
         />
@@ -0,0 +1,59 @@
+'use client'
+
+import { formatUnit, type FloorRow } from '@/lib/stockPricing'
+import type { StockHedonicView } from './stockFormShared'
+
+type Props = {
+  hedonic: StockHedonicView
+  floorRow: FloorRow | null
+}
+
+function formatGap(target: number, estimate: number): string {
+  const ratio = (target / estimate - 1) * 100
+  return `${ratio >= 0 ? '+' : ''}${ratio.toFixed(1)}%`
+}
+
+export function StockHedonicEstimate({ hedonic, floorRow }: Props) {
+  const { fit, prediction } = hedonic
+  const model = fit?.model ?? null
+  const targetUnit = floorRow?.targetUnit ?? 0
+  const outside = prediction != null && targetUnit > 0 && (targetUnit < prediction.lower || targetUnit > prediction.upper)
+
+  return (
+    <div className="rounded-xl border border-gray-200 p-4 bg-gray-50 text-sm space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="font-semibold">回帰モデルによる推定（全団地の過去成約）</div>
+        {model && (
+          <div className="text-xs text-gray-500">学習件数 {model.sampleCount.toLocaleString('ja-JP')}件 / 決定係数 {model.rSquared.toFixed(2)}</div>
+        )}
+      </div>
+      {!fit && <p className="text-xs text-gray-500">モデルを計算中...</p>}
+      {fit && !model && <p className="text-xs text-gray-500">{fit.reason}</p>}
+      {model && !prediction && <p className="text-xs text-gray-500">階数と面積を入力すると推定単価を表示します</p>}
+      {model && prediction && (
+        <>
+          <div className="grid gap-3 md:grid-cols-3">
+            <div>
+              <div className="text-xs text-gray-500">推定㎡単価（フルリフォーム・今年成約）</div>
+              <div className="font-semibold num">{formatUnit(prediction.unitPrice)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">95%予測区間</div>
+              <div className="num">{formatUnit(prediction.lower)} 〜 {formatUnit(prediction.upper)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">目標単価{floorRow ? `（${floorRow.floor}F）` : ''}との差</div>
+              <div className={`num ${outside ? 'text-red-700 font-semibold' : ''}`}>
+                {targetUnit > 0 ? `${formatUnit(targetUnit)}（${formatGap(targetUnit, prediction.unitPrice)}）` : '—'}
+              </div>
+            </div>
+          </div>
+          {outside && <p className="text-xs text-red-700">目標単価が予測区間の外にあります。MAX成約や係数の設定を確認してください。</p>}
+          {prediction.complexSampleCount < 3 && (
+            <p className="text-xs text-amber-700">この団地の成約は{prediction.complexSampleCount}件のため、築年数・駅距離・EVなど建物属性から推定しています。</p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
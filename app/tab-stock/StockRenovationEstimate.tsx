@@ -0,0 +1,60 @@
+'use client'
+
+import type { CostProfile } from '@/lib/costProfile'
+import { estimateRenovation, type RenovationSpec, type RenovationUnit } from '@/lib/renovationEstimate'
+import { calcMoveCost, formatYen } from '@/lib/stockPricing'
+
+type Props = {
+  spec: RenovationSpec
+  area: number
+  costProfile: CostProfile
+}
+
+const UNIT_LABELS: Record<RenovationUnit, string> = {
+  set: '式',
+  sqm: '㎡',
+  room: '室',
+}
+
+export function StockRenovationEstimate({ spec, area, costProfile }: Props) {
+  const estimate = estimateRenovation(spec, area)
+
+  return (
+    <div className="rounded-xl border border-gray-200 p-4 bg-gray-50 text-sm space-y-2">
+      <div className="font-semibold">リノベ費用の見積</div>
+      {!estimate ? (
+        <p className="text-xs text-gray-500">
+          仕上げ（目標状態）が未設定のため、面積帯による概算 {area > 0 ? formatYen(calcMoveCost(area, costProfile)) : '—'} を買付目標額に使います。
+        </p>
+      ) : (
+        <>
+          <table className="w-full text-xs">
+            <thead className="text-gray-600">
+              <tr>
+                <th className="text-left py-1">項目</th>
+                <th className="text-right py-1">数量</th>
+                <th className="text-right py-1">単価</th>
+                <th className="text-right py-1">金額</th>
+              </tr>
+            </thead>
+            <tbody>
+              {estimate.lines.map((line) => (
+                <tr className="border-t" key={line.key}>
+                  <td className="py-1">{line.label}</td>
+                  <td className="py-1 text-right num">{line.quantity.toLocaleString('ja-JP', { maximumFractionDigits: 2 })}{UNIT_LABELS[line.unit]}</td>
+                  <td className="py-1 text-right num">{formatYen(line.unitCost)}</td>
+                  <td className="py-1 text-right num">{formatYen(line.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex flex-wrap justify-end gap-x-4 text-xs text-gray-600">
+            <span>小計 {formatYen(estimate.subtotal)}</span>
+            <span>現況補正 ×{estimate.conditionFactor.toFixed(2)}</span>
+            <span className="font-semibold text-gray-900">見積額 {formatYen(estimate.total)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
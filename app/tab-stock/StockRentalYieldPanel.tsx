@@ -0,0 +1,102 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { CostProfile } from '@/lib/costProfile'
+import {
+  calcRentalYieldValuation,
+  DEFAULT_GROSS_YIELD,
+  DEFAULT_NET_YIELD,
+  DEFAULT_VACANCY_RATE,
+} from '@/lib/rentalYield'
+import type { RenovationSpec } from '@/lib/renovationEstimate'
+import { formatYen, safeNumber, type FloorRow } from '@/lib/stockPricing'
+import type { StockComplexOption } from './stockFormShared'
+
+type Props = {
+  complex: StockComplexOption | null
+  floorRow: FloorRow | null
+  area: number
+  costProfile: CostProfile
+  renovation: RenovationSpec | null
+}
+
+function toPercentText(rate: number): string {
+  return String(Math.round(rate * 1000) / 10)
+}
+
+export function StockRentalYieldPanel({ complex, floorRow, area, costProfile, renovation }: Props) {
+  const [monthlyRent, setMonthlyRent] = useState('')
+  const [grossYield, setGrossYield] = useState(toPercentText(DEFAULT_GROSS_YIELD))
+  const [netYield, setNetYield] = useState(toPercentText(DEFAULT_NET_YIELD))
+  const [vacancyRate, setVacancyRate] = useState(toPercentText(DEFAULT_VACANCY_RATE))
+  const defaultRent = safeNumber(complex?.rentCaseMaxMonthlyRent)
+  const rent = monthlyRent.trim() ? safeNumber(monthlyRent) : defaultRent
+
+  const valuation = useMemo(() => calcRentalYieldValuation({
+    monthlyRent: rent,
+    grossYield: safeNumber(grossYield) / 100,
+    netYield: safeNumber(netYield) / 100,
+    vacancyRate: safeNumber(vacancyRate) / 100,
+    mgmtFeeMonthly: safeNumber(complex?.mgmtFeeMonthly),
+    repairReserveFeeMonthly: safeNumber(complex?.repairReserveFeeMonthly),
+    area,
+    profile: costProfile,
+    context: { builtYm: complex?.builtYm ?? null, renovation },
+  }), [rent, grossYield, netYield, vacancyRate, complex, area, costProfile, renovation])
+
+  const buyTarget = floorRow?.buyTarget ?? 0
+
+  return (
+    <div className="rounded-xl border border-gray-200 p-4 bg-gray-50 text-sm space-y-3">
+      <div className="font-semibold">賃貸利回りによる評価</div>
+      <div className="grid gap-3 md:grid-cols-4">
+        <label className="block">
+          <span className="block text-xs text-gray-600">想定賃料（月額）</span>
+          <input type="number" min="0" step="1000" className="mt-1 w-full border rounded-lg px-3 py-2 num bg-white" placeholder={defaultRent > 0 ? String(defaultRent) : '80000'} value={monthlyRent} onChange={(e) => setMonthlyRent(e.target.value)} />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-600">目標表面利回り（%）</span>
+          <input type="number" min="0" step="0.1" className="mt-1 w-full border rounded-lg px-3 py-2 num bg-white" value={grossYield} onChange={(e) => setGrossYield(e.target.value)} />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-600">目標実質利回り（%）</span>
+          <input type="number" min="0" step="0.1" className="mt-1 w-full border rounded-lg px-3 py-2 num bg-white" value={netYield} onChange={(e) => setNetYield(e.target.value)} />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-600">空室率（%）</span>
+          <input type="number" min="0" max="100" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num bg-white" value={vacancyRate} onChange={(e) => setVacancyRate(e.target.value)} />
+        </label>
+      </div>
+      {!valuation ? (
+        <p className="text-xs text-gray-500">想定賃料と目標利回りを入力すると、利回りから逆算した購入上限額を表示します（団地の賃貸事例の最高賃料を初期値にします）</p>
+      ) : (
+        <>
+          <dl className="grid gap-y-2 gap-x-6 md:grid-cols-4 text-xs">
+            <div><dt className="text-gray-500">年間賃料</dt><dd className="num">{formatYen(valuation.annualRent)}</dd></div>
+            <div><dt className="text-gray-500">空室損</dt><dd className="num">−{formatYen(valuation.vacancyLoss)}</dd></div>
+            <div><dt className="text-gray-500">管理費・修繕積立金（年）</dt><dd className="num">−{formatYen(valuation.annualFees)}</dd></div>
+            <div><dt className="text-gray-500">純収益（NOI）</dt><dd className="num">{formatYen(valuation.netOperatingIncome)}</dd></div>
+            <div><dt className="text-gray-500">表面利回りからの上限</dt><dd className="num">{formatYen(valuation.grossMaxPrice)}</dd></div>
+            <div><dt className="text-gray-500">実質利回りからの総投資額</dt><dd className="num">{formatYen(valuation.netBudget)}</dd></div>
+            <div><dt className="text-gray-500">実質利回りからの上限</dt><dd className="num">{formatYen(valuation.netMaxPrice)}</dd></div>
+          </dl>
+          <div className="flex flex-wrap items-end gap-x-6 gap-y-2 border-t pt-3">
+            <div>
+              <div className="text-xs text-gray-500">利回りからの購入上限額（{valuation.binding === 'net' ? '実質' : '表面'}利回りで決定）</div>
+              <div className="text-base font-semibold num">{formatYen(valuation.maxPurchasePrice)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">再販での買付目標額{floorRow ? `（${floorRow.floor}F）` : ''}</div>
+              <div className="text-base font-semibold text-emerald-700 num">{buyTarget ? formatYen(buyTarget) : '—'}</div>
+            </div>
+            {buyTarget > 0 && (
+              <div className="text-xs text-gray-600">
+                差額 {formatYen(Math.abs(valuation.maxPurchasePrice - buyTarget))}（{valuation.maxPurchasePrice > buyTarget ? '賃貸保有の方が高く買える' : '再販の方が高く買える'}）
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { CostProfile } from '@/lib/costProfile'
+import { buildSensitivityRows, resolveBreakEven, type SensitivityOutcome } from '@/lib/stockSensitivity'
+import { formatUnit, formatYen, safeNumber } from '@/lib/stockPricing'
+import type { StockFormState, StockSensitivityView } from './stockFormShared'
+
+type Props = {
+  sensitivity: StockSensitivityView
+  form: StockFormState
+  floorNum: number | null
+  costProfile: CostProfile
+}
+
+function formatDelta(value: number): string {
+  if (value === 0) return '±0'
+  return `${value > 0 ? '+' : '−'}${Math.abs(Math.round(value / 10000)).toLocaleString('ja-JP')}万円`
+}
+
+function OutcomeCell({ outcome, baseline }: { outcome: SensitivityOutcome; baseline: number }) {
+  return (
+    <td className="py-2 px-2 text-right num">
+      <div className="text-gray-500">{outcome.label}</div>
+      <div>{formatYen(outcome.buyTarget)}</div>
+      <div className={outcome.buyTarget < baseline ? 'text-red-700' : 'text-emerald-700'}>{formatDelta(outcome.buyTarget - baseline)}</div>
+    </td>
+  )
+}
+
+export function StockSensitivityPanel({ sensitivity, form, floorNum, costProfile }: Props) {
+  const [purchasePrice, setPurchasePrice] = useState('')
+  const yearCoef = safeNumber(form.yearCoef)
+  const otherCoef = safeNumber(form.otherCoef)
+  const area = safeNumber(form.area)
+
+  const result = useMemo(() => buildSensitivityRows({
+    base: {
+      baseUnit: safeNumber(form.coefTotal),
+      yearCoef,
+      otherCoef,
+      areaCoef: sensitivity.areaCoef,
+      area,
+      floor: floorNum,
+      floorCoefs: sensitivity.floorCoefs,
+      profile: costProfile,
+      context: { builtYm: sensitivity.builtYm, renovation: sensitivity.renovation },
+    },
+    floorPatternOptions: sensitivity.floorPatternOptions,
+    floorCount: sensitivity.floorCount,
+  }), [form.coefTotal, yearCoef, otherCoef, area, floorNum, sensitivity.floorCoefs, sensitivity.floorPatternOptions, sensitivity.floorCount, sensitivity.builtYm, sensitivity.renovation, sensitivity.areaCoef, costProfile])
+
+  const breakEven = useMemo(() => {
+    if (!result) return null
+    return resolveBreakEven({
+      purchasePrice: safeNumber(purchasePrice),
+      area,
+      baseCoef: (1 + yearCoef + otherCoef) * (sensitivity.areaCoef ?? 1),
+      floorCoef: result.baseline.floorCoef,
+      profile: costProfile,
+      context: { builtYm: sensitivity.builtYm, renovation: sensitivity.renovation },
+    })
+  }, [result, purchasePrice, area, yearCoef, otherCoef, sensitivity.builtYm, sensitivity.renovation, sensitivity.areaCoef, costProfile])
+
+  const baseline = result?.baseline ?? null
+  const scale = result && baseline
+    ? Math.max(...result.rows.flatMap((row) => [row.low, row.high].map((outcome) => Math.abs(outcome.buyTarget - baseline.buyTarget))), 1)
+    : 1
+
+  return (
+    <div className="rounded-xl border border-gray-200 p-4 bg-gray-50 text-sm space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="font-semibold">感度分析（買付目標額の振れ幅）</div>
+        {baseline && (
+          <div className="text-xs text-gray-500">{baseline.floor}F 基準: 募集総額 {formatYen(baseline.raise)} / 買付目標額 {formatYen(baseline.buyTarget)}</div>
+        )}
+      </div>
+      {!result || !baseline ? (
+        <p className="text-xs text-gray-500">設定単価と面積を入力すると感度分析を表示します</p>
+      ) : (
+        <div className="overflow-auto">
+          <table className="w-full text-xs">
+            <thead className="text-gray-600 bg-gray-100">
+              <tr>
+                <th className="text-left py-2 px-2">入力</th>
+                <th className="text-right py-2 px-2">下振れ</th>
+                <th className="py-2 px-2 w-1/3">買付目標額への影響</th>
+                <th className="text-right py-2 px-2">上振れ</th>
+                <th className="text-right py-2 px-2">募集総額の幅</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.rows.map((row) => {
+                const deltas = [row.low.buyTarget - baseline.buyTarget, row.high.buyTarget - baseline.buyTarget]
+                const negative = Math.max(0, -Math.min(...deltas)) / scale * 100
+                const positive = Math.max(0, Math.max(...deltas)) / scale * 100
+                return (
+                  <tr className="border-t" key={row.key}>
+                    <td className="py-2 px-2">{row.label}</td>
+                    <OutcomeCell outcome={row.low} baseline={baseline.buyTarget} />
+                    <td className="py-2 px-2">
+                      <div className="flex h-4">
+                        <div className="flex w-1/2 justify-end border-r border-gray-400">
+                          <div className="h-full bg-red-300" style={{ width: `${negative}%` }} />
+                        </div>
+                        <div className="w-1/2">
+                          <div className="h-full bg-emerald-300" style={{ width: `${positive}%` }} />
+                        </div>
+                      </div>
+                    </td>
+                    <OutcomeCell outcome={row.high} baseline={baseline.buyTarget} />
+                    <td className="py-2 px-2 text-right num">
+                      {formatYen(Math.min(row.low.raise, row.high.raise))} 〜 {formatYen(Math.max(row.low.raise, row.high.raise))}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {result && baseline && (
+        <div className="grid gap-3 md:grid-cols-4 items-end">
+          <label className="block">
+            <span className="block text-xs text-gray-600">売出価格（仕入予定額）</span>
+            <input type="number" min="0" step="10000" className="mt-1 w-full border rounded-lg px-3 py-2 num bg-white" placeholder="15000000" value={purchasePrice} onChange={(e) => setPurchasePrice(e.target.value)} />
+          </label>
+          {breakEven ? (
+            <>
+              <div>
+                <div className="text-xs text-gray-500">損益分岐の募集総額</div>
+                <div className={`font-semibold num ${breakEven.raise > baseline.raise ? 'text-red-700' : 'text-emerald-700'}`}>{formatYen(breakEven.raise)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">必要な成約価格 / 単価</div>
+                <div className="num">{formatYen(breakEven.targetClose)}（{formatUnit(breakEven.targetUnit)}）</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">必要な設定単価</div>
+                <div className="num">{breakEven.baseUnit != null ? formatUnit(breakEven.baseUnit) : '—'}</div>
+              </div>
+            </>
+          ) : (
+            <p className="md:col-span-3 text-xs text-gray-500">売出価格を入力すると、利益率を確保できる最低の募集総額を逆算します</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,8 +3,13 @@
 import { useEffect, useMemo, useState } from 'react'
 import Link from 'next/link'
 import RequireAuth from '@/components/RequireAuth'
+import TableExportButtons from '@/components/TableExportButtons'
 import UserEmail from '@/components/UserEmail'
-import { formatStockYen, mapStockRowsToCards, type StockCard, type StockRow } from '@/lib/stockCards'
+import { DEFAULT_COST_PROFILE } from '@/lib/costProfile'
+import { STOCK_EXPORT_COLUMNS } from '@/lib/listExports'
+import { formatStockRange, formatStockYen, mapStockRowsToCards, type StockCard, type StockRow } from '@/lib/stockCards'
+import { loadComplexReferenceRows } from '@/lib/repositories/complexEdit'
+import { loadActiveCostProfile } from '@/lib/repositories/costProfiles'
 import { listStockComplexes, listStocksByComplex, softDeleteStock } from '@/lib/repositories/stocks'
 import { getSupabase } from '@/lib/supabaseClient'
 import { useClientSearchParams } from '@/lib/useClientSearchParams'
@@ -64,7 +69,12 @@ export default function TabStockClient() {
       setLoading(true); setMsg('')
       try {
         const rows = await listStocksByComplex(supabase, selectedComplexId)
-        if (mounted) setCards(mapStockRowsToCards(rows as StockRow[]))
+        // 原価プロファイルや参考事例が読めなくても在庫一覧は出す
+        const [costProfile, reference] = await Promise.all([
+          loadActiveCostProfile(supabase).catch((e) => { console.error(e); return DEFAULT_COST_PROFILE }),
+          loadComplexReferenceRows(supabase, selectedComplexId).catch((e) => { console.error(e); return [] }),
+        ])
+        if (mounted) setCards(mapStockRowsToCards(rows as StockRow[], new Date(), costProfile, reference))
       } catch (e) {
         console.error(e)
         if (mounted) setMsg('在庫取得に失敗しました: ' + toErrorMessage(e))
@@ -108,6 +118,11 @@ export default function TabStockClient() {
     return `${c.name}${loc ? `（${loc}）` : ''}`
   }, [complexes, selectedComplexId])
 
+  const exportRows = useMemo(() => {
+    const complexName = complexes.find((x) => x.id === selectedComplexId)?.name ?? ''
+    return filtered.map((card) => ({ ...card, complexName }))
+  }, [complexes, selectedComplexId, filtered])
+
   async function handleDelete(stockId: string) {
     const ok = window.confirm('この在庫を削除しますか？')
     if (!ok) return
@@ -150,6 +165,8 @@ export default function TabStockClient() {
               <li><Link href="/tab-list" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">過去成約一覧</Link></li>
               <li><span className="tabbtn px-3 py-1.5 rounded-lg bg-black text-white">在庫一覧</span></li>
               <li><Link href="/tab-stock-reg" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">在庫登録</Link></li>
+              <li><Link href="/tab-cost-profile" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">原価モデル</Link></li>
+              <li><Link href="/tab-stock/repricing" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">価格の一括見直し</Link></li>
             </ul>
           </nav>
         </header>
@@ -170,6 +187,13 @@ export default function TabStockClient() {
                   <label className="flex items-center gap-1">状態
                     <span className="text-gray-500">{headerMsg}</span>
                   </label>
+                  <TableExportButtons
+                    filenamePrefix="stocks"
+                    sheetName="在庫"
+                    columns={STOCK_EXPORT_COLUMNS}
+                    rows={exportRows}
+                    disabled={loading}
+                  />
                 </div>
               </div>
 
@@ -222,7 +246,7 @@ export default function TabStockClient() {
                 <section className="md:col-span-3 bg-white rounded-2xl shadow overflow-hidden border">
                   <div className="border-b p-4 flex items-center justify-between text-sm text-gray-600">
                     <span>在庫カード（目標成約価格 / 買付目標額）</span>
-                    <div className="text-xs text-gray-500">MAX係数 × 階効用で目標計算（参考表示）</div>
+                    <div className="text-xs text-gray-500">MAX係数 × 階効用で目標計算（参考表示）・下段は成約事例のばらつきによる幅</div>
                   </div>
                   <div id="stocks" className="divide-y">
                     {filtered.map((d) => (
@@ -232,16 +256,26 @@ export default function TabStockClient() {
                           <span className="text-xs text-gray-500">登録: {d.reg || '-'}</span>
                           {d.status === '買付' && <span className="badge badge-hot text-xs">買付</span>}
                           {d.days > 0 && d.days < 45 && <span className="badge badge-new text-xs">NEW</span>}
+                          {d.band?.thin && <span className="px-2 py-0.5 rounded bg-amber-100 text-amber-800 text-xs">根拠薄（事例{d.band.count}件）</span>}
+                          {d.band && d.band.borrowedCount > 0 && <span className="px-2 py-0.5 rounded bg-sky-100 text-sky-800 text-xs">他団地事例{d.band.borrowedCount}件を含む</span>}
                         </div>
                         <div className="grid md:grid-cols-5 gap-3 text-sm">
                           <div><div className="text-gray-500">販売価格</div><div className="font-semibold num">{formatStockYen(d.price)}</div></div>
                           <div><div className="text-gray-500">㎡単価</div><div className="font-semibold num">{d.unit ? formatStockYen(d.unit) : '—'}</div></div>
                           <div><div className="text-gray-500">目標単価</div><div className="font-semibold num">{d.targetUnit ? formatStockYen(d.targetUnit) : '—'}</div></div>
-                          <div><div className="text-gray-500">目標成約価格</div><div className="font-semibold num">{d.targetPrice ? formatStockYen(d.targetPrice) : '—'}</div></div>
-                          <div><div className="text-gray-500">買付目標額</div><div className="font-semibold text-emerald-700 num">{d.buyTarget ? formatStockYen(d.buyTarget) : '—'}</div></div>
+                          <div>
+                            <div className="text-gray-500">目標成約価格</div>
+                            <div className="font-semibold num">{d.targetPrice ? formatStockYen(d.targetPrice) : '—'}</div>
+                            {d.band && <div className={`text-xs num ${d.band.thin ? 'text-amber-700' : 'text-gray-500'}`}>{formatStockRange(d.band.low.targetClose, d.band.high.targetClose)}</div>}
+                          </div>
+                          <div>
+                            <div className="text-gray-500">買付目標額</div>
+                            <div className="font-semibold text-emerald-700 num">{d.buyTarget ? formatStockYen(d.buyTarget) : '—'}</div>
+                            {d.band && <div className={`text-xs num ${d.band.thin ? 'text-amber-700' : 'text-gray-500'}`}>{formatStockRange(d.band.low.buyTarget, d.band.high.buyTarget)}</div>}
+                          </div>
                         </div>
                         <div className="flex items-center justify-between text-xs text-gray-500">
-                          <span>経過: {d.days}日 / リノベ: {d.renovated == null ? '—' : d.renovated ? '有' : '無'} / ステータス: {d.status}</span>
+                          <span>経過: {d.days}日 / リノベ: {d.renovated == null ? '—' : d.renovated ? '有' : '無'} / ステータス: {d.status} / 原価モデル: {d.costProfileVersion != null ? `v${d.costProfileVersion}` : '—'}</span>
                           <div className="flex items-center gap-2 text-sm">
                             <Link className="underline text-blue-700" href={`/tab-stock/${d.id}/edit`}>詳細</Link>
                             <button
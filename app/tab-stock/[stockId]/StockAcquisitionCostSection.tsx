@@ -0,0 +1,48 @@
+'use client'
+
+import { useMemo } from 'react'
+import type { CostProfile } from '@/lib/costProfile'
+import { buildRenovationSpec } from '@/lib/renovationEstimate'
+import { calcAcquisitionBreakdown, calcRaise, formatYen, safeNumber } from '@/lib/stockPricing'
+import type { StockDetail } from './stockDetailShared'
+
+type Props = {
+  row: StockDetail | null
+  costProfile: CostProfile
+  builtYm?: string | null
+}
+
+export default function StockAcquisitionCostSection({ row, costProfile, builtYm }: Props) {
+  const raise = safeNumber(row?.raise_price) || calcRaise(safeNumber(row?.target_close_price), costProfile)
+  const area = safeNumber(row?.area_sqm)
+  const breakdown = useMemo(() => {
+    if (raise <= 0) return null
+    const renovation = buildRenovationSpec(row?.current_condition, row?.target_condition, row?.layout)
+    return calcAcquisitionBreakdown(raise, area, costProfile, { builtYm, renovation })
+  }, [raise, area, row, costProfile, builtYm])
+
+  return (
+    <section className="space-y-4">
+      <h3 className="font-semibold">諸費用の内訳</h3>
+      {costProfile.otherCostMode === 'flat' ? (
+        <p className="text-sm text-gray-600">
+          コストプロファイルが一律計算のため、諸費用は募集総額の {(costProfile.otherCostRate * 100).toFixed(1)}% で見込んでいます。
+        </p>
+      ) : !breakdown ? (
+        <p className="text-sm text-gray-600">募集総額が未計算のため内訳を表示できません。</p>
+      ) : (
+        <>
+          <dl className="grid md:grid-cols-4 gap-y-3 gap-x-6 text-sm">
+            {breakdown.items.map((item) => (
+              <div key={item.key}><dt className="text-gray-500">{item.label}</dt><dd className="num">{formatYen(item.amount)}</dd></div>
+            ))}
+            <div><dt className="text-gray-500">諸費用合計</dt><dd className="num font-semibold">{formatYen(breakdown.total)}</dd></div>
+          </dl>
+          <p className="text-xs text-gray-500">
+            物件価格 {formatYen(breakdown.purchasePrice)}・評価額 {formatYen(breakdown.assessedValue)}（築年 {builtYm || '不明'}）で計算しています。固定資産税等は決済日未定のため半年分です。
+          </p>
+        </>
+      )}
+    </section>
+  )
+}
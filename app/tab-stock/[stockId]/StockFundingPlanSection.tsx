@@ -0,0 +1,146 @@
+'use client'
+
+import { useEffect, useMemo, useState, type ChangeEvent } from 'react'
+import type { CostProfile } from '@/lib/costProfile'
+import { buildRenovationSpec } from '@/lib/renovationEstimate'
+import {
+  buildFundingPlan,
+  buildFundingPlanCsv,
+  buildFundingPlanDefaults,
+  buildRepaymentSchedule,
+  fundingPlanToForm,
+  mapFundingPlanJson,
+  REPAYMENT_METHOD_OPTIONS,
+  validateFundingPlanForm,
+  type FundingPlan,
+  type FundingPlanForm,
+  type RepaymentMethod,
+} from '@/lib/fundingPlan'
+import { calcBuyTarget, calcRaise, formatYen, safeNumber } from '@/lib/stockPricing'
+import type { StockDetail } from './stockDetailShared'
+
+type Props = {
+  row: StockDetail | null
+  costProfile: CostProfile
+  builtYm?: string | null
+  saving: boolean
+  onSave: (plan: FundingPlan) => void
+}
+
+function buildInitialForm(row: StockDetail | null, costProfile: CostProfile, builtYm?: string | null): FundingPlanForm {
+  const stored = mapFundingPlanJson(row?.funding_plan)
+  if (stored) return fundingPlanToForm(stored)
+  const area = safeNumber(row?.area_sqm)
+  const raise = safeNumber(row?.raise_price) || calcRaise(safeNumber(row?.target_close_price), costProfile)
+  const context = { builtYm, renovation: buildRenovationSpec(row?.current_condition, row?.target_condition, row?.layout) }
+  const buyTarget = safeNumber(row?.buy_target_price) || calcBuyTarget(raise, area, costProfile, context)
+  return buildFundingPlanDefaults({ buyTarget, raise, area, profile: costProfile, context })
+}
+
+function downloadCsv(filename: string, csv: string) {
+  const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function StockFundingPlanSection({ row, costProfile, builtYm, saving, onSave }: Props) {
+  const [form, setForm] = useState<FundingPlanForm>(() => buildInitialForm(row, costProfile, builtYm))
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    setForm(buildInitialForm(row, costProfile, builtYm))
+  }, [row, costProfile, builtYm])
+
+  const onChange = (key: keyof FundingPlanForm) => (e: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setForm((prev) => ({ ...prev, [key]: e.target.value }))
+  }
+
+  const plan = useMemo(() => buildFundingPlan(form, row?.cost_profile_version ?? null), [form, row?.cost_profile_version])
+  const schedule = useMemo(() => buildRepaymentSchedule(plan), [plan])
+  const totalInterest = schedule.reduce((sum, item) => sum + item.interest, 0)
+  const stored = row?.funding_plan != null
+
+  function handleSave() {
+    const message = validateFundingPlanForm(form)
+    setError(message ?? '')
+    if (!message) onSave(plan)
+  }
+
+  function handleExport() {
+    const message = validateFundingPlanForm(form)
+    setError(message ?? '')
+    if (!message) downloadCsv(`funding-plan-${row?.id ?? 'stock'}.csv`, buildFundingPlanCsv(plan, schedule))
+  }
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold">ファンド収支事業計画</h3>
+        <div className="flex items-center gap-2">
+          {row?.fundplan_url && (
+            <a href={row.fundplan_url} className="text-xs text-blue-600 underline" target="_blank" rel="noopener noreferrer">旧スプレッドシート</a>
+          )}
+          <button type="button" className="px-3 py-1.5 rounded-lg bg-gray-100 text-sm" onClick={handleExport}>CSV出力</button>
+          <button type="button" className="px-3 py-1.5 rounded-lg bg-black text-white text-sm disabled:opacity-60" disabled={saving} onClick={handleSave}>
+            {saving ? '保存中...' : stored ? '計画を更新' : '計画を保存'}
+          </button>
+        </div>
+      </div>
+      {!stored && <p className="text-xs text-gray-500">募集総額の内訳（買付目標額・リノベ費用・仲介手数料・その他）から初期値を作成しています。</p>}
+      <div className="grid md:grid-cols-4 gap-4 text-sm">
+        <label className="block">物件価格<input type="number" min="0" step="10000" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.purchasePrice} onChange={onChange('purchasePrice')} /></label>
+        <label className="block">諸費用・税金<input type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.taxesAndFees} onChange={onChange('taxesAndFees')} /></label>
+        <label className="block">仲介手数料<input type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.brokerage} onChange={onChange('brokerage')} /></label>
+        <label className="block">リノベ費用<input type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.renovationCost} onChange={onChange('renovationCost')} /></label>
+        <label className="block">借入額<input type="number" min="0" step="10000" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.loanAmount} onChange={onChange('loanAmount')} /></label>
+        <label className="block">金利（年%）<input type="number" min="0" step="0.01" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.annualRatePercent} onChange={onChange('annualRatePercent')} /></label>
+        <label className="block">返済期間（月）<input type="number" min="1" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.termMonths} onChange={onChange('termMonths')} /></label>
+        <label className="block">返済開始月<input type="month" className="mt-1 w-full border rounded-lg px-3 py-2" value={form.startMonth} onChange={onChange('startMonth')} /></label>
+        <label className="block">返済方式
+          <select className="mt-1 w-full border rounded-lg px-3 py-2" value={form.repayment} onChange={(e) => setForm((prev) => ({ ...prev, repayment: e.target.value as RepaymentMethod }))}>
+            {REPAYMENT_METHOD_OPTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </label>
+      </div>
+      <dl className="grid md:grid-cols-4 gap-y-3 gap-x-6 text-sm">
+        <div><dt className="text-gray-500">総事業費</dt><dd className="num font-semibold">{formatYen(plan.totalCost)}</dd></div>
+        <div><dt className="text-gray-500">借入額</dt><dd className="num">{formatYen(plan.loanAmount)}</dd></div>
+        <div><dt className="text-gray-500">自己資金</dt><dd className={`num ${plan.equity < 0 ? 'text-red-700' : ''}`}>{formatYen(plan.equity)}</dd></div>
+        <div><dt className="text-gray-500">支払利息合計</dt><dd className="num">{formatYen(totalInterest)}</dd></div>
+      </dl>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {schedule.length > 0 && (
+        <div className="max-h-80 overflow-auto rounded-xl border border-gray-200 bg-gray-50">
+          <table className="w-full text-xs">
+            <thead className="text-gray-600 bg-gray-100">
+              <tr>
+                <th className="text-left py-2 px-2">回</th>
+                <th className="text-left py-2 px-2">年月</th>
+                <th className="text-right py-2 px-2">返済額</th>
+                <th className="text-right py-2 px-2">元金</th>
+                <th className="text-right py-2 px-2">利息</th>
+                <th className="text-right py-2 px-2">残高</th>
+              </tr>
+            </thead>
+            <tbody>
+              {schedule.map((item) => (
+                <tr className="border-t" key={item.month}>
+                  <td className="py-2 px-2 num">{item.month}</td>
+                  <td className="py-2 px-2 num">{item.ym}</td>
+                  <td className="py-2 px-2 text-right num">{formatYen(item.payment)}</td>
+                  <td className="py-2 px-2 text-right num">{formatYen(item.principal)}</td>
+                  <td className="py-2 px-2 text-right num">{formatYen(item.interest)}</td>
+                  <td className="py-2 px-2 text-right num">{formatYen(item.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  )
+}
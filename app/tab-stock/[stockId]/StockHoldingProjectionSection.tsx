@@ -0,0 +1,139 @@
+'use client'
+
+import { useEffect, useMemo, useState, type ChangeEvent } from 'react'
+import type { CostProfile } from '@/lib/costProfile'
+import {
+  buildHoldingProjection,
+  DEFAULT_FINANCING_RATE,
+  DEFAULT_RENOVATION_DAYS,
+  DEFAULT_SELL_DAYS,
+} from '@/lib/holdingProjection'
+import { buildRenovationSpec } from '@/lib/renovationEstimate'
+import type { StockHoldingContext } from '@/lib/repositories/stocks'
+import { calcRaise, formatYen, safeNumber } from '@/lib/stockPricing'
+import type { StockDetail } from './stockDetailShared'
+
+type Props = {
+  row: StockDetail | null
+  context: StockHoldingContext | null
+  costProfile: CostProfile
+}
+
+type HoldingForm = {
+  purchaseDate: string
+  purchasePrice: string
+  salePrice: string
+  renovationDays: string
+  sellDays: string
+  financingRate: string
+  monthlyHoldingCost: string
+}
+
+function buildDefaultForm(row: StockDetail | null, context: StockHoldingContext | null): HoldingForm {
+  const monthlyHoldingCost = (context?.mgmtFeeMonthly ?? 0) + (context?.repairReserveFeeMonthly ?? 0)
+  return {
+    // 契約済みの在庫は契約日を起点にし、閲覧日で保有期間や IRR が動かないようにする
+    purchaseDate: row?.contract_date?.slice(0, 10) || new Date().toISOString().slice(0, 10),
+    purchasePrice: String(row?.buy_target_price ?? row?.list_price ?? ''),
+    salePrice: String(row?.target_close_price ?? ''),
+    renovationDays: String(DEFAULT_RENOVATION_DAYS),
+    sellDays: String(context?.miniElapsedDays ?? DEFAULT_SELL_DAYS),
+    financingRate: (DEFAULT_FINANCING_RATE * 100).toFixed(1),
+    monthlyHoldingCost: String(monthlyHoldingCost),
+  }
+}
+
+function formatPercent(value: number | null): string {
+  return value == null ? '—' : `${(value * 100).toFixed(1)}%`
+}
+
+export default function StockHoldingProjectionSection({ row, context, costProfile }: Props) {
+  const [form, setForm] = useState<HoldingForm>(() => buildDefaultForm(row, context))
+
+  useEffect(() => {
+    setForm(buildDefaultForm(row, context))
+  }, [row, context])
+
+  const onChange = (key: keyof HoldingForm) => (e: ChangeEvent<HTMLInputElement>) => {
+    setForm((prev) => ({ ...prev, [key]: e.target.value }))
+  }
+
+  const projection = useMemo(() => {
+    const salePrice = safeNumber(form.salePrice)
+    return buildHoldingProjection({
+      purchaseDate: form.purchaseDate,
+      purchasePrice: safeNumber(form.purchasePrice),
+      salePrice,
+      raise: safeNumber(row?.raise_price) || calcRaise(salePrice, costProfile),
+      area: safeNumber(row?.area_sqm),
+      renovationDays: safeNumber(form.renovationDays),
+      sellDays: safeNumber(form.sellDays),
+      financingRate: safeNumber(form.financingRate) / 100,
+      monthlyHoldingCost: safeNumber(form.monthlyHoldingCost),
+      builtYm: context?.builtYm,
+      renovation: buildRenovationSpec(row?.current_condition, row?.target_condition, row?.layout),
+      profile: costProfile,
+    })
+  }, [form, row, context, costProfile])
+
+  return (
+    <section className="space-y-4">
+      <h3 className="font-semibold">保有期間と収益の試算</h3>
+      <div className="grid md:grid-cols-4 gap-4 text-sm">
+        <label className="block">仕入日<input type="date" className="mt-1 w-full border rounded-lg px-3 py-2" value={form.purchaseDate} onChange={onChange('purchaseDate')} /></label>
+        <label className="block">仕入価格（円）<input type="number" min="0" step="10000" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.purchasePrice} onChange={onChange('purchasePrice')} /></label>
+        <label className="block">売却価格（円）<input type="number" min="0" step="10000" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.salePrice} onChange={onChange('salePrice')} /></label>
+        <label className="block">借入金利（年%）<input type="number" min="0" step="0.1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.financingRate} onChange={onChange('financingRate')} /></label>
+        <label className="block">リノベ期間（日）<input type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.renovationDays} onChange={onChange('renovationDays')} /></label>
+        <label className="block">
+          売却までの日数
+          <input type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.sellDays} onChange={onChange('sellDays')} />
+          <span className="mt-1 block text-xs text-gray-500">
+            {context?.miniElapsedDays != null ? `MINI成約の実績 ${context.miniElapsedDays}日` : `MINI成約の実績なし（既定 ${DEFAULT_SELL_DAYS}日）`}
+          </span>
+        </label>
+        <label className="block">
+          管理費＋修繕積立金（月額）
+          <input type="number" min="0" step="1" className="mt-1 w-full border rounded-lg px-3 py-2 num" value={form.monthlyHoldingCost} onChange={onChange('monthlyHoldingCost')} />
+        </label>
+      </div>
+      {!projection ? (
+        <p className="text-xs text-gray-500">仕入日・仕入価格・売却価格を入力すると試算を表示します</p>
+      ) : (
+        <>
+          <dl className="grid md:grid-cols-4 gap-y-3 gap-x-6 text-sm">
+            <div><dt className="text-gray-500">売却予定日</dt><dd>{projection.saleDate}（保有 {projection.holdingDays}日）</dd></div>
+            <div><dt className="text-gray-500">純利益</dt><dd className={`num font-semibold ${projection.netProfit < 0 ? 'text-red-700' : 'text-emerald-700'}`}>{formatYen(projection.netProfit)}</dd></div>
+            <div><dt className="text-gray-500">ROI</dt><dd className="num">{formatPercent(projection.roi)}</dd></div>
+            <div><dt className="text-gray-500">IRR（年率）</dt><dd className="num">{formatPercent(projection.irr)}</dd></div>
+            <div><dt className="text-gray-500">仕入時の仲介手数料・諸費用</dt><dd className="num">{formatYen(projection.acquisitionCost)}</dd></div>
+            <div><dt className="text-gray-500">売却時の仲介手数料</dt><dd className="num">{formatYen(projection.saleBrokerage)}</dd></div>
+            <div><dt className="text-gray-500">リノベ費用</dt><dd className="num">{formatYen(projection.renovationCost)}</dd></div>
+            <div><dt className="text-gray-500">管理費等（保有期間）</dt><dd className="num">{formatYen(projection.holdingCost)}</dd></div>
+            <div><dt className="text-gray-500">借入利息</dt><dd className="num">{formatYen(projection.interestCost)}</dd></div>
+          </dl>
+          <div className="overflow-auto rounded-xl border border-gray-200 bg-gray-50">
+            <table className="w-full text-xs">
+              <thead className="text-gray-600 bg-gray-100">
+                <tr>
+                  <th className="text-left py-2 px-2">経過日数</th>
+                  <th className="text-left py-2 px-2">内容</th>
+                  <th className="text-right py-2 px-2">キャッシュフロー</th>
+                </tr>
+              </thead>
+              <tbody>
+                {projection.cashFlows.map((flow) => (
+                  <tr className="border-t" key={flow.label}>
+                    <td className="py-2 px-2 num">{flow.day}日</td>
+                    <td className="py-2 px-2">{flow.label}</td>
+                    <td className={`py-2 px-2 text-right num ${flow.amount < 0 ? 'text-red-700' : ''}`}>{formatYen(flow.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import { useMemo } from 'react'
+import { mapStockComparablesJson, selectComparableRows } from '@/lib/comparables'
+import type { CostProfile } from '@/lib/costProfile'
+import { buildPriceBand, type PriceBandPoint } from '@/lib/priceBand'
+import { resolveReferenceSpread, type ReferenceValueEntry } from '@/lib/referenceValue'
+import { buildRenovationSpec } from '@/lib/renovationEstimate'
+import { calcBuyTarget, calcRaise, formatUnit, formatYen, safeNumber } from '@/lib/stockPricing'
+import type { StockDetail } from './stockDetailShared'
+
+type Props = {
+  row: StockDetail | null
+  costProfile: CostProfile
+  builtYm?: string | null
+  referenceRows: ReferenceValueEntry[]
+}
+
+const BAND_ROWS: { key: keyof PriceBandPoint; label: string; format: (value: number) => string }[] = [
+  { key: 'targetUnit', label: '目標単価', format: formatUnit },
+  { key: 'targetClose', label: '目標成約価格', format: formatYen },
+  { key: 'buyTarget', label: '買付目標額', format: formatYen },
+]
+
+export default function StockPriceBandSection({ row, costProfile, builtYm, referenceRows }: Props) {
+  const area = safeNumber(row?.area_sqm)
+  const band = useMemo(() => {
+    const targetClose = safeNumber(row?.target_close_price)
+    if (!row || targetClose <= 0 || area <= 0) return null
+    const context = { builtYm, renovation: buildRenovationSpec(row.current_condition, row.target_condition, row.layout) }
+    const raise = safeNumber(row.raise_price) || calcRaise(targetClose, costProfile)
+    return buildPriceBand({
+      expected: {
+        targetUnit: safeNumber(row.target_unit_price) || Math.round(targetClose / area),
+        targetClose,
+        buyTarget: safeNumber(row.buy_target_price) || calcBuyTarget(raise, area, costProfile, context),
+      },
+      area,
+      spread: resolveReferenceSpread({
+        rows: selectComparableRows(referenceRows, mapStockComparablesJson(row.comparable_entries)),
+        floor: row.floor,
+      }),
+      profile: costProfile,
+      context,
+    })
+  }, [row, area, costProfile, builtYm, referenceRows])
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="font-semibold">目標価格の幅</h3>
+        {band?.thin && <span className="px-2 py-0.5 rounded bg-amber-100 text-amber-800 text-xs">根拠薄（事例{band.count}件）</span>}
+      </div>
+      {!band ? (
+        <p className="text-sm text-gray-600">目標成約価格が未計算のため価格帯を表示できません。</p>
+      ) : (
+        <>
+          <table className="w-full text-sm">
+            <thead className="text-gray-600">
+              <tr>
+                <th className="text-left py-1" />
+                <th className="text-right py-1">下限</th>
+                <th className="text-right py-1">期待値</th>
+                <th className="text-right py-1">上限</th>
+              </tr>
+            </thead>
+            <tbody>
+              {BAND_ROWS.map((item) => (
+                <tr className="border-t" key={item.key}>
+                  <td className="py-1 text-gray-500">{item.label}</td>
+                  <td className="py-1 text-right num">{item.format(band.low[item.key])}</td>
+                  <td className="py-1 text-right num font-semibold">{item.format(band.expected[item.key])}</td>
+                  <td className="py-1 text-right num">{item.format(band.high[item.key])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className={`text-xs ${band.thin ? 'text-amber-700' : 'text-gray-500'}`}>
+            {row?.floor ?? '—'}階・フルリフォームの成約事例 {band.count}件{band.borrowedCount > 0 && `（うち類似団地から借用 ${band.borrowedCount}件）`}のばらつきから ±{(band.halfWidth * 100).toFixed(1)}% の幅で計算しています。
+            {band.thin && '事例が少ないため幅を広めに見込んでいます。'}
+          </p>
+        </>
+      )}
+    </section>
+  )
+}
@@ -4,7 +4,29 @@ import { useEffect, useMemo, useState, type ChangeEvent, type FormEvent } from '
 import Link from 'next/link'
 import { useParams, useRouter } from 'next/navigation'
 import { toDateInputValue, toIntOrNull } from '@/lib/entryMath'
-import { loadComplexReferenceSummaries } from '@/lib/repositories/complexEdit'
+import { resolveStockAreaAdjustment } from '@/lib/areaAdjustment'
+import { buildStockComparablesPayload, calcComparableUnitPrice, mapStockComparablesJson, type StockComparable } from '@/lib/comparables'
+import { buildStockCostProfileFields, DEFAULT_COST_PROFILE, type CostProfile } from '@/lib/costProfile'
+import { loadComplexReferenceRows } from '@/lib/repositories/complexEdit'
+import { loadActiveCostProfile } from '@/lib/repositories/costProfiles'
+import { listFloorPatterns } from '@/lib/repositories/floorPatterns'
+import { listHedonicSamples } from '@/lib/repositories/hedonic'
+import {
+  buildHedonicStockInput,
+  fitHedonicModel,
+  predictHedonicUnitPrice,
+  type HedonicFitResult,
+  type HedonicSample,
+} from '@/lib/hedonicModel'
+import {
+  buildFloorPatternOptions,
+  formatFloorPatternLabel,
+  resolveFloorPatternCoefs,
+  type CustomFloorPattern,
+} from '@/lib/floorPatterns'
+import { buildStockBrokerFields } from '@/lib/mysokuExtract'
+import { buildPricingSnapshot, buildStockPricingSnapshotPayload, mapPricingSnapshotJson } from '@/lib/pricingSnapshot'
+import { buildRenovationSpec } from '@/lib/renovationEstimate'
 import {
   buildFloorRows,
   safeNumber,
@@ -22,6 +44,7 @@ import { getSupabase } from '@/lib/supabaseClient'
 import RequireAuth from '@/components/RequireAuth'
 import UserEmail from '@/components/UserEmail'
 import StockForm from '@/app/tab-stock/StockForm'
+import { useStockMysokuPrefill } from '@/app/tab-stock/useStockMysokuPrefill'
 import type { ReferenceValueEntry } from '@/lib/referenceValue'
 import type { StockComplexOption as Complex, StockEntryOption as Entry, StockFormState as FormState } from '@/app/tab-stock/stockFormShared'
 
@@ -35,6 +58,8 @@ const initialForm: FormState = {
   yearCoef: '',
   otherCoef: '',
   coefTotal: '',
+  currentCondition: '',
+  targetCondition: '',
 }
 
 function toErrorMessage(e: unknown): string {
@@ -55,12 +80,18 @@ export default function StockEditPage() {
   const [selectedEntryId, setSelectedEntryId] = useState<string>('')
   const [form, setForm] = useState<FormState>(initialForm)
   const [pdf, setPdf] = useState<File | null>(null)
+  const mysokuPrefill = useStockMysokuPrefill(setForm)
   const [saving, setSaving] = useState(false)
   const [msg, setMsg] = useState('')
   const [loadingStock, setLoadingStock] = useState(true)
   const [existingPdfPath, setExistingPdfPath] = useState<string | null>(null)
   const [signedUrl, setSignedUrl] = useState<string | null>(null)
   const [referenceRows, setReferenceRows] = useState<ReferenceValueEntry[]>([])
+  const [comparables, setComparables] = useState<StockComparable[]>([])
+  const [costProfile, setCostProfile] = useState<CostProfile>(DEFAULT_COST_PROFILE)
+  const [floorPatterns, setFloorPatterns] = useState<CustomFloorPattern[]>([])
+  const [hedonicFit, setHedonicFit] = useState<HedonicFitResult | null>(null)
+  const [marketSamples, setMarketSamples] = useState<HedonicSample[]>([])
 
   const selectedComplex = useMemo(() => complexes.find((c) => c.id === selectedComplexId) ?? null, [complexes, selectedComplexId])
   const selectedEntry = useMemo(() => entries.find((e) => e.id === selectedEntryId) ?? null, [entries, selectedEntryId])
@@ -71,6 +102,7 @@ export default function StockEditPage() {
     if (values.length === 0) return null
     return Math.max(...values)
   }, [entries])
+  const comparableUnitPrice = useMemo(() => calcComparableUnitPrice(referenceRows, comparables), [referenceRows, comparables])
 
   useEffect(() => {
     let mounted = true
@@ -89,6 +121,8 @@ export default function StockEditPage() {
           if (mounted) setMsg('在庫が見つかりませんでした')
           return
         }
+        // 前回保存時の係数入力はスナップショットから復元する
+        const snapshotInputs = mapPricingSnapshotJson(row.pricing_snapshot)?.inputs
         if (mounted) {
           setSelectedComplexId(row.complex_id ?? '')
           setSelectedEntryId(row.estate_entry_id ?? '')
@@ -99,10 +133,13 @@ export default function StockEditPage() {
             registered: toDateInputValue(row.registered_date),
             contract: toDateInputValue(row.contract_date),
             maxUnit: '',
-            yearCoef: '',
-            otherCoef: '',
-            coefTotal: '',
+            yearCoef: snapshotInputs ? toNumberString(snapshotInputs.yearCoef) : '',
+            otherCoef: snapshotInputs ? toNumberString(snapshotInputs.otherCoef) : '',
+            coefTotal: snapshotInputs ? toNumberString(snapshotInputs.settingUnit || null) : '',
+            currentCondition: row.current_condition ?? '',
+            targetCondition: row.target_condition ?? '',
           })
+          setComparables(mapStockComparablesJson(row.comparable_entries))
           setExistingPdfPath(row.stock_mysoku_path ?? null)
           setSignedUrl(null)
         }
@@ -162,6 +199,51 @@ export default function StockEditPage() {
     return () => { mounted = false }
   }, [supabase, selectedComplexId, selectedEntryId])
 
+  useEffect(() => {
+    let mounted = true
+    async function loadCostProfile() {
+      try {
+        const profile = await loadActiveCostProfile(supabase)
+        if (mounted) setCostProfile(profile)
+      } catch (e) {
+        console.error(e)
+        if (mounted) setCostProfile(DEFAULT_COST_PROFILE)
+      }
+    }
+    loadCostProfile()
+    return () => { mounted = false }
+  }, [supabase])
+
+  useEffect(() => {
+    let mounted = true
+    async function loadPatterns() {
+      try {
+        const patterns = await listFloorPatterns(supabase)
+        if (mounted) setFloorPatterns(patterns)
+      } catch (e) {
+        console.error(e)
+        if (mounted) setFloorPatterns([])
+      }
+    }
+    loadPatterns()
+    return () => { mounted = false }
+  }, [supabase])
+
+  useEffect(() => {
+    let mounted = true
+    async function loadHedonicModel() {
+      try {
+        const samples = await listHedonicSamples(supabase)
+        if (mounted) { setHedonicFit(fitHedonicModel(samples)); setMarketSamples(samples) }
+      } catch (e) {
+        console.error(e)
+        if (mounted) setHedonicFit({ model: null, reason: '過去成約の読み込みに失敗しました' })
+      }
+    }
+    loadHedonicModel()
+    return () => { mounted = false }
+  }, [supabase])
+
   useEffect(() => {
     if (!selectedComplexId) {
       setReferenceRows([])
@@ -170,7 +252,7 @@ export default function StockEditPage() {
     let mounted = true
     async function loadReferenceRows() {
       try {
-        const { rows } = await loadComplexReferenceSummaries(supabase, selectedComplexId)
+        const rows = await loadComplexReferenceRows(supabase, selectedComplexId)
         if (mounted) setReferenceRows(rows)
       } catch (e) {
         console.error(e)
@@ -192,10 +274,11 @@ export default function StockEditPage() {
 
   useEffect(() => {
     setForm((prev) => {
-      const nextValue = maxLabelUnitPrice != null ? String(maxLabelUnitPrice) : ''
+      const basisUnitPrice = comparableUnitPrice ?? maxLabelUnitPrice
+      const nextValue = basisUnitPrice != null ? String(basisUnitPrice) : ''
       return prev.maxUnit === nextValue ? prev : { ...prev, maxUnit: nextValue }
     })
-  }, [maxLabelUnitPrice])
+  }, [comparableUnitPrice, maxLabelUnitPrice])
 
   const settingUnit = useMemo(() => safeNumber(form.coefTotal), [form.coefTotal])
   const areaNum = useMemo(() => safeNumber(form.area), [form.area])
@@ -207,19 +290,52 @@ export default function StockEditPage() {
     return coefTotalValue == null ? null : coefTotalValue.toFixed(2)
   }, [coefTotalValue])
 
+  const floorPatternOptions = useMemo(
+    () => buildFloorPatternOptions(floorPatterns, selectedComplexId || null),
+    [floorPatterns, selectedComplexId],
+  )
+  const floorCoefs = useMemo(
+    () => resolveFloorPatternCoefs(selectedComplex?.floorPattern, floorPatternOptions, selectedComplex?.floorCount),
+    [selectedComplex?.floorPattern, selectedComplex?.floorCount, floorPatternOptions],
+  )
+  const renovationSpec = useMemo(
+    () => buildRenovationSpec(form.currentCondition, form.targetCondition, form.layout),
+    [form.currentCondition, form.targetCondition, form.layout],
+  )
+  const areaAdjustment = useMemo(() => resolveStockAreaAdjustment({
+    referenceRows,
+    marketSamples,
+    comparables,
+    stockArea: areaNum,
+    entryArea: selectedEntry?.area,
+  }), [referenceRows, marketSamples, comparables, areaNum, selectedEntry?.area])
+  const areaCoef = areaAdjustment?.coef ?? 1
   const floors = useMemo(
-    () => buildFloorRows(settingUnit, coefTotalValue ?? 1, areaNum, selectedComplex?.floorPattern),
-    [selectedComplex?.floorPattern, settingUnit, coefTotalValue, areaNum],
+    () => buildFloorRows(settingUnit, (coefTotalValue ?? 1) * areaCoef, areaNum, floorCoefs, costProfile, { builtYm: selectedComplex?.builtYm, renovation: renovationSpec }),
+    [floorCoefs, settingUnit, coefTotalValue, areaCoef, areaNum, costProfile, selectedComplex?.builtYm, renovationSpec],
   )
 
   const selectedFloorNum = useMemo(() => {
     const n = Number.parseInt(form.floor, 10)
     return Number.isFinite(n) ? n : null
   }, [form.floor])
+  const hedonicPrediction = useMemo(() => {
+    const model = hedonicFit?.model
+    if (!model || selectedFloorNum == null || areaNum <= 0) return null
+    return predictHedonicUnitPrice(model, buildHedonicStockInput({
+      complexId: selectedComplexId || null,
+      floor: selectedFloorNum,
+      area: areaNum,
+      builtYm: selectedComplex?.builtYm,
+      stationMinutes: selectedComplex?.stationMinutes,
+      hasElevator: selectedComplex?.hasElevator,
+    }))
+  }, [hedonicFit, selectedFloorNum, areaNum, selectedComplexId, selectedComplex])
   const selectedFloorRow = floors.find((f) => f.floor === selectedFloorNum) ?? floors[0]
 
   const onFormChange = <K extends keyof FormState>(key: K) => (e: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     setForm((prev) => ({ ...prev, [key]: e.target.value }))
+    mysokuPrefill.markEdited(key)
   }
 
   async function handleSubmit(ev: FormEvent<HTMLFormElement>) {
@@ -234,9 +350,31 @@ export default function StockEditPage() {
       if (!selectedEntryId) { setMsg('紐づく過去成約（MAX）を選択してください'); setSaving(false); return }
       const area = safeNumber(form.area) || null
       if (!area || area <= 0) { setMsg('面積を入力してください'); setSaving(false); return }
+      if (mysokuPrefill.view.pending) { setMsg('マイソクから読み取った値を確認してください'); setSaving(false); return }
 
       const stock_mysoku_path = await uploadStockPdf(supabase, pdf, user.id)
       const target = selectedFloorRow
+      const pricingSnapshot = buildPricingSnapshot({
+        inputs: {
+          estateEntryId: selectedEntryId,
+          basisUnitPrice: safeNumber(form.maxUnit) || null,
+          entryArea: selectedEntry?.area ?? null,
+          settingUnit,
+          yearCoef: safeNumber(form.yearCoef),
+          otherCoef: safeNumber(form.otherCoef),
+          area,
+          floor: selectedFloorNum,
+          layout: renovationSpec.layout,
+          currentCondition: renovationSpec.currentCondition,
+          targetCondition: renovationSpec.targetCondition,
+          builtYm: selectedComplex?.builtYm ?? null,
+        },
+        floorPattern: { label: formatFloorPatternLabel(selectedComplex?.floorPattern, floorPatternOptions) || null, coefs: floorCoefs },
+        profile: costProfile,
+        referenceRows,
+        comparables,
+        marketSamples,
+      })
       const payload: Record<string, unknown> = {
         estate_entry_id: selectedEntryId,
         complex_id: selectedComplexId,
@@ -248,11 +386,18 @@ export default function StockEditPage() {
         list_price: target?.targetClose ?? null,
         base_unit_price: settingUnit || null,
         coef_total: coefTotalValue,
+        area_coef: areaAdjustment?.coef ?? null,
         floor_coef: target?.floorCoef ?? null,
         target_unit_price: target?.targetUnit ?? null,
         target_close_price: target?.targetClose ?? null,
         raise_price: target?.raise ?? null,
         buy_target_price: target?.buyTarget ?? null,
+        current_condition: renovationSpec.currentCondition,
+        target_condition: renovationSpec.targetCondition,
+        ...buildStockComparablesPayload(comparables),
+        ...buildStockPricingSnapshotPayload(pricingSnapshot),
+        ...buildStockCostProfileFields(costProfile),
+        ...(mysokuPrefill.confirmedFields ? buildStockBrokerFields(mysokuPrefill.confirmedFields) : {}),
       }
       if (stock_mysoku_path) payload.stock_mysoku_path = stock_mysoku_path
 
@@ -328,17 +473,27 @@ export default function StockEditPage() {
                       floors={floors}
                       selectedFloorNum={selectedFloorNum}
                       referenceRows={referenceRows}
+                      comparables={comparables}
+                      costProfile={costProfile}
+                      floorPatternLabel={formatFloorPatternLabel(selectedComplex?.floorPattern, floorPatternOptions)}
+                      hedonic={{ fit: hedonicFit, prediction: hedonicPrediction }}
+                      sensitivity={{ floorCoefs, floorPatternOptions, floorCount: selectedComplex?.floorCount ?? null, builtYm: selectedComplex?.builtYm, renovation: renovationSpec, areaCoef }}
+                      areaAdjustment={areaAdjustment}
                       coefTotalDisplay={coefTotalDisplay}
                       saving={saving}
                       submitLabel="更新"
                       showContractDate
                       showOnlySelectedFloorRow
                       existingPdf={{ path: existingPdfPath, url: signedUrl }}
-                      onComplexChange={(value) => { setSelectedComplexId(value); setSelectedEntryId('') }}
+                      onComplexChange={(value) => { setSelectedComplexId(value); setSelectedEntryId(''); setComparables([]) }}
                       onEntryChange={setSelectedEntryId}
                       onFormChange={onFormChange}
-                      onPdfChange={setPdf}
-                      onReset={() => { setForm(initialForm); setPdf(null); setMsg('') }}
+                      onApplyYearCoef={(value) => setForm((prev) => ({ ...prev, yearCoef: value }))}
+                      onComparablesChange={setComparables}
+                      mysoku={mysokuPrefill.view}
+                      onPdfChange={(file) => { setPdf(file); mysokuPrefill.read(file).catch(console.error) }}
+                      onConfirmMysoku={mysokuPrefill.confirm}
+                      onReset={() => { setForm(initialForm); setPdf(null); mysokuPrefill.reset(); setMsg('') }}
                     />
                   </form>
                 </>
@@ -3,12 +3,30 @@
 import { useEffect, useMemo, useState } from 'react'
 import Link from 'next/link'
 import { useParams } from 'next/navigation'
-import { createStockPdfSignedUrl, loadStockDetail, softDeleteStock, type StockDetailRow } from '@/lib/repositories/stocks'
+import { DEFAULT_COST_PROFILE, type CostProfile } from '@/lib/costProfile'
+import { buildFundingPlanPayload, type FundingPlan } from '@/lib/fundingPlan'
+import { mapPricingSnapshotJson } from '@/lib/pricingSnapshot'
+import type { ReferenceValueEntry } from '@/lib/referenceValue'
+import { loadComplexReferenceRows } from '@/lib/repositories/complexEdit'
+import { loadStockCostProfile } from '@/lib/repositories/costProfiles'
+import {
+  createStockPdfSignedUrl,
+  loadStockDetail,
+  loadStockHoldingContext,
+  softDeleteStock,
+  updateStock,
+  type StockDetailRow,
+  type StockHoldingContext,
+} from '@/lib/repositories/stocks'
 import { getSupabase } from '@/lib/supabaseClient'
 import RequireAuth from '@/components/RequireAuth'
 import UserEmail from '@/components/UserEmail'
+import StockAcquisitionCostSection from './StockAcquisitionCostSection'
 import StockBrokerSection from './StockBrokerSection'
+import StockFundingPlanSection from './StockFundingPlanSection'
+import StockHoldingProjectionSection from './StockHoldingProjectionSection'
 import StockLinksSection from './StockLinksSection'
+import StockPriceBandSection from './StockPriceBandSection'
 import StockPropertySection from './StockPropertySection'
 import type { StockDerived } from './stockDetailShared'
 
@@ -22,7 +40,11 @@ export default function StockDetailPage() {
 
   const [row, setRow] = useState<StockDetailRow | null>(null)
   const [signedUrl, setSignedUrl] = useState<string | null>(null)
+  const [holdingContext, setHoldingContext] = useState<StockHoldingContext | null>(null)
+  const [costProfile, setCostProfile] = useState<CostProfile>(DEFAULT_COST_PROFILE)
+  const [referenceRows, setReferenceRows] = useState<ReferenceValueEntry[]>([])
   const [msg, setMsg] = useState<string>('')
+  const [savingPlan, setSavingPlan] = useState(false)
 
   async function handleDelete() {
     if (!stockId) return
@@ -42,6 +64,22 @@ export default function StockDetailPage() {
     }
   }
 
+  async function handleSaveFundingPlan(plan: FundingPlan) {
+    if (!stockId) return
+    setSavingPlan(true); setMsg('')
+    try {
+      const payload = buildFundingPlanPayload(plan)
+      await updateStock(supabase, stockId, payload)
+      setRow((prev) => (prev ? { ...prev, funding_plan: payload.funding_plan } : prev))
+      setMsg('資金計画を保存しました')
+    } catch (e) {
+      console.error('[stock:detail:funding-plan]', e)
+      setMsg('資金計画の保存に失敗しました')
+    } finally {
+      setSavingPlan(false)
+    }
+  }
+
   useEffect(() => {
     let mounted = true
     async function run() {
@@ -49,6 +87,14 @@ export default function StockDetailPage() {
         if (!stockId) return
         const s = await loadStockDetail(supabase, stockId)
         if (mounted) setRow(s)
+        // 取得原価などは値付け時の版で出す。補助データが読めなくても各セクションは既定値で表示する
+        const snapshotProfile = mapPricingSnapshotJson(s?.pricing_snapshot)?.costProfile ?? null
+        const [profile, context, reference] = await Promise.all([
+          snapshotProfile ?? loadStockCostProfile(supabase, s ?? {}).catch((e) => { console.error(e); return DEFAULT_COST_PROFILE }),
+          s?.complex_id ? loadStockHoldingContext(supabase, s.complex_id).catch((e) => { console.error(e); return null }) : Promise.resolve(null),
+          s?.complex_id ? loadComplexReferenceRows(supabase, s.complex_id).catch((e) => { console.error(e); return [] }) : Promise.resolve([]),
+        ])
+        if (mounted) { setCostProfile(profile); setHoldingContext(context); setReferenceRows(reference) }
         if (s?.stock_mysoku_path) {
           const url = await createStockPdfSignedUrl(supabase, s.stock_mysoku_path)
           if (mounted) setSignedUrl(url)
@@ -119,6 +165,9 @@ export default function StockDetailPage() {
                 <h2 className="text-lg font-semibold">販売中物件 詳細</h2>
               </div>
               <div className="flex items-center gap-2">
+                {stockId && (
+                  <Link href={`/tab-stock/${stockId}/recalc`} className="px-3 py-1.5 rounded-lg bg-gray-100 text-sm">再計算</Link>
+                )}
                 {stockId && (
                   <Link href={`/tab-stock/${stockId}/edit`} className="px-3 py-1.5 rounded-lg bg-black text-white text-sm">編集</Link>
                 )}
@@ -128,6 +177,20 @@ export default function StockDetailPage() {
 
             <StockPropertySection row={row} derived={derived} parseDate={parseDate} yen={yen} />
 
+            <StockPriceBandSection row={row} costProfile={costProfile} builtYm={holdingContext?.builtYm} referenceRows={referenceRows} />
+
+            <StockAcquisitionCostSection row={row} costProfile={costProfile} builtYm={holdingContext?.builtYm} />
+
+            <StockHoldingProjectionSection row={row} context={holdingContext} costProfile={costProfile} />
+
+            <StockFundingPlanSection
+              row={row}
+              costProfile={costProfile}
+              builtYm={holdingContext?.builtYm}
+              saving={savingPlan}
+              onSave={(plan) => { handleSaveFundingPlan(plan).catch(console.error) }}
+            />
+
             <StockBrokerSection row={row} signedUrl={signedUrl} />
 
             <StockLinksSection row={row} />
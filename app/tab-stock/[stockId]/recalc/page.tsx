@@ -0,0 +1,254 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useParams, useRouter } from 'next/navigation'
+import { resolveCurrentPricingBasis } from '@/lib/bulkRepricing'
+import { mapStockComparablesJson } from '@/lib/comparables'
+import { buildStockCostProfileFields, DEFAULT_COST_PROFILE, type CostProfile } from '@/lib/costProfile'
+import { buildFloorPatternOptions, type CustomFloorPattern } from '@/lib/floorPatterns'
+import type { HedonicSample } from '@/lib/hedonicModel'
+import {
+  buildStockPricingFields,
+  diffPricingSnapshots,
+  recalculatePricingSnapshot,
+  resolveStockPricingSnapshot,
+  type PricingDiffRow,
+} from '@/lib/pricingSnapshot'
+import type { ReferenceValueEntry } from '@/lib/referenceValue'
+import { loadComplexReferenceRows } from '@/lib/repositories/complexEdit'
+import { loadActiveCostProfile } from '@/lib/repositories/costProfiles'
+import { listFloorPatterns } from '@/lib/repositories/floorPatterns'
+import { listHedonicSamples } from '@/lib/repositories/hedonic'
+import {
+  listMaxEntriesForComplex,
+  listStockComplexes,
+  loadStockDetail,
+  updateStock,
+  type StockComplexOption,
+  type StockDetailRow,
+  type StockRegEntryOption,
+} from '@/lib/repositories/stocks'
+import { getSupabase } from '@/lib/supabaseClient'
+import RequireAuth from '@/components/RequireAuth'
+import UserEmail from '@/components/UserEmail'
+
+function toErrorMessage(e: unknown): string {
+  if (e instanceof Error) return e.message
+  if (typeof e === 'string') return e
+  try { return JSON.stringify(e) } catch { return 'Unknown error' }
+}
+
+function formatDelta(row: PricingDiffRow): string {
+  if (!row.changed || row.delta == null || row.delta === 0) return ''
+  const value = Math.abs(row.delta)
+  const text = value >= 100 ? Math.round(value).toLocaleString('ja-JP') : value.toFixed(3)
+  return `${row.delta > 0 ? '+' : '−'}${text}`
+}
+
+function DiffTable({ title, rows }: { title: string; rows: PricingDiffRow[] }) {
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium text-gray-700">{title}</div>
+      <div className="overflow-auto rounded-xl border border-gray-200">
+        <table className="w-full text-xs">
+          <thead className="text-gray-600 bg-gray-100">
+            <tr>
+              <th className="text-left py-2 px-2">項目</th>
+              <th className="text-right py-2 px-2">保存時</th>
+              <th className="text-right py-2 px-2">再計算</th>
+              <th className="text-right py-2 px-2">差分</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr className={`border-t ${row.changed ? 'bg-amber-50' : ''}`} key={row.key}>
+                <td className="py-2 px-2">{row.label}</td>
+                <td className="py-2 px-2 text-right num">{row.before}</td>
+                <td className={`py-2 px-2 text-right num ${row.changed ? 'font-semibold' : ''}`}>{row.after}</td>
+                <td className="py-2 px-2 text-right num text-gray-600">{formatDelta(row)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+export default function StockRecalcPage() {
+  const supabase = getSupabase()
+  const router = useRouter()
+  const params = useParams<{ stockId: string }>()
+  const stockId = params?.stockId as string | undefined
+
+  const [row, setRow] = useState<StockDetailRow | null>(null)
+  const [complex, setComplex] = useState<StockComplexOption | null>(null)
+  const [entries, setEntries] = useState<StockRegEntryOption[]>([])
+  const [floorPatterns, setFloorPatterns] = useState<CustomFloorPattern[]>([])
+  const [costProfile, setCostProfile] = useState<CostProfile>(DEFAULT_COST_PROFILE)
+  const [referenceRows, setReferenceRows] = useState<ReferenceValueEntry[]>([])
+  const [marketSamples, setMarketSamples] = useState<HedonicSample[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [msg, setMsg] = useState('')
+
+  useEffect(() => {
+    let mounted = true
+    async function run() {
+      try {
+        if (!stockId) return
+        const stock = await loadStockDetail(supabase, stockId)
+        if (!stock) { if (mounted) setMsg('在庫が見つかりませんでした'); return }
+        const complexId = stock.complex_id ?? null
+        const [complexes, maxEntries, patterns, profile, rows, samples] = await Promise.all([
+          listStockComplexes(supabase),
+          complexId ? listMaxEntriesForComplex(supabase, complexId) : Promise.resolve([]),
+          listFloorPatterns(supabase),
+          loadActiveCostProfile(supabase),
+          complexId ? loadComplexReferenceRows(supabase, complexId) : Promise.resolve([]),
+          listHedonicSamples(supabase),
+        ])
+        if (!mounted) return
+        setRow(stock)
+        setComplex(complexes.find((item) => item.id === complexId) ?? null)
+        setEntries(maxEntries)
+        setFloorPatterns(patterns)
+        setCostProfile(profile)
+        setReferenceRows(rows)
+        setMarketSamples(samples)
+      } catch (e) {
+        console.error('[stock:recalc:load]', e)
+        if (mounted) setMsg('読み込みに失敗しました: ' + toErrorMessage(e))
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+    run()
+    return () => { mounted = false }
+  }, [supabase, stockId])
+
+  const recalculation = useMemo(() => {
+    if (!row) return null
+    const stock = { ...row, complex_id: row.complex_id ?? null }
+    const previous = resolveStockPricingSnapshot(stock)
+    const basis = resolveCurrentPricingBasis({
+      stock,
+      complex,
+      entries,
+      floorPatternOptions: buildFloorPatternOptions(floorPatterns, complex?.id ?? null),
+      referenceRows,
+    })
+    const next = recalculatePricingSnapshot(previous, {
+      basisUnitPrice: basis.basisUnitPrice,
+      entryArea: basis.entryArea,
+      builtYm: basis.builtYm,
+      floorPattern: basis.floorPattern,
+      profile: costProfile,
+      referenceRows,
+      comparables: mapStockComparablesJson(row.comparable_entries),
+      marketSamples,
+    })
+    return { previous, next, entryFound: basis.entryFound, diff: diffPricingSnapshots(previous, next) }
+  }, [row, entries, floorPatterns, complex, costProfile, referenceRows, marketSamples])
+
+  async function handleAccept() {
+    if (!stockId || !recalculation) return
+    setSaving(true); setMsg('更新中...')
+    try {
+      await updateStock(supabase, stockId, {
+        ...buildStockPricingFields(recalculation.next),
+        ...buildStockCostProfileFields(costProfile),
+      })
+      setMsg('再計算の結果で更新しました')
+      router.push(`/tab-stock/${stockId}`)
+    } catch (e) {
+      console.error('[stock:recalc:update]', e)
+      setMsg('更新に失敗しました: ' + toErrorMessage(e))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const diff = recalculation?.diff ?? null
+  const previous = recalculation?.previous ?? null
+
+  return (
+    <RequireAuth>
+      <div className="bg-gray-50 text-gray-900 min-h-screen">
+        <header className="bg-white border-b sticky top-0 z-50">
+          <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="h-8 w-8 rounded-xl bg-gray-900 text-white grid place-items-center font-bold">DX</div>
+              <h1 className="text-lg font-semibold">在庫価格の再計算</h1>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <UserEmail />
+              <button className="px-3 py-1.5 bg-gray-100 rounded-lg" onClick={() => { supabase.auth.signOut().then(() => { window.location.href = '/' }) }}>
+                サインアウト
+              </button>
+            </div>
+          </div>
+          <nav className="max-w-7xl mx-auto px-4 pb-2 pt-1">
+            <ul className="flex flex-wrap gap-2 text-sm">
+              <li><Link href="/tab-stock" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">在庫一覧</Link></li>
+              {stockId && <li><Link href={`/tab-stock/${stockId}`} className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">在庫詳細</Link></li>}
+              <li><span className="tabbtn px-3 py-1.5 rounded-lg bg-black text-white">再計算</span></li>
+            </ul>
+          </nav>
+        </header>
+
+        <main className="max-w-7xl mx-auto p-4 space-y-6">
+          <section className="tab active">
+            <div className="bg-white rounded-2xl shadow p-5 space-y-6">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  {stockId && <Link href={`/tab-stock/${stockId}`} className="px-2 py-1.5 rounded-lg bg-gray-100 text-sm">← 詳細へ</Link>}
+                  <h2 className="text-lg font-semibold">保存時との比較</h2>
+                </div>
+                {msg && <span className="text-sm text-gray-600">{msg}</span>}
+              </div>
+
+              {loading ? (
+                <p className="text-sm text-gray-500">読み込み中...</p>
+              ) : !diff || !previous ? (
+                <p className="text-sm text-gray-500">再計算できる在庫がありません。</p>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-500">
+                    係数・面積・階・内装は保存時の値のまま、設定単価は基準単価の変化率に合わせ、現在の参照事例・階層パターン・費用プロファイルで計算し直しています。
+                    {previous.calculatedAt
+                      ? `保存時の計算: ${new Date(previous.calculatedAt).toLocaleString('ja-JP')}`
+                      : '保存時の計算記録がない在庫のため、保存済みの価格列と比較しています（係数合計は年数係数として扱います）。'}
+                  </p>
+                  {!recalculation?.entryFound && (
+                    <p className="text-xs text-red-600">紐づくMAX成約が削除されています。必要なら編集画面で付け替えてください。</p>
+                  )}
+                  {(diff.addedReferences > 0 || diff.removedReferences > 0) && (
+                    <p className="text-xs text-amber-700">参照事例: 追加 {diff.addedReferences}件 / 除外 {diff.removedReferences}件</p>
+                  )}
+                  <DiffTable title="入力・前提" rows={diff.rows.filter((item) => item.section === 'input')} />
+                  <DiffTable title="計算結果" rows={diff.rows.filter((item) => item.section === 'result')} />
+                  <div className="flex items-center justify-end gap-2">
+                    {stockId && <Link href={`/tab-stock/${stockId}`} className="px-3 py-1.5 rounded-lg bg-gray-100 text-sm">更新しない</Link>}
+                    <button
+                      type="button"
+                      className="px-3 py-1.5 rounded-lg bg-black text-white text-sm disabled:opacity-60"
+                      disabled={saving || !diff.changed}
+                      onClick={() => { handleAccept().catch(console.error) }}
+                    >
+                      {diff.changed ? (saving ? '更新中...' : 'この内容で更新') : '変更はありません'}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </section>
+        </main>
+        <style jsx global>{`
+          .num { font-variant-numeric: tabular-nums; }
+        `}</style>
+      </div>
+    </RequireAuth>
+  )
+}
@@ -0,0 +1,236 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { buildRepricingCandidates, REPRICING_REASON_LABELS, type RepricingCandidate } from '@/lib/bulkRepricing'
+import { buildStockCostProfileFields, DEFAULT_COST_PROFILE, type CostProfile } from '@/lib/costProfile'
+import { buildStockPricingFields } from '@/lib/pricingSnapshot'
+import type { ReferenceValueEntry } from '@/lib/referenceValue'
+import { loadComplexReferenceRows } from '@/lib/repositories/complexEdit'
+import { loadActiveCostProfile } from '@/lib/repositories/costProfiles'
+import { listFloorPatterns } from '@/lib/repositories/floorPatterns'
+import { listHedonicSamples } from '@/lib/repositories/hedonic'
+import {
+  listMaxEntriesForComplex,
+  listStockComplexes,
+  listStocksForRepricing,
+  updateStock,
+  type StockRegEntryOption,
+} from '@/lib/repositories/stocks'
+import { getSupabase } from '@/lib/supabaseClient'
+import RequireAuth from '@/components/RequireAuth'
+import UserEmail from '@/components/UserEmail'
+
+function toErrorMessage(e: unknown): string {
+  if (e instanceof Error) return e.message
+  if (typeof e === 'string') return e
+  try { return JSON.stringify(e) } catch { return 'Unknown error' }
+}
+
+function yen(n: number | null): string { return n == null ? '-' : n.toLocaleString('ja-JP') }
+
+function PriceChange({ before, after }: { before: number | null; after: number | null }) {
+  const delta = before != null && after != null ? after - before : null
+  return (
+    <span className="num">
+      {yen(before)} → <span className="font-semibold">{yen(after)}</span>
+      {delta != null && delta !== 0 && (
+        <span className={`ml-1 text-xs ${delta > 0 ? 'text-emerald-700' : 'text-red-600'}`}>
+          ({delta > 0 ? '+' : '−'}{yen(Math.abs(delta))})
+        </span>
+      )}
+    </span>
+  )
+}
+
+export default function StockRepricingPage() {
+  const supabase = getSupabase()
+
+  const [candidates, setCandidates] = useState<RepricingCandidate[]>([])
+  const [costProfile, setCostProfile] = useState<CostProfile>(DEFAULT_COST_PROFILE)
+  const [loading, setLoading] = useState(true)
+  const [savingIds, setSavingIds] = useState<string[]>([])
+  const [msg, setMsg] = useState('')
+
+  useEffect(() => {
+    let mounted = true
+    async function run() {
+      try {
+        const [stocks, complexes, patterns, profile, samples] = await Promise.all([
+          listStocksForRepricing(supabase),
+          listStockComplexes(supabase),
+          listFloorPatterns(supabase),
+          loadActiveCostProfile(supabase),
+          listHedonicSamples(supabase),
+        ])
+        const complexIds = Array.from(new Set(stocks.map((stock) => stock.complex_id).filter((id): id is string => !!id)))
+        const entriesByComplex = new Map<string, StockRegEntryOption[]>()
+        const referenceRowsByComplex = new Map<string, ReferenceValueEntry[]>()
+        // 団地ごとに順番に読む（在庫の多い環境でも同時リクエストを増やさない）
+        for (const complexId of complexIds) {
+          const [entries, rows] = await Promise.all([
+            listMaxEntriesForComplex(supabase, complexId),
+            loadComplexReferenceRows(supabase, complexId),
+          ])
+          entriesByComplex.set(complexId, entries)
+          referenceRowsByComplex.set(complexId, rows)
+        }
+        if (!mounted) return
+        setCostProfile(profile)
+        setCandidates(buildRepricingCandidates({
+          stocks,
+          complexes,
+          entriesByComplex,
+          referenceRowsByComplex,
+          floorPatterns: patterns,
+          profile,
+          marketSamples: samples,
+        }))
+      } catch (e) {
+        console.error('[stock:repricing:load]', e)
+        if (mounted) setMsg('読み込みに失敗しました: ' + toErrorMessage(e))
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+    run()
+    return () => { mounted = false }
+  }, [supabase])
+
+  async function accept(targets: RepricingCandidate[]) {
+    if (targets.length === 0) return
+    setSavingIds(targets.map((candidate) => candidate.stockId)); setMsg('更新中...')
+    const accepted: string[] = []
+    try {
+      for (const candidate of targets) {
+        await updateStock(supabase, candidate.stockId, {
+          ...buildStockPricingFields(candidate.next),
+          ...buildStockCostProfileFields(costProfile),
+        })
+        accepted.push(candidate.stockId)
+      }
+      setMsg(`${accepted.length}件の在庫を再計算の結果で更新しました`)
+    } catch (e) {
+      console.error('[stock:repricing:update]', e)
+      setMsg(`更新に失敗しました（${accepted.length}件は更新済み）: ` + toErrorMessage(e))
+    } finally {
+      setCandidates((prev) => prev.filter((candidate) => !accepted.includes(candidate.stockId)))
+      setSavingIds([])
+    }
+  }
+
+  const saving = savingIds.length > 0
+
+  return (
+    <RequireAuth>
+      <div className="bg-gray-50 text-gray-900 min-h-screen">
+        <header className="bg-white border-b sticky top-0 z-50">
+          <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="h-8 w-8 rounded-xl bg-gray-900 text-white grid place-items-center font-bold">DX</div>
+              <h1 className="text-lg font-semibold">在庫価格の一括見直し</h1>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <UserEmail />
+              <button className="px-3 py-1.5 bg-gray-100 rounded-lg" onClick={() => { supabase.auth.signOut().then(() => { window.location.href = '/' }) }}>
+                サインアウト
+              </button>
+            </div>
+          </div>
+          <nav className="max-w-7xl mx-auto px-4 pb-2 pt-1">
+            <ul className="flex flex-wrap gap-2 text-sm">
+              <li><Link href="/tab-complex-list" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">団地一覧</Link></li>
+              <li><Link href="/tab-stock" className="tabbtn px-3 py-1.5 rounded-lg bg-gray-200">在庫一覧</Link></li>
+              <li><span className="tabbtn px-3 py-1.5 rounded-lg bg-black text-white">価格の一括見直し</span></li>
+            </ul>
+          </nav>
+        </header>
+
+        <main className="max-w-7xl mx-auto p-4 space-y-6">
+          <section className="tab active">
+            <div className="bg-white rounded-2xl shadow p-5 space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h2 className="text-lg font-semibold">見直しが必要な在庫</h2>
+                <div className="flex items-center gap-2">
+                  {msg && <span className="text-sm text-gray-600">{msg}</span>}
+                  <button
+                    type="button"
+                    className="px-3 py-1.5 rounded-lg bg-black text-white text-sm disabled:opacity-60"
+                    disabled={saving || candidates.length === 0}
+                    onClick={() => { accept(candidates).catch(console.error) }}
+                  >
+                    すべて反映（{candidates.length}件）
+                  </button>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                紐づくMAX成約・比較事例・団地の階層パターンが保存後に変わった在庫を、係数は保存時のまま、設定単価は基準単価の変化率に合わせて現在の計算で出し直しています。
+              </p>
+
+              {loading ? (
+                <p className="text-sm text-gray-500">読み込み中...</p>
+              ) : candidates.length === 0 ? (
+                <p className="text-sm text-gray-500">見直しが必要な在庫はありません。</p>
+              ) : (
+                <div className="overflow-auto rounded-xl border border-gray-200">
+                  <table className="w-full text-sm">
+                    <thead className="text-xs text-gray-600 bg-gray-100">
+                      <tr>
+                        <th className="text-left py-2 px-2">団地 / 階・面積</th>
+                        <th className="text-left py-2 px-2">理由</th>
+                        <th className="text-right py-2 px-2">目標成約価格</th>
+                        <th className="text-right py-2 px-2">買付目標</th>
+                        <th className="text-right py-2 px-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {candidates.map((candidate) => (
+                        <tr className="border-t align-top" key={candidate.stockId}>
+                          <td className="py-2 px-2">
+                            <div className="font-medium">{candidate.complexName}</div>
+                            <div className="text-xs text-gray-500">
+                              {candidate.next.inputs.floor ?? '-'}階 / {candidate.next.inputs.area ?? '-'}㎡
+                            </div>
+                          </td>
+                          <td className="py-2 px-2">
+                            <div className="flex flex-wrap gap-1">
+                              {candidate.reasons.map((reason) => (
+                                <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs" key={reason}>
+                                  {REPRICING_REASON_LABELS[reason]}
+                                </span>
+                              ))}
+                            </div>
+                          </td>
+                          <td className="py-2 px-2 text-right">
+                            <PriceChange before={candidate.previous.results.targetClose} after={candidate.next.results.targetClose} />
+                          </td>
+                          <td className="py-2 px-2 text-right">
+                            <PriceChange before={candidate.previous.results.buyTarget} after={candidate.next.results.buyTarget} />
+                          </td>
+                          <td className="py-2 px-2 text-right whitespace-nowrap">
+                            <Link href={`/tab-stock/${candidate.stockId}/recalc`} className="px-2 py-1 rounded-lg bg-gray-100 text-xs mr-2">差分</Link>
+                            <button
+                              type="button"
+                              className="px-2 py-1 rounded-lg bg-black text-white text-xs disabled:opacity-60"
+                              disabled={saving}
+                              onClick={() => { accept([candidate]).catch(console.error) }}
+                            >
+                              {savingIds.includes(candidate.stockId) ? '更新中...' : '反映'}
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </section>
+        </main>
+        <style jsx global>{`
+          .num { font-variant-numeric: tabular-nums; }
+        `}</style>
+      </div>
+    </RequireAuth>
+  )
+}
@@ -1,4 +1,11 @@
 import type { ChangeEvent } from 'react'
+import type { AreaAdjustment } from '@/lib/areaAdjustment'
+import type { StockComparable } from '@/lib/comparables'
+import type { CostProfile } from '@/lib/costProfile'
+import type { FloorPatternOption } from '@/lib/floorPatterns'
+import type { HedonicFitResult, HedonicPrediction } from '@/lib/hedonicModel'
+import type { MysokuFields } from '@/lib/mysokuExtract'
+import type { RenovationSpec } from '@/lib/renovationEstimate'
 import type { FloorRow } from '@/lib/stockPricing'
 import type { ReferenceValueEntry } from '@/lib/referenceValue'
 
@@ -9,6 +16,12 @@ export type StockComplexOption = {
   city: string | null
   floorPattern: string | null
   floorCount?: number | null
+  builtYm?: string | null
+  stationMinutes?: number | null
+  hasElevator?: boolean | null
+  mgmtFeeMonthly?: number | null
+  repairReserveFeeMonthly?: number | null
+  rentCaseMaxMonthlyRent?: number | null
 }
 
 export type StockEntryOption = {
@@ -35,6 +48,31 @@ export type StockFormState = {
   yearCoef: string
   otherCoef: string
   coefTotal: string
+  currentCondition: string
+  targetCondition: string
+}
+
+export type StockHedonicView = {
+  fit: HedonicFitResult | null
+  prediction: HedonicPrediction | null
+}
+
+export type StockSensitivityView = {
+  floorCoefs: number[]
+  floorPatternOptions: FloorPatternOption[]
+  floorCount: number | null
+  builtYm?: string | null
+  renovation?: RenovationSpec | null
+  areaCoef?: number
+}
+
+// マイソクPDFから読み取った値。pending の間は確認が済むまで保存できない
+export type StockMysokuPrefillView = {
+  fields: MysokuFields | null
+  reading: boolean
+  error: string | null
+  prefilledFields: (keyof StockFormState)[]
+  pending: boolean
 }
 
 export type StockFormChangeHandler = <K extends keyof StockFormState>(
@@ -57,6 +95,12 @@ export type StockFormProps = {
   floors: FloorRow[]
   selectedFloorNum: number | null
   referenceRows: ReferenceValueEntry[]
+  comparables?: StockComparable[]
+  costProfile?: CostProfile | null
+  floorPatternLabel?: string | null
+  hedonic?: StockHedonicView | null
+  sensitivity?: StockSensitivityView | null
+  areaAdjustment?: AreaAdjustment | null
   coefTotalDisplay?: string | null
   saving: boolean
   submitLabel: string
@@ -64,9 +108,13 @@ export type StockFormProps = {
   showContractDate?: boolean
   showOnlySelectedFloorRow?: boolean
   existingPdf?: ExistingPdfLink | null
+  mysoku?: StockMysokuPrefillView | null
   onComplexChange: (complexId: string) => void
   onEntryChange: (entryId: string) => void
+  onApplyYearCoef?: (value: string) => void
+  onComparablesChange?: (comparables: StockComparable[]) => void
   onFormChange: StockFormChangeHandler
   onPdfChange: (file: File | null) => void
+  onConfirmMysoku?: () => void
   onReset: () => void
 }
@@ -0,0 +1,68 @@
+'use client'
+
+import { useRef, useState, type Dispatch, type SetStateAction } from 'react'
+import { readMysokuPdf, type MysokuFields } from '@/lib/mysokuExtract'
+import type { StockFormState, StockMysokuPrefillView } from './stockFormShared'
+
+type PrefillableKey = 'floor' | 'area' | 'layout'
+
+function toFormValues(fields: MysokuFields): Partial<Record<PrefillableKey, string>> {
+  const values: Partial<Record<PrefillableKey, string>> = {}
+  if (fields.floor != null) values.floor = String(fields.floor)
+  if (fields.area != null) values.area = String(fields.area)
+  if (fields.layout) values.layout = fields.layout
+  return values
+}
+
+// 添付したマイソクを読み取り、階数・面積・間取りを在庫フォームに仮入力する
+export function useStockMysokuPrefill<T extends StockFormState>(setForm: Dispatch<SetStateAction<T>>) {
+  const [fields, setFields] = useState<MysokuFields | null>(null)
+  const [reading, setReading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [prefilledFields, setPrefilledFields] = useState<(keyof StockFormState)[]>([])
+  const [confirmed, setConfirmed] = useState(false)
+  const latestFile = useRef<File | null>(null)
+
+  function reset() {
+    latestFile.current = null
+    setFields(null); setReading(false); setError(null); setPrefilledFields([]); setConfirmed(false)
+  }
+
+  async function read(file: File | null) {
+    reset()
+    if (!file) return
+    latestFile.current = file
+    setReading(true)
+    try {
+      const next = await readMysokuPdf(file)
+      if (latestFile.current !== file) return
+      const values = toFormValues(next)
+      setForm((prev) => ({ ...prev, ...values }))
+      setFields(next)
+      setPrefilledFields(Object.keys(values) as PrefillableKey[])
+    } catch (e) {
+      console.error('[stock:mysoku:read]', e)
+      if (latestFile.current === file) setError('PDFの読み取りに失敗しました。値は手入力してください。')
+    } finally {
+      if (latestFile.current === file) setReading(false)
+    }
+  }
+
+  function markEdited(key: keyof StockFormState) {
+    setPrefilledFields((prev) => prev.filter((item) => item !== key))
+  }
+
+  function confirm() {
+    setPrefilledFields([])
+    setConfirmed(true)
+  }
+
+  const view: StockMysokuPrefillView = {
+    fields,
+    reading,
+    error,
+    prefilledFields,
+    pending: fields != null && !confirmed,
+  }
+  return { view, confirmedFields: confirmed ? fields : null, read, markEdited, confirm, reset }
+}
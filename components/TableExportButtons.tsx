@@ -0,0 +1,52 @@
+'use client'
+
+import {
+  buildExportFilename,
+  buildTableCsv,
+  buildTableXlsx,
+  CSV_MIME_TYPE,
+  XLSX_MIME_TYPE,
+  type TableExportColumn,
+} from '@/lib/tableExport'
+
+type Props<T> = {
+  filenamePrefix: string
+  sheetName: string
+  columns: TableExportColumn<T>[]
+  rows: T[]
+  disabled?: boolean
+}
+
+function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// 表示中（絞り込み・並び替え後）の行をそのまま書き出す
+export default function TableExportButtons<T>({ filenamePrefix, sheetName, columns, rows, disabled }: Props<T>) {
+  const isDisabled = disabled || rows.length === 0
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <button
+        type="button"
+        className="px-3 py-1.5 rounded-lg bg-gray-100 disabled:opacity-50"
+        disabled={isDisabled}
+        onClick={() => downloadBlob(buildExportFilename(filenamePrefix, 'csv'), new Blob([buildTableCsv(columns, rows)], { type: CSV_MIME_TYPE }))}
+      >
+        CSV出力
+      </button>
+      <button
+        type="button"
+        className="px-3 py-1.5 rounded-lg bg-gray-100 disabled:opacity-50"
+        disabled={isDisabled}
+        onClick={() => downloadBlob(buildExportFilename(filenamePrefix, 'xlsx'), new Blob([buildTableXlsx(columns, rows, sheetName)], { type: XLSX_MIME_TYPE }))}
+      >
+        Excel出力
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import {
+  calcAcquisitionCosts,
+  DEFAULT_ACQUISITION_COST_PARAMS,
+  parseAcquisitionCostParams,
+  resolveAcquisitionTaxDeduction,
+  resolveStampDuty,
+} from './acquisitionCost.ts'
+
+test('calcAcquisitionCosts itemizes taxes and fees from the assessed value', () => {
+  const breakdown = calcAcquisitionCosts({
+    purchasePrice: 20_000_000,
+    area: 60,
+    context: { builtYm: '1998-04', settlementDate: '2026-07-01' },
+  })
+  assert.equal(breakdown.assessedValue, 14_000_000)
+  assert.deepEqual(
+    Object.fromEntries(breakdown.items.map((item) => [item.key, item.amount])),
+    {
+      registrationTax: 231000,
+      acquisitionTax: 147000,
+      stampDuty: 10000,
+      scrivenerFee: 100000,
+      fireInsurance: 30000,
+      fixedAssetTax: Math.round(238000 * 184 / 365),
+    },
+  )
+  assert.equal(breakdown.total, 231000 + 147000 + 10000 + 100000 + 30000 + Math.round(238000 * 184 / 365))
+})
+
+test('acquisition tax deduction depends on the built month and floor area', () => {
+  const params = DEFAULT_ACQUISITION_COST_PARAMS
+  assert.equal(resolveAcquisitionTaxDeduction(params, '1998-04', 60), 12_000_000)
+  assert.equal(resolveAcquisitionTaxDeduction(params, '1975-05', 60), 2_300_000)
+  assert.equal(resolveAcquisitionTaxDeduction(params, '1950-01', 60), 0)
+  assert.equal(resolveAcquisitionTaxDeduction(params, '1998-04', 45), 0)
+  assert.equal(resolveAcquisitionTaxDeduction(params, null, 60), 0)
+
+  const small = calcAcquisitionCosts({ purchasePrice: 20_000_000, area: 45, context: { builtYm: '1998-04' } })
+  assert.equal(small.items.find((item) => item.key === 'acquisitionTax')?.amount, 273000)
+})
+
+test('stamp duty follows the price bands and proration defaults to half a year', () => {
+  const params = DEFAULT_ACQUISITION_COST_PARAMS
+  assert.equal(resolveStampDuty(params, 0), 0)
+  assert.equal(resolveStampDuty(params, 10_000_000), 5000)
+  assert.equal(resolveStampDuty(params, 10_000_001), 10000)
+  assert.equal(resolveStampDuty(params, 900_000_000), 60000)
+
+  const undated = calcAcquisitionCosts({ purchasePrice: 20_000_000, area: 60 })
+  assert.equal(undated.items.find((item) => item.key === 'fixedAssetTax')?.amount, 119000)
+})
+
+test('parseAcquisitionCostParams falls back to defaults per field', () => {
+  assert.equal(parseAcquisitionCostParams(null), null)
+  const parsed = parseAcquisitionCostParams({ scrivenerFee: 80000, stampDutyBands: [{ maxPrice: 'x' }] })
+  assert.ok(parsed)
+  assert.equal(parsed.scrivenerFee, 80000)
+  assert.equal(parsed.assessedValueRatio, DEFAULT_ACQUISITION_COST_PARAMS.assessedValueRatio)
+  assert.deepEqual(parsed.stampDutyBands, DEFAULT_ACQUISITION_COST_PARAMS.stampDutyBands)
+})
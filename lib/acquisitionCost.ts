@@ -0,0 +1,206 @@
+export type AcquisitionTaxDeduction = {
+  builtFrom: string
+  deduction: number
+}
+
+export type StampDutyBand = {
+  maxPrice: number
+  amount: number
+}
+
+export type AcquisitionCostParams = {
+  assessedValueRatio: number
+  buildingShare: number
+  registrationLandRate: number
+  registrationBuildingRate: number
+  acquisitionTaxRate: number
+  acquisitionTaxLandBaseRatio: number
+  acquisitionTaxDeductions: AcquisitionTaxDeduction[]
+  deductionMinArea: number
+  deductionMaxArea: number
+  stampDutyBands: StampDutyBand[]
+  scrivenerFee: number
+  fireInsurancePerSqm: number
+  fixedAssetTaxRate: number
+}
+
+export type AcquisitionCostKey =
+  | 'registrationTax'
+  | 'acquisitionTax'
+  | 'stampDuty'
+  | 'scrivenerFee'
+  | 'fireInsurance'
+  | 'fixedAssetTax'
+
+export type AcquisitionCostItem = {
+  key: AcquisitionCostKey
+  label: string
+  amount: number
+}
+
+export type AcquisitionCostBreakdown = {
+  purchasePrice: number
+  assessedValue: number
+  items: AcquisitionCostItem[]
+  total: number
+}
+
+export type AcquisitionContext = {
+  builtYm?: string | null
+  settlementDate?: string | null
+}
+
+export const ACQUISITION_COST_LABELS: Record<AcquisitionCostKey, string> = {
+  registrationTax: '登録免許税',
+  acquisitionTax: '不動産取得税',
+  stampDuty: '印紙税',
+  scrivenerFee: '司法書士報酬',
+  fireInsurance: '火災保険',
+  fixedAssetTax: '固定資産税等（日割り）',
+}
+
+// 決済日が未定のときの固定資産税等の負担割合（半年分）
+export const DEFAULT_PRORATION_RATIO = 0.5
+
+// 中古住宅の不動産取得税は新築日に応じて建物の課税標準から控除される
+export const DEFAULT_ACQUISITION_TAX_DEDUCTIONS: AcquisitionTaxDeduction[] = [
+  { builtFrom: '1954-07', deduction: 1_000_000 },
+  { builtFrom: '1964-01', deduction: 1_500_000 },
+  { builtFrom: '1973-01', deduction: 2_300_000 },
+  { builtFrom: '1976-01', deduction: 3_500_000 },
+  { builtFrom: '1981-07', deduction: 4_200_000 },
+  { builtFrom: '1985-07', deduction: 4_500_000 },
+  { builtFrom: '1989-04', deduction: 10_000_000 },
+  { builtFrom: '1997-04', deduction: 12_000_000 },
+]
+
+// 不動産売買契約書の印紙税（軽減税率）
+export const DEFAULT_STAMP_DUTY_BANDS: StampDutyBand[] = [
+  { maxPrice: 500_000, amount: 200 },
+  { maxPrice: 1_000_000, amount: 500 },
+  { maxPrice: 5_000_000, amount: 1_000 },
+  { maxPrice: 10_000_000, amount: 5_000 },
+  { maxPrice: 50_000_000, amount: 10_000 },
+  { maxPrice: 100_000_000, amount: 30_000 },
+  { maxPrice: 500_000_000, amount: 60_000 },
+]
+
+export const DEFAULT_ACQUISITION_COST_PARAMS: AcquisitionCostParams = {
+  assessedValueRatio: 0.7,
+  buildingShare: 0.3,
+  registrationLandRate: 0.015,
+  registrationBuildingRate: 0.02,
+  acquisitionTaxRate: 0.03,
+  acquisitionTaxLandBaseRatio: 0.5,
+  acquisitionTaxDeductions: DEFAULT_ACQUISITION_TAX_DEDUCTIONS,
+  deductionMinArea: 50,
+  deductionMaxArea: 240,
+  stampDutyBands: DEFAULT_STAMP_DUTY_BANDS,
+  scrivenerFee: 100_000,
+  fireInsurancePerSqm: 500,
+  fixedAssetTaxRate: 0.017,
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function floorTo100(value: number): number {
+  return Math.floor(value / 100) * 100
+}
+
+function parseList<T>(value: unknown, parse: (item: Record<string, unknown>) => T | null): T[] | null {
+  if (!Array.isArray(value)) return null
+  const items = value
+    .map((item) => (item && typeof item === 'object' ? parse(item as Record<string, unknown>) : null))
+    .filter((item): item is T => item != null)
+  return items.length > 0 ? items : null
+}
+
+export function parseAcquisitionCostParams(value: unknown): AcquisitionCostParams | null {
+  if (!value || typeof value !== 'object') return null
+  const raw = value as Record<string, unknown>
+  const defaults = DEFAULT_ACQUISITION_COST_PARAMS
+  const pick = (key: keyof AcquisitionCostParams): number => {
+    const item = raw[key]
+    return isFiniteNumber(item) ? item : defaults[key] as number
+  }
+  return {
+    assessedValueRatio: pick('assessedValueRatio'),
+    buildingShare: pick('buildingShare'),
+    registrationLandRate: pick('registrationLandRate'),
+    registrationBuildingRate: pick('registrationBuildingRate'),
+    acquisitionTaxRate: pick('acquisitionTaxRate'),
+    acquisitionTaxLandBaseRatio: pick('acquisitionTaxLandBaseRatio'),
+    acquisitionTaxDeductions: parseList(raw.acquisitionTaxDeductions, (item) => (
+      typeof item.builtFrom === 'string' && isFiniteNumber(item.deduction) ? { builtFrom: item.builtFrom, deduction: item.deduction } : null
+    )) ?? defaults.acquisitionTaxDeductions,
+    deductionMinArea: pick('deductionMinArea'),
+    deductionMaxArea: pick('deductionMaxArea'),
+    stampDutyBands: parseList(raw.stampDutyBands, (item) => (
+      isFiniteNumber(item.maxPrice) && isFiniteNumber(item.amount) ? { maxPrice: item.maxPrice, amount: item.amount } : null
+    )) ?? defaults.stampDutyBands,
+    scrivenerFee: pick('scrivenerFee'),
+    fireInsurancePerSqm: pick('fireInsurancePerSqm'),
+    fixedAssetTaxRate: pick('fixedAssetTaxRate'),
+  }
+}
+
+export function resolveAcquisitionTaxDeduction(params: AcquisitionCostParams, builtYm: string | null | undefined, area: number): number {
+  if (!builtYm || area < params.deductionMinArea || area > params.deductionMaxArea) return 0
+  const ym = builtYm.slice(0, 7)
+  const matched = [...params.acquisitionTaxDeductions]
+    .sort((a, b) => a.builtFrom.localeCompare(b.builtFrom))
+    .filter((item) => item.builtFrom <= ym)
+    .pop()
+  return matched?.deduction ?? 0
+}
+
+export function resolveStampDuty(params: AcquisitionCostParams, price: number): number {
+  if (price <= 0) return 0
+  const bands = [...params.stampDutyBands].sort((a, b) => a.maxPrice - b.maxPrice)
+  return bands.find((band) => price <= band.maxPrice)?.amount ?? bands[bands.length - 1]?.amount ?? 0
+}
+
+// 1月1日起算で、決済日から年末までの固定資産税・都市計画税を買主が負担する
+function resolveProrationRatio(settlementDate: string | null | undefined): number {
+  if (!settlementDate) return DEFAULT_PRORATION_RATIO
+  const date = new Date(`${settlementDate.slice(0, 10)}T00:00:00Z`)
+  if (Number.isNaN(date.getTime())) return DEFAULT_PRORATION_RATIO
+  const year = date.getUTCFullYear()
+  const yearEnd = Date.UTC(year, 11, 31)
+  const daysInYear = (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / 86400000
+  return (Math.round((yearEnd - date.getTime()) / 86400000) + 1) / daysInYear
+}
+
+export function calcAcquisitionCosts(params: {
+  purchasePrice: number
+  area: number
+  costParams?: AcquisitionCostParams
+  context?: AcquisitionContext
+}): AcquisitionCostBreakdown {
+  const costParams = params.costParams ?? DEFAULT_ACQUISITION_COST_PARAMS
+  const purchasePrice = Math.max(params.purchasePrice, 0)
+  const assessedValue = Math.round(purchasePrice * costParams.assessedValueRatio)
+  const buildingValue = Math.round(assessedValue * costParams.buildingShare)
+  const landValue = assessedValue - buildingValue
+
+  const deduction = resolveAcquisitionTaxDeduction(costParams, params.context?.builtYm, params.area)
+  const acquisitionTaxBase = Math.max(buildingValue - deduction, 0) + landValue * costParams.acquisitionTaxLandBaseRatio
+  const amounts: Record<AcquisitionCostKey, number> = {
+    registrationTax: floorTo100(landValue * costParams.registrationLandRate + buildingValue * costParams.registrationBuildingRate),
+    acquisitionTax: floorTo100(acquisitionTaxBase * costParams.acquisitionTaxRate),
+    stampDuty: resolveStampDuty(costParams, purchasePrice),
+    scrivenerFee: purchasePrice > 0 ? Math.round(costParams.scrivenerFee) : 0,
+    fireInsurance: Math.round(Math.max(params.area, 0) * costParams.fireInsurancePerSqm),
+    fixedAssetTax: Math.round(assessedValue * costParams.fixedAssetTaxRate * resolveProrationRatio(params.context?.settlementDate)),
+  }
+  const items = (Object.keys(ACQUISITION_COST_LABELS) as AcquisitionCostKey[])
+    .map((key) => ({ key, label: ACQUISITION_COST_LABELS[key], amount: amounts[key] }))
+  return {
+    purchasePrice,
+    assessedValue,
+    items,
+    total: items.reduce((sum, item) => sum + item.amount, 0),
+  }
+}
@@ -0,0 +1,49 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { calcAreaAdjustment, fitAreaCurve, resolveAreaCurve } from './areaAdjustment.ts'
+import type { HedonicSample } from './hedonicModel.ts'
+import type { ReferenceValueEntry } from './referenceValue.ts'
+
+// ㎡単価 = k × 面積^-0.2 になる事例
+function entry(area: number, k: number, condition: ReferenceValueEntry['condition_status']): ReferenceValueEntry {
+  return { floor: 3, area_sqm: area, contract_price: null, unit_price: Math.round(k * area ** -0.2), condition_status: condition }
+}
+
+test('fitAreaCurve recovers the within-condition slope and clamps it', () => {
+  const rows = [45, 55, 65, 75].flatMap((area) => [
+    entry(area, 1_000_000, 'FULL_REFORM_ALL_EQUIP'),
+    entry(area, 700_000, 'OWNER_OCCUPIED'),
+  ])
+  const curve = resolveAreaCurve({ rows })
+  assert.equal(curve?.source, 'complex')
+  assert.equal(curve?.elasticity, -0.2)
+  assert.equal(curve?.sampleCount, 8)
+
+  const rising = [45, 55, 65, 75, 45, 55, 65, 75].map((area) => ({ group: '', area, unitPrice: area * 10000 }))
+  assert.equal(fitAreaCurve(rising, 'complex')?.elasticity, 0)
+  assert.equal(fitAreaCurve(rising.slice(0, 7), 'complex'), null)
+  assert.equal(fitAreaCurve(rising.map((sample) => ({ ...sample, area: 60 })), 'complex'), null)
+})
+
+test('resolveAreaCurve falls back to the pooled market and calcAreaAdjustment scales by the area ratio', () => {
+  const marketSamples: HedonicSample[] = [45, 55, 65, 75].flatMap((area) => ['c1', 'c2'].map((complexId) => ({
+    complexId,
+    unitPrice: Math.round((complexId === 'c1' ? 1_000_000 : 800_000) * area ** -0.2),
+    floor: 3,
+    area,
+    condition: 'FULL_REFORM_ALL_EQUIP' as const,
+    contractYear: 2024,
+    hasElevator: false,
+    builtAge: 50,
+    stationMinutes: 10,
+  })))
+  const curve = resolveAreaCurve({ rows: [entry(45, 1_000_000, 'FULL_REFORM_ALL_EQUIP')], marketSamples })
+  assert.deepEqual(curve, { source: 'market', elasticity: -0.2, sampleCount: 8 })
+
+  // (40 / 60)^-0.2
+  assert.equal(calcAreaAdjustment({ curve, stockArea: 40, referenceArea: 60 })?.coef, 1.084)
+  assert.equal(calcAreaAdjustment({ curve, stockArea: 60, referenceArea: 60 })?.coef, 1)
+  assert.equal(calcAreaAdjustment({ curve, stockArea: 40, referenceArea: null }), null)
+  assert.equal(calcAreaAdjustment({ curve: null, stockArea: 40, referenceArea: 60 }), null)
+})
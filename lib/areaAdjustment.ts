@@ -0,0 +1,123 @@
+import { calcComparableArea, calcComparableUnitPrice, type StockComparable } from './comparables.ts'
+import type { HedonicSample } from './hedonicModel.ts'
+import { resolveReferenceUnitPrice, type ReferenceValueEntry } from './referenceValue.ts'
+
+export type AreaSample = {
+  group: string
+  area: number
+  unitPrice: number
+}
+
+export type AreaCurveSource = 'complex' | 'market'
+
+export type AreaCurve = {
+  source: AreaCurveSource
+  // ㎡単価の面積弾力性（面積が1%大きいと㎡単価が何%変わるか）
+  elasticity: number
+  sampleCount: number
+}
+
+export type AreaAdjustment = {
+  coef: number
+  stockArea: number
+  referenceArea: number
+  curve: AreaCurve
+}
+
+export const AREA_CURVE_MIN_SAMPLES = 8
+// 面積の幅が狭いと傾きが不安定なので、最大/最小がこの比率未満なら推定しない
+export const AREA_CURVE_MIN_SPREAD = 1.2
+export const AREA_ELASTICITY_MIN = -0.5
+export const AREA_ELASTICITY_MAX = 0
+
+export const AREA_CURVE_SOURCE_LABELS: Record<AreaCurveSource, string> = {
+  complex: '団地内の事例',
+  market: '全団地の事例',
+}
+
+// 借用事例は補正済みの単価なので団地内の傾きには使わない
+export function buildComplexAreaSamples(rows: ReferenceValueEntry[]): AreaSample[] {
+  return rows.flatMap((row) => {
+    const unitPrice = resolveReferenceUnitPrice(row)
+    if (row.borrowed || unitPrice == null || unitPrice <= 0 || row.area_sqm == null || row.area_sqm <= 0) return []
+    return [{ group: row.condition_status ?? '', area: row.area_sqm, unitPrice }]
+  })
+}
+
+export function buildMarketAreaSamples(samples: HedonicSample[]): AreaSample[] {
+  return samples.flatMap((sample) => {
+    if (sample.area == null || sample.area <= 0 || sample.unitPrice <= 0) return []
+    return [{ group: `${sample.complexId ?? ''}:${sample.condition ?? ''}`, area: sample.area, unitPrice: sample.unitPrice }]
+  })
+}
+
+// log(㎡単価) = a + b·log(面積) をグループ（状態・団地）ごとに中心化して当てはめ、立地や内装の差を傾きから除く
+export function fitAreaCurve(samples: AreaSample[], source: AreaCurveSource): AreaCurve | null {
+  if (samples.length < AREA_CURVE_MIN_SAMPLES) return null
+  const areas = samples.map((sample) => sample.area)
+  if (Math.max(...areas) / Math.min(...areas) < AREA_CURVE_MIN_SPREAD) return null
+
+  const grouped = new Map<string, { x: number; y: number }[]>()
+  for (const sample of samples) {
+    const points = grouped.get(sample.group) ?? []
+    points.push({ x: Math.log(sample.area), y: Math.log(sample.unitPrice) })
+    grouped.set(sample.group, points)
+  }
+
+  let sxy = 0
+  let sxx = 0
+  for (const points of grouped.values()) {
+    const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length
+    const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length
+    for (const point of points) {
+      sxy += (point.x - meanX) * (point.y - meanY)
+      sxx += (point.x - meanX) ** 2
+    }
+  }
+  if (sxx <= 0) return null
+
+  const elasticity = Math.min(Math.max(sxy / sxx, AREA_ELASTICITY_MIN), AREA_ELASTICITY_MAX)
+  return { source, elasticity: Math.round(elasticity * 1000) / 1000, sampleCount: samples.length }
+}
+
+// 団地内の事例で推定できなければ全団地の事例にフォールバックする
+export function resolveAreaCurve(params: {
+  rows: ReferenceValueEntry[]
+  marketSamples?: HedonicSample[]
+}): AreaCurve | null {
+  return fitAreaCurve(buildComplexAreaSamples(params.rows), 'complex')
+    ?? fitAreaCurve(buildMarketAreaSamples(params.marketSamples ?? []), 'market')
+}
+
+export function calcAreaAdjustment(params: {
+  curve: AreaCurve | null
+  stockArea: number
+  referenceArea: number | null | undefined
+}): AreaAdjustment | null {
+  const { curve, stockArea, referenceArea } = params
+  if (!curve || stockArea <= 0 || referenceArea == null || !Number.isFinite(referenceArea) || referenceArea <= 0) return null
+  return {
+    coef: Math.round((stockArea / referenceArea) ** curve.elasticity * 1000) / 1000,
+    stockArea,
+    referenceArea,
+    curve,
+  }
+}
+
+// 基準単価の元になった事例（比較事例の加重平均 or MAX成約）の面積と在庫の面積の差を補正する
+export function resolveStockAreaAdjustment(params: {
+  referenceRows: ReferenceValueEntry[]
+  marketSamples?: HedonicSample[]
+  comparables: StockComparable[]
+  stockArea: number
+  entryArea: number | null | undefined
+}): AreaAdjustment | null {
+  const { referenceRows, marketSamples, comparables, stockArea, entryArea } = params
+  return calcAreaAdjustment({
+    curve: resolveAreaCurve({ rows: referenceRows, marketSamples }),
+    stockArea,
+    referenceArea: calcComparableUnitPrice(referenceRows, comparables) != null
+      ? calcComparableArea(referenceRows, comparables)
+      : entryArea,
+  })
+}
@@ -0,0 +1,61 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import {
+  borrowReferenceRows,
+  findSimilarComplexes,
+  needsBorrowedComparables,
+  summarizeBorrowedComplexes,
+} from './borrowedComparables.ts'
+import { buildReferenceValueTables, type ReferenceValueEntry } from './referenceValue.ts'
+
+const target = { id: 'c1', name: '本団地', stationName: '高島平駅', builtYm: '1972-01', unitCount: 400 }
+
+test('findSimilarComplexes keeps same-station complexes with a close build year and scale', () => {
+  const similar = findSimilarComplexes(target, [
+    target,
+    { id: 'c2', name: '近い団地', stationName: '高島平', builtYm: '1974-03', unitCount: 800 },
+    { id: 'c3', name: '同年団地', stationName: '高島平駅', builtYm: '1972-09', unitCount: null },
+    { id: 'c4', name: '古すぎる団地', stationName: '高島平駅', builtYm: '1960-01', unitCount: 400 },
+    { id: 'c5', name: '大きすぎる団地', stationName: '高島平駅', builtYm: '1972-01', unitCount: 1000 },
+    { id: 'c6', name: '別駅の団地', stationName: '西台駅', builtYm: '1972-01', unitCount: 400 },
+  ])
+  assert.deepEqual(similar, [
+    { complexId: 'c3', complexName: '同年団地', builtYearGap: 0, unitCountRatio: null, adjustment: 1 },
+    // 2年新しい: ×0.98、戸数2倍: ×0.98
+    { complexId: 'c2', complexName: '近い団地', builtYearGap: 2, unitCountRatio: 2, adjustment: 0.96 },
+  ])
+  assert.deepEqual(findSimilarComplexes({ ...target, builtYm: null }, [target]), [])
+})
+
+test('borrowed rows are adjusted, tagged and counted separately in the matrix', () => {
+  const own: ReferenceValueEntry[] = [
+    { id: 'e1', floor: 3, area_sqm: null, contract_price: null, unit_price: 500_000, condition_status: 'FULL_REFORM_ALL_EQUIP' },
+  ]
+  assert.equal(needsBorrowedComparables(own), true)
+
+  const similar = [{ complexId: 'c2', complexName: '近い団地', builtYearGap: 2, unitCountRatio: 2, adjustment: 0.96 }]
+  const borrowed = borrowReferenceRows([
+    { id: 'b1', complex_id: 'c2', floor: 3, area_sqm: 50, contract_price: 25_000_000, unit_price: null, condition_status: 'FULL_REFORM_ALL_EQUIP' },
+    { id: 'b2', complex_id: 'c9', floor: 3, area_sqm: null, contract_price: null, unit_price: 400_000, condition_status: 'FULL_REFORM_ALL_EQUIP' },
+    { id: 'b3', complex_id: 'c2', floor: 3, area_sqm: null, contract_price: null, unit_price: null, condition_status: 'FULL_REFORM_ALL_EQUIP' },
+  ], similar)
+  assert.deepEqual(borrowed, [{
+    id: 'b1',
+    floor: 3,
+    area_sqm: 50,
+    contract_price: 24_000_000,
+    unit_price: 480000,
+    condition_status: 'FULL_REFORM_ALL_EQUIP',
+    borrowed: { complexId: 'c2', complexName: '近い団地', adjustment: 0.96, originalUnitPrice: 500000 },
+  }])
+  assert.deepEqual(summarizeBorrowedComplexes([...own, ...borrowed]), [
+    { complexId: 'c2', complexName: '近い団地', adjustment: 0.96, count: 1 },
+  ])
+
+  const { maxRows } = buildReferenceValueTables({ rows: [...own, ...borrowed], maxFloor: 3 })
+  const cell = maxRows[2].values.FULL_REFORM_ALL_EQUIP
+  assert.equal(cell.count, 2)
+  assert.equal(cell.borrowedCount, 1)
+  assert.equal(needsBorrowedComparables([...own, ...borrowed]), true)
+})
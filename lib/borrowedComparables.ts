@@ -0,0 +1,121 @@
+import { resolveReferenceUnitPrice, type ReferenceValueEntry } from './referenceValue.ts'
+
+export type ComplexSimilarityProfile = {
+  id: string
+  name: string | null
+  stationName: string | null
+  builtYm: string | null
+  unitCount: number | null
+}
+
+export type SimilarComplex = {
+  complexId: string
+  complexName: string
+  builtYearGap: number
+  unitCountRatio: number | null
+  adjustment: number
+}
+
+export type BorrowedComplexSummary = {
+  complexId: string
+  complexName: string
+  adjustment: number
+  count: number
+}
+
+export type BorrowableReferenceEntry = ReferenceValueEntry & {
+  complex_id?: string | null
+}
+
+// 自団地の単価付き事例がこの件数未満なら類似団地から借りる
+export const BORROW_MIN_OWN_ENTRIES = 5
+export const BORROW_BUILT_YEAR_TOLERANCE = 5
+// 総戸数は 1/2〜2倍までを類似とみなす
+export const BORROW_UNIT_COUNT_RATIO_LIMIT = 2
+export const BORROW_MAX_COMPLEXES = 5
+// 類似度補正: 築年が1年新しいごとに -1%、総戸数が2倍になるごとに -2%（規模が大きいほど単価が高い前提）
+export const BORROW_YEAR_ADJUSTMENT = 0.01
+export const BORROW_SCALE_ADJUSTMENT = 0.02
+
+function extractBuiltYear(value: string | null): number | null {
+  const year = Number.parseInt((value ?? '').slice(0, 4), 10)
+  return Number.isFinite(year) ? year : null
+}
+
+function normalizeStationName(value: string | null): string {
+  return (value ?? '').normalize('NFKC').replace(/\s/g, '').replace(/駅$/, '')
+}
+
+export function countOwnReferenceSamples(rows: ReferenceValueEntry[]): number {
+  return rows.filter((row) => !row.borrowed && resolveReferenceUnitPrice(row) != null).length
+}
+
+export function needsBorrowedComparables(rows: ReferenceValueEntry[]): boolean {
+  return countOwnReferenceSamples(rows) < BORROW_MIN_OWN_ENTRIES
+}
+
+export function findSimilarComplexes(target: ComplexSimilarityProfile, candidates: ComplexSimilarityProfile[]): SimilarComplex[] {
+  const station = normalizeStationName(target.stationName)
+  const targetYear = extractBuiltYear(target.builtYm)
+  if (!station || targetYear == null) return []
+
+  return candidates
+    .flatMap((candidate) => {
+      if (candidate.id === target.id || normalizeStationName(candidate.stationName) !== station) return []
+      const candidateYear = extractBuiltYear(candidate.builtYm)
+      if (candidateYear == null) return []
+      const builtYearGap = candidateYear - targetYear
+      if (Math.abs(builtYearGap) > BORROW_BUILT_YEAR_TOLERANCE) return []
+
+      const unitCountRatio = candidate.unitCount && target.unitCount && candidate.unitCount > 0 && target.unitCount > 0
+        ? candidate.unitCount / target.unitCount
+        : null
+      if (unitCountRatio != null && (unitCountRatio > BORROW_UNIT_COUNT_RATIO_LIMIT || unitCountRatio < 1 / BORROW_UNIT_COUNT_RATIO_LIMIT)) return []
+
+      const yearFactor = 1 - BORROW_YEAR_ADJUSTMENT * builtYearGap
+      const scaleFactor = 1 - BORROW_SCALE_ADJUSTMENT * Math.log2(unitCountRatio ?? 1)
+      return [{
+        complexId: candidate.id,
+        complexName: candidate.name ?? '(名称未設定)',
+        builtYearGap,
+        unitCountRatio: unitCountRatio != null ? Math.round(unitCountRatio * 100) / 100 : null,
+        adjustment: Math.round(yearFactor * scaleFactor * 1000) / 1000,
+      }]
+    })
+    .sort((a, b) => Math.abs(a.builtYearGap) - Math.abs(b.builtYearGap)
+      || Math.abs(Math.log(a.unitCountRatio ?? 1)) - Math.abs(Math.log(b.unitCountRatio ?? 1)))
+    .slice(0, BORROW_MAX_COMPLEXES)
+}
+
+// 類似団地の事例に類似度補正を掛け、借用元を明示した参照事例にする
+export function borrowReferenceRows(rows: BorrowableReferenceEntry[], similar: SimilarComplex[]): ReferenceValueEntry[] {
+  const byId = new Map(similar.map((complex) => [complex.complexId, complex]))
+  return rows.flatMap(({ complex_id: complexId, ...row }) => {
+    const complex = complexId ? byId.get(complexId) : undefined
+    const unitPrice = resolveReferenceUnitPrice(row)
+    if (!complex || unitPrice == null) return []
+    return [{
+      ...row,
+      unit_price: Math.round(unitPrice * complex.adjustment * 100) / 100,
+      contract_price: row.contract_price != null ? Math.round(row.contract_price * complex.adjustment) : null,
+      borrowed: {
+        complexId: complex.complexId,
+        complexName: complex.complexName,
+        adjustment: complex.adjustment,
+        originalUnitPrice: unitPrice,
+      },
+    }]
+  })
+}
+
+export function summarizeBorrowedComplexes(rows: ReferenceValueEntry[]): BorrowedComplexSummary[] {
+  const grouped = new Map<string, BorrowedComplexSummary>()
+  for (const row of rows) {
+    if (!row.borrowed) continue
+    const summary = grouped.get(row.borrowed.complexId)
+      ?? { complexId: row.borrowed.complexId, complexName: row.borrowed.complexName, adjustment: row.borrowed.adjustment, count: 0 }
+    summary.count += 1
+    grouped.set(row.borrowed.complexId, summary)
+  }
+  return [...grouped.values()]
+}
@@ -0,0 +1,24 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { calcStatutoryBrokerage, calcStatutoryBrokerageBeforeTax, DEFAULT_STATUTORY_BROKERAGE_PARAMS } from './brokerage.ts'
+
+const withoutLowPriceRule = { ...DEFAULT_STATUTORY_BROKERAGE_PARAMS, lowPriceCeiling: 0 }
+
+test('statutory brokerage applies the tiered rates before consumption tax', () => {
+  assert.equal(calcStatutoryBrokerageBeforeTax(0), 0)
+  assert.equal(calcStatutoryBrokerageBeforeTax(1_500_000, withoutLowPriceRule), 75000)
+  assert.equal(calcStatutoryBrokerageBeforeTax(3_000_000, withoutLowPriceRule), 140000)
+  // 400万円超は「3% + 6万円」の速算式と一致する
+  assert.equal(calcStatutoryBrokerageBeforeTax(20_000_000), 20_000_000 * 0.03 + 60000)
+  assert.equal(calcStatutoryBrokerage(20_000_000), 726000)
+})
+
+test('low-priced properties use the special ceiling up to the price limit', () => {
+  assert.equal(calcStatutoryBrokerage(3_000_000), 330000)
+  assert.equal(calcStatutoryBrokerage(8_000_000), 330000)
+  assert.equal(calcStatutoryBrokerage(6_000_000), 330000)
+  assert.equal(calcStatutoryBrokerage(6_000_000, withoutLowPriceRule), 264000)
+  assert.equal(calcStatutoryBrokerage(9_000_000), 363000)
+  assert.equal(calcStatutoryBrokerage(3_000_000, withoutLowPriceRule), 154000)
+})
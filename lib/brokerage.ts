@@ -0,0 +1,42 @@
+export type StatutoryBrokerageParams = {
+  taxRate: number
+  lowPriceLimit: number
+  lowPriceCeiling: number
+}
+
+export type BrokerageTier = {
+  upTo: number
+  rate: number
+}
+
+// 宅建業法の報酬上限（税別）: 200万円以下 5%、200万円超400万円以下 4%、400万円超 3%
+export const STATUTORY_BROKERAGE_TIERS: BrokerageTier[] = [
+  { upTo: 2_000_000, rate: 0.05 },
+  { upTo: 4_000_000, rate: 0.04 },
+  { upTo: Number.POSITIVE_INFINITY, rate: 0.03 },
+]
+
+// 低廉な空家等（800万円以下）は30万円（税別）まで受領できる特例を見込む。上限額0で特例を使わない
+export const DEFAULT_STATUTORY_BROKERAGE_PARAMS: StatutoryBrokerageParams = {
+  taxRate: 0.1,
+  lowPriceLimit: 8_000_000,
+  lowPriceCeiling: 300_000,
+}
+
+export function calcStatutoryBrokerageBeforeTax(price: number, params: StatutoryBrokerageParams = DEFAULT_STATUTORY_BROKERAGE_PARAMS): number {
+  if (price <= 0) return 0
+  let fee = 0
+  let lower = 0
+  for (const tier of STATUTORY_BROKERAGE_TIERS) {
+    fee += (Math.min(price, tier.upTo) - lower) * tier.rate
+    if (price <= tier.upTo) break
+    lower = tier.upTo
+  }
+  if (params.lowPriceCeiling > 0 && price <= params.lowPriceLimit) fee = Math.max(fee, params.lowPriceCeiling)
+  return Math.round(fee)
+}
+
+// 片側（売主または買主の一方）から受け取る仲介手数料の上限額（税込）
+export function calcStatutoryBrokerage(price: number, params: StatutoryBrokerageParams = DEFAULT_STATUTORY_BROKERAGE_PARAMS): number {
+  return Math.round(calcStatutoryBrokerageBeforeTax(price, params) * (1 + params.taxRate))
+}
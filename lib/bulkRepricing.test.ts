@@ -0,0 +1,86 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { buildRepricingCandidates, type StockRepricingRow } from './bulkRepricing.ts'
+import { DEFAULT_COST_PROFILE } from './costProfile.ts'
+import { buildPricingSnapshot } from './pricingSnapshot.ts'
+import type { ReferenceValueEntry } from './referenceValue.ts'
+import { buildFloorRows, FLOOR_COEFS } from './stockPricing.ts'
+
+const referenceRows: ReferenceValueEntry[] = [
+  { id: 'e1', floor: 3, area_sqm: 60, contract_price: 30_000_000, unit_price: null, condition_status: 'FULL_REFORM_ALL_EQUIP', contract_date: '2024-04-01' },
+]
+const now = new Date('2026-01-01T00:00:00.000Z')
+const snapshot = buildPricingSnapshot({
+  inputs: {
+    estateEntryId: 'e1',
+    basisUnitPrice: 500000,
+    entryArea: 60,
+    settingUnit: 500000,
+    yearCoef: 0.1,
+    otherCoef: 0,
+    area: 60,
+    floor: 3,
+    layout: null,
+    currentCondition: null,
+    targetCondition: null,
+    builtYm: null,
+  },
+  floorPattern: { label: '②中間', coefs: FLOOR_COEFS['②中間'] },
+  profile: DEFAULT_COST_PROFILE,
+  referenceRows,
+  comparables: [],
+  now,
+})
+
+function stock(id: string, complexId: string, entryId: string): StockRepricingRow {
+  return { id, complex_id: complexId, estate_entry_id: entryId, floor: 3, area_sqm: 60, pricing_snapshot: snapshot }
+}
+
+test('buildRepricingCandidates picks stocks whose entry or complex floor pattern changed', () => {
+  const candidates = buildRepricingCandidates({
+    stocks: [stock('s1', 'c1', 'e1'), stock('s2', 'c2', 'e2'), stock('s3', 'c1', 'deleted')],
+    complexes: [
+      { id: 'c1', name: '団地A', floorPattern: '②中間' },
+      { id: 'c2', name: '団地B', floorPattern: '③攻め' },
+    ],
+    entriesByComplex: new Map([
+      ['c1', [{ id: 'e1', area: 60, unitPrice: 500000 }]],
+      ['c2', [{ id: 'e2', area: 60, unitPrice: 500000 }]],
+    ]),
+    referenceRowsByComplex: new Map([['c1', referenceRows], ['c2', referenceRows]]),
+    floorPatterns: [],
+    profile: DEFAULT_COST_PROFILE,
+    now,
+  })
+
+  assert.deepEqual(candidates.map((candidate) => [candidate.stockId, candidate.complexName, candidate.reasons]), [
+    ['s2', '団地B', ['floorPatternChanged']],
+    ['s3', '団地A', ['entryMissing']],
+  ])
+  const buyTarget = candidates[0].diff.rows.find((row) => row.key === 'buyTarget')
+  assert.equal(buyTarget?.changed, true)
+  assert.equal(candidates[0].next.inputs.settingUnit, 500000)
+})
+
+test('buildRepricingCandidates recomputes with the current MAX entry unit price and area', () => {
+  const [candidate] = buildRepricingCandidates({
+    stocks: [stock('s1', 'c1', 'e1')],
+    complexes: [{ id: 'c1', name: '団地A', floorPattern: '②中間' }],
+    entriesByComplex: new Map([['c1', [{ id: 'e1', area: 58, unitPrice: 520000 }]]]),
+    referenceRowsByComplex: new Map([['c1', referenceRows]]),
+    floorPatterns: [],
+    profile: DEFAULT_COST_PROFILE,
+    now,
+  })
+
+  assert.deepEqual(candidate.reasons, ['entryChanged', 'basisChanged'])
+  assert.equal(candidate.next.inputs.basisUnitPrice, 520000)
+  assert.equal(candidate.next.inputs.entryArea, 58)
+  // 設定単価も基準単価の変化（+4%）に合わせて動き、価格が出し直される
+  assert.equal(candidate.next.inputs.settingUnit, 520000)
+  const floor = buildFloorRows(520000, 1.1, 60, FLOOR_COEFS['②中間'], DEFAULT_COST_PROFILE).find((row) => row.floor === 3)
+  assert.equal(candidate.next.results.targetUnit, floor?.targetUnit)
+  assert.equal(candidate.next.results.buyTarget, floor?.buyTarget)
+  assert.ok((candidate.next.results.buyTarget ?? 0) > (candidate.previous.results.buyTarget ?? 0))
+})
@@ -0,0 +1,164 @@
+import { calcComparableUnitPrice, mapStockComparablesJson } from './comparables.ts'
+import type { CostProfile } from './costProfile.ts'
+import {
+  buildFloorPatternOptions,
+  formatFloorPatternLabel,
+  resolveFloorPatternCoefs,
+  type CustomFloorPattern,
+  type FloorPatternOption,
+} from './floorPatterns.ts'
+import type { HedonicSample } from './hedonicModel.ts'
+import {
+  diffPricingSnapshots,
+  recalculatePricingSnapshot,
+  resolveStockPricingSnapshot,
+  type PricingSnapshot,
+  type PricingSnapshotDiff,
+  type PricingSnapshotFloorPattern,
+  type StockPricingRow,
+} from './pricingSnapshot.ts'
+import type { ReferenceValueEntry } from './referenceValue.ts'
+
+export type StockRepricingRow = StockPricingRow & {
+  id: string
+  complex_id: string | null
+  comparable_entries?: unknown
+}
+
+export type RepricingComplex = {
+  id: string
+  name: string
+  floorPattern: string | null
+  floorCount?: number | null
+  builtYm?: string | null
+}
+
+export type RepricingEntry = {
+  id: string
+  area: number | null
+  unitPrice: number | null
+}
+
+export type RepricingReason = 'entryMissing' | 'entryChanged' | 'basisChanged' | 'floorPatternChanged' | 'unrecorded'
+
+export type CurrentPricingBasis = {
+  entryFound: boolean
+  basisUnitPrice: number | null
+  entryArea: number | null
+  builtYm: string | null
+  floorPattern: PricingSnapshotFloorPattern
+}
+
+export type RepricingCandidate = {
+  stockId: string
+  complexId: string | null
+  complexName: string
+  reasons: RepricingReason[]
+  previous: PricingSnapshot
+  next: PricingSnapshot
+  diff: PricingSnapshotDiff
+}
+
+export const REPRICING_REASON_LABELS: Record<RepricingReason, string> = {
+  entryMissing: '紐づくMAX成約が削除済み',
+  entryChanged: '紐づくMAX成約の面積が変更',
+  basisChanged: '基準単価（MAX成約・比較事例）が変更',
+  floorPatternChanged: '団地の階層パターンが変更',
+  unrecorded: '保存時の計算記録なし・現在の計算と価格が異なる',
+}
+
+// 在庫を保存したあとの MAX成約・比較事例・団地の階層パターンの現在値
+export function resolveCurrentPricingBasis(params: {
+  stock: StockRepricingRow
+  complex: RepricingComplex | null
+  entries: RepricingEntry[]
+  floorPatternOptions: FloorPatternOption[]
+  referenceRows: ReferenceValueEntry[]
+}): CurrentPricingBasis {
+  const { stock, complex, entries, floorPatternOptions, referenceRows } = params
+  const entry = entries.find((item) => item.id === stock.estate_entry_id) ?? null
+  const maxUnitPrices = entries
+    .map((item) => item.unitPrice)
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0)
+  return {
+    entryFound: entry != null,
+    basisUnitPrice: calcComparableUnitPrice(referenceRows, mapStockComparablesJson(stock.comparable_entries))
+      ?? (maxUnitPrices.length > 0 ? Math.max(...maxUnitPrices) : null),
+    entryArea: entry?.area ?? null,
+    builtYm: complex?.builtYm ?? null,
+    floorPattern: {
+      label: formatFloorPatternLabel(complex?.floorPattern, floorPatternOptions) || null,
+      coefs: resolveFloorPatternCoefs(complex?.floorPattern, floorPatternOptions, complex?.floorCount),
+    },
+  }
+}
+
+function sameCoefs(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index])
+}
+
+export function detectRepricingReasons(previous: PricingSnapshot, basis: CurrentPricingBasis, diff: PricingSnapshotDiff): RepricingReason[] {
+  const reasons: RepricingReason[] = []
+  if (!basis.entryFound) reasons.push('entryMissing')
+  // 計算記録のない在庫は何が変わったか分からないので、価格が変わる場合だけ拾う
+  if (previous.formulaVersion === 0) {
+    if (diff.rows.some((row) => row.section === 'result' && row.key !== 'coefTotal' && row.changed)) reasons.push('unrecorded')
+    return reasons
+  }
+  if (basis.entryFound && previous.inputs.entryArea !== basis.entryArea) reasons.push('entryChanged')
+  if (previous.inputs.basisUnitPrice !== basis.basisUnitPrice) reasons.push('basisChanged')
+  if (!sameCoefs(previous.floorPattern.coefs, basis.floorPattern.coefs)) reasons.push('floorPatternChanged')
+  return reasons
+}
+
+// 変更された MAX成約・階層パターンに依存する在庫を洗い出し、現在の計算で価格を出し直す
+export function buildRepricingCandidates(params: {
+  stocks: StockRepricingRow[]
+  complexes: RepricingComplex[]
+  entriesByComplex: Map<string, RepricingEntry[]>
+  referenceRowsByComplex: Map<string, ReferenceValueEntry[]>
+  floorPatterns: CustomFloorPattern[]
+  profile: CostProfile
+  marketSamples?: HedonicSample[]
+  now?: Date
+}): RepricingCandidate[] {
+  const { stocks, complexes, entriesByComplex, referenceRowsByComplex, floorPatterns, profile, marketSamples, now } = params
+  const complexById = new Map(complexes.map((complex) => [complex.id, complex]))
+
+  return stocks.flatMap((stock) => {
+    const complexId = stock.complex_id
+    const complex = complexId ? complexById.get(complexId) ?? null : null
+    const referenceRows = complexId ? referenceRowsByComplex.get(complexId) ?? [] : []
+    const basis = resolveCurrentPricingBasis({
+      stock,
+      complex,
+      entries: complexId ? entriesByComplex.get(complexId) ?? [] : [],
+      floorPatternOptions: buildFloorPatternOptions(floorPatterns, complexId),
+      referenceRows,
+    })
+    const previous = resolveStockPricingSnapshot(stock)
+    const next = recalculatePricingSnapshot(previous, {
+      basisUnitPrice: basis.basisUnitPrice,
+      entryArea: basis.entryArea,
+      builtYm: basis.builtYm,
+      floorPattern: basis.floorPattern,
+      profile,
+      referenceRows,
+      comparables: mapStockComparablesJson(stock.comparable_entries),
+      marketSamples,
+      now,
+    })
+    const diff = diffPricingSnapshots(previous, next)
+    const reasons = detectRepricingReasons(previous, basis, diff)
+    if (reasons.length === 0) return []
+    return [{
+      stockId: stock.id,
+      complexId,
+      complexName: complex?.name ?? '(団地不明)',
+      reasons,
+      previous,
+      next,
+      diff,
+    }]
+  })
+}
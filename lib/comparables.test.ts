@@ -0,0 +1,47 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import {
+  buildStockComparablesPayload,
+  calcComparableArea,
+  calcComparableUnitPrice,
+  mapStockComparablesJson,
+  selectComparableRows,
+  setComparableWeight,
+  toggleComparable,
+} from './comparables.ts'
+import type { ReferenceValueEntry } from './referenceValue.ts'
+
+const rows: ReferenceValueEntry[] = [
+  { id: 'e1', floor: 3, area_sqm: 60, contract_price: 30_000_000, unit_price: null, condition_status: 'FULL_REFORM_ALL_EQUIP' },
+  { id: 'e2', floor: 4, area_sqm: null, contract_price: null, unit_price: 400_000, condition_status: 'FULL_REFORM_ALL_EQUIP' },
+  { id: 'e3', floor: 1, area_sqm: null, contract_price: null, unit_price: 300_000, condition_status: 'OWNER_OCCUPIED' },
+  { floor: 2, area_sqm: null, contract_price: null, unit_price: 350_000, condition_status: 'OWNER_OCCUPIED' },
+]
+
+test('comparable selection narrows the reference rows and weights the basis unit price', () => {
+  const comparables = setComparableWeight(toggleComparable(toggleComparable([], 'e1'), 'e2'), 'e2', 3)
+  assert.deepEqual(comparables, [{ entryId: 'e1', weight: 1 }, { entryId: 'e2', weight: 3 }])
+
+  assert.deepEqual(selectComparableRows(rows, comparables).map((row) => row.id), ['e1', 'e2'])
+  assert.equal(selectComparableRows(rows, []).length, 4)
+  // (500,000 × 1 + 400,000 × 3) / 4
+  assert.equal(calcComparableUnitPrice(rows, comparables), 425000)
+  assert.equal(calcComparableUnitPrice(rows, setComparableWeight(comparables, 'e2', 0)), 500000)
+  assert.equal(calcComparableUnitPrice(rows, []), null)
+  // 面積のない e2 は基準面積から外す
+  assert.equal(calcComparableArea(rows, comparables), 60)
+  assert.equal(calcComparableArea(rows, []), null)
+  assert.deepEqual(toggleComparable(comparables, 'e1'), [{ entryId: 'e2', weight: 3 }])
+})
+
+test('comparable selection round-trips through the stock payload', () => {
+  const comparables = [{ entryId: 'e1', weight: 1 }, { entryId: 'e2', weight: 2.5 }]
+  const payload = buildStockComparablesPayload(comparables)
+  assert.deepEqual(payload, { comparable_entries: [{ entry_id: 'e1', weight: 1 }, { entry_id: 'e2', weight: 2.5 }] })
+  assert.deepEqual(mapStockComparablesJson(payload.comparable_entries), comparables)
+
+  assert.deepEqual(buildStockComparablesPayload([]), { comparable_entries: null })
+  assert.deepEqual(mapStockComparablesJson(null), [])
+  assert.deepEqual(mapStockComparablesJson([{ entry_id: 'e3' }, { weight: 2 }, 'x']), [{ entryId: 'e3', weight: 1 }])
+})
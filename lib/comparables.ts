@@ -0,0 +1,77 @@
+import { resolveReferenceUnitPrice, type ReferenceValueEntry } from './referenceValue.ts'
+
+// 在庫ごとに選んだ比較事例（過去成約）と重み。estate_stocks.comparable_entries に保存する
+export type StockComparable = {
+  entryId: string
+  weight: number
+}
+
+export const DEFAULT_COMPARABLE_WEIGHT = 1
+
+export function mapStockComparablesJson(value: unknown): StockComparable[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((item) => {
+    if (!item || typeof item !== 'object') return []
+    const raw = item as Record<string, unknown>
+    if (typeof raw.entry_id !== 'string' || !raw.entry_id) return []
+    const weight = typeof raw.weight === 'number' && Number.isFinite(raw.weight) && raw.weight >= 0 ? raw.weight : DEFAULT_COMPARABLE_WEIGHT
+    return [{ entryId: raw.entry_id, weight }]
+  })
+}
+
+export function buildStockComparablesPayload(comparables: StockComparable[]): Record<string, unknown> {
+  return {
+    comparable_entries: comparables.length > 0
+      ? comparables.map((comparable) => ({ entry_id: comparable.entryId, weight: comparable.weight }))
+      : null,
+  }
+}
+
+export function toggleComparable(comparables: StockComparable[], entryId: string): StockComparable[] {
+  return comparables.some((comparable) => comparable.entryId === entryId)
+    ? comparables.filter((comparable) => comparable.entryId !== entryId)
+    : [...comparables, { entryId, weight: DEFAULT_COMPARABLE_WEIGHT }]
+}
+
+export function setComparableWeight(comparables: StockComparable[], entryId: string, weight: number): StockComparable[] {
+  return comparables.map((comparable) => (
+    comparable.entryId === entryId ? { ...comparable, weight: Number.isFinite(weight) ? Math.max(weight, 0) : 0 } : comparable
+  ))
+}
+
+// 未選択なら従来どおり団地内の全事例を参照する
+export function selectComparableRows(rows: ReferenceValueEntry[], comparables: StockComparable[]): ReferenceValueEntry[] {
+  if (comparables.length === 0) return rows
+  const selected = new Set(comparables.map((comparable) => comparable.entryId))
+  return rows.filter((row) => row.id != null && selected.has(row.id))
+}
+
+// 選択した事例の㎡単価の加重平均。選択がない・単価が取れない場合は null
+export function calcComparableUnitPrice(rows: ReferenceValueEntry[], comparables: StockComparable[]): number | null {
+  const weights = new Map(comparables.map((comparable) => [comparable.entryId, comparable.weight]))
+  let weighted = 0
+  let totalWeight = 0
+  for (const row of rows) {
+    const weight = row.id != null ? weights.get(row.id) : undefined
+    const unitPrice = resolveReferenceUnitPrice(row)
+    if (weight == null || weight <= 0 || unitPrice == null || unitPrice <= 0) continue
+    weighted += unitPrice * weight
+    totalWeight += weight
+  }
+  return totalWeight > 0 ? Math.round(weighted / totalWeight) : null
+}
+
+// 選択した事例の面積の加重平均。面積補正の基準面積に使う
+export function calcComparableArea(rows: ReferenceValueEntry[], comparables: StockComparable[]): number | null {
+  const weights = new Map(comparables.map((comparable) => [comparable.entryId, comparable.weight]))
+  let weighted = 0
+  let totalWeight = 0
+  for (const row of rows) {
+    const weight = row.id != null ? weights.get(row.id) : undefined
+    const unitPrice = resolveReferenceUnitPrice(row)
+    if (weight == null || weight <= 0 || unitPrice == null || unitPrice <= 0 || row.area_sqm == null || row.area_sqm <= 0) continue
+    weighted += row.area_sqm * weight
+    totalWeight += weight
+  }
+  return totalWeight > 0 ? Math.round(weighted / totalWeight * 100) / 100 : null
+}
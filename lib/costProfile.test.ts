@@ -0,0 +1,175 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { DEFAULT_ACQUISITION_COST_PARAMS } from './acquisitionCost.ts'
+import {
+  buildCostProfilePayload,
+  buildStockCostProfileFields,
+  costProfileToForm,
+  DEFAULT_COST_PROFILE,
+  formatCostProfileLabel,
+  mapCostProfileRow,
+  nextCostProfileVersion,
+  resolveActiveCostProfile,
+  resolveStockCostProfile,
+  validateCostProfileForm,
+  type CostProfile,
+} from './costProfile.ts'
+
+const profileV1: CostProfile = { ...DEFAULT_COST_PROFILE, id: 'p1', version: 1, name: '2025年度', effectiveFrom: '2025-04-01' }
+const profileV2: CostProfile = { ...DEFAULT_COST_PROFILE, id: 'p2', version: 2, name: '2026年度', effectiveFrom: '2026-04-01', otherCostRate: 0.08 }
+const profileV3: CostProfile = { ...DEFAULT_COST_PROFILE, id: 'p3', version: 3, name: '2026年度改', effectiveFrom: '2026-04-01', marginDivisor: 1.25 }
+
+test('mapCostProfileRow parses stored bands and falls back to defaults for malformed fields', () => {
+  assert.deepEqual(
+    mapCostProfileRow({
+      id: 'p1',
+      version: 4,
+      name: '改定版',
+      effective_from: '2026-01-01',
+      move_cost_bands: [{ minArea: 70, unitCost: 120000 }, { minArea: 0, unitCost: 140000, slopePerSqm: 0 }, { minArea: 'x' }],
+      brokerage_rule: { mode: 'flat', sides: 'both', thresholdPrice: 8_000_000, flatFee: 330_000, rate: 0.033 },
+      other_cost_rate: 0.07,
+      other_cost_mode: 'flat',
+      acquisition_cost_params: { scrivenerFee: 88000, stampDutyBands: 'broken' },
+      margin_divisor: 1.18,
+    }),
+    {
+      id: 'p1',
+      version: 4,
+      name: '改定版',
+      effectiveFrom: '2026-01-01',
+      moveCostBands: [
+        { minArea: 0, unitCost: 140000, slopePerSqm: 0 },
+        { minArea: 70, unitCost: 120000, slopePerSqm: 0 },
+      ],
+      brokerage: {
+        mode: 'flat',
+        sides: 'both',
+        taxRate: 0.1,
+        lowPriceLimit: 8_000_000,
+        lowPriceCeiling: 300_000,
+        thresholdPrice: 8_000_000,
+        flatFee: 330_000,
+        rate: 0.033,
+      },
+      otherCostRate: 0.07,
+      otherCostMode: 'flat',
+      acquisitionCost: { ...DEFAULT_ACQUISITION_COST_PARAMS, scrivenerFee: 88000 },
+      marginDivisor: 1.18,
+    },
+  )
+
+  const legacyRow = {
+    id: 'p2',
+    version: null,
+    name: null,
+    effective_from: null,
+    move_cost_bands: null,
+    brokerage_rule: 'broken',
+    other_cost_rate: null,
+    margin_divisor: 0,
+  }
+  const fallback = mapCostProfileRow(legacyRow)
+  assert.equal(fallback.name, '(名称未設定)')
+  assert.deepEqual(fallback.moveCostBands, DEFAULT_COST_PROFILE.moveCostBands)
+  assert.deepEqual(fallback.brokerage, DEFAULT_COST_PROFILE.brokerage)
+  assert.equal(fallback.marginDivisor, 1.21)
+  // other_cost_mode 導入前の版は従来どおり定率のまま読む
+  assert.equal(fallback.otherCostMode, 'flat')
+  assert.equal(mapCostProfileRow({ ...legacyRow, other_cost_mode: 'itemized' }).otherCostMode, 'itemized')
+  assert.deepEqual(fallback.acquisitionCost, DEFAULT_ACQUISITION_COST_PARAMS)
+
+  const statutory = mapCostProfileRow({
+    id: 'p3',
+    version: 1,
+    name: null,
+    effective_from: null,
+    move_cost_bands: null,
+    brokerage_rule: { mode: 'statutory', sides: 'sideways', lowPriceCeiling: 0 },
+    other_cost_rate: null,
+    margin_divisor: null,
+  })
+  assert.deepEqual(statutory.brokerage, { ...DEFAULT_COST_PROFILE.brokerage, lowPriceCeiling: 0 })
+
+  const legacyBrokerage = mapCostProfileRow({
+    ...legacyRow,
+    brokerage_rule: { thresholdPrice: 10_000_000, flatFee: 550_000, rate: 0.055 },
+  })
+  assert.equal(legacyBrokerage.brokerage.mode, 'flat')
+  assert.equal(legacyBrokerage.brokerage.flatFee, 550_000)
+})
+
+test('resolveActiveCostProfile picks the latest effective profile and prefers higher versions on the same day', () => {
+  const profiles = [profileV1, profileV2, profileV3]
+  assert.equal(resolveActiveCostProfile(profiles, new Date('2026-03-31T00:00:00.000Z')).id, 'p1')
+  assert.equal(resolveActiveCostProfile(profiles, new Date('2026-04-01T00:00:00.000Z')).id, 'p3')
+  assert.equal(resolveActiveCostProfile(profiles, new Date('2024-01-01T00:00:00.000Z')), DEFAULT_COST_PROFILE)
+  assert.equal(resolveActiveCostProfile([], new Date('2026-04-01T00:00:00.000Z')), DEFAULT_COST_PROFILE)
+})
+
+test('resolveStockCostProfile prefers the profile a stock was priced with', () => {
+  const profiles = [profileV1, profileV2, profileV3]
+  const now = new Date('2026-04-01T00:00:00.000Z')
+  assert.equal(resolveStockCostProfile(profiles, { cost_profile_id: 'p1', cost_profile_version: 1 }, now).id, 'p1')
+  assert.equal(resolveStockCostProfile(profiles, { cost_profile_id: null, cost_profile_version: 2 }, now).id, 'p2')
+  // 削除済みなどで見つからない版は基準日時点の版で代用する
+  assert.equal(resolveStockCostProfile(profiles, { cost_profile_id: 'gone', cost_profile_version: 9 }, now).id, 'p3')
+  assert.equal(resolveStockCostProfile(profiles, {}, now).id, 'p3')
+})
+
+test('cost profile form helpers validate input and build versioned payloads', () => {
+  const form = { ...costProfileToForm(profileV2), effectiveFrom: '2027-04-01' }
+  assert.equal(form.name, '2026年度')
+  assert.equal(validateCostProfileForm(form), null)
+  assert.equal(validateCostProfileForm({ ...form, name: ' ' }), 'プロファイル名を入力してください')
+  assert.equal(validateCostProfileForm({ ...form, marginDivisor: '0' }), '利益率の除数は0より大きい値を入力してください')
+  assert.equal(validateCostProfileForm({ ...form, moveCostBands: [] }), 'リノベ費用の面積帯を1つ以上入力してください')
+  assert.equal(
+    validateCostProfileForm({ ...form, acquisitionCost: { ...form.acquisitionCost, scrivenerFee: '' } }),
+    '司法書士報酬（円）を入力してください',
+  )
+  assert.equal(validateCostProfileForm({ ...form, otherCostMode: 'flat', acquisitionCost: { ...form.acquisitionCost, scrivenerFee: '' } }), null)
+  assert.equal(validateCostProfileForm({ ...form, brokerageTaxRate: '' }), '仲介手数料の条件（消費税率・低廉な空家等の特例）を入力してください')
+  assert.equal(validateCostProfileForm({ ...form, brokerageTaxRate: '', brokerageMode: 'flat' }), null)
+  assert.equal(
+    validateCostProfileForm({ ...form, acquisitionTaxDeductions: [{ builtFrom: '1985', deduction: '4500000' }] }),
+    '不動産取得税の築年控除（新築年月・控除額）を入力してください',
+  )
+  assert.equal(validateCostProfileForm({ ...form, stampDutyBands: [] }), '印紙税の価格帯を1つ以上入力してください')
+
+  // 築年控除と印紙税の表も版ごとに保存する
+  const edited = buildCostProfilePayload({
+    ...form,
+    acquisitionTaxDeductions: [{ builtFrom: '1997-04', deduction: '12000000' }, { builtFrom: '1985-07', deduction: '4600000' }],
+    stampDutyBands: [{ maxPrice: '50000000', amount: '10000' }, { maxPrice: '10000000', amount: '5000' }],
+  }, 4).acquisition_cost_params as Record<string, unknown>
+  assert.deepEqual(edited.acquisitionTaxDeductions, [{ builtFrom: '1985-07', deduction: 4_600_000 }, { builtFrom: '1997-04', deduction: 12_000_000 }])
+  assert.deepEqual(edited.stampDutyBands, [{ maxPrice: 10_000_000, amount: 5_000 }, { maxPrice: 50_000_000, amount: 10_000 }])
+
+  assert.equal(nextCostProfileVersion([profileV1, profileV3]), 4)
+  assert.equal(nextCostProfileVersion([]), 1)
+  assert.deepEqual(buildCostProfilePayload(form, 4, 'user-1'), {
+    version: 4,
+    name: '2026年度',
+    effective_from: '2027-04-01',
+    move_cost_bands: [
+      { minArea: 0, unitCost: 132000, slopePerSqm: 0 },
+      { minArea: 60, unitCost: 132000, slopePerSqm: 400 },
+      { minArea: 80, unitCost: 123000, slopePerSqm: 0 },
+    ],
+    brokerage_rule: DEFAULT_COST_PROFILE.brokerage,
+    other_cost_rate: 0.08,
+    other_cost_mode: 'itemized',
+    acquisition_cost_params: DEFAULT_ACQUISITION_COST_PARAMS,
+    margin_divisor: 1.21,
+    created_by: 'user-1',
+  })
+})
+
+test('stock cost profile fields record the pricing version only for stored profiles', () => {
+  assert.deepEqual(buildStockCostProfileFields(profileV3), { cost_profile_id: 'p3', cost_profile_version: 3 })
+  assert.deepEqual(buildStockCostProfileFields(DEFAULT_COST_PROFILE), { cost_profile_id: null, cost_profile_version: null })
+  assert.equal(formatCostProfileLabel(profileV3), '2026年度改 v3（2026-04-01〜）')
+  assert.equal(formatCostProfileLabel(DEFAULT_COST_PROFILE), '標準（初期値）')
+})
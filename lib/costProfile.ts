@@ -0,0 +1,351 @@
+import {
+  DEFAULT_ACQUISITION_COST_PARAMS,
+  parseAcquisitionCostParams,
+  type AcquisitionCostParams,
+} from './acquisitionCost.ts'
+import { DEFAULT_STATUTORY_BROKERAGE_PARAMS } from './brokerage.ts'
+import { toFloatOrNull, toIntOrNull } from './entryMath.ts'
+
+export type MoveCostBand = {
+  minArea: number
+  unitCost: number
+  slopePerSqm: number
+}
+
+// statutory: 物件価格に対する法定上限（税込） / flat: 募集総額に対する定額・定率
+export type BrokerageMode = 'statutory' | 'flat'
+
+// 仲介手数料を負担する取引（仕入時・売却時）
+export type BrokerageSides = 'buy' | 'sell' | 'both'
+
+export type BrokerageRule = {
+  mode: BrokerageMode
+  sides: BrokerageSides
+  taxRate: number
+  lowPriceLimit: number
+  lowPriceCeiling: number
+  thresholdPrice: number
+  flatFee: number
+  rate: number
+}
+
+// itemized: 登録免許税・不動産取得税などの内訳を積み上げる / flat: 募集総額 × その他費用率
+export type OtherCostMode = 'itemized' | 'flat'
+
+export type AcquisitionScalarKey = Exclude<keyof AcquisitionCostParams, 'acquisitionTaxDeductions' | 'stampDutyBands'>
+
+export type CostProfile = {
+  id: string | null
+  version: number
+  name: string
+  effectiveFrom: string
+  moveCostBands: MoveCostBand[]
+  brokerage: BrokerageRule
+  otherCostRate: number
+  otherCostMode: OtherCostMode
+  acquisitionCost: AcquisitionCostParams
+  marginDivisor: number
+}
+
+export type CostProfileRow = {
+  id: string
+  version: number | null
+  name: string | null
+  effective_from: string | null
+  move_cost_bands: unknown
+  brokerage_rule: unknown
+  other_cost_rate: number | null
+  other_cost_mode?: string | null
+  acquisition_cost_params?: unknown
+  margin_divisor: number | null
+}
+
+export type MoveCostBandForm = {
+  minArea: string
+  unitCost: string
+  slopePerSqm: string
+}
+
+export type AcquisitionTaxDeductionForm = {
+  builtFrom: string
+  deduction: string
+}
+
+export type StampDutyBandForm = {
+  maxPrice: string
+  amount: string
+}
+
+export type CostProfileForm = {
+  name: string
+  effectiveFrom: string
+  moveCostBands: MoveCostBandForm[]
+  brokerageMode: BrokerageMode
+  brokerageSides: BrokerageSides
+  brokerageTaxRate: string
+  brokerageLowPriceLimit: string
+  brokerageLowPriceCeiling: string
+  brokerageThreshold: string
+  brokerageFlatFee: string
+  brokerageRate: string
+  otherCostRate: string
+  otherCostMode: OtherCostMode
+  acquisitionCost: Record<AcquisitionScalarKey, string>
+  acquisitionTaxDeductions: AcquisitionTaxDeductionForm[]
+  stampDutyBands: StampDutyBandForm[]
+  marginDivisor: string
+}
+
+export const DEFAULT_COST_PROFILE: CostProfile = {
+  id: null,
+  version: 0,
+  name: '標準（初期値）',
+  effectiveFrom: '2000-01-01',
+  moveCostBands: [
+    { minArea: 0, unitCost: 132000, slopePerSqm: 0 },
+    { minArea: 60, unitCost: 132000, slopePerSqm: 400 },
+    { minArea: 80, unitCost: 123000, slopePerSqm: 0 },
+  ],
+  brokerage: {
+    mode: 'statutory',
+    sides: 'buy',
+    ...DEFAULT_STATUTORY_BROKERAGE_PARAMS,
+    thresholdPrice: 10_000_000,
+    flatFee: 550_000,
+    rate: 0.055,
+  },
+  otherCostRate: 0.075,
+  otherCostMode: 'itemized',
+  acquisitionCost: DEFAULT_ACQUISITION_COST_PARAMS,
+  marginDivisor: 1.21,
+}
+
+export const BROKERAGE_SIDES_OPTIONS: { value: BrokerageSides; label: string }[] = [
+  { value: 'buy', label: '仕入時のみ' },
+  { value: 'sell', label: '売却時のみ' },
+  { value: 'both', label: '仕入時と売却時' },
+]
+
+export const ACQUISITION_SCALAR_FIELDS: { key: AcquisitionScalarKey; label: string; step: string }[] = [
+  { key: 'assessedValueRatio', label: '固定資産税評価額 ÷ 物件価格', step: '0.01' },
+  { key: 'buildingShare', label: '評価額のうち建物の割合', step: '0.01' },
+  { key: 'registrationLandRate', label: '登録免許税率（土地）', step: '0.001' },
+  { key: 'registrationBuildingRate', label: '登録免許税率（建物）', step: '0.001' },
+  { key: 'acquisitionTaxRate', label: '不動産取得税率', step: '0.001' },
+  { key: 'acquisitionTaxLandBaseRatio', label: '取得税 宅地の課税標準割合', step: '0.01' },
+  { key: 'deductionMinArea', label: '築年控除の下限面積（㎡）', step: '1' },
+  { key: 'deductionMaxArea', label: '築年控除の上限面積（㎡）', step: '1' },
+  { key: 'scrivenerFee', label: '司法書士報酬（円）', step: '1' },
+  { key: 'fireInsurancePerSqm', label: '火災保険（円/㎡）', step: '1' },
+  { key: 'fixedAssetTaxRate', label: '固定資産税・都市計画税率', step: '0.001' },
+]
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function parseMoveCostBands(value: unknown): MoveCostBand[] | null {
+  if (!Array.isArray(value)) return null
+  const bands = value
+    .map((item) => {
+      if (!item || typeof item !== 'object') return null
+      const band = item as Record<string, unknown>
+      if (!isFiniteNumber(band.minArea) || !isFiniteNumber(band.unitCost)) return null
+      return {
+        minArea: band.minArea,
+        unitCost: band.unitCost,
+        slopePerSqm: isFiniteNumber(band.slopePerSqm) ? band.slopePerSqm : 0,
+      }
+    })
+    .filter((band): band is MoveCostBand => band != null)
+  return bands.length > 0 ? sortMoveCostBands(bands) : null
+}
+
+function parseBrokerageRule(value: unknown): BrokerageRule | null {
+  if (!value || typeof value !== 'object') return null
+  const rule = value as Record<string, unknown>
+  const defaults = DEFAULT_COST_PROFILE.brokerage
+  const pick = (key: 'taxRate' | 'lowPriceLimit' | 'lowPriceCeiling' | 'thresholdPrice' | 'flatFee' | 'rate'): number => {
+    const item = rule[key]
+    return isFiniteNumber(item) ? item : defaults[key]
+  }
+  // mode 導入前に保存された版は定額・定率の旧ルール
+  const mode: BrokerageMode = rule.mode === 'statutory' ? 'statutory' : 'flat'
+  if (mode === 'flat' && (!isFiniteNumber(rule.thresholdPrice) || !isFiniteNumber(rule.flatFee) || !isFiniteNumber(rule.rate))) return null
+  return {
+    mode,
+    sides: BROKERAGE_SIDES_OPTIONS.some((option) => option.value === rule.sides) ? rule.sides as BrokerageSides : defaults.sides,
+    taxRate: pick('taxRate'),
+    lowPriceLimit: pick('lowPriceLimit'),
+    lowPriceCeiling: pick('lowPriceCeiling'),
+    thresholdPrice: pick('thresholdPrice'),
+    flatFee: pick('flatFee'),
+    rate: pick('rate'),
+  }
+}
+
+export function sortMoveCostBands(bands: MoveCostBand[]): MoveCostBand[] {
+  return [...bands].sort((a, b) => a.minArea - b.minArea)
+}
+
+export function mapCostProfileRow(row: CostProfileRow): CostProfile {
+  return {
+    id: row.id,
+    version: row.version ?? 0,
+    name: row.name ?? '(名称未設定)',
+    effectiveFrom: row.effective_from ?? DEFAULT_COST_PROFILE.effectiveFrom,
+    moveCostBands: parseMoveCostBands(row.move_cost_bands) ?? DEFAULT_COST_PROFILE.moveCostBands,
+    brokerage: parseBrokerageRule(row.brokerage_rule) ?? DEFAULT_COST_PROFILE.brokerage,
+    otherCostRate: isFiniteNumber(row.other_cost_rate) ? row.other_cost_rate : DEFAULT_COST_PROFILE.otherCostRate,
+    // 内訳積み上げ導入前の版は「募集総額 × その他費用率」のみを保存している
+    otherCostMode: row.other_cost_mode === 'itemized' ? 'itemized' : 'flat',
+    acquisitionCost: parseAcquisitionCostParams(row.acquisition_cost_params) ?? DEFAULT_COST_PROFILE.acquisitionCost,
+    marginDivisor: isFiniteNumber(row.margin_divisor) && row.margin_divisor > 0 ? row.margin_divisor : DEFAULT_COST_PROFILE.marginDivisor,
+  }
+}
+
+// 適用開始日が基準日以前のうち、最も新しい（同日なら版数の大きい）プロファイルを採用する
+export function resolveActiveCostProfile(profiles: CostProfile[], now: Date = new Date()): CostProfile {
+  const today = now.toISOString().slice(0, 10)
+  const candidates = profiles
+    .filter((profile) => profile.effectiveFrom <= today)
+    .sort((a, b) => (a.effectiveFrom === b.effectiveFrom ? b.version - a.version : b.effectiveFrom.localeCompare(a.effectiveFrom)))
+  return candidates[0] ?? DEFAULT_COST_PROFILE
+}
+
+// 在庫が値付けに使った版（cost_profile_id、無ければ版数）を探し、見つからなければ基準日時点の版を使う
+export function resolveStockCostProfile(
+  profiles: CostProfile[],
+  stock: { cost_profile_id?: string | null; cost_profile_version?: number | null },
+  now: Date = new Date(),
+): CostProfile {
+  const byId = stock.cost_profile_id ? profiles.find((profile) => profile.id === stock.cost_profile_id) : undefined
+  if (byId) return byId
+  const byVersion = stock.cost_profile_version != null ? profiles.find((profile) => profile.version === stock.cost_profile_version) : undefined
+  return byVersion ?? resolveActiveCostProfile(profiles, now)
+}
+
+export function nextCostProfileVersion(profiles: CostProfile[]): number {
+  return profiles.reduce((highest, profile) => Math.max(highest, profile.version), 0) + 1
+}
+
+export function formatCostProfileLabel(profile: CostProfile): string {
+  if (profile.id == null) return profile.name
+  return `${profile.name} v${profile.version}（${profile.effectiveFrom}〜）`
+}
+
+export function costProfileToForm(profile: CostProfile): CostProfileForm {
+  return {
+    name: profile.id == null ? '' : profile.name,
+    effectiveFrom: '',
+    moveCostBands: profile.moveCostBands.map((band) => ({
+      minArea: String(band.minArea),
+      unitCost: String(band.unitCost),
+      slopePerSqm: String(band.slopePerSqm),
+    })),
+    brokerageMode: profile.brokerage.mode,
+    brokerageSides: profile.brokerage.sides,
+    brokerageTaxRate: String(profile.brokerage.taxRate),
+    brokerageLowPriceLimit: String(profile.brokerage.lowPriceLimit),
+    brokerageLowPriceCeiling: String(profile.brokerage.lowPriceCeiling),
+    brokerageThreshold: String(profile.brokerage.thresholdPrice),
+    brokerageFlatFee: String(profile.brokerage.flatFee),
+    brokerageRate: String(profile.brokerage.rate),
+    otherCostRate: String(profile.otherCostRate),
+    otherCostMode: profile.otherCostMode,
+    acquisitionCost: Object.fromEntries(
+      ACQUISITION_SCALAR_FIELDS.map(({ key }) => [key, String(profile.acquisitionCost[key])]),
+    ) as Record<AcquisitionScalarKey, string>,
+    acquisitionTaxDeductions: profile.acquisitionCost.acquisitionTaxDeductions.map((item) => ({
+      builtFrom: item.builtFrom,
+      deduction: String(item.deduction),
+    })),
+    stampDutyBands: profile.acquisitionCost.stampDutyBands.map((band) => ({
+      maxPrice: String(band.maxPrice),
+      amount: String(band.amount),
+    })),
+    marginDivisor: String(profile.marginDivisor),
+  }
+}
+
+export function validateCostProfileForm(form: CostProfileForm): string | null {
+  if (!form.name.trim()) return 'プロファイル名を入力してください'
+  if (!form.effectiveFrom) return '適用開始日を入力してください'
+  if (form.moveCostBands.length === 0) return 'リノベ費用の面積帯を1つ以上入力してください'
+  for (const band of form.moveCostBands) {
+    if (toFloatOrNull(band.minArea) == null || toIntOrNull(band.unitCost) == null) {
+      return 'リノベ費用の面積帯（下限面積・㎡単価）を入力してください'
+    }
+  }
+  if (form.brokerageMode === 'statutory') {
+    if (toFloatOrNull(form.brokerageTaxRate) == null || toIntOrNull(form.brokerageLowPriceLimit) == null || toIntOrNull(form.brokerageLowPriceCeiling) == null) {
+      return '仲介手数料の条件（消費税率・低廉な空家等の特例）を入力してください'
+    }
+  } else if (toIntOrNull(form.brokerageThreshold) == null || toIntOrNull(form.brokerageFlatFee) == null || toFloatOrNull(form.brokerageRate) == null) {
+    return '仲介手数料の条件を入力してください'
+  }
+  if (form.otherCostMode === 'flat' && toFloatOrNull(form.otherCostRate) == null) return 'その他費用率を入力してください'
+  if (form.otherCostMode === 'itemized') {
+    const missing = ACQUISITION_SCALAR_FIELDS.find(({ key }) => toFloatOrNull(form.acquisitionCost[key]) == null)
+    if (missing) return `${missing.label}を入力してください`
+    for (const item of form.acquisitionTaxDeductions) {
+      if (!/^\d{4}-\d{2}$/.test(item.builtFrom) || toIntOrNull(item.deduction) == null) {
+        return '不動産取得税の築年控除（新築年月・控除額）を入力してください'
+      }
+    }
+    if (form.stampDutyBands.length === 0) return '印紙税の価格帯を1つ以上入力してください'
+    for (const band of form.stampDutyBands) {
+      if (toIntOrNull(band.maxPrice) == null || toIntOrNull(band.amount) == null) {
+        return '印紙税の価格帯（上限価格・税額）を入力してください'
+      }
+    }
+  }
+  const divisor = toFloatOrNull(form.marginDivisor)
+  if (divisor == null || divisor <= 0) return '利益率の除数は0より大きい値を入力してください'
+  return null
+}
+
+export function buildCostProfilePayload(form: CostProfileForm, version: number, userId?: string | null): Record<string, unknown> {
+  const payload: Record<string, unknown> = {
+    version,
+    name: form.name.trim(),
+    effective_from: form.effectiveFrom,
+    move_cost_bands: sortMoveCostBands(form.moveCostBands.map((band) => ({
+      minArea: toFloatOrNull(band.minArea) ?? 0,
+      unitCost: toIntOrNull(band.unitCost) ?? 0,
+      slopePerSqm: toFloatOrNull(band.slopePerSqm) ?? 0,
+    }))),
+    brokerage_rule: {
+      mode: form.brokerageMode,
+      sides: form.brokerageSides,
+      taxRate: toFloatOrNull(form.brokerageTaxRate) ?? DEFAULT_STATUTORY_BROKERAGE_PARAMS.taxRate,
+      lowPriceLimit: toIntOrNull(form.brokerageLowPriceLimit) ?? 0,
+      lowPriceCeiling: toIntOrNull(form.brokerageLowPriceCeiling) ?? 0,
+      thresholdPrice: toIntOrNull(form.brokerageThreshold) ?? 0,
+      flatFee: toIntOrNull(form.brokerageFlatFee) ?? 0,
+      rate: toFloatOrNull(form.brokerageRate) ?? 0,
+    },
+    other_cost_rate: toFloatOrNull(form.otherCostRate),
+    other_cost_mode: form.otherCostMode,
+    acquisition_cost_params: {
+      ...DEFAULT_ACQUISITION_COST_PARAMS,
+      ...Object.fromEntries(ACQUISITION_SCALAR_FIELDS.map(({ key }) => [key, toFloatOrNull(form.acquisitionCost[key]) ?? DEFAULT_ACQUISITION_COST_PARAMS[key]])),
+      acquisitionTaxDeductions: form.acquisitionTaxDeductions
+        .map((item) => ({ builtFrom: item.builtFrom, deduction: toIntOrNull(item.deduction) ?? 0 }))
+        .sort((a, b) => a.builtFrom.localeCompare(b.builtFrom)),
+      stampDutyBands: form.stampDutyBands
+        .map((band) => ({ maxPrice: toIntOrNull(band.maxPrice) ?? 0, amount: toIntOrNull(band.amount) ?? 0 }))
+        .sort((a, b) => a.maxPrice - b.maxPrice),
+    },
+    margin_divisor: toFloatOrNull(form.marginDivisor),
+  }
+  if (userId) payload.created_by = userId
+  return payload
+}
+
+export function buildStockCostProfileFields(profile: CostProfile): Record<string, unknown> {
+  return {
+    cost_profile_id: profile.id,
+    cost_profile_version: profile.id == null ? null : profile.version,
+  }
+}
@@ -27,7 +27,7 @@ test('buildDetailSummary calculates target pricing and buy target from a detail
     interior: 0.6,
     yearCoef: 0.5,
     coefSum: 1.1,
-    buyTarget: 16962700,
+    buyTarget: 19298522,
   })
 })
 
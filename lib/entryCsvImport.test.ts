@@ -0,0 +1,119 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import {
+  buildEntryCsvPayloads,
+  buildEntryCsvPreview,
+  decodeCsvBytes,
+  guessEntryCsvMapping,
+  parseConditionStatus,
+  parseCsvText,
+  parseEntryCsvPrice,
+  parseJapaneseDate,
+  parseJapaneseNumber,
+} from './entryCsvImport.ts'
+
+test('parseCsvText handles BOM, quoted commas, escaped quotes and CRLF', () => {
+  const text = '\uFEFF成約年月日,成約価格,備考\r\n2024/4/1,"3,280万円","南向き ""角部屋"""\r\n\r\n'
+  assert.deepEqual(parseCsvText(text), [
+    ['成約年月日', '成約価格', '備考'],
+    ['2024/4/1', '3,280万円', '南向き "角部屋"'],
+  ])
+  assert.equal(decodeCsvBytes(new TextEncoder().encode('階数,面積').buffer), '階数,面積')
+})
+
+test('Japanese dates, numbers and condition labels are normalized', () => {
+  assert.equal(parseJapaneseDate('2024/4/1'), '2024-04-01')
+  assert.equal(parseJapaneseDate('２０２４年４月１日'), '2024-04-01')
+  assert.equal(parseJapaneseDate('令和6年4月1日'), '2024-04-01')
+  assert.equal(parseJapaneseDate('H31.4.30'), '2019-04-30')
+  assert.equal(parseJapaneseDate('令和元年5月1日'), '2019-05-01')
+  assert.equal(parseJapaneseDate('20240401'), '2024-04-01')
+  assert.equal(parseJapaneseDate('2024/2/30'), null)
+
+  assert.equal(parseJapaneseNumber('65.5㎡'), 65.5)
+  assert.equal(parseJapaneseNumber('３階'), 3)
+  assert.equal(parseJapaneseNumber('1億2,000万'), 120_000_000)
+  assert.equal(parseEntryCsvPrice('3,280万円'), 32_800_000)
+  assert.equal(parseEntryCsvPrice('1280'), 12_800_000)
+  assert.equal(parseEntryCsvPrice('32,800,000'), 32_800_000)
+  assert.equal(parseEntryCsvPrice('未定'), null)
+
+  assert.equal(parseConditionStatus('一部リフォーム'), 'PARTIAL_REFORM')
+  assert.equal(parseConditionStatus('リノベーション済（断熱改修）'), 'FULL_RENO_INSULATED')
+  assert.equal(parseConditionStatus('その他'), null)
+})
+
+test('buildEntryCsvPreview validates rows, flags duplicates and builds insert payloads', () => {
+  const [headers, ...rows] = parseCsvText([
+    '物件番号,成約年月日,登録年月日,所在階,バルコニー面積,専有面積,成約価格(万円),間取,現況',
+    '1,2024/4/1,2024/2/1,3,8,65.5,"1,280",3ldk,居住中',
+    '2,2024/4/1,2024/2/1,3,8,65.5,"1,280",3LDK,居住中',
+    '3,2024/5/10,2024/3/1,2,8,60,1100,3DK,空室',
+    '4,不明,2024/3/1,2.5,8,abc,1000,2DK,その他',
+  ].join('\n'))
+  const mapping = guessEntryCsvMapping(headers)
+  assert.deepEqual(mapping, {
+    contract_date: 1,
+    reins_registered_date: 2,
+    floor: 3,
+    area_sqm: 5,
+    contract_price: 6,
+    layout: 7,
+    condition_status: 8,
+  })
+
+  const preview = buildEntryCsvPreview({
+    rows,
+    mapping,
+    existing: [{ contract_date: '2024-05-10', floor: 2, area_sqm: 60, contract_price: null, max_price: 11_000_000 }],
+  })
+  assert.deepEqual(preview.map((row) => [row.line, row.duplicate, row.errors.length]), [
+    [2, null, 0],
+    [3, 'file', 0],
+    [4, 'existing', 0],
+    [5, null, 3],
+  ])
+  assert.deepEqual(preview[0].row, {
+    contract_kind: null,
+    has_elevator: null,
+    built_month: null,
+    building_no: null,
+    floor: 3,
+    contract_price: 12_800_000,
+    area_sqm: 65.5,
+    unit_price: 195419.85,
+    reins_registered_date: '2024-02-01',
+    contract_date: '2024-04-01',
+    condition_status: 'OWNER_OCCUPIED',
+    max_price: null,
+    past_min: null,
+  })
+  assert.equal(preview[0].layout, '3LDK')
+  assert.match(preview[3].warnings.join(' '), /状態「その他」/)
+
+  const payloads = buildEntryCsvPayloads(preview, { id: 'c1', name: '団地A' }, 'u1')
+  assert.equal(payloads.length, 1)
+  assert.equal(payloads[0].complex_id, 'c1')
+  assert.equal(payloads[0].estate_name, '団地A')
+  assert.equal(payloads[0].created_by, 'u1')
+  assert.deepEqual(Object.keys(payloads[0]).sort(), [
+    'area_sqm',
+    'building_no',
+    'built_month',
+    'complex_id',
+    'condition_status',
+    'contract_date',
+    'contract_kind',
+    'contract_price',
+    'created_by',
+    'estate_name',
+    'floor',
+    'has_elevator',
+    'max_price',
+    'past_min',
+    'reins_registered_date',
+    'unit_price',
+  ])
+  assert.equal(payloads[0].contract_price, 12_800_000)
+})
@@ -0,0 +1,301 @@
+import { applyDraftToRow, type EntryDraft, type EntryDraftRow } from './entryDrafts.ts'
+import { effectivePrice, toFloatOrNull, toIntOrNull, type EffectivePriceLike } from './entryMath.ts'
+import { CONDITION_STATUS_OPTIONS, type ConditionStatus } from './referenceValue.ts'
+
+export type EntryCsvField =
+  | 'contract_date'
+  | 'reins_registered_date'
+  | 'floor'
+  | 'area_sqm'
+  | 'contract_price'
+  | 'layout'
+  | 'condition_status'
+
+// CSV の列番号（0始まり）。null は取り込まない列
+export type EntryCsvMapping = Record<EntryCsvField, number | null>
+
+export type EntryCsvDuplicate = 'file' | 'existing'
+
+// layout は確認用の表示のみ（estate_entries に間取りの列はない）
+export type EntryCsvPreviewRow = {
+  line: number
+  row: EntryDraftRow
+  layout: string | null
+  errors: string[]
+  warnings: string[]
+  duplicate: EntryCsvDuplicate | null
+}
+
+export type EntryCsvExistingRow = EffectivePriceLike & {
+  floor: number | null
+  area_sqm: number | null
+  contract_date: string | null
+}
+
+export const ENTRY_CSV_FIELDS: { key: EntryCsvField; label: string; aliases: string[] }[] = [
+  { key: 'contract_date', label: '成約年月日', aliases: ['成約年月日', '成約日', '成約年月'] },
+  { key: 'reins_registered_date', label: 'レインズ登録年月日', aliases: ['登録年月日', '登録日', '売出年月日', '公開日'] },
+  { key: 'floor', label: '階数', aliases: ['所在階', '階数', '階'] },
+  { key: 'area_sqm', label: '㎡数', aliases: ['専有面積', '面積', '㎡', 'm2'] },
+  { key: 'contract_price', label: '成約価格', aliases: ['成約価格', '価格'] },
+  { key: 'layout', label: '間取り', aliases: ['間取り', '間取'] },
+  { key: 'condition_status', label: '状態', aliases: ['状態', '現況', 'リフォーム'] },
+]
+
+export const ENTRY_CSV_DUPLICATE_LABELS: Record<EntryCsvDuplicate, string> = {
+  file: 'CSV内で重複',
+  existing: '登録済みと重複',
+}
+
+const EMPTY_ENTRY_ROW: EntryDraftRow = {
+  contract_kind: null,
+  has_elevator: null,
+  built_month: null,
+  building_no: null,
+  floor: null,
+  contract_price: null,
+  area_sqm: null,
+  reins_registered_date: null,
+  contract_date: null,
+  condition_status: null,
+  max_price: null,
+  past_min: null,
+  unit_price: null,
+}
+
+const ERA_BASE_YEARS: Record<string, number> = {
+  令和: 2018,
+  R: 2018,
+  平成: 1988,
+  H: 1988,
+  昭和: 1925,
+  S: 1925,
+}
+
+// 状態の表記ゆれ。先に当たったものを採用する
+const CONDITION_KEYWORDS: { pattern: RegExp; value: ConditionStatus }[] = [
+  { pattern: /リノベ.*断熱|断熱.*リノベ/, value: 'FULL_RENO_INSULATED' },
+  { pattern: /リノベ/, value: 'FULL_RENO_HIGH_DESIGN' },
+  { pattern: /フルリフォーム|全面リフォーム|全面改装/, value: 'FULL_REFORM_ALL_EQUIP' },
+  { pattern: /リフォーム|改装/, value: 'PARTIAL_REFORM' },
+  { pattern: /居住中|空家|空室/, value: 'OWNER_OCCUPIED' },
+  { pattern: /要改修|改修必要|現状/, value: 'NEEDS_RENOVATION' },
+  { pattern: /収益|賃貸中|オーナーチェンジ/, value: 'INVESTMENT_PROPERTY' },
+]
+
+// 円単位の住宅価格が10万円未満になることはないので、小さい値は万円単位とみなす
+const MAN_YEN_THRESHOLD = 100_000
+
+// 全角英数字・記号を半角に寄せる
+function normalizeCell(value: string | undefined): string {
+  return (value ?? '').normalize('NFKC').trim()
+}
+
+export function decodeCsvBytes(bytes: ArrayBuffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    // REINS からのダウンロードは Shift_JIS のことが多い
+    return new TextDecoder('shift_jis').decode(bytes)
+  }
+}
+
+export function parseCsvText(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  const source = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < source.length; i += 1) {
+    const ch = source[i]
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') { cell += '"'; i += 1 }
+      else if (ch === '"') quoted = false
+      else cell += ch
+      continue
+    }
+    if (ch === '"') quoted = true
+    else if (ch === ',') { row.push(cell); cell = '' }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i += 1
+      row.push(cell); rows.push(row)
+      row = []; cell = ''
+    } else cell += ch
+  }
+  row.push(cell); rows.push(row)
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''))
+}
+
+export function guessEntryCsvMapping(headers: string[]): EntryCsvMapping {
+  const normalized = headers.map((header) => normalizeCell(header).replace(/\s/g, ''))
+  const used = new Set<number>()
+  const mapping = {} as EntryCsvMapping
+  for (const field of ENTRY_CSV_FIELDS) {
+    // 別名は優先順に探す（「専有面積」を「バルコニー面積」より先に当てる）
+    let index = -1
+    for (const alias of field.aliases.map((item) => item.normalize('NFKC'))) {
+      index = normalized.findIndex((header, i) => !used.has(i) && header.includes(alias))
+      if (index >= 0) break
+    }
+    mapping[field.key] = index >= 0 ? index : null
+    if (index >= 0) used.add(index)
+  }
+  return mapping
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+// 2024/4/1・2024年4月1日・20240401・令和6年4月1日・R6.4.1 を YYYY-MM-DD にする
+export function parseJapaneseDate(value: string): string | null {
+  const text = normalizeCell(value).replace(/\s/g, '')
+  if (!text) return null
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})$/)
+  if (compact) return toIsoDate(Number(compact[1]), Number(compact[2]), Number(compact[3]))
+  const western = text.match(/^(\d{4})[/\-.年](\d{1,2})[/\-.月](\d{1,2})日?$/)
+  if (western) return toIsoDate(Number(western[1]), Number(western[2]), Number(western[3]))
+  const era = text.match(/^(令和|平成|昭和|[RHS])(\d{1,2}|元)[/\-.年](\d{1,2})[/\-.月](\d{1,2})日?$/i)
+  if (era) {
+    const base = ERA_BASE_YEARS[era[1].toUpperCase()]
+    const year = era[2] === '元' ? 1 : Number(era[2])
+    return toIsoDate(base + year, Number(era[3]), Number(era[4]))
+  }
+  return null
+}
+
+// 3,280万円・1億2,000万・65.5㎡・3階 などを数値にする
+export function parseJapaneseNumber(value: string): number | null {
+  const text = normalizeCell(value).replace(/[,\s]/g, '').replace(/(円|m2|平米|階|F)$/i, '')
+  if (!text) return null
+  const units = text.match(/^(?:(\d+(?:\.\d+)?)億)?(?:(\d+(?:\.\d+)?)万)?(\d+(?:\.\d+)?)?$/)
+  if (!units || (!units[1] && !units[2] && !units[3])) return null
+  if (!units[1] && !units[2]) return Number(units[3])
+  return Math.round(Number(units[1] ?? 0) * 100_000_000 + Number(units[2] ?? 0) * 10_000 + Number(units[3] ?? 0))
+}
+
+export function parseEntryCsvPrice(value: string): number | null {
+  const parsed = parseJapaneseNumber(value)
+  if (parsed == null) return null
+  return parsed < MAN_YEN_THRESHOLD ? Math.round(parsed * 10_000) : Math.round(parsed)
+}
+
+export function parseConditionStatus(value: string): ConditionStatus | null {
+  const text = normalizeCell(value)
+  if (!text) return null
+  const exact = CONDITION_STATUS_OPTIONS.find((option) => option.value === text || option.label.normalize('NFKC') === text)
+  if (exact) return exact.value
+  return CONDITION_KEYWORDS.find((keyword) => keyword.pattern.test(text))?.value ?? null
+}
+
+function buildDuplicateKey(row: EntryCsvExistingRow): string | null {
+  const price = effectivePrice(row)
+  if (!row.contract_date || price == null) return null
+  const area = typeof row.area_sqm === 'number' ? row.area_sqm.toFixed(2) : ''
+  return [row.contract_date.slice(0, 10), row.floor ?? '', area, price].join('|')
+}
+
+// CSV の各行を画面入力と同じ EntryDraft に直し、applyDraftToRow と同じ規則で検証する
+export function buildEntryCsvPreview(params: {
+  rows: string[][]
+  mapping: EntryCsvMapping
+  existing: EntryCsvExistingRow[]
+  firstLine?: number
+}): EntryCsvPreviewRow[] {
+  const { rows, mapping, existing, firstLine = 2 } = params
+  const existingKeys = new Set(existing.map(buildDuplicateKey).filter((key): key is string => key != null))
+  const fileKeys = new Set<string>()
+
+  return rows.map((cells, index) => {
+    const cell = (field: EntryCsvField) => {
+      const column = mapping[field]
+      return column == null ? '' : normalizeCell(cells[column])
+    }
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    const contractDate = parseJapaneseDate(cell('contract_date'))
+    if (cell('contract_date') && !contractDate) errors.push(`成約年月日を読み取れません（${cell('contract_date')}）`)
+    const reinsDate = parseJapaneseDate(cell('reins_registered_date'))
+    if (cell('reins_registered_date') && !reinsDate) errors.push(`登録年月日を読み取れません（${cell('reins_registered_date')}）`)
+    const floor = parseJapaneseNumber(cell('floor'))
+    if (cell('floor') && (floor == null || !Number.isInteger(floor))) errors.push(`階数を読み取れません（${cell('floor')}）`)
+    const area = parseJapaneseNumber(cell('area_sqm'))
+    if (cell('area_sqm') && (area == null || area <= 0)) errors.push(`㎡数を読み取れません（${cell('area_sqm')}）`)
+    const price = parseEntryCsvPrice(cell('contract_price'))
+    if (cell('contract_price') && price == null) errors.push(`成約価格を読み取れません（${cell('contract_price')}）`)
+    const condition = parseConditionStatus(cell('condition_status'))
+    if (cell('condition_status') && !condition) warnings.push(`状態「${cell('condition_status')}」は対応する区分がないため空欄にします`)
+
+    const draft: EntryDraft = {
+      contract_kind: '',
+      has_elevator: 'スキップ',
+      built_month: '',
+      building_no: '',
+      floor: floor != null ? String(floor) : '',
+      contract_price: price != null ? String(price) : '',
+      area_sqm: area != null ? String(area) : '',
+      reins_registered_date: reinsDate ?? '',
+      contract_date: contractDate ?? '',
+      condition_status: condition ?? '',
+    }
+    if (draft.area_sqm && toFloatOrNull(draft.area_sqm) == null) errors.push('㎡数は数値で入力してください')
+    if (draft.contract_price && toIntOrNull(draft.contract_price) == null) errors.push('成約価格は整数で入力してください')
+    const row = applyDraftToRow(EMPTY_ENTRY_ROW, draft)
+
+    if (!row.contract_date) warnings.push('成約年月日がありません')
+    if (row.contract_price == null) warnings.push('成約価格がありません')
+    if (row.area_sqm == null) warnings.push('㎡数がありません')
+    if (row.reins_registered_date && row.contract_date && row.reins_registered_date > row.contract_date) {
+      warnings.push('登録年月日が成約年月日より後になっています')
+    }
+
+    const key = errors.length === 0 ? buildDuplicateKey(row) : null
+    let duplicate: EntryCsvDuplicate | null = null
+    if (key && existingKeys.has(key)) duplicate = 'existing'
+    else if (key && fileKeys.has(key)) duplicate = 'file'
+    if (key) fileKeys.add(key)
+
+    const layout = cell('layout')
+    return {
+      line: firstLine + index,
+      row,
+      layout: layout ? layout.toUpperCase() : null,
+      errors,
+      warnings,
+      duplicate,
+    }
+  })
+}
+
+export function isEntryCsvRowImportable(row: EntryCsvPreviewRow): boolean {
+  return row.errors.length === 0 && row.duplicate == null
+}
+
+export function buildEntryCsvPayloads(
+  rows: EntryCsvPreviewRow[],
+  complex: { id: string; name: string },
+  userId: string,
+): Record<string, unknown>[] {
+  return rows.filter(isEntryCsvRowImportable).map(({ row }) => ({
+    created_by: userId,
+    estate_name: complex.name,
+    complex_id: complex.id,
+    has_elevator: row.has_elevator,
+    built_month: row.built_month,
+    building_no: row.building_no,
+    floor: row.floor,
+    contract_price: row.contract_price,
+    max_price: row.max_price,
+    past_min: row.past_min,
+    area_sqm: row.area_sqm,
+    unit_price: row.unit_price,
+    reins_registered_date: row.reins_registered_date,
+    contract_date: row.contract_date,
+    condition_status: row.condition_status,
+    contract_kind: row.contract_kind,
+  }))
+}
@@ -0,0 +1,86 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import {
+  buildDefaultMergeChoice,
+  buildEntryMergePayloads,
+  findEntryDuplicatePairs,
+  hasMergedKindConflict,
+  type EntryDuplicateRow,
+} from './entryDuplicates.ts'
+
+function row(overrides: Partial<EntryDuplicateRow> & { id: string }): EntryDuplicateRow {
+  return {
+    contract_kind: null,
+    floor: 3,
+    area_sqm: 52.3,
+    contract_price: 9_800_000,
+    unit_price: null,
+    max_price: null,
+    past_min: null,
+    built_month: null,
+    building_no: null,
+    condition_status: null,
+    has_elevator: null,
+    reins_registered_date: null,
+    contract_date: '2024-02-10',
+    mysoku_pdf_path: null,
+    source: null,
+    created_at: '2024-03-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+test('findEntryDuplicatePairs matches floor and area with fuzzy price and date', () => {
+  const reins = row({ id: 'reins', building_no: 5, condition_status: 'PARTIAL_REFORM', reins_registered_date: '2023-12-01' })
+  const broker = row({ id: 'broker', area_sqm: 52.0, contract_price: 9_900_000, contract_date: '2024-02-20', mysoku_pdf_path: 'u/mysoku/a.pdf', created_at: '2024-02-25T00:00:00Z' })
+  const otherFloor = row({ id: 'floor', floor: 4 })
+  const farDate = row({ id: 'far', contract_date: '2024-05-10' })
+  const farPrice = row({ id: 'price', contract_price: 11_000_000 })
+
+  const pairs = findEntryDuplicatePairs([reins, broker, otherFloor, farDate, farPrice])
+  assert.equal(pairs.length, 1)
+  assert.equal(pairs[0].keep.id, 'reins')
+  assert.equal(pairs[0].drop.id, 'broker')
+  assert.equal(pairs[0].dateDiffDays, 10)
+
+  // 比較できる日付が無い組は候補にしない
+  assert.deepEqual(findEntryDuplicatePairs([row({ id: 'a' }), row({ id: 'b', contract_date: null, reins_registered_date: '2024-01-01' })]), [])
+  // 入力項目が同数なら先に登録された方を残す
+  const [sameCount] = findEntryDuplicatePairs([row({ id: 'new', created_at: '2024-04-01T00:00:00Z' }), row({ id: 'old', created_at: '2024-01-01T00:00:00Z' })])
+  assert.equal(sameCount.keep.id, 'old')
+})
+
+test('buildEntryMergePayloads keeps chosen values and points the loser at the surviving row', () => {
+  const keep = row({ id: 'keep', contract_kind: 'MINI', contract_price: null, past_min: 9_800_000, building_no: 5 })
+  const drop = row({ id: 'drop', contract_price: 9_900_000, mysoku_pdf_path: 'u/mysoku/a.pdf', reins_registered_date: '2023-12-01' })
+  const choice = buildDefaultMergeChoice(keep, drop)
+  assert.equal(choice.mysoku_pdf_path, 'drop')
+  assert.equal(choice.reins_registered_date, 'drop')
+  assert.equal(choice.contract_price, 'keep')
+  assert.equal(choice.building_no, 'keep')
+
+  const { keepPayload, dropPayload } = buildEntryMergePayloads({
+    keep,
+    drop,
+    choice: { ...choice, contract_price: 'drop' },
+    userId: 'user-1',
+    now: new Date('2024-06-01T00:00:00.000Z'),
+  })
+  assert.equal(keepPayload.contract_price, 9_900_000)
+  assert.equal(keepPayload.past_min, 9_900_000)
+  assert.equal(keepPayload.max_price, null)
+  assert.equal(keepPayload.unit_price, Math.round((9_900_000 / 52.3) * 100) / 100)
+  assert.equal(keepPayload.mysoku_pdf_path, 'u/mysoku/a.pdf')
+  assert.equal(keepPayload.reins_registered_date, '2023-12-01')
+  assert.equal(keepPayload.building_no, 5)
+  assert.deepEqual(dropPayload, {
+    deleted_at: '2024-06-01T00:00:00.000Z',
+    deleted_by: 'user-1',
+    merged_into_id: 'keep',
+  })
+
+  const other = row({ id: 'other', contract_kind: 'MAX' })
+  assert.equal(hasMergedKindConflict([keep, drop, other], keep, drop, 'MAX'), true)
+  assert.equal(hasMergedKindConflict([keep, drop, other], keep, drop, 'MINI'), false)
+})
@@ -0,0 +1,178 @@
+import { buildSoftDeletePayload } from './deletePayload.ts'
+import { buildLabelSpecificResetPayload, type EntryContractKind } from './entryDrafts.ts'
+import { calcUnitPrice, diffDays, effectivePrice } from './entryMath.ts'
+
+// 同じ取引を REINS と業者資料から二重に登録したものを拾う許容幅
+export const ENTRY_DUPLICATE_AREA_TOLERANCE = 0.5
+export const ENTRY_DUPLICATE_PRICE_TOLERANCE = 0.03
+export const ENTRY_DUPLICATE_DATE_TOLERANCE_DAYS = 31
+
+export type EntryDuplicateRow = {
+  id: string
+  contract_kind: EntryContractKind
+  floor: number | null
+  area_sqm: number | null
+  contract_price: number | null
+  unit_price: number | null
+  max_price: number | null
+  past_min: number | null
+  built_month: string | null
+  building_no: number | null
+  condition_status: string | null
+  has_elevator: boolean | null
+  reins_registered_date: string | null
+  contract_date: string | null
+  mysoku_pdf_path: string | null
+  source?: string | null
+  created_at: string
+}
+
+// keep は残す側の候補（入力項目が多い方、同数なら先に登録された方）
+export type EntryDuplicatePair = {
+  keep: EntryDuplicateRow
+  drop: EntryDuplicateRow
+  dateDiffDays: number
+  priceDiffRatio: number | null
+}
+
+export type EntryMergeField =
+  | 'contract_kind'
+  | 'has_elevator'
+  | 'built_month'
+  | 'building_no'
+  | 'floor'
+  | 'area_sqm'
+  | 'contract_price'
+  | 'reins_registered_date'
+  | 'contract_date'
+  | 'condition_status'
+  | 'mysoku_pdf_path'
+
+export type EntryMergeSide = 'keep' | 'drop'
+export type EntryMergeChoice = Record<EntryMergeField, EntryMergeSide>
+
+export const ENTRY_MERGE_FIELDS: { key: EntryMergeField; label: string }[] = [
+  { key: 'contract_kind', label: 'ラベル' },
+  { key: 'has_elevator', label: 'エレベーター' },
+  { key: 'built_month', label: '築年月' },
+  { key: 'building_no', label: '棟番号' },
+  { key: 'floor', label: '階数' },
+  { key: 'area_sqm', label: '㎡数' },
+  { key: 'contract_price', label: '成約価格' },
+  { key: 'reins_registered_date', label: 'レインズ登録年月日' },
+  { key: 'contract_date', label: 'レインズ成約年月日' },
+  { key: 'condition_status', label: '状態' },
+  { key: 'mysoku_pdf_path', label: 'マイソクPDF' },
+]
+
+export function readEntryMergeValue(row: EntryDuplicateRow, field: EntryMergeField): string | number | boolean | null {
+  if (field === 'contract_price') return effectivePrice(row)
+  return row[field] ?? null
+}
+
+function countFilledFields(row: EntryDuplicateRow): number {
+  return ENTRY_MERGE_FIELDS.filter((field) => readEntryMergeValue(row, field.key) != null).length
+}
+
+function compareDates(a: EntryDuplicateRow, b: EntryDuplicateRow): number | null {
+  const contract = diffDays(a.contract_date, b.contract_date)
+  if (contract != null) return Math.abs(contract)
+  const reins = diffDays(a.reins_registered_date, b.reins_registered_date)
+  return reins != null ? Math.abs(reins) : null
+}
+
+// 階・㎡数が一致し、成約日（無ければ登録日）と価格が近い2件を重複候補とする。価格が片方にしか無い場合は日付だけで判定する
+export function matchEntryDuplicate(a: EntryDuplicateRow, b: EntryDuplicateRow): { dateDiffDays: number; priceDiffRatio: number | null } | null {
+  if (a.floor == null || a.floor !== b.floor) return null
+  if (a.area_sqm == null || b.area_sqm == null) return null
+  if (Math.abs(a.area_sqm - b.area_sqm) > ENTRY_DUPLICATE_AREA_TOLERANCE) return null
+  const dateDiffDays = compareDates(a, b)
+  if (dateDiffDays == null || dateDiffDays > ENTRY_DUPLICATE_DATE_TOLERANCE_DAYS) return null
+  const priceA = effectivePrice(a)
+  const priceB = effectivePrice(b)
+  let priceDiffRatio: number | null = null
+  if (priceA != null && priceB != null) {
+    priceDiffRatio = Math.abs(priceA - priceB) / Math.max(priceA, priceB)
+    if (priceDiffRatio > ENTRY_DUPLICATE_PRICE_TOLERANCE) return null
+  }
+  return { dateDiffDays, priceDiffRatio }
+}
+
+export function findEntryDuplicatePairs(rows: EntryDuplicateRow[]): EntryDuplicatePair[] {
+  const pairs: EntryDuplicatePair[] = []
+  for (let i = 0; i < rows.length; i += 1) {
+    for (let j = i + 1; j < rows.length; j += 1) {
+      const match = matchEntryDuplicate(rows[i], rows[j])
+      if (!match) continue
+      const [keep, drop] = orderMergePair(rows[i], rows[j])
+      pairs.push({ keep, drop, ...match })
+    }
+  }
+  return pairs.sort((a, b) => a.dateDiffDays - b.dateDiffDays || (a.priceDiffRatio ?? 0) - (b.priceDiffRatio ?? 0))
+}
+
+export function orderMergePair(a: EntryDuplicateRow, b: EntryDuplicateRow): [EntryDuplicateRow, EntryDuplicateRow] {
+  const filled = countFilledFields(b) - countFilledFields(a)
+  if (filled !== 0) return filled > 0 ? [b, a] : [a, b]
+  return a.created_at <= b.created_at ? [a, b] : [b, a]
+}
+
+// 残す側が空欄の項目だけ統合される側の値を使う
+export function buildDefaultMergeChoice(keep: EntryDuplicateRow, drop: EntryDuplicateRow): EntryMergeChoice {
+  return Object.fromEntries(
+    ENTRY_MERGE_FIELDS.map(({ key }) => [
+      key,
+      readEntryMergeValue(keep, key) == null && readEntryMergeValue(drop, key) != null ? 'drop' : 'keep',
+    ]),
+  ) as EntryMergeChoice
+}
+
+// 残す行の更新内容と、統合される行の論理削除（merged_into_id で残す行を指す）を作る
+export function buildEntryMergePayloads(params: {
+  keep: EntryDuplicateRow
+  drop: EntryDuplicateRow
+  choice: EntryMergeChoice
+  userId?: string | null
+  now?: Date
+}): { keepPayload: Record<string, unknown>; dropPayload: Record<string, unknown> } {
+  const { keep, drop, choice, userId, now = new Date() } = params
+  const pick = (field: EntryMergeField) => readEntryMergeValue(choice[field] === 'drop' ? drop : keep, field)
+  const kind = pick('contract_kind') as EntryContractKind
+  const price = pick('contract_price') as number | null
+  const area = pick('area_sqm') as number | null
+
+  return {
+    keepPayload: {
+      contract_kind: kind,
+      has_elevator: pick('has_elevator'),
+      built_month: pick('built_month'),
+      building_no: pick('building_no'),
+      floor: pick('floor'),
+      area_sqm: area,
+      contract_price: price,
+      max_price: kind === 'MAX' ? price : null,
+      past_min: kind === 'MINI' ? price : null,
+      unit_price: calcUnitPrice(price, area),
+      reins_registered_date: pick('reins_registered_date'),
+      contract_date: pick('contract_date'),
+      condition_status: pick('condition_status'),
+      mysoku_pdf_path: pick('mysoku_pdf_path'),
+      ...buildLabelSpecificResetPayload(keep.contract_kind, kind ?? ''),
+    },
+    dropPayload: {
+      ...buildSoftDeletePayload(userId, now),
+      merged_into_id: keep.id,
+    },
+  }
+}
+
+// 統合後のラベルが、この2件以外の行と重ならないかを確認する
+export function hasMergedKindConflict(
+  rows: EntryDuplicateRow[],
+  keep: EntryDuplicateRow,
+  drop: EntryDuplicateRow,
+  kind: EntryContractKind,
+): boolean {
+  if (!kind) return false
+  return rows.some((row) => row.id !== keep.id && row.id !== drop.id && row.contract_kind === kind)
+}
@@ -0,0 +1,45 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { suggestFloorPattern } from './floorPatternSuggestion.ts'
+import type { ReferenceValueEntry } from './referenceValue.ts'
+
+function entry(floor: number, unitPrice: number, condition: ReferenceValueEntry['condition_status'] = 'FULL_REFORM_ALL_EQUIP'): ReferenceValueEntry {
+  return { condition_status: condition, floor, unit_price: unitPrice, contract_price: null, area_sqm: null }
+}
+
+test('suggestFloorPattern fits the mean matrix and picks the closest preset', () => {
+  const rows = [
+    entry(1, 500000), entry(1, 500000),
+    entry(2, 490000),
+    entry(3, 475000), entry(3, 475000),
+    entry(4, 450000),
+    entry(5, 425000),
+    entry(1, 300000, 'OWNER_OCCUPIED'),
+    entry(3, 285000, 'OWNER_OCCUPIED'),
+  ]
+  const suggestion = suggestFloorPattern({ rows, maxFloor: 5 })
+  assert.ok(suggestion)
+  assert.equal(suggestion.closestPreset?.pattern, '①保守的')
+  assert.equal(suggestion.recommendCustom, false)
+  assert.deepEqual(suggestion.points.map((point) => point.sampleCount), [3, 1, 3, 1, 1])
+  assert.deepEqual(suggestion.points.map((point) => point.observedCoef), [1, 0.98, 0.95, 0.9, 0.85])
+  assert.equal(suggestion.coefs[0], 1)
+  assert.equal(suggestion.totalSamples, 9)
+})
+
+test('suggestFloorPattern recommends a custom pattern when no preset fits', () => {
+  const rows = [entry(1, 400000), entry(2, 420000), entry(3, 440000)]
+  const suggestion = suggestFloorPattern({ rows, maxFloor: 6 })
+  assert.ok(suggestion)
+  assert.equal(suggestion.recommendCustom, true)
+  assert.equal(suggestion.coefs.length, 6)
+  assert.deepEqual(suggestion.coefs.slice(0, 3), [1, 1.05, 1.1])
+  assert.equal(suggestion.points[5]?.sampleCount, 0)
+  assert.equal(suggestion.points[5]?.observedCoef, null)
+})
+
+test('suggestFloorPattern needs samples above the first floor', () => {
+  assert.equal(suggestFloorPattern({ rows: [entry(1, 400000)], maxFloor: 5 }), null)
+  assert.equal(suggestFloorPattern({ rows: [], maxFloor: null }), null)
+})
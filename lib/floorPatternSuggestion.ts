@@ -0,0 +1,126 @@
+import { fitFloorCoefs } from './floorPatterns.ts'
+import {
+  buildReferenceValueTables,
+  REFERENCE_VALUE_MATRIX_COLUMNS,
+  type ReferenceValueEntry,
+} from './referenceValue.ts'
+import { FLOOR_COEFS, type FloorPattern } from './stockPricing.ts'
+
+export type FloorCurvePoint = {
+  floor: number
+  observedCoef: number | null
+  fittedCoef: number
+  sampleCount: number
+}
+
+export type FloorPatternPresetDistance = {
+  pattern: FloorPattern
+  rmse: number
+}
+
+export type FloorPatternSuggestion = {
+  points: FloorCurvePoint[]
+  coefs: number[]
+  presets: FloorPatternPresetDistance[]
+  closestPreset: FloorPatternPresetDistance | null
+  recommendCustom: boolean
+  totalSamples: number
+}
+
+// 最も近い標準パターンとの誤差がこれを超えたらカスタムパターンを勧める
+export const CUSTOM_PATTERN_RMSE_THRESHOLD = 0.02
+
+function roundCoef(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// 2x2 の正規方程式を解く（退化時は null）
+function solve2x2(a11: number, a12: number, a22: number, b1: number, b2: number): [number, number] | null {
+  const det = a11 * a22 - a12 * a12
+  if (Math.abs(det) < 1e-12) return null
+  return [(b1 * a22 - b2 * a12) / det, (a11 * b2 - a12 * b1) / det]
+}
+
+// 1階=1 を通る曲線 coef = 1 + a·(f-1) + b·(f-1)^2 を件数で重み付けして当てはめる
+function fitFloorCurve(points: { floor: number; coef: number; weight: number }[]): (floor: number) => number {
+  const upper = points.filter((point) => point.floor > 1)
+  if (upper.length === 0) return () => 1
+
+  let sxx = 0; let sxx2 = 0; let sx2x2 = 0; let sxy = 0; let sx2y = 0
+  for (const point of upper) {
+    const x = point.floor - 1
+    const x2 = x * x
+    const y = point.coef - 1
+    sxx += point.weight * x * x
+    sxx2 += point.weight * x * x2
+    sx2x2 += point.weight * x2 * x2
+    sxy += point.weight * x * y
+    sx2y += point.weight * x2 * y
+  }
+
+  const quadratic = new Set(upper.map((point) => point.floor)).size >= 2 ? solve2x2(sxx, sxx2, sx2x2, sxy, sx2y) : null
+  if (quadratic) {
+    const [a, b] = quadratic
+    return (floor) => 1 + a * (floor - 1) + b * (floor - 1) ** 2
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0
+  return (floor) => 1 + slope * (floor - 1)
+}
+
+function calcRmse(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length)
+  if (length === 0) return 0
+  let sum = 0
+  for (let i = 0; i < length; i += 1) sum += (a[i] - b[i]) ** 2
+  return Math.sqrt(sum / length)
+}
+
+export function suggestFloorPattern(params: {
+  rows: ReferenceValueEntry[]
+  maxFloor: number | null
+}): FloorPatternSuggestion | null {
+  const { meanRows } = buildReferenceValueTables(params)
+
+  const observed = meanRows.map((row) => {
+    let weighted = 0
+    let sampleCount = 0
+    for (const column of REFERENCE_VALUE_MATRIX_COLUMNS) {
+      const { coef, count } = row.values[column.key]
+      if (coef == null || count === 0) continue
+      weighted += coef * count
+      sampleCount += count
+    }
+    return { floor: row.floor, coef: sampleCount > 0 ? weighted / sampleCount : null, sampleCount }
+  })
+
+  const fitPoints = observed.flatMap((point) => (
+    point.coef == null ? [] : [{ floor: point.floor, coef: point.coef, weight: point.sampleCount }]
+  ))
+  if (!fitPoints.some((point) => point.floor > 1)) return null
+
+  const curve = fitFloorCurve(fitPoints)
+  const points = observed.map((point) => ({
+    floor: point.floor,
+    observedCoef: point.coef == null ? null : roundCoef(point.coef),
+    fittedCoef: point.floor === 1 ? 1 : roundCoef(curve(point.floor)),
+    sampleCount: point.sampleCount,
+  }))
+  const coefs = points.map((point) => point.fittedCoef)
+
+  const presets = (Object.keys(FLOOR_COEFS) as FloorPattern[])
+    .map((pattern) => ({
+      pattern,
+      rmse: Math.round(calcRmse(coefs, fitFloorCoefs(FLOOR_COEFS[pattern], coefs.length)) * 1000) / 1000,
+    }))
+    .sort((a, b) => a.rmse - b.rmse)
+  const closestPreset = presets[0] ?? null
+
+  return {
+    points,
+    coefs,
+    presets,
+    closestPreset,
+    recommendCustom: closestPreset == null || closestPreset.rmse > CUSTOM_PATTERN_RMSE_THRESHOLD,
+    totalSamples: points.reduce((sum, point) => sum + point.sampleCount, 0),
+  }
+}
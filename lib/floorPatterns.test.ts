@@ -0,0 +1,82 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import {
+  buildFloorPatternDraft,
+  buildFloorPatternOptions,
+  buildFloorPatternPayload,
+  fitFloorCoefs,
+  formatFloorPatternLabel,
+  formatFloorPatternOptionLabel,
+  mapFloorPatternRow,
+  resolveFloorPatternCoefs,
+  toCustomFloorPatternKey,
+  validateFloorPatternDraft,
+  type CustomFloorPattern,
+} from './floorPatterns.ts'
+
+const patterns: CustomFloorPattern[] = [
+  { id: 'shared-1', name: '高層向け', coefs: [1, 1, 1.01, 1.02, 1.03, 1.04, 1.05, 1.06, 1.07, 1.08], complexId: null },
+  { id: 'c1-1', name: '階段3階建', coefs: [1, 0.97, 0.93], complexId: 'complex-1' },
+  { id: 'c2-1', name: '他団地', coefs: [1, 0.9], complexId: 'complex-2' },
+  { id: 'empty', name: '空', coefs: [], complexId: null },
+]
+
+test('mapFloorPatternRow keeps numeric coefficients from stored arrays', () => {
+  assert.deepEqual(
+    mapFloorPatternRow({ id: 'p1', name: null, coefs: [1, '0.98', 'x', 0.95], complex_id: null }),
+    { id: 'p1', name: '(名称未設定)', coefs: [1, 0.98, 0.95], complexId: null },
+  )
+  assert.deepEqual(mapFloorPatternRow({ id: 'p2', name: 'A', coefs: null, complex_id: 'c1' }).coefs, [])
+})
+
+test('buildFloorPatternOptions lists presets, this complex`s patterns, then shared templates', () => {
+  const options = buildFloorPatternOptions(patterns, 'complex-1')
+  assert.deepEqual(options.map((option) => option.key), [
+    '①保守的',
+    '②中間',
+    '③攻め',
+    '④超攻め',
+    'custom:c1-1',
+    'custom:shared-1',
+  ])
+  assert.equal(formatFloorPatternOptionLabel(options[4]), '階段3階建（この団地専用・3階）')
+  assert.equal(formatFloorPatternOptionLabel(options[5]), '高層向け（共有テンプレート・10階）')
+  assert.equal(formatFloorPatternOptionLabel(options[0]), '①保守的（標準・5階）')
+})
+
+test('resolveFloorPatternCoefs fits any pattern to the complex floor count', () => {
+  const options = buildFloorPatternOptions(patterns, 'complex-1')
+  assert.deepEqual(resolveFloorPatternCoefs(toCustomFloorPatternKey('c1-1'), options), [1, 0.97, 0.93])
+  assert.deepEqual(resolveFloorPatternCoefs(toCustomFloorPatternKey('c1-1'), options, 5), [1, 0.97, 0.93, 0.93, 0.93])
+  assert.deepEqual(resolveFloorPatternCoefs('①保守的', options, 3), [1, 0.98, 0.95])
+  assert.deepEqual(resolveFloorPatternCoefs('unknown', options, 4), [1, 1, 1, 1])
+  assert.deepEqual(resolveFloorPatternCoefs(null, options), [1, 1, 1, 1, 1])
+  assert.deepEqual(fitFloorCoefs([], 3), [1, 1, 1])
+  assert.deepEqual(fitFloorCoefs([1, 0.9], null), [1, 0.9])
+})
+
+test('formatFloorPatternLabel resolves custom keys to their names', () => {
+  const options = buildFloorPatternOptions(patterns, 'complex-1')
+  assert.equal(formatFloorPatternLabel('custom:shared-1', options), '高層向け')
+  assert.equal(formatFloorPatternLabel('②中間', options), '②中間')
+  assert.equal(formatFloorPatternLabel('custom:missing', options), '(削除済みパターン)')
+  assert.equal(formatFloorPatternLabel(null, options), '')
+})
+
+test('floor pattern drafts validate coefficients and build scoped payloads', () => {
+  const draft = { ...buildFloorPatternDraft([1, 0.98], 4), name: ' 4階建 ' }
+  assert.deepEqual(draft.coefs, ['1', '0.98', '0.98', '0.98'])
+  assert.equal(validateFloorPatternDraft(draft), null)
+  assert.equal(validateFloorPatternDraft({ ...draft, name: '' }), 'パターン名を入力してください')
+  assert.equal(validateFloorPatternDraft({ ...draft, coefs: ['1', ''] }), '各階の係数は0より大きい数値を入力してください')
+  assert.equal(validateFloorPatternDraft({ ...draft, coefs: [] }), '階数は1〜30階で設定してください')
+
+  assert.deepEqual(buildFloorPatternPayload(draft, 'complex-1', 'user-1'), {
+    name: '4階建',
+    coefs: [1, 0.98, 0.98, 0.98],
+    complex_id: 'complex-1',
+    created_by: 'user-1',
+  })
+  assert.equal(buildFloorPatternPayload({ ...draft, scope: 'shared' }, 'complex-1').complex_id, null)
+})
@@ -0,0 +1,144 @@
+import { toFloatOrNull } from './entryMath.ts'
+import { FLOOR_COEFS, type FloorPattern } from './stockPricing.ts'
+
+export type FloorPatternScope = 'preset' | 'shared' | 'complex'
+
+export type FloorPatternRow = {
+  id: string
+  name: string | null
+  coefs: unknown
+  complex_id: string | null
+}
+
+export type CustomFloorPattern = {
+  id: string
+  name: string
+  coefs: number[]
+  complexId: string | null
+}
+
+export type FloorPatternOption = {
+  key: string
+  label: string
+  coefs: number[]
+  scope: FloorPatternScope
+}
+
+export type FloorPatternDraft = {
+  name: string
+  scope: Exclude<FloorPatternScope, 'preset'>
+  coefs: string[]
+}
+
+export const CUSTOM_FLOOR_PATTERN_PREFIX = 'custom:'
+export const MIN_PATTERN_FLOORS = 1
+export const MAX_PATTERN_FLOORS = 30
+export const DEFAULT_PATTERN_FLOORS = 5
+
+const FLOOR_PATTERN_SCOPE_LABELS: Record<FloorPatternScope, string> = {
+  preset: '標準',
+  shared: '共有テンプレート',
+  complex: 'この団地専用',
+}
+
+export function toCustomFloorPatternKey(id: string): string {
+  return `${CUSTOM_FLOOR_PATTERN_PREFIX}${id}`
+}
+
+function parseCoefs(value: unknown): number[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .map((item) => (typeof item === 'number' ? item : Number.parseFloat(String(item))))
+    .filter((item) => Number.isFinite(item))
+}
+
+export function mapFloorPatternRow(row: FloorPatternRow): CustomFloorPattern {
+  return {
+    id: row.id,
+    name: row.name ?? '(名称未設定)',
+    coefs: parseCoefs(row.coefs),
+    complexId: row.complex_id ?? null,
+  }
+}
+
+export function buildFloorPatternOptions(patterns: CustomFloorPattern[], complexId: string | null): FloorPatternOption[] {
+  const presets = (Object.keys(FLOOR_COEFS) as FloorPattern[]).map((key) => ({
+    key,
+    label: key,
+    coefs: FLOOR_COEFS[key],
+    scope: 'preset' as const,
+  }))
+  const custom = patterns
+    .filter((pattern) => pattern.coefs.length > 0)
+    .filter((pattern) => pattern.complexId == null || pattern.complexId === complexId)
+    .map((pattern) => ({
+      key: toCustomFloorPatternKey(pattern.id),
+      label: pattern.name,
+      coefs: pattern.coefs,
+      scope: pattern.complexId == null ? 'shared' as const : 'complex' as const,
+    }))
+  return [...presets, ...custom.filter((option) => option.scope === 'complex'), ...custom.filter((option) => option.scope === 'shared')]
+}
+
+export function formatFloorPatternOptionLabel(option: FloorPatternOption): string {
+  return `${option.label}（${FLOOR_PATTERN_SCOPE_LABELS[option.scope]}・${option.coefs.length}階）`
+}
+
+export function findFloorPatternOption(key: string | null | undefined, options: FloorPatternOption[]): FloorPatternOption | null {
+  if (!key) return null
+  return options.find((option) => option.key === key) ?? null
+}
+
+export function formatFloorPatternLabel(key: string | null | undefined, options: FloorPatternOption[]): string {
+  if (!key) return ''
+  return findFloorPatternOption(key, options)?.label ?? (key.startsWith(CUSTOM_FLOOR_PATTERN_PREFIX) ? '(削除済みパターン)' : key)
+}
+
+// 団地の階数に合わせて係数列を伸縮する（不足階は最上階の係数を引き継ぐ）
+export function fitFloorCoefs(coefs: number[], floorCount: number | null | undefined): number[] {
+  if (typeof floorCount !== 'number' || !Number.isFinite(floorCount) || floorCount < MIN_PATTERN_FLOORS) return coefs
+  const count = Math.min(Math.floor(floorCount), MAX_PATTERN_FLOORS)
+  if (coefs.length === 0) return Array.from({ length: count }, () => 1)
+  return Array.from({ length: count }, (_, index) => coefs[Math.min(index, coefs.length - 1)])
+}
+
+export function resolveFloorPatternCoefs(
+  key: string | null | undefined,
+  options: FloorPatternOption[],
+  floorCount?: number | null,
+): number[] {
+  const coefs = findFloorPatternOption(key, options)?.coefs ?? Array.from({ length: DEFAULT_PATTERN_FLOORS }, () => 1)
+  return fitFloorCoefs(coefs, floorCount)
+}
+
+export function buildFloorPatternDraft(coefs: number[], floorCount: number | null | undefined): FloorPatternDraft {
+  return {
+    name: '',
+    scope: 'complex',
+    coefs: fitFloorCoefs(coefs, floorCount ?? DEFAULT_PATTERN_FLOORS).map((coef) => String(coef)),
+  }
+}
+
+export function validateFloorPatternDraft(draft: FloorPatternDraft): string | null {
+  if (!draft.name.trim()) return 'パターン名を入力してください'
+  if (draft.coefs.length < MIN_PATTERN_FLOORS || draft.coefs.length > MAX_PATTERN_FLOORS) {
+    return `階数は${MIN_PATTERN_FLOORS}〜${MAX_PATTERN_FLOORS}階で設定してください`
+  }
+  const values = draft.coefs.map((coef) => toFloatOrNull(coef))
+  if (values.some((value) => value == null || value <= 0)) return '各階の係数は0より大きい数値を入力してください'
+  return null
+}
+
+export function buildFloorPatternPayload(
+  draft: FloorPatternDraft,
+  complexId: string | null,
+  userId?: string | null,
+): Record<string, unknown> {
+  const payload: Record<string, unknown> = {
+    name: draft.name.trim(),
+    coefs: draft.coefs.map((coef) => toFloatOrNull(coef) ?? 1),
+    complex_id: draft.scope === 'complex' ? complexId : null,
+  }
+  if (userId) payload.created_by = userId
+  return payload
+}
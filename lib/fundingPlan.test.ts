@@ -0,0 +1,62 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import {
+  buildFundingPlan,
+  buildFundingPlanCsv,
+  buildFundingPlanDefaults,
+  buildRepaymentSchedule,
+  fundingPlanToForm,
+  mapFundingPlanJson,
+  validateFundingPlanForm,
+} from './fundingPlan.ts'
+import { buildFloorRows } from './stockPricing.ts'
+
+test('buildFundingPlanDefaults breaks the raise down the same way as buildFloorRows', () => {
+  const row = buildFloorRows(500000, 1.1, 60, '②中間')[0]
+  const form = buildFundingPlanDefaults({ buyTarget: row.buyTarget, raise: row.raise, area: 60, now: new Date('2026-04-01T00:00:00Z') })
+  const plan = buildFundingPlan(form, null)
+  assert.equal(plan.totalCost, row.raise)
+  assert.equal(plan.loanAmount, 21810000)
+  assert.equal(plan.equity, row.raise - 21810000)
+  assert.equal(form.startMonth, '2026-04')
+  assert.equal(validateFundingPlanForm(form), null)
+  assert.equal(validateFundingPlanForm({ ...form, loanAmount: String(row.raise + 1) }), '借入額が総事業費を超えています')
+  assert.equal(validateFundingPlanForm({ ...form, startMonth: '' }), '返済開始月を入力してください')
+})
+
+test('buildRepaymentSchedule amortizes the loan for both repayment methods', () => {
+  const form = {
+    purchasePrice: '10000000', taxesAndFees: '0', brokerage: '0', renovationCost: '2000000',
+    loanAmount: '1200000', annualRatePercent: '12', termMonths: '12', repayment: 'annuity' as const, startMonth: '2026-11',
+  }
+  const annuity = buildRepaymentSchedule(buildFundingPlan(form, null))
+  assert.equal(annuity.length, 12)
+  assert.deepEqual(annuity[0], { month: 1, ym: '2026-11', payment: 106619, principal: 94619, interest: 12000, balance: 1105381 })
+  assert.equal(annuity[2].ym, '2027-01')
+  assert.equal(annuity[11].balance, 0)
+  assert.equal(annuity[11].payment, 106614)
+
+  const equal = buildRepaymentSchedule(buildFundingPlan({ ...form, repayment: 'equalPrincipal' }, null))
+  assert.deepEqual(equal.map((row) => row.principal), Array.from({ length: 12 }, () => 100000))
+  assert.equal(equal[0].interest, 12000)
+  assert.equal(equal[11].interest, 1000)
+
+  const free = buildRepaymentSchedule(buildFundingPlan({ ...form, annualRatePercent: '0' }, null))
+  assert.ok(free.every((row) => row.interest === 0 && row.payment === 100000))
+})
+
+test('funding plans round-trip through stored json and export as csv', () => {
+  const form = buildFundingPlanDefaults({ buyTarget: 15000000, raise: 27270000, area: 60, now: new Date('2026-04-01T00:00:00Z') })
+  const plan = buildFundingPlan(form, 3)
+  assert.deepEqual(mapFundingPlanJson(JSON.parse(JSON.stringify(plan))), plan)
+  assert.deepEqual(fundingPlanToForm(plan), form)
+  assert.equal(mapFundingPlanJson({ purchasePrice: 'x' }), null)
+
+  const csv = buildFundingPlanCsv(plan, buildRepaymentSchedule(plan)).split('\n')
+  assert.equal(csv[0], '項目,金額')
+  assert.equal(csv[5], `総事業費,${plan.totalCost}`)
+  assert.equal(csv[10], '返済方式,元利均等')
+  assert.equal(csv[12], '回,年月,返済額,元金,利息,残高')
+  assert.equal(csv.length, 13 + 12)
+})
@@ -0,0 +1,216 @@
+import { DEFAULT_COST_PROFILE, type CostProfile } from './costProfile.ts'
+import { toFloatOrNull, toIntOrNull } from './entryMath.ts'
+import { calcPurchaseCosts, calcRenovationCost, type PricingContext } from './stockPricing.ts'
+
+export type RepaymentMethod = 'annuity' | 'equalPrincipal'
+
+export type FundingPlan = {
+  purchasePrice: number
+  taxesAndFees: number
+  brokerage: number
+  renovationCost: number
+  totalCost: number
+  loanAmount: number
+  equity: number
+  annualRate: number
+  termMonths: number
+  repayment: RepaymentMethod
+  startMonth: string
+  costProfileVersion: number | null
+}
+
+export type FundingPlanForm = {
+  purchasePrice: string
+  taxesAndFees: string
+  brokerage: string
+  renovationCost: string
+  loanAmount: string
+  annualRatePercent: string
+  termMonths: string
+  repayment: RepaymentMethod
+  startMonth: string
+}
+
+export type RepaymentRow = {
+  month: number
+  ym: string
+  payment: number
+  principal: number
+  interest: number
+  balance: number
+}
+
+export const REPAYMENT_METHOD_OPTIONS: { value: RepaymentMethod; label: string }[] = [
+  { value: 'annuity', label: '元利均等' },
+  { value: 'equalPrincipal', label: '元金均等' },
+]
+
+export const DEFAULT_LOAN_RATIO = 0.8
+export const DEFAULT_LOAN_RATE_PERCENT = 2.5
+export const DEFAULT_LOAN_TERM_MONTHS = 12
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function addMonths(ym: string, months: number): string {
+  const [year, month] = ym.split('-').map((part) => Number.parseInt(part, 10))
+  if (!Number.isFinite(year) || !Number.isFinite(month)) return ''
+  const index = year * 12 + (month - 1) + months
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`
+}
+
+// 募集総額（= 物件価格 + リノベ費用 + 仲介手数料 + 諸費用）と同じ内訳で初期値を組み立てる
+export function buildFundingPlanDefaults(params: {
+  buyTarget: number
+  raise: number
+  area: number
+  profile?: CostProfile
+  context?: PricingContext
+  now?: Date
+}): FundingPlanForm {
+  const profile = params.profile ?? DEFAULT_COST_PROFILE
+  const renovationCost = calcRenovationCost(params.area, profile, params.context)
+  const { brokerage, otherCost: taxesAndFees } = calcPurchaseCosts(params.buyTarget, params.raise, params.area, profile, params.context)
+  const totalCost = params.buyTarget + renovationCost + brokerage + taxesAndFees
+  return {
+    purchasePrice: String(params.buyTarget),
+    taxesAndFees: String(taxesAndFees),
+    brokerage: String(brokerage),
+    renovationCost: String(renovationCost),
+    loanAmount: String(Math.floor(totalCost * DEFAULT_LOAN_RATIO / 10000) * 10000),
+    annualRatePercent: String(DEFAULT_LOAN_RATE_PERCENT),
+    termMonths: String(DEFAULT_LOAN_TERM_MONTHS),
+    repayment: 'annuity',
+    startMonth: (params.now ?? new Date()).toISOString().slice(0, 7),
+  }
+}
+
+export function fundingPlanToForm(plan: FundingPlan): FundingPlanForm {
+  return {
+    purchasePrice: String(plan.purchasePrice),
+    taxesAndFees: String(plan.taxesAndFees),
+    brokerage: String(plan.brokerage),
+    renovationCost: String(plan.renovationCost),
+    loanAmount: String(plan.loanAmount),
+    annualRatePercent: String(Math.round(plan.annualRate * 100000) / 1000),
+    termMonths: String(plan.termMonths),
+    repayment: plan.repayment,
+    startMonth: plan.startMonth,
+  }
+}
+
+export function validateFundingPlanForm(form: FundingPlanForm): string | null {
+  const purchasePrice = toIntOrNull(form.purchasePrice)
+  if (purchasePrice == null || purchasePrice <= 0) return '物件価格を入力してください'
+  const loanAmount = toIntOrNull(form.loanAmount)
+  if (loanAmount == null || loanAmount < 0) return '借入額を入力してください'
+  const rate = toFloatOrNull(form.annualRatePercent)
+  if (rate == null || rate < 0) return '金利を入力してください'
+  const term = toIntOrNull(form.termMonths)
+  if (term == null || term <= 0) return '返済期間（月数）を入力してください'
+  if (!/^\d{4}-\d{2}$/.test(form.startMonth)) return '返済開始月を入力してください'
+  const plan = buildFundingPlan(form, null)
+  if (plan.loanAmount > plan.totalCost) return '借入額が総事業費を超えています'
+  return null
+}
+
+export function buildFundingPlan(form: FundingPlanForm, costProfileVersion: number | null): FundingPlan {
+  const purchasePrice = toIntOrNull(form.purchasePrice) ?? 0
+  const taxesAndFees = toIntOrNull(form.taxesAndFees) ?? 0
+  const brokerage = toIntOrNull(form.brokerage) ?? 0
+  const renovationCost = toIntOrNull(form.renovationCost) ?? 0
+  const totalCost = purchasePrice + taxesAndFees + brokerage + renovationCost
+  const loanAmount = toIntOrNull(form.loanAmount) ?? 0
+  return {
+    purchasePrice,
+    taxesAndFees,
+    brokerage,
+    renovationCost,
+    totalCost,
+    loanAmount,
+    equity: totalCost - loanAmount,
+    annualRate: (toFloatOrNull(form.annualRatePercent) ?? 0) / 100,
+    termMonths: toIntOrNull(form.termMonths) ?? 0,
+    repayment: form.repayment,
+    startMonth: form.startMonth,
+    costProfileVersion,
+  }
+}
+
+export function mapFundingPlanJson(value: unknown): FundingPlan | null {
+  if (!value || typeof value !== 'object') return null
+  const raw = value as Record<string, unknown>
+  const numbers = ['purchasePrice', 'taxesAndFees', 'brokerage', 'renovationCost', 'loanAmount', 'annualRate', 'termMonths'] as const
+  if (!numbers.every((key) => isFiniteNumber(raw[key]))) return null
+  const form: FundingPlanForm = {
+    purchasePrice: String(raw.purchasePrice),
+    taxesAndFees: String(raw.taxesAndFees),
+    brokerage: String(raw.brokerage),
+    renovationCost: String(raw.renovationCost),
+    loanAmount: String(raw.loanAmount),
+    annualRatePercent: String((raw.annualRate as number) * 100),
+    termMonths: String(raw.termMonths),
+    repayment: raw.repayment === 'equalPrincipal' ? 'equalPrincipal' : 'annuity',
+    startMonth: typeof raw.startMonth === 'string' ? raw.startMonth : '',
+  }
+  return buildFundingPlan(form, isFiniteNumber(raw.costProfileVersion) ? raw.costProfileVersion : null)
+}
+
+// 月次の返済予定表。端数は毎月円単位で丸め、最終回で残高を精算する
+export function buildRepaymentSchedule(plan: FundingPlan): RepaymentRow[] {
+  const { loanAmount, termMonths } = plan
+  if (loanAmount <= 0 || termMonths <= 0) return []
+  const monthlyRate = plan.annualRate / 12
+  const annuity = monthlyRate > 0
+    ? loanAmount * monthlyRate / (1 - (1 + monthlyRate) ** -termMonths)
+    : loanAmount / termMonths
+
+  const rows: RepaymentRow[] = []
+  let balance = loanAmount
+  for (let month = 1; month <= termMonths; month += 1) {
+    const interest = Math.round(balance * monthlyRate)
+    const scheduled = plan.repayment === 'annuity'
+      ? Math.round(annuity) - interest
+      : Math.round(loanAmount / termMonths)
+    const principal = month === termMonths ? balance : Math.min(scheduled, balance)
+    balance -= principal
+    rows.push({ month, ym: addMonths(plan.startMonth, month - 1), payment: principal + interest, principal, interest, balance })
+  }
+  return rows
+}
+
+export function buildFundingPlanPayload(plan: FundingPlan, now: Date = new Date()): Record<string, unknown> {
+  return {
+    funding_plan: plan,
+    funding_plan_updated_at: now.toISOString(),
+  }
+}
+
+function toCsvLine(values: (string | number)[]): string {
+  return values.map((value) => {
+    const text = String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }).join(',')
+}
+
+export function buildFundingPlanCsv(plan: FundingPlan, schedule: RepaymentRow[]): string {
+  const method = REPAYMENT_METHOD_OPTIONS.find((option) => option.value === plan.repayment)?.label ?? plan.repayment
+  const lines = [
+    toCsvLine(['項目', '金額']),
+    toCsvLine(['物件価格', plan.purchasePrice]),
+    toCsvLine(['諸費用・税金', plan.taxesAndFees]),
+    toCsvLine(['仲介手数料', plan.brokerage]),
+    toCsvLine(['リノベ費用', plan.renovationCost]),
+    toCsvLine(['総事業費', plan.totalCost]),
+    toCsvLine(['借入額', plan.loanAmount]),
+    toCsvLine(['自己資金', plan.equity]),
+    toCsvLine(['金利（年）', `${(plan.annualRate * 100).toFixed(3)}%`]),
+    toCsvLine(['返済期間（月）', plan.termMonths]),
+    toCsvLine(['返済方式', method]),
+    '',
+    toCsvLine(['回', '年月', '返済額', '元金', '利息', '残高']),
+    ...schedule.map((row) => toCsvLine([row.month, row.ym, row.payment, row.principal, row.interest, row.balance])),
+  ]
+  return lines.join('\n')
+}
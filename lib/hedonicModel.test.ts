@@ -0,0 +1,95 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import {
+  buildHedonicStockInput,
+  fitHedonicModel,
+  mapHedonicEntryRow,
+  predictHedonicUnitPrice,
+  type HedonicSample,
+} from './hedonicModel.ts'
+
+function buildSamples(): HedonicSample[] {
+  const samples: HedonicSample[] = []
+  for (let i = 0; i < 60; i += 1) {
+    const floor = (i % 5) + 1
+    const area = 45 + (i % 7) * 3
+    const contractYear = 2016 + (i % 9)
+    const complexId = i % 3 === 0 ? 'c1' : i % 3 === 1 ? 'c2' : 'c3'
+    const hasElevator = complexId === 'c3'
+    const builtAge = contractYear - (complexId === 'c1' ? 1975 : 1980)
+    const stationMinutes = complexId === 'c2' ? 15 : 8
+    const noise = ((i * 37) % 11 - 5) / 1000
+    const logPrice = Math.log(250000) - 0.03 * (floor - 1) + 0.04 * (contractYear - 2016) - 0.002 * area + (hasElevator ? 0.1 : 0) + noise
+    samples.push({
+      complexId,
+      unitPrice: Math.exp(logPrice),
+      floor,
+      area,
+      condition: i % 4 === 0 ? 'OWNER_OCCUPIED' : 'FULL_REFORM_ALL_EQUIP',
+      contractYear,
+      hasElevator,
+      builtAge,
+      stationMinutes,
+    })
+  }
+  return samples
+}
+
+test('fitHedonicModel needs enough samples', () => {
+  const result = fitHedonicModel(buildSamples().slice(0, 10))
+  assert.equal(result.model, null)
+  assert.equal(result.reason, '回帰モデルには20件以上の過去成約が必要です（現在10件）')
+})
+
+test('predictHedonicUnitPrice estimates unit price with a prediction interval', () => {
+  const { model, reason } = fitHedonicModel(buildSamples())
+  assert.equal(reason, null)
+  assert.ok(model)
+  assert.ok(model.rSquared > 0.9)
+  assert.deepEqual(model.complexLevels, ['c1', 'c2', 'c3'])
+
+  const input = buildHedonicStockInput({
+    complexId: 'c2',
+    floor: 3,
+    area: 54,
+    builtYm: '1980-04',
+    stationMinutes: 15,
+    hasElevator: false,
+    now: new Date('2024-06-01T00:00:00Z'),
+  })
+  assert.equal(input.builtAge, 44)
+  const expected = Math.exp(Math.log(250000) - 0.06 + 0.32 - 0.108)
+  const prediction = predictHedonicUnitPrice(model, input)
+  assert.ok(Math.abs(prediction.unitPrice - expected) / expected < 0.03)
+  assert.ok(prediction.lower < prediction.unitPrice && prediction.unitPrice < prediction.upper)
+  assert.equal(prediction.complexSampleCount, 20)
+})
+
+test('mapHedonicEntryRow derives building age, elevator and station minutes from the complex', () => {
+  assert.deepEqual(mapHedonicEntryRow({
+    complex_id: 'c1',
+    floor: 2,
+    area_sqm: 50,
+    unit_price: null,
+    contract_price: 15000000,
+    condition_status: 'PARTIAL_REFORM',
+    contract_date: '2023-05-10',
+    built_month: null,
+    has_elevator: null,
+    housing_complexes: { built_ym: '1978-03', station_minutes: 12, has_elevator: true },
+  }), {
+    complexId: 'c1',
+    unitPrice: 300000,
+    floor: 2,
+    area: 50,
+    condition: 'PARTIAL_REFORM',
+    contractYear: 2023,
+    hasElevator: true,
+    builtAge: 45,
+    stationMinutes: 12,
+  })
+  assert.equal(mapHedonicEntryRow({
+    complex_id: 'c1', floor: 1, area_sqm: null, unit_price: null, contract_price: null, condition_status: null, contract_date: null,
+  }), null)
+})
@@ -0,0 +1,281 @@
+import { resolveReferenceUnitPrice, type ConditionStatus } from './referenceValue.ts'
+
+export type HedonicSample = {
+  complexId: string | null
+  unitPrice: number
+  floor: number | null
+  area: number | null
+  condition: ConditionStatus | null
+  contractYear: number | null
+  hasElevator: boolean | null
+  builtAge: number | null
+  stationMinutes: number | null
+}
+
+export type HedonicInput = Omit<HedonicSample, 'unitPrice'>
+
+export type HedonicEntryRow = {
+  complex_id: string | null
+  floor: number | null
+  area_sqm: number | null
+  unit_price: number | null
+  contract_price: number | null
+  condition_status: ConditionStatus | null
+  contract_date: string | null
+  reins_registered_date?: string | null
+  built_month?: string | null
+  has_elevator?: boolean | null
+  housing_complexes?: {
+    built_ym: string | null
+    station_minutes: number | null
+    has_elevator: boolean | null
+  } | null
+}
+
+type NumericFeatureKey = 'floor' | 'area' | 'contractYear' | 'builtAge' | 'stationMinutes' | 'elevator'
+
+export type HedonicModel = {
+  columns: string[]
+  means: number[]
+  scales: number[]
+  coefficients: number[]
+  inverse: number[][]
+  imputation: Record<NumericFeatureKey, number>
+  conditionLevels: ConditionStatus[]
+  complexLevels: string[]
+  complexSampleCounts: Record<string, number>
+  residualStd: number
+  degreesOfFreedom: number
+  sampleCount: number
+  rSquared: number
+}
+
+export type HedonicFitResult = {
+  model: HedonicModel | null
+  reason: string | null
+}
+
+export type HedonicPrediction = {
+  unitPrice: number
+  lower: number
+  upper: number
+  complexSampleCount: number
+}
+
+export const HEDONIC_MIN_SAMPLES = 20
+// 団地ダミーを入れるのはこの件数以上の団地のみ（少ない団地は建物属性で推定）
+export const HEDONIC_MIN_COMPLEX_SAMPLES = 3
+export const HEDONIC_RIDGE_LAMBDA = 1
+export const HEDONIC_BASE_CONDITION: ConditionStatus = 'FULL_REFORM_ALL_EQUIP'
+
+const NUMERIC_FEATURES: { key: NumericFeatureKey; label: string }[] = [
+  { key: 'floor', label: '階数' },
+  { key: 'area', label: '面積' },
+  { key: 'contractYear', label: '成約年' },
+  { key: 'builtAge', label: '築年数' },
+  { key: 'stationMinutes', label: '駅徒歩分' },
+  { key: 'elevator', label: 'EV有' },
+]
+
+// 両側95%の t 値（自由度30超は正規近似）
+const T_975 = [12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042]
+
+function tQuantile975(df: number): number {
+  if (df < 1) return T_975[0]
+  return df <= T_975.length ? T_975[df - 1] : 1.96
+}
+
+function parseYear(value: string | null | undefined): number | null {
+  const year = Number.parseInt((value ?? '').slice(0, 4), 10)
+  return Number.isFinite(year) ? year : null
+}
+
+function finiteOrNull(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+export function mapHedonicEntryRow(row: HedonicEntryRow): HedonicSample | null {
+  const unitPrice = resolveReferenceUnitPrice({
+    condition_status: row.condition_status,
+    floor: row.floor,
+    unit_price: row.unit_price,
+    contract_price: row.contract_price,
+    area_sqm: row.area_sqm,
+  })
+  if (unitPrice == null || unitPrice <= 0) return null
+
+  const complex = row.housing_complexes ?? null
+  const contractYear = parseYear(row.contract_date ?? row.reins_registered_date)
+  const builtYear = parseYear(row.built_month ?? complex?.built_ym)
+  return {
+    complexId: row.complex_id ?? null,
+    unitPrice,
+    floor: finiteOrNull(row.floor),
+    area: finiteOrNull(row.area_sqm),
+    condition: row.condition_status ?? null,
+    contractYear,
+    hasElevator: row.has_elevator ?? complex?.has_elevator ?? null,
+    builtAge: contractYear != null && builtYear != null ? Math.max(contractYear - builtYear, 0) : null,
+    stationMinutes: finiteOrNull(complex?.station_minutes),
+  }
+}
+
+function readNumeric(input: HedonicInput, key: NumericFeatureKey): number | null {
+  if (key === 'elevator') return input.hasElevator == null ? null : (input.hasElevator ? 1 : 0)
+  return finiteOrNull(input[key])
+}
+
+function buildRawVector(
+  input: HedonicInput,
+  design: Pick<HedonicModel, 'imputation' | 'conditionLevels' | 'complexLevels'>,
+): number[] {
+  const numeric = NUMERIC_FEATURES.map(({ key }) => readNumeric(input, key) ?? design.imputation[key])
+  const conditions = design.conditionLevels.map((level) => (input.condition === level ? 1 : 0))
+  const complexes = design.complexLevels.map((level) => (input.complexId === level ? 1 : 0))
+  return [...numeric, ...conditions, ...complexes]
+}
+
+function standardize(raw: number[], means: number[], scales: number[]): number[] {
+  return [1, ...raw.map((value, index) => (value - means[index]) / scales[index])]
+}
+
+// Gauss-Jordan 法による逆行列（特異な場合は null）
+function invertMatrix(matrix: number[][]): number[][] | null {
+  const size = matrix.length
+  const work = matrix.map((row, i) => [...row, ...Array.from({ length: size }, (_, j) => (i === j ? 1 : 0))])
+  for (let col = 0; col < size; col += 1) {
+    let pivot = col
+    for (let row = col + 1; row < size; row += 1) {
+      if (Math.abs(work[row][col]) > Math.abs(work[pivot][col])) pivot = row
+    }
+    if (Math.abs(work[pivot][col]) < 1e-12) return null
+    ;[work[col], work[pivot]] = [work[pivot], work[col]]
+    const divisor = work[col][col]
+    for (let k = 0; k < size * 2; k += 1) work[col][k] /= divisor
+    for (let row = 0; row < size; row += 1) {
+      if (row === col) continue
+      const factor = work[row][col]
+      if (factor === 0) continue
+      for (let k = 0; k < size * 2; k += 1) work[row][k] -= factor * work[col][k]
+    }
+  }
+  return work.map((row) => row.slice(size))
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + value * b[index], 0)
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+// log(㎡単価) をリッジ回帰で当てはめる。説明変数は標準化し、切片には罰則をかけない
+export function fitHedonicModel(samples: HedonicSample[]): HedonicFitResult {
+  if (samples.length < HEDONIC_MIN_SAMPLES) {
+    return { model: null, reason: `回帰モデルには${HEDONIC_MIN_SAMPLES}件以上の過去成約が必要です（現在${samples.length}件）` }
+  }
+
+  const imputation = Object.fromEntries(NUMERIC_FEATURES.map(({ key }) => {
+    const values = samples.map((sample) => readNumeric(sample, key)).filter((value): value is number => value != null)
+    return [key, mean(values)]
+  })) as Record<NumericFeatureKey, number>
+
+  const conditionLevels = [...new Set(samples.map((sample) => sample.condition))]
+    .filter((level): level is ConditionStatus => level != null && level !== HEDONIC_BASE_CONDITION)
+    .sort()
+  const complexSampleCounts: Record<string, number> = {}
+  for (const sample of samples) {
+    if (sample.complexId) complexSampleCounts[sample.complexId] = (complexSampleCounts[sample.complexId] ?? 0) + 1
+  }
+  const complexLevels = Object.keys(complexSampleCounts)
+    .filter((id) => complexSampleCounts[id] >= HEDONIC_MIN_COMPLEX_SAMPLES)
+    .sort()
+
+  const design = { imputation, conditionLevels, complexLevels }
+  const rawRows = samples.map((sample) => buildRawVector(sample, design))
+  const width = rawRows[0].length
+  const means = Array.from({ length: width }, (_, index) => mean(rawRows.map((row) => row[index])))
+  const scales = Array.from({ length: width }, (_, index) => {
+    const variance = mean(rawRows.map((row) => (row[index] - means[index]) ** 2))
+    return variance > 0 ? Math.sqrt(variance) : 1
+  })
+  const x = rawRows.map((row) => standardize(row, means, scales))
+  const y = samples.map((sample) => Math.log(sample.unitPrice))
+  const columns = ['切片', ...NUMERIC_FEATURES.map((feature) => feature.label), ...conditionLevels, ...complexLevels.map((id) => `団地:${id}`)]
+  const size = columns.length
+
+  const degreesOfFreedom = samples.length - size
+  if (degreesOfFreedom < 1) {
+    return { model: null, reason: '説明変数に対して過去成約の件数が不足しています' }
+  }
+
+  const xtx = Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (
+    x.reduce((sum, row) => sum + row[i] * row[j], 0) + (i === j && i > 0 ? HEDONIC_RIDGE_LAMBDA : 0)
+  )))
+  const xty = Array.from({ length: size }, (_, i) => x.reduce((sum, row, k) => sum + row[i] * y[k], 0))
+  const inverse = invertMatrix(xtx)
+  if (!inverse) return { model: null, reason: '回帰モデルを計算できませんでした' }
+
+  const coefficients = inverse.map((row) => dot(row, xty))
+  const fitted = x.map((row) => dot(row, coefficients))
+  const rss = y.reduce((sum, value, index) => sum + (value - fitted[index]) ** 2, 0)
+  const yMean = mean(y)
+  const tss = y.reduce((sum, value) => sum + (value - yMean) ** 2, 0)
+
+  return {
+    model: {
+      columns,
+      means,
+      scales,
+      coefficients,
+      inverse,
+      imputation,
+      conditionLevels,
+      complexLevels,
+      complexSampleCounts,
+      residualStd: Math.sqrt(rss / degreesOfFreedom),
+      degreesOfFreedom,
+      sampleCount: samples.length,
+      rSquared: tss > 0 ? Math.round((1 - rss / tss) * 1000) / 1000 : 0,
+    },
+    reason: null,
+  }
+}
+
+export function predictHedonicUnitPrice(model: HedonicModel, input: HedonicInput): HedonicPrediction {
+  const x = standardize(buildRawVector(input, model), model.means, model.scales)
+  const logEstimate = dot(x, model.coefficients)
+  const leverage = dot(x, model.inverse.map((row) => dot(row, x)))
+  const margin = tQuantile975(model.degreesOfFreedom) * model.residualStd * Math.sqrt(1 + Math.max(leverage, 0))
+  return {
+    unitPrice: Math.round(Math.exp(logEstimate)),
+    lower: Math.round(Math.exp(logEstimate - margin)),
+    upper: Math.round(Math.exp(logEstimate + margin)),
+    complexSampleCount: input.complexId ? model.complexSampleCounts[input.complexId] ?? 0 : 0,
+  }
+}
+
+export function buildHedonicStockInput(params: {
+  complexId: string | null
+  floor: number | null
+  area: number | null
+  builtYm?: string | null
+  stationMinutes?: number | null
+  hasElevator?: boolean | null
+  condition?: ConditionStatus
+  now?: Date
+}): HedonicInput {
+  const contractYear = (params.now ?? new Date()).getFullYear()
+  const builtYear = parseYear(params.builtYm)
+  return {
+    complexId: params.complexId,
+    floor: params.floor,
+    area: params.area,
+    condition: params.condition ?? HEDONIC_BASE_CONDITION,
+    contractYear,
+    hasElevator: params.hasElevator ?? null,
+    builtAge: builtYear != null ? Math.max(contractYear - builtYear, 0) : null,
+    stationMinutes: params.stationMinutes ?? null,
+  }
+}
@@ -0,0 +1,80 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { buildHoldingProjection, calcIrr } from './holdingProjection.ts'
+import { DEFAULT_COST_PROFILE } from './costProfile.ts'
+import { calcPurchaseCosts } from './stockPricing.ts'
+
+test('calcIrr annualizes dated cash flows and needs both signs', () => {
+  const irr = calcIrr([{ day: 0, label: 'in', amount: -100 }, { day: 365, label: 'out', amount: 110 }])
+  assert.ok(irr != null && Math.abs(irr - 0.1) < 1e-6)
+  assert.equal(calcIrr([{ day: 0, label: 'in', amount: -100 }]), null)
+})
+
+test('buildHoldingProjection accounts for holding costs, interest and time to sell', () => {
+  const projection = buildHoldingProjection({
+    purchaseDate: '2026-01-10',
+    purchasePrice: 15_000_000,
+    salePrice: 33_000_000,
+    raise: 27_270_000,
+    area: 60,
+    renovationDays: 60,
+    sellDays: 120,
+    financingRate: 0.02,
+    monthlyHoldingCost: 20000,
+  })
+  assert.ok(projection)
+  assert.equal(projection.saleDate, '2026-07-09')
+  assert.equal(projection.holdingDays, 180)
+  const purchaseCosts = calcPurchaseCosts(15_000_000, 27_270_000, 60, DEFAULT_COST_PROFILE, { settlementDate: '2026-01-10' })
+  const acquisitionCost = purchaseCosts.brokerage + purchaseCosts.otherCost
+  assert.equal(projection.acquisitionCost, acquisitionCost)
+  assert.equal(projection.saleBrokerage, 0)
+  assert.equal(projection.renovationCost, 7920000)
+  assert.equal(projection.holdingCost, Math.round(20000 * 180 / (365 / 12)))
+  const outlay = 15_000_000 + acquisitionCost
+  assert.equal(projection.interestCost, Math.round((outlay * 180 + 7920000 * 120) * 0.02 / 365))
+  assert.equal(projection.invested, outlay + 7920000)
+  assert.equal(projection.netProfit, 33_000_000 - projection.invested - projection.holdingCost - projection.interestCost)
+  assert.equal(projection.roi, projection.netProfit / projection.invested)
+  assert.ok(projection.irr != null && projection.irr > (projection.roi ?? 0))
+
+  const slower = buildHoldingProjection({
+    purchaseDate: '2026-01-10',
+    purchasePrice: 15_000_000,
+    salePrice: 33_000_000,
+    raise: 27_270_000,
+    area: 60,
+    renovationDays: 60,
+    sellDays: 300,
+    financingRate: 0.02,
+    monthlyHoldingCost: 20000,
+  })
+  assert.ok(slower && slower.netProfit < projection.netProfit)
+  assert.ok(slower.irr != null && slower.irr < projection.irr)
+
+  const bothSides = buildHoldingProjection({
+    purchaseDate: '2026-01-10',
+    purchasePrice: 15_000_000,
+    salePrice: 33_000_000,
+    raise: 27_270_000,
+    area: 60,
+    renovationDays: 60,
+    sellDays: 120,
+    financingRate: 0.02,
+    monthlyHoldingCost: 20000,
+    profile: { ...DEFAULT_COST_PROFILE, brokerage: { ...DEFAULT_COST_PROFILE.brokerage, sides: 'both' } },
+  })
+  assert.ok(bothSides)
+  assert.equal(bothSides.saleBrokerage, 1155000)
+  assert.equal(bothSides.netProfit, projection.netProfit - 1155000)
+})
+
+test('buildHoldingProjection needs prices and a valid purchase date', () => {
+  const base = {
+    purchaseDate: '2026-01-10', purchasePrice: 1, salePrice: 1, raise: 0, area: 50,
+    renovationDays: 0, sellDays: 0, financingRate: 0, monthlyHoldingCost: 0,
+  }
+  assert.equal(buildHoldingProjection({ ...base, purchasePrice: 0 }), null)
+  assert.equal(buildHoldingProjection({ ...base, purchaseDate: '' }), null)
+})
@@ -0,0 +1,122 @@
+import { DEFAULT_COST_PROFILE, type CostProfile } from './costProfile.ts'
+import type { RenovationSpec } from './renovationEstimate.ts'
+import { calcPurchaseCosts, calcRenovationCost, calcSaleBrokerage } from './stockPricing.ts'
+
+export type HoldingProjectionInput = {
+  purchaseDate: string
+  purchasePrice: number
+  salePrice: number
+  raise: number
+  area: number
+  renovationDays: number
+  sellDays: number
+  financingRate: number
+  monthlyHoldingCost: number
+  builtYm?: string | null
+  renovation?: RenovationSpec | null
+  profile?: CostProfile
+}
+
+export type HoldingCashFlow = {
+  day: number
+  label: string
+  amount: number
+}
+
+export type HoldingProjection = {
+  saleDate: string
+  holdingDays: number
+  acquisitionCost: number
+  saleBrokerage: number
+  renovationCost: number
+  holdingCost: number
+  interestCost: number
+  invested: number
+  netProfit: number
+  roi: number | null
+  irr: number | null
+  cashFlows: HoldingCashFlow[]
+}
+
+export const DEFAULT_RENOVATION_DAYS = 60
+export const DEFAULT_SELL_DAYS = 90
+export const DEFAULT_FINANCING_RATE = 0.02
+
+const DAYS_PER_YEAR = 365
+const DAYS_PER_MONTH = DAYS_PER_YEAR / 12
+
+function addDays(date: string, days: number): string {
+  const base = new Date(`${date}T00:00:00Z`)
+  if (Number.isNaN(base.getTime())) return ''
+  base.setUTCDate(base.getUTCDate() + days)
+  return base.toISOString().slice(0, 10)
+}
+
+function npv(rate: number, cashFlows: HoldingCashFlow[]): number {
+  return cashFlows.reduce((sum, flow) => sum + flow.amount / (1 + rate) ** (flow.day / DAYS_PER_YEAR), 0)
+}
+
+// 日付つきキャッシュフローの年率IRR（XIRR相当）を二分法で求める。符号が変わらなければ null
+export function calcIrr(cashFlows: HoldingCashFlow[]): number | null {
+  if (!cashFlows.some((flow) => flow.amount < 0) || !cashFlows.some((flow) => flow.amount > 0)) return null
+  let low = -0.99
+  let high = 10
+  let lowValue = npv(low, cashFlows)
+  if (lowValue * npv(high, cashFlows) > 0) return null
+  for (let i = 0; i < 200; i += 1) {
+    const mid = (low + high) / 2
+    const midValue = npv(mid, cashFlows)
+    if (Math.abs(midValue) < 1e-6) return mid
+    if (lowValue * midValue < 0) {
+      high = mid
+    } else {
+      low = mid
+      lowValue = midValue
+    }
+  }
+  return (low + high) / 2
+}
+
+// 仕入時に物件代金と諸費用、リノベ完了時に工事費を支払い、売却時に仲介手数料・管理費等・借入利息をまとめて精算する前提で試算する
+export function buildHoldingProjection(input: HoldingProjectionInput): HoldingProjection | null {
+  const profile = input.profile ?? DEFAULT_COST_PROFILE
+  if (input.purchasePrice <= 0 || input.salePrice <= 0) return null
+  const renovationDays = Math.max(Math.round(input.renovationDays), 0)
+  const holdingDays = renovationDays + Math.max(Math.round(input.sellDays), 0)
+  const saleDate = addDays(input.purchaseDate, holdingDays)
+  if (!saleDate) return null
+
+  const context = { builtYm: input.builtYm, settlementDate: input.purchaseDate, renovation: input.renovation }
+  const purchaseCosts = calcPurchaseCosts(input.purchasePrice, input.raise, input.area, profile, context)
+  const acquisitionCost = purchaseCosts.brokerage + purchaseCosts.otherCost
+  const saleBrokerage = calcSaleBrokerage(input.salePrice, profile)
+  const renovationCost = calcRenovationCost(input.area, profile, context)
+  const holdingCost = Math.round(input.monthlyHoldingCost * holdingDays / DAYS_PER_MONTH)
+  const purchaseOutlay = input.purchasePrice + acquisitionCost
+  const interestCost = Math.round(
+    (purchaseOutlay * holdingDays + renovationCost * (holdingDays - renovationDays)) * input.financingRate / DAYS_PER_YEAR,
+  )
+  const invested = purchaseOutlay + renovationCost
+  const netProfit = input.salePrice - saleBrokerage - invested - holdingCost - interestCost
+
+  const cashFlows: HoldingCashFlow[] = [
+    { day: 0, label: '仕入（物件代金・諸費用）', amount: -purchaseOutlay },
+    { day: renovationDays, label: 'リノベ工事費', amount: -renovationCost },
+    { day: holdingDays, label: '売却（仲介手数料・管理費等・利息控除後）', amount: input.salePrice - saleBrokerage - holdingCost - interestCost },
+  ]
+
+  return {
+    saleDate,
+    holdingDays,
+    acquisitionCost,
+    saleBrokerage,
+    renovationCost,
+    holdingCost,
+    interestCost,
+    invested,
+    netProfit,
+    roi: invested > 0 ? netProfit / invested : null,
+    irr: holdingDays > 0 ? calcIrr(cashFlows) : null,
+    cashFlows,
+  }
+}
@@ -0,0 +1,113 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { mapComplexesToCards } from './complexCards.ts'
+import {
+  buildEntryExportRows,
+  COMPLEX_EXPORT_COLUMNS,
+  ENTRY_EXPORT_COLUMNS,
+  STOCK_EXPORT_COLUMNS,
+} from './listExports.ts'
+import { mapStockRowToCard } from './stockCards.ts'
+import { buildTableCsv } from './tableExport.ts'
+
+function toRecord<T>(columns: { key: string; value: (row: T) => unknown }[], row: T): Record<string, unknown> {
+  return Object.fromEntries(columns.map((column) => [column.key, column.value(row)]))
+}
+
+test('export schemas keep unique keys', () => {
+  for (const columns of [ENTRY_EXPORT_COLUMNS, STOCK_EXPORT_COLUMNS, COMPLEX_EXPORT_COLUMNS]) {
+    const keys = columns.map((column) => column.key)
+    assert.equal(new Set(keys).size, keys.length)
+  }
+})
+
+test('entry export derives price, unit price, elapsed days and condition label', () => {
+  const [row] = buildEntryExportRows(
+    { name: 'テスト団地', pref: '大阪府', city: '堺市', town: '南区', stationName: '泉ケ丘', stationAccessType: '徒歩', stationMinutes: 9, unitCount: 120 },
+    [{
+      id: 'entry-1',
+      contract_kind: 'MAX',
+      floor: 3,
+      area_sqm: 50,
+      contract_price: null,
+      unit_price: null,
+      max_price: 10_000_000,
+      past_min: null,
+      built_month: '1975-04-01',
+      building_no: 2,
+      condition_status: 'PARTIAL_REFORM',
+      has_elevator: false,
+      reins_registered_date: '2026-01-01',
+      contract_date: '2026-02-15',
+    }],
+  )
+  const record = toRecord(ENTRY_EXPORT_COLUMNS, row)
+  assert.equal(record.address, '大阪府 堺市 南区')
+  assert.equal(record.contract_price, 10_000_000)
+  assert.equal(record.unit_price, 200_000)
+  assert.equal(record.elapsed_days, 45)
+  assert.equal(record.built_month, '1975-04')
+  assert.equal(record.condition_status, '一部リフォーム')
+})
+
+test('stock and complex exports include target values and evaluation sub-scores', () => {
+  const stock = mapStockRowToCard({
+    id: 'stock-1',
+    floor: 4,
+    area_sqm: 50,
+    layout: '3DK',
+    registered_date: '2026-03-01',
+    contract_date: null,
+    list_price: 9_000_000,
+    target_unit_price: 200_000,
+    target_close_price: null,
+    buy_target_price: 6_000_000,
+    raise_price: 1_500_000,
+    base_unit_price: null,
+    coef_total: null,
+    floor_coef: null,
+    status: '内見',
+  }, new Date('2026-03-11T00:00:00Z'))
+  const stockRecord = toRecord(STOCK_EXPORT_COLUMNS, { ...stock, complexName: 'テスト団地' })
+  assert.equal(stockRecord.target_unit, 200_000)
+  assert.equal(stockRecord.target_close, 10_000_000)
+  assert.equal(stockRecord.buy_target, 6_000_000)
+  assert.equal(stockRecord.days, 10)
+  assert.equal(stockRecord.target_close_low, null)
+
+  const [card] = mapComplexesToCards(
+    [{
+      id: 'complex-1',
+      name: 'テスト団地',
+      pref: '大阪府',
+      city: null,
+      town: null,
+      built_ym: null,
+      built_age: null,
+      station_name: null,
+      station_access_type: null,
+      station_minutes: null,
+      unit_count: 80,
+      has_elevator: null,
+      floor_coef_pattern: null,
+      complex_evaluations: [{
+        id: 'eval-1',
+        total_score: 72,
+        factors: { market: { deals: { score: 10 }, rentDemand: { score: 5 } }, location: { walk: { score: 8 } } },
+        created_at: '2026-01-01T00:00:00Z',
+      }],
+    }],
+    [],
+    [{ complex_id: 'complex-1', registered_date: '2026-03-01' }],
+    new Date('2026-03-21T00:00:00Z'),
+  )
+  const complexRecord = toRecord(COMPLEX_EXPORT_COLUMNS, { ...card, floorPatternLabel: '標準' })
+  assert.equal(complexRecord.score, 72)
+  assert.equal(complexRecord.score_market, 15)
+  assert.equal(complexRecord.score_location, 8)
+  assert.equal(complexRecord.score_building, null)
+  assert.equal(complexRecord.stock_days_oldest, 20)
+  assert.equal(complexRecord.floor_pattern, '標準')
+  assert.equal(buildTableCsv(COMPLEX_EXPORT_COLUMNS, []).split('\r\n')[0], '\uFEFF' + COMPLEX_EXPORT_COLUMNS.map((column) => column.label).join(','))
+})
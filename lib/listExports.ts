@@ -0,0 +1,137 @@
+import type { Card } from './complexCards.ts'
+import { diffDays, effectivePrice, effectiveUnitPrice } from './entryMath.ts'
+import { CONDITION_STATUS_OPTIONS } from './referenceValue.ts'
+import type { StockCard } from './stockCards.ts'
+import type { TableExportColumn } from './tableExport.ts'
+
+export type EntryExportComplex = {
+  name: string
+  pref: string | null
+  city: string | null
+  town: string | null
+  stationName: string | null
+  stationAccessType: string | null
+  stationMinutes: number | null
+  unitCount: number | null
+}
+
+export type EntryExportEntry = {
+  id: string
+  contract_kind: string | null
+  floor: number | null
+  area_sqm: number | null
+  contract_price: number | null
+  unit_price: number | null
+  max_price: number | null
+  past_min: number | null
+  built_month: string | null
+  building_no: number | null
+  condition_status: string | null
+  has_elevator: boolean | null
+  reins_registered_date: string | null
+  contract_date: string | null
+  source?: string | null
+}
+
+export type EntryExportRow = {
+  complex: EntryExportComplex | null
+  entry: EntryExportEntry
+}
+
+export type StockExportRow = StockCard & { complexName: string }
+
+export type ComplexExportRow = Card & { floorPatternLabel?: string | null }
+
+function conditionLabel(value: string | null): string | null {
+  if (!value) return null
+  return CONDITION_STATUS_OPTIONS.find((option) => option.value === value)?.label ?? value
+}
+
+function toMonth(value: string | null): string | null {
+  return value ? value.slice(0, 7) : null
+}
+
+function roundOrNull(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : null
+}
+
+export function buildEntryExportRows(complex: EntryExportComplex | null, entries: EntryExportEntry[]): EntryExportRow[] {
+  return entries.map((entry) => ({ complex, entry }))
+}
+
+export const ENTRY_EXPORT_COLUMNS: TableExportColumn<EntryExportRow>[] = [
+  { key: 'entry_id', label: '成約ID', value: ({ entry }) => entry.id },
+  { key: 'contract_kind', label: 'ラベル', value: ({ entry }) => entry.contract_kind },
+  { key: 'complex_name', label: '団地名', value: ({ complex }) => complex?.name ?? null },
+  { key: 'address', label: '所在地', value: ({ complex }) => (complex ? [complex.pref, complex.city, complex.town].filter(Boolean).join(' ') : null) },
+  { key: 'station_name', label: '最寄り駅', value: ({ complex }) => complex?.stationName ?? null },
+  { key: 'station_access', label: 'アクセス', value: ({ complex }) => complex?.stationAccessType ?? null },
+  { key: 'station_minutes', label: '駅からの分数', value: ({ complex }) => complex?.stationMinutes ?? null },
+  { key: 'unit_count', label: '総戸数', value: ({ complex }) => complex?.unitCount ?? null },
+  { key: 'has_elevator', label: 'エレベーター', value: ({ entry }) => entry.has_elevator },
+  { key: 'built_month', label: '築年月', value: ({ entry }) => toMonth(entry.built_month) },
+  { key: 'building_no', label: '棟番号', value: ({ entry }) => entry.building_no },
+  { key: 'floor', label: '階数', value: ({ entry }) => entry.floor },
+  { key: 'area_sqm', label: '㎡数', value: ({ entry }) => entry.area_sqm },
+  { key: 'contract_price', label: '成約価格', value: ({ entry }) => effectivePrice(entry) },
+  { key: 'unit_price', label: '㎡単価', value: ({ entry }) => effectiveUnitPrice(entry) },
+  { key: 'reins_registered_date', label: 'レインズ登録年月日', value: ({ entry }) => entry.reins_registered_date },
+  { key: 'contract_date', label: 'レインズ成約年月日', value: ({ entry }) => entry.contract_date },
+  { key: 'elapsed_days', label: '経過日数', value: ({ entry }) => diffDays(entry.reins_registered_date, entry.contract_date) },
+  { key: 'condition_status', label: '状態', value: ({ entry }) => conditionLabel(entry.condition_status) },
+  { key: 'source', label: '出典', value: ({ entry }) => entry.source ?? 'REINS' },
+]
+
+export const STOCK_EXPORT_COLUMNS: TableExportColumn<StockExportRow>[] = [
+  { key: 'stock_id', label: '在庫ID', value: (row) => row.id },
+  { key: 'complex_name', label: '団地名', value: (row) => row.complexName },
+  { key: 'floor', label: '階数', value: (row) => row.floor },
+  { key: 'area_sqm', label: '㎡数', value: (row) => row.area || null },
+  { key: 'layout', label: '間取り', value: (row) => row.layout || null },
+  { key: 'registered_date', label: '登録日', value: (row) => row.reg || null },
+  { key: 'contract_date', label: '成約日', value: (row) => row.contract || null },
+  { key: 'status', label: 'ステータス', value: (row) => row.status },
+  { key: 'list_price', label: '販売価格', value: (row) => row.price || null },
+  { key: 'unit_price', label: '㎡単価', value: (row) => row.unit || null },
+  { key: 'target_unit', label: '目標単価', value: (row) => row.targetUnit || null },
+  { key: 'target_close', label: '目標成約価格', value: (row) => row.targetPrice || null },
+  { key: 'target_close_low', label: '目標成約価格（下限）', value: (row) => roundOrNull(row.band?.low.targetClose) },
+  { key: 'target_close_high', label: '目標成約価格（上限）', value: (row) => roundOrNull(row.band?.high.targetClose) },
+  { key: 'buy_target', label: '買付目標額', value: (row) => row.buyTarget || null },
+  { key: 'buy_target_low', label: '買付目標額（下限）', value: (row) => roundOrNull(row.band?.low.buyTarget) },
+  { key: 'buy_target_high', label: '買付目標額（上限）', value: (row) => roundOrNull(row.band?.high.buyTarget) },
+  { key: 'raise', label: 'レイズ', value: (row) => row.raise || null },
+  { key: 'days', label: '経過日数', value: (row) => row.days },
+  { key: 'renovated', label: 'リノベ有無', value: (row) => row.renovated },
+  { key: 'reference_count', label: '成約事例数', value: (row) => row.band?.count ?? null },
+  { key: 'reference_thin', label: '根拠薄', value: (row) => row.band?.thin ?? null },
+  { key: 'cost_profile_version', label: '原価モデル', value: (row) => row.costProfileVersion },
+]
+
+export const COMPLEX_EXPORT_COLUMNS: TableExportColumn<ComplexExportRow>[] = [
+  { key: 'complex_id', label: '団地ID', value: (row) => row.id },
+  { key: 'name', label: '団地名', value: (row) => row.name },
+  { key: 'pref', label: '都道府県', value: (row) => row.pref || null },
+  { key: 'address', label: '所在地', value: (row) => row.addr || null },
+  { key: 'station', label: '最寄り駅', value: (row) => row.station || null },
+  { key: 'built', label: '築年月', value: (row) => row.built || null },
+  { key: 'built_age', label: '築年数', value: (row) => row.builtAge },
+  { key: 'units', label: '総戸数', value: (row) => row.units || null },
+  { key: 'has_elevator', label: 'エレベーター', value: (row) => row.hasElevator },
+  { key: 'floor_pattern', label: '階数効用', value: (row) => row.floorPatternLabel || row.floorPattern || null },
+  { key: 'score', label: '総合スコア', value: (row) => row.score },
+  { key: 'score_market', label: '市場性', value: (row) => row.market },
+  { key: 'score_location', label: '立地', value: (row) => row.loc },
+  { key: 'score_building', label: '建物', value: (row) => row.bld },
+  { key: 'score_plus', label: 'その他', value: (row) => row.plus },
+  { key: 'area_sqm', label: '㎡数', value: (row) => row.area },
+  { key: 'max_price', label: '過去MAX', value: (row) => row.maxPrice },
+  { key: 'max_unit_price', label: '過去MAX ㎡単価', value: (row) => row.maxUnitPrice },
+  { key: 'mini_price', label: '過去MINI', value: (row) => row.miniPrice },
+  { key: 'mini_unit_price', label: '過去MINI ㎡単価', value: (row) => row.miniUnitPrice },
+  { key: 'mini_elapsed_days', label: '過去MINI 経過日数', value: (row) => row.miniElapsedDays },
+  { key: 'stock_count', label: '現在在庫', value: (row) => row.stockCount },
+  { key: 'stock_days_oldest', label: '最古在庫の経過日数', value: (row) => row.stockDaysOldest },
+  { key: 'stock_alert_days', label: 'アラート基準日数', value: (row) => row.stockAlertDays },
+  { key: 'stock_timing_alert', label: '適正仕入れタイミング', value: (row) => row.showStockTimingAlert },
+]
@@ -0,0 +1,93 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { parseCsvText } from './entryCsvImport.ts'
+import {
+  buildMlitPayloads,
+  buildMlitPreview,
+  findMlitColumns,
+  isMlitRowImportable,
+  listMissingMlitColumns,
+  parseMlitBuiltYear,
+  parseMlitPeriod,
+  type MlitComplexProfile,
+} from './mlitImport.ts'
+
+const HEADER = '種類,価格情報区分,都道府県名,市区町村名,地区名,取引価格（総額）,間取り,面積（㎡）,延床面積（㎡）,建築年,取引時期,改装'
+
+const complexes: MlitComplexProfile[] = [
+  { id: 'c1', name: '泉北槇塚台団地', pref: '大阪府', city: '堺市南区', town: '槇塚台2丁目', builtYm: '1975-04' },
+  { id: 'c2', name: '槇塚台第二団地', pref: '大阪府', city: '堺市南区', town: '槇塚台3丁目', builtYm: '1981-10' },
+  { id: 'c3', name: '千里団地', pref: '大阪府', city: '吹田市', town: '津雲台', builtYm: '1975-01' },
+]
+
+test('MLIT headers, build years and quarters are read from the official layout', () => {
+  const columns = findMlitColumns(HEADER.split(','))
+  assert.equal(columns.area, 7)
+  assert.equal(columns.price, 5)
+  assert.equal(columns.period, 10)
+  assert.deepEqual(listMissingMlitColumns(findMlitColumns(['種類', '市区町村名'])), ['取引価格（総額）', '面積（㎡）'])
+  assert.equal(parseMlitBuiltYear('昭和50年'), 1975)
+  assert.equal(parseMlitBuiltYear('1981年'), 1981)
+  assert.equal(parseMlitBuiltYear('戦前'), null)
+  assert.equal(parseMlitPeriod('2023年第1四半期'), '2023-02-15')
+  assert.equal(parseMlitPeriod('令和5年第4四半期'), '2023-11-15')
+  assert.equal(parseMlitPeriod('不明'), null)
+})
+
+test('buildMlitPreview matches complexes by address and build year and flags duplicates', () => {
+  const [header, ...rows] = parseCsvText([
+    HEADER,
+    '中古マンション等,成約価格情報,大阪府,堺市南区,槇塚台,9800000,3DK,50,,1975年,2023年第1四半期,改装済み',
+    '中古マンション等,成約価格情報,大阪府,堺市南区,槇塚台,7000000,3DK,45,,昭和56年,2023年第2四半期,未改装',
+    '中古マンション等,成約価格情報,大阪府,堺市南区,槇塚台,6500000,2DK,40,,1990年,2023年第2四半期,',
+    '宅地(土地と建物),成約価格情報,大阪府,吹田市,津雲台,30000000,,120,,1975年,2023年第3四半期,',
+    '中古マンション等,成約価格情報,大阪府,堺市南区,槇塚台,9800000,3DK,50,,1975年,2023年第1四半期,改装済み',
+  ].join('\n'))
+  const columns = findMlitColumns(header)
+  const existing = [{ complex_id: 'c2', contract_date: '2023-05-15', area_sqm: 45, contract_price: 7_000_000 }]
+  const preview = buildMlitPreview({ rows, columns, complexes, existing, overrides: { 2: { floor: 3 } } })
+
+  assert.equal(preview[0].complexId, 'c1')
+  assert.equal(preview[0].contractDate, '2023-02-15')
+  assert.equal(preview[0].unitPrice, 196_000)
+  assert.equal(preview[0].condition, 'PARTIAL_REFORM')
+  assert.equal(preview[0].floor, 3)
+  assert.equal(isMlitRowImportable(preview[0]), true)
+
+  assert.equal(preview[1].complexId, 'c2')
+  assert.equal(preview[1].duplicate, true)
+  assert.equal(preview[2].complexId, null)
+  assert.deepEqual(preview[2].candidateIds, [])
+  assert.match(preview[3].errors[0], /中古マンション以外/)
+  assert.equal(preview[4].duplicate, true)
+
+  const reassigned = buildMlitPreview({ rows: rows.slice(0, 1), columns, complexes, existing: [], overrides: { 2: { complexId: '' } } })
+  assert.equal(reassigned[0].complexId, null)
+
+  const payloads = buildMlitPayloads(preview, complexes, 'user-1')
+  assert.equal(payloads.length, 1)
+  assert.deepEqual(
+    { source: payloads[0].source, complex_id: payloads[0].complex_id, estate_name: payloads[0].estate_name, floor: payloads[0].floor, contract_price: payloads[0].contract_price },
+    { source: 'MLIT', complex_id: 'c1', estate_name: '泉北槇塚台団地', floor: 3, contract_price: 9_800_000 },
+  )
+  assert.deepEqual(Object.keys(payloads[0]).sort(), [
+    'area_sqm',
+    'building_no',
+    'built_month',
+    'complex_id',
+    'condition_status',
+    'contract_date',
+    'contract_kind',
+    'contract_price',
+    'created_by',
+    'estate_name',
+    'floor',
+    'has_elevator',
+    'max_price',
+    'past_min',
+    'reins_registered_date',
+    'source',
+    'unit_price',
+  ])
+})
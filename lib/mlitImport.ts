@@ -0,0 +1,298 @@
+import { calcUnitPrice } from './entryMath.ts'
+import { parseJapaneseNumber } from './entryCsvImport.ts'
+import type { ConditionStatus, ReferenceSource } from './referenceValue.ts'
+
+export const MLIT_SOURCE: ReferenceSource = 'MLIT'
+// 国交省データの建築年は年単位なので、団地の築年と前後1年までを同じ建物とみなす
+export const MLIT_BUILT_YEAR_TOLERANCE = 1
+
+export type MlitCsvField =
+  | 'kind'
+  | 'pref'
+  | 'city'
+  | 'district'
+  | 'price'
+  | 'area'
+  | 'layout'
+  | 'builtYear'
+  | 'period'
+  | 'renovation'
+
+export type MlitCsvColumns = Record<MlitCsvField, number | null>
+
+export type MlitComplexProfile = {
+  id: string
+  name: string
+  pref: string | null
+  city: string | null
+  town: string | null
+  builtYm: string | null
+}
+
+export type MlitExistingRow = {
+  complex_id: string | null
+  contract_date: string | null
+  area_sqm: number | null
+  contract_price: number | null
+}
+
+// layout は確認用の表示のみ（estate_entries に間取りの列はない）
+export type MlitPreviewRow = {
+  line: number
+  address: string
+  builtYear: number | null
+  period: string
+  contractDate: string | null
+  price: number | null
+  area: number | null
+  unitPrice: number | null
+  layout: string | null
+  condition: ConditionStatus | null
+  floor: number | null
+  complexId: string | null
+  candidateIds: string[]
+  errors: string[]
+  warnings: string[]
+  duplicate: boolean
+}
+
+// 行ごとの手修正。complexId が '' のときはその行を取り込まない
+export type MlitRowOverride = {
+  complexId?: string
+  floor?: number | null
+}
+
+export const MLIT_CSV_FIELDS: { key: MlitCsvField; label: string; aliases: string[]; required?: boolean }[] = [
+  { key: 'kind', label: '種類', aliases: ['種類'] },
+  { key: 'pref', label: '都道府県名', aliases: ['都道府県名'] },
+  { key: 'city', label: '市区町村名', aliases: ['市区町村名'], required: true },
+  { key: 'district', label: '地区名', aliases: ['地区名'] },
+  { key: 'price', label: '取引価格（総額）', aliases: ['取引価格（総額）'], required: true },
+  { key: 'area', label: '面積（㎡）', aliases: ['面積（㎡）'], required: true },
+  { key: 'layout', label: '間取り', aliases: ['間取り'] },
+  { key: 'builtYear', label: '建築年', aliases: ['建築年'] },
+  { key: 'period', label: '取引時期', aliases: ['取引時期', '取引時点'] },
+  { key: 'renovation', label: '改装', aliases: ['改装'] },
+]
+
+export const MLIT_RENOVATION_CONDITIONS: Record<string, ConditionStatus> = {
+  改装済み: 'PARTIAL_REFORM',
+  未改装: 'OWNER_OCCUPIED',
+}
+
+const ERA_BASE_YEARS: Record<string, number> = {
+  令和: 2018,
+  平成: 1988,
+  昭和: 1925,
+}
+
+function normalizeText(value: string | null | undefined): string {
+  return (value ?? '').normalize('NFKC').replace(/\s/g, '')
+}
+
+function normalizePrefName(value: string | null | undefined): string {
+  return normalizeText(value).replace(/(都|道|府|県)$/u, '')
+}
+
+// 「槇塚台2丁目」「槇塚台二丁目3-4」を「槇塚台」に寄せる
+function stripBlockNumber(value: string): string {
+  return value.replace(/[0-9〇一二三四五六七八九十]+丁目.*$/u, '').replace(/[0-9-]+$/u, '')
+}
+
+export function findMlitColumns(headers: string[]): MlitCsvColumns {
+  const normalized = headers.map(normalizeText)
+  const columns = {} as MlitCsvColumns
+  for (const field of MLIT_CSV_FIELDS) {
+    // 「延床面積（㎡）」に「面積（㎡）」が当たらないよう、完全一致を優先する
+    let index = -1
+    for (const alias of field.aliases.map(normalizeText)) {
+      index = normalized.indexOf(alias)
+      if (index < 0) index = normalized.findIndex((header) => header.startsWith(alias))
+      if (index >= 0) break
+    }
+    columns[field.key] = index >= 0 ? index : null
+  }
+  return columns
+}
+
+export function listMissingMlitColumns(columns: MlitCsvColumns): string[] {
+  return MLIT_CSV_FIELDS.filter((field) => field.required && columns[field.key] == null).map((field) => field.label)
+}
+
+function parseEraYear(era: string | undefined, year: string): number {
+  const value = year === '元' ? 1 : Number(year)
+  return era ? ERA_BASE_YEARS[era] + value : value
+}
+
+// 「1975年」「昭和50年」を西暦にする。「戦前」などは null
+export function parseMlitBuiltYear(value: string): number | null {
+  const match = normalizeText(value).match(/^(令和|平成|昭和)?(\d{1,4}|元)年/)
+  return match ? parseEraYear(match[1], match[2]) : null
+}
+
+// 取引時期は四半期単位なので、四半期の中央の月の15日を成約日として扱う
+export function parseMlitPeriod(value: string): string | null {
+  const text = normalizeText(value)
+  const quarter = text.match(/^(令和|平成|昭和)?(\d{1,4}|元)年第([1-4])四半期/)
+  if (quarter) {
+    const month = Number(quarter[3]) * 3 - 1
+    return `${parseEraYear(quarter[1], quarter[2])}-${String(month).padStart(2, '0')}-15`
+  }
+  const monthly = text.match(/^(令和|平成|昭和)?(\d{1,4}|元)年(\d{1,2})月/)
+  if (monthly && Number(monthly[3]) >= 1 && Number(monthly[3]) <= 12) {
+    return `${parseEraYear(monthly[1], monthly[2])}-${monthly[3].padStart(2, '0')}-15`
+  }
+  return null
+}
+
+function toBuiltYear(builtYm: string | null): number | null {
+  const year = Number((builtYm ?? '').slice(0, 4))
+  return Number.isFinite(year) && year > 0 ? year : null
+}
+
+// 所在地（都道府県・市区町村・地区）と建築年が合う団地を、築年の差が小さい順に返す
+export function findMlitComplexCandidates(
+  row: { pref: string; city: string; district: string; builtYear: number | null },
+  complexes: MlitComplexProfile[],
+): { id: string; yearDiff: number | null }[] {
+  const pref = normalizePrefName(row.pref)
+  const mlitAddress = normalizeText(row.city) + normalizeText(row.district)
+  if (!normalizeText(row.city)) return []
+
+  return complexes
+    .flatMap((complex) => {
+      const complexPref = normalizePrefName(complex.pref)
+      if (pref && complexPref && pref !== complexPref) return []
+      const city = normalizeText(complex.city)
+      const town = stripBlockNumber(normalizeText(complex.town))
+      if (!city) return []
+      const sameAddress = town
+        ? (city + town).startsWith(mlitAddress) || mlitAddress.startsWith(city + town)
+        : city === normalizeText(row.city)
+      if (!sameAddress) return []
+      const builtYear = toBuiltYear(complex.builtYm)
+      const yearDiff = builtYear != null && row.builtYear != null ? Math.abs(builtYear - row.builtYear) : null
+      if (yearDiff != null && yearDiff > MLIT_BUILT_YEAR_TOLERANCE) return []
+      return [{ id: complex.id, yearDiff }]
+    })
+    .sort((a, b) => (a.yearDiff ?? Number.POSITIVE_INFINITY) - (b.yearDiff ?? Number.POSITIVE_INFINITY))
+}
+
+function buildDuplicateKey(complexId: string | null, contractDate: string | null, area: number | null, price: number | null): string | null {
+  if (!complexId || !contractDate || area == null || price == null) return null
+  return [complexId, contractDate.slice(0, 10), area.toFixed(2), price].join('|')
+}
+
+export function buildMlitPreview(params: {
+  rows: string[][]
+  columns: MlitCsvColumns
+  complexes: MlitComplexProfile[]
+  existing: MlitExistingRow[]
+  overrides?: Record<number, MlitRowOverride>
+  firstLine?: number
+}): MlitPreviewRow[] {
+  const { rows, columns, complexes, existing, overrides = {}, firstLine = 2 } = params
+  const existingKeys = new Set(
+    existing
+      .map((row) => buildDuplicateKey(row.complex_id, row.contract_date, row.area_sqm, row.contract_price))
+      .filter((key): key is string => key != null),
+  )
+  const fileKeys = new Set<string>()
+
+  return rows.map((cells, index) => {
+    const line = firstLine + index
+    const cell = (field: MlitCsvField) => {
+      const column = columns[field]
+      return column == null ? '' : (cells[column] ?? '').normalize('NFKC').trim()
+    }
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    const kind = cell('kind')
+    if (kind && !kind.includes('マンション')) errors.push(`中古マンション以外の取引です（${kind}）`)
+    const price = parseJapaneseNumber(cell('price'))
+    if (price == null || price <= 0) errors.push(`取引価格を読み取れません（${cell('price') || '空欄'}）`)
+    const areaText = cell('area')
+    const area = parseJapaneseNumber(areaText.replace(/以上$/, ''))
+    if (area == null || area <= 0) errors.push(`面積を読み取れません（${areaText || '空欄'}）`)
+    else if (areaText.endsWith('以上')) warnings.push(`面積が「${areaText}」のため下限値で取り込みます`)
+    const builtYear = parseMlitBuiltYear(cell('builtYear'))
+    if (!builtYear) warnings.push(`建築年を読み取れないため所在地だけで照合します（${cell('builtYear') || '空欄'}）`)
+    const contractDate = parseMlitPeriod(cell('period'))
+    if (!contractDate) warnings.push(`取引時期を読み取れません（${cell('period') || '空欄'}）`)
+    const renovation = cell('renovation')
+    const condition = MLIT_RENOVATION_CONDITIONS[renovation] ?? null
+    if (!condition) warnings.push('改装の有無が不明なため状態は空欄にします')
+
+    const candidates = findMlitComplexCandidates(
+      { pref: cell('pref'), city: cell('city'), district: cell('district'), builtYear },
+      complexes,
+    )
+    const override = overrides[line]
+    let complexId: string | null = null
+    if (override?.complexId !== undefined) {
+      complexId = override.complexId || null
+    } else if (candidates.length === 1 || (candidates.length > 1 && candidates[0].yearDiff !== candidates[1].yearDiff)) {
+      complexId = candidates[0].id
+    } else if (candidates.length > 1) {
+      warnings.push('該当する団地が複数あります。団地を選んでください')
+    }
+    const floor = override?.floor ?? null
+    if (complexId && floor == null) warnings.push('階数がないため参考値表（階×状態）には入りません')
+
+    const key = errors.length === 0 ? buildDuplicateKey(complexId, contractDate, area, price) : null
+    const duplicate = key != null && (existingKeys.has(key) || fileKeys.has(key))
+    if (key) fileKeys.add(key)
+
+    const layout = cell('layout')
+    return {
+      line,
+      address: [cell('pref'), cell('city'), cell('district')].filter(Boolean).join(' '),
+      builtYear,
+      period: cell('period'),
+      contractDate,
+      price,
+      area,
+      unitPrice: calcUnitPrice(price, area),
+      layout: layout ? layout.toUpperCase() : null,
+      condition,
+      floor,
+      complexId,
+      candidateIds: candidates.map((candidate) => candidate.id),
+      errors,
+      warnings,
+      duplicate,
+    }
+  })
+}
+
+export function isMlitRowImportable(row: MlitPreviewRow): boolean {
+  return row.errors.length === 0 && !row.duplicate && row.complexId != null
+}
+
+export function buildMlitPayloads(
+  rows: MlitPreviewRow[],
+  complexes: { id: string; name: string }[],
+  userId: string,
+): Record<string, unknown>[] {
+  const names = new Map(complexes.map((complex) => [complex.id, complex.name]))
+  return rows.filter(isMlitRowImportable).map((row) => ({
+    created_by: userId,
+    source: MLIT_SOURCE,
+    estate_name: names.get(row.complexId ?? '') ?? null,
+    complex_id: row.complexId,
+    has_elevator: null,
+    built_month: null,
+    building_no: null,
+    floor: row.floor,
+    contract_price: row.price,
+    max_price: null,
+    past_min: null,
+    area_sqm: row.area,
+    unit_price: row.unitPrice,
+    reins_registered_date: null,
+    contract_date: row.contractDate,
+    condition_status: row.condition,
+    contract_kind: null,
+  }))
+}
@@ -0,0 +1,46 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { buildStockBrokerFields, formatMysokuValue, listMysokuFields, parseMysokuText } from './mysokuExtract.ts'
+
+test('parseMysokuText picks price, size, floor, layout, build month, fees and broker contact', () => {
+  const text = [
+    '○○団地 3号棟',
+    '販売価格　１，２８０万円',
+    '専有面積 65.52㎡（壁芯）　間取り 3ＬＤＫ',
+    '所在階 ３階 / ５階建',
+    '築年月 昭和50年4月',
+    '管理費 8,500円/月　修繕積立金 12,000円/月',
+    '商号 株式会社サンプル不動産 TEL 06-1234-5678',
+    '担当 山田 mail: yamada@example.co.jp',
+  ].join('\n')
+
+  const fields = parseMysokuText(text)
+  assert.deepEqual(fields, {
+    price: 12_800_000,
+    area: 65.52,
+    floor: 3,
+    layout: '3LDK',
+    builtMonth: '1975-04',
+    mgmtFeeMonthly: 8500,
+    brokerName: '株式会社サンプル不動産',
+    brokerTel: '06-1234-5678',
+    brokerPerson: '山田',
+    brokerEmail: 'yamada@example.co.jp',
+  })
+  assert.equal(formatMysokuValue('price', fields), '12,800,000円')
+  assert.equal(formatMysokuValue('mgmtFeeMonthly', fields), '8,500円/月')
+  assert.deepEqual(buildStockBrokerFields({ ...fields, brokerPerson: null }), {
+    broker_name: '株式会社サンプル不動産',
+    broker_tel: '06-1234-5678',
+    broker_email: 'yamada@example.co.jp',
+  })
+})
+
+test('parseMysokuText leaves unreadable fields empty', () => {
+  const fields = parseMysokuText('価格 2,980万円\n4階部分\n1990年10月築')
+  assert.equal(fields.price, 29_800_000)
+  assert.equal(fields.floor, 4)
+  assert.equal(fields.builtMonth, '1990-10')
+  assert.deepEqual(listMysokuFields(fields), ['price', 'floor', 'builtMonth'])
+})
@@ -0,0 +1,134 @@
+import { parseEntryCsvPrice, parseJapaneseDate, parseJapaneseNumber } from './entryCsvImport.ts'
+import { extractPdfText } from './pdfText.ts'
+
+export type MysokuFields = {
+  price: number | null
+  area: number | null
+  floor: number | null
+  layout: string | null
+  builtMonth: string | null
+  mgmtFeeMonthly: number | null
+  brokerName: string | null
+  brokerTel: string | null
+  brokerPerson: string | null
+  brokerEmail: string | null
+}
+
+export type MysokuField = keyof MysokuFields
+
+export const MYSOKU_FIELD_LABELS: Record<MysokuField, string> = {
+  price: '価格',
+  area: '専有面積',
+  floor: '所在階',
+  layout: '間取り',
+  builtMonth: '築年月',
+  mgmtFeeMonthly: '管理費（月額）',
+  brokerName: '仲介会社',
+  brokerTel: '電話番号',
+  brokerPerson: '担当者',
+  brokerEmail: 'メール',
+}
+
+const AMOUNT = '((?:\\d[\\d,.]*億)?(?:\\d[\\d,.]*万)?[\\d,]*)円'
+const TEL = '(0\\d{1,4}-\\d{1,4}-\\d{3,4})'
+const COMPANY_SUFFIX = /(株式会社|有限会社|合同会社|\(株\)|\(有\))/
+
+function firstMatch(text: string, patterns: RegExp[]): RegExpMatchArray | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern)
+    if (match) return match
+  }
+  return null
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (!value) return null
+  const parsed = Number(value.replace(/,/g, ''))
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+// 「1975年4月」「昭和50年4月築」「S50.4」を YYYY-MM にする
+function parseBuiltMonth(text: string): string | null {
+  const match = firstMatch(text, [
+    /(?:築年月|建築年月|完成年月|竣工年月|竣工)[^\d令平昭RHS\n]{0,6}(令和|平成|昭和|[RHS])?\s*(\d{1,4}|元)\s*[年/.]\s*(\d{1,2})\s*月?/,
+    /(令和|平成|昭和)?(\d{1,4}|元)年(\d{1,2})月\s*築/,
+  ])
+  if (!match) return null
+  return parseJapaneseDate(`${match[1] ?? ''}${match[2]}年${match[3]}月1日`)?.slice(0, 7) ?? null
+}
+
+function parseBrokerName(text: string): string | null {
+  const labelled = text.match(/(?:商号|会社名|取扱会社|取扱店|取引先)[:\s]*([^\n]+)/)
+  if (labelled) return labelled[1].trim().split(/\s{2,}|TEL|電話/)[0].trim() || null
+  const line = text.split('\n').find((item) => COMPANY_SUFFIX.test(item))
+  if (!line) return null
+  const match = line.match(/((?:株式会社|有限会社|合同会社|\(株\)|\(有\))\s*[^\s/|:]+|[^\s/|:]+\s*(?:株式会社|有限会社|合同会社|\(株\)|\(有\))[^\s/|:]*)/)
+  return match ? match[1].trim() : null
+}
+
+// マイソクの本文から入力欄に使える項目を拾う。読み取れない項目は null のまま
+export function parseMysokuText(source: string): MysokuFields {
+  const text = source.normalize('NFKC').replace(/[ \t　]+/g, ' ')
+
+  const price = firstMatch(text, [
+    new RegExp(`(?:販売価格|売買価格|価格)[^\\d\\n]{0,8}${AMOUNT}`),
+  ])
+  const area = firstMatch(text, [
+    /(?:専有面積|面積)[^\d\n]{0,8}(\d+(?:\.\d+)?)\s*(?:m2|平米)/,
+    /(\d+(?:\.\d+)?)\s*(?:m2|平米)/,
+  ])
+  const floor = firstMatch(text, [
+    /(\d+)\s*階部分/,
+    /所在階[^\d\n]{0,6}(\d+)/,
+    /(\d+)\s*階\s*\/\s*(?:地上)?\s*\d+\s*階建/,
+  ])
+  const layout = text.match(/(?:^|[^0-9A-Z])([1-9]\s?(?:SLDK|LDK|SDK|DK|LK|K))(?![A-Z])/i)
+  const mgmtFee = text.match(new RegExp(`管理費[^\\d\\n]{0,10}${AMOUNT}`))
+  const tel = firstMatch(text, [
+    new RegExp(`(?:TEL|Tel|tel|電話)[^\\d\\n]{0,4}${TEL}`),
+    new RegExp(TEL),
+  ])
+  const person = text.match(/担当(?:者)?[:\s]*([^\s\n:、,/]{1,12})/)
+  const email = text.match(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/)
+
+  return {
+    price: price ? parseEntryCsvPrice(price[1]) : null,
+    area: toNumber(area?.[1]),
+    floor: toNumber(floor?.[1]),
+    layout: layout ? layout[1].replace(/\s/g, '').toUpperCase() : null,
+    builtMonth: parseBuiltMonth(text),
+    mgmtFeeMonthly: mgmtFee ? parseJapaneseNumber(mgmtFee[1]) : null,
+    brokerName: parseBrokerName(text),
+    brokerTel: tel?.[1] ?? null,
+    brokerPerson: person?.[1] ?? null,
+    brokerEmail: email?.[0] ?? null,
+  }
+}
+
+export function listMysokuFields(fields: MysokuFields): MysokuField[] {
+  return (Object.keys(MYSOKU_FIELD_LABELS) as MysokuField[]).filter((key) => fields[key] != null)
+}
+
+export function formatMysokuValue(field: MysokuField, fields: MysokuFields): string {
+  const value = fields[field]
+  if (value == null) return '—'
+  if (field === 'price' || field === 'mgmtFeeMonthly') return `${Number(value).toLocaleString('ja-JP')}円${field === 'mgmtFeeMonthly' ? '/月' : ''}`
+  if (field === 'area') return `${value}㎡`
+  if (field === 'floor') return `${value}階`
+  return String(value)
+}
+
+// 在庫の仲介業者欄。読み取れた項目だけを上書きする
+export function buildStockBrokerFields(fields: MysokuFields): Record<string, string> {
+  const payload: Record<string, string> = {}
+  if (fields.brokerName) payload.broker_name = fields.brokerName
+  if (fields.brokerTel) payload.broker_tel = fields.brokerTel
+  if (fields.brokerPerson) payload.broker_person = fields.brokerPerson
+  if (fields.brokerEmail) payload.broker_email = fields.brokerEmail
+  return payload
+}
+
+export async function readMysokuPdf(file: { arrayBuffer(): Promise<ArrayBuffer> }): Promise<MysokuFields> {
+  const text = await extractPdfText(new Uint8Array(await file.arrayBuffer()))
+  return parseMysokuText(text)
+}
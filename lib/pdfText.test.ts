@@ -0,0 +1,81 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { deflateSync } from 'node:zlib'
+
+import { extractPdfText } from './pdfText.ts'
+
+function buildPdf(content: string, cmap: string): Uint8Array {
+  const compressed = deflateSync(Buffer.from(content, 'latin1'))
+  return new Uint8Array(Buffer.concat([
+    Buffer.from([
+      '%PDF-1.4',
+      '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+      '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj',
+      '3 0 obj << /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> /Contents 4 0 R >> endobj',
+      `4 0 obj << /Length ${compressed.length} /Filter /FlateDecode >> stream`,
+      '',
+    ].join('\n'), 'latin1'),
+    compressed,
+    Buffer.from([
+      '',
+      'endstream endobj',
+      '5 0 obj << /Type /Font /Subtype /Type1 /BaseFont /Helvetica >> endobj',
+      '6 0 obj << /Type /Font /Subtype /Type0 /BaseFont /Gothic /Encoding /Identity-H /ToUnicode 7 0 R >> endobj',
+      `7 0 obj << /Length ${cmap.length} >> stream`,
+      cmap,
+      'endstream endobj',
+      '%%EOF',
+    ].join('\n'), 'latin1'),
+  ]))
+}
+
+test('extractPdfText inflates content streams and maps CID strings through ToUnicode', async () => {
+  const cmap = [
+    'begincmap',
+    '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+    '2 beginbfchar <0001> <4FA1> <0002> <683C> endbfchar',
+    '1 beginbfrange <0003> <0005> <0032> endbfrange',
+    'endcmap',
+  ].join('\n')
+  const content = [
+    'BT /F1 12 Tf 50 700 Td (Layout: 3LDK \\(south\\)) Tj',
+    '0 -20 Td /F2 12 Tf <00010002> Tj [<0003> -300 <00040005>] TJ ET',
+  ].join('\n')
+
+  assert.equal(await extractPdfText(buildPdf(content, cmap)), 'Layout: 3LDK (south)\n価格2 34')
+  assert.equal(await extractPdfText(new TextEncoder().encode('not a pdf')), '')
+})
+
+function buildRawPdf(objects: Array<[number, string, string?]>): Uint8Array {
+  const body = objects.map(([id, dict, stream]) => (
+    stream == null
+      ? `${id} 0 obj ${dict} endobj`
+      : `${id} 0 obj << /Length ${stream.length} ${dict} >> stream\n${stream}\nendstream endobj`
+  ))
+  return new TextEncoder().encode(['%PDF-1.4', ...body, '%%EOF'].join('\n'))
+}
+
+test('extractPdfText follows the page tree order and inherits resources from parent nodes', async () => {
+  const pdf = buildRawPdf([
+    [1, '<< /Type /Catalog /Pages 2 0 R >>'],
+    [2, '<< /Type /Pages /Kids [6 0 R 3 0 R] /Count 2 /Resources << /Font << /F1 9 0 R >> >> >>'],
+    [3, '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>'],
+    [4, '', 'BT /F1 12 Tf (page two) Tj ET'],
+    [6, '<< /Type /Pages /Parent 2 0 R /Kids [7 0 R] /Count 1 >>'],
+    [7, '<< /Type /Page /Parent 6 0 R /Contents 8 0 R >>'],
+    [8, '', 'BT /F1 12 Tf (page one) Tj ET'],
+    [9, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'],
+  ])
+  assert.equal(await extractPdfText(pdf), 'page one\npage two')
+})
+
+test('extractPdfText reads every text stream when the PDF has no page dictionaries', async () => {
+  const pdf = buildRawPdf([
+    [1, '<< /Font << /F1 3 0 R >> >>'],
+    [2, '', 'BT /F1 12 Tf (first block) Tj ET'],
+    [3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'],
+    [4, '', 'BT /F1 12 Tf (second block) Tj ET'],
+    [5, '/Type /XObject /Subtype /Form', 'BT (hidden) Tj ET'],
+  ])
+  assert.equal(await extractPdfText(pdf), 'first block\nsecond block')
+})
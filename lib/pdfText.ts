@@ -0,0 +1,395 @@
+// マイソク程度の PDF から本文テキストを取り出す最小限のパーサ。
+// 圧縮は FlateDecode のみ対応し、CID フォントは ToUnicode CMap で文字に戻す
+
+type PdfObject = {
+  dict: string
+  stream: Uint8Array | null
+}
+
+type FontCMap = {
+  codeLength: number
+  map: Map<number, string>
+}
+
+type PdfToken =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; value: string }
+  | { kind: 'string'; value: number[] }
+  | { kind: 'array'; value: PdfToken[] }
+  | { kind: 'operator'; value: string }
+
+// TJ の字送りがこれより大きく空いていたら語の区切りとみなす（1/1000 em）
+const TJ_SPACE_THRESHOLD = -250
+
+function bytesToBinary(bytes: Uint8Array): string {
+  let text = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return text
+}
+
+function binaryToBytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length)
+  for (let i = 0; i < text.length; i += 1) bytes[i] = text.charCodeAt(i) & 0xff
+  return bytes
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array | null> {
+  try {
+    const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream('deflate'))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+  } catch {
+    return null
+  }
+}
+
+// << >> の入れ子を数えて、key の値（辞書・配列・参照・名前・数値）を生の文字列で返す
+function readDictValue(dict: string, key: string): string | null {
+  const match = new RegExp(`/${key}(?![A-Za-z0-9])\\s*`).exec(dict)
+  if (!match) return null
+  const start = match.index + match[0].length
+  if (dict.startsWith('<<', start)) {
+    let depth = 0
+    for (let i = start; i < dict.length - 1; i += 1) {
+      if (dict.startsWith('<<', i)) { depth += 1; i += 1 }
+      else if (dict.startsWith('>>', i)) {
+        depth -= 1
+        i += 1
+        if (depth === 0) return dict.slice(start, i + 1)
+      }
+    }
+    return null
+  }
+  if (dict[start] === '[') {
+    const end = dict.indexOf(']', start)
+    return end >= 0 ? dict.slice(start, end + 1) : null
+  }
+  const ref = /^(\d+)\s+\d+\s+R/.exec(dict.slice(start))
+  if (ref) return ref[0]
+  return /^\/[^\s/<>[\]]+|^[^\s/<>[\]]+/.exec(dict.slice(start))?.[0] ?? null
+}
+
+function parseRefs(value: string | null): number[] {
+  if (!value) return []
+  return Array.from(value.matchAll(/(\d+)\s+\d+\s+R/g), (match) => Number(match[1]))
+}
+
+async function readObjects(binary: string): Promise<Map<number, PdfObject>> {
+  const objects = new Map<number, PdfObject>()
+  const pattern = /(\d+)\s+\d+\s+obj\b/g
+  const starts = Array.from(binary.matchAll(pattern))
+
+  for (const [index, match] of starts.entries()) {
+    const bodyStart = match.index + match[0].length
+    const nextStart = starts[index + 1]?.index ?? binary.length
+    const endObj = binary.indexOf('endobj', bodyStart)
+    const body = binary.slice(bodyStart, endObj >= 0 && endObj < nextStart ? endObj : nextStart)
+    const streamMatch = /stream\r?\n/.exec(body)
+    if (!streamMatch) {
+      objects.set(Number(match[1]), { dict: body, stream: null })
+      continue
+    }
+    const dict = body.slice(0, streamMatch.index)
+    const dataStart = streamMatch.index + streamMatch[0].length
+    const lengthValue = readDictValue(dict, 'Length')
+    const length = lengthValue && /^\d+$/.test(lengthValue) ? Number(lengthValue) : NaN
+    const endStream = body.lastIndexOf('endstream')
+    const raw = Number.isFinite(length)
+      ? body.slice(dataStart, dataStart + length)
+      : body.slice(dataStart, endStream >= 0 ? endStream : body.length).replace(/\r?\n$/, '')
+    const filter = readDictValue(dict, 'Filter')
+    let stream: Uint8Array | null = binaryToBytes(raw)
+    if (filter && /\/Subtype\s*\/Image/.test(dict)) stream = null
+    else if (filter && filter.replace(/[[\]\s]/g, '') === '/FlateDecode') stream = await inflate(stream)
+    else if (filter) stream = null
+    objects.set(Number(match[1]), { dict, stream })
+  }
+
+  // 圧縮オブジェクトストリームの中身も展開しておく
+  for (const object of Array.from(objects.values())) {
+    if (!object.stream || !/\/Type\s*\/ObjStm/.test(object.dict)) continue
+    const content = bytesToBinary(object.stream)
+    const first = Number(readDictValue(object.dict, 'First'))
+    const count = Number(readDictValue(object.dict, 'N'))
+    if (!Number.isFinite(first) || !Number.isFinite(count)) continue
+    const header = content.slice(0, first).trim().split(/\s+/).map(Number)
+    for (let i = 0; i < count; i += 1) {
+      const objectNumber = header[i * 2]
+      const offset = header[i * 2 + 1]
+      const nextOffset = i + 1 < count ? header[(i + 1) * 2 + 1] : content.length - first
+      if (!objects.has(objectNumber)) {
+        objects.set(objectNumber, { dict: content.slice(first + offset, first + nextOffset), stream: null })
+      }
+    }
+  }
+  return objects
+}
+
+function hexToBytes(hex: string): number[] {
+  const clean = hex.replace(/[^0-9A-Fa-f]/g, '')
+  const padded = clean.length % 2 === 0 ? clean : `${clean}0`
+  const bytes: number[] = []
+  for (let i = 0; i < padded.length; i += 2) bytes.push(Number.parseInt(padded.slice(i, i + 2), 16))
+  return bytes
+}
+
+function hexToUnicode(hex: string): string {
+  const bytes = hexToBytes(hex)
+  const units: number[] = []
+  for (let i = 0; i + 1 < bytes.length; i += 2) units.push((bytes[i] << 8) | bytes[i + 1])
+  return String.fromCharCode(...units)
+}
+
+function parseToUnicodeCMap(text: string): FontCMap {
+  const map = new Map<number, string>()
+  const codespace = /begincodespacerange\s*<([0-9A-Fa-f]+)>/.exec(text)
+  const codeLength = codespace ? Math.max(1, Math.ceil(codespace[1].length / 2)) : 2
+
+  for (const block of text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const pair of block[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]*)>/g)) {
+      map.set(Number.parseInt(pair[1], 16), hexToUnicode(pair[2]))
+    }
+  }
+  for (const block of text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const range of block[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>\s*(<[0-9A-Fa-f]*>|\[[^\]]*\])/g)) {
+      const low = Number.parseInt(range[1], 16)
+      const high = Number.parseInt(range[2], 16)
+      if (range[3].startsWith('[')) {
+        const targets = Array.from(range[3].matchAll(/<([0-9A-Fa-f]*)>/g), (item) => hexToUnicode(item[1]))
+        targets.forEach((target, offset) => { if (low + offset <= high) map.set(low + offset, target) })
+        continue
+      }
+      const base = hexToUnicode(range[3].slice(1, -1))
+      const last = base.charCodeAt(base.length - 1)
+      for (let code = low; code <= high; code += 1) {
+        map.set(code, base.slice(0, -1) + String.fromCharCode(last + code - low))
+      }
+    }
+  }
+  return { codeLength, map }
+}
+
+function readLiteralString(source: string, start: number): { bytes: number[]; end: number } {
+  const bytes: number[] = []
+  let depth = 1
+  let i = start + 1
+  while (i < source.length && depth > 0) {
+    const ch = source[i]
+    if (ch === '\\') {
+      const next = source[i + 1]
+      const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, '(': 40, ')': 41, '\\': 92 }
+      if (next in escapes) { bytes.push(escapes[next]); i += 2; continue }
+      const octal = /^[0-7]{1,3}/.exec(source.slice(i + 1, i + 4))
+      if (octal) { bytes.push(Number.parseInt(octal[0], 8) & 0xff); i += 1 + octal[0].length; continue }
+      i += next === '\r' && source[i + 2] === '\n' ? 3 : 2
+      continue
+    }
+    if (ch === '(') depth += 1
+    if (ch === ')') { depth -= 1; if (depth === 0) break }
+    bytes.push(ch.charCodeAt(0) & 0xff)
+    i += 1
+  }
+  return { bytes, end: i + 1 }
+}
+
+function tokenizeContentStream(source: string): PdfToken[] {
+  const root: PdfToken[] = []
+  const stack: PdfToken[][] = [root]
+  let i = 0
+  while (i < source.length) {
+    const ch = source[i]
+    const current = stack[stack.length - 1]
+    if (/\s/.test(ch)) { i += 1; continue }
+    if (ch === '%') { const end = source.indexOf('\n', i); i = end < 0 ? source.length : end; continue }
+    if (ch === '(') {
+      const { bytes, end } = readLiteralString(source, i)
+      current.push({ kind: 'string', value: bytes })
+      i = end
+      continue
+    }
+    if (ch === '<' && source[i + 1] === '<') { i += 2; continue }
+    if (ch === '>' && source[i + 1] === '>') { i += 2; continue }
+    if (ch === '<') {
+      const end = source.indexOf('>', i)
+      current.push({ kind: 'string', value: hexToBytes(source.slice(i + 1, end < 0 ? source.length : end)) })
+      i = end < 0 ? source.length : end + 1
+      continue
+    }
+    if (ch === '[') { const array: PdfToken[] = []; current.push({ kind: 'array', value: array }); stack.push(array); i += 1; continue }
+    if (ch === ']') { if (stack.length > 1) stack.pop(); i += 1; continue }
+    const word = /^\/?[^\s()<>[\]{}/%]*/.exec(source.slice(i, i + 256))?.[0] ?? ch
+    const length = Math.max(word.length, 1)
+    if (word.startsWith('/')) current.push({ kind: 'name', value: word.slice(1) })
+    else if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) current.push({ kind: 'number', value: Number(word) })
+    else if (word === 'ID') {
+      // インライン画像のデータは読み飛ばす
+      const end = source.indexOf('EI', i + 2)
+      i = end < 0 ? source.length : end + 2
+      continue
+    } else current.push({ kind: 'operator', value: word || ch })
+    i += length
+  }
+  return root
+}
+
+function decodeString(bytes: number[], cmap: FontCMap | null): string {
+  if (!cmap) return String.fromCharCode(...bytes)
+  let text = ''
+  for (let i = 0; i < bytes.length; i += cmap.codeLength) {
+    let code = 0
+    for (let j = 0; j < cmap.codeLength; j += 1) code = (code << 8) | (bytes[i + j] ?? 0)
+    text += cmap.map.get(code) ?? (cmap.codeLength === 1 ? String.fromCharCode(code) : '')
+  }
+  return text
+}
+
+function renderContent(tokens: PdfToken[], fonts: Map<string, FontCMap | null>): string {
+  let text = ''
+  let operands: PdfToken[] = []
+  let font: FontCMap | null = null
+  let lastLineY: number | null = null
+  const newline = () => { if (text && !text.endsWith('\n')) text += '\n' }
+  const space = () => { if (text && !/\s$/.test(text)) text += ' ' }
+  const numberAt = (offset: number) => {
+    const token = operands[operands.length - offset]
+    return token?.kind === 'number' ? token.value : 0
+  }
+
+  for (const token of tokens) {
+    if (token.kind !== 'operator') { operands.push(token); continue }
+    const last = operands[operands.length - 1]
+    switch (token.value) {
+      case 'Tf': {
+        const name = operands[operands.length - 2]
+        font = name?.kind === 'name' ? fonts.get(name.value) ?? null : null
+        break
+      }
+      case 'Tj':
+        if (last?.kind === 'string') text += decodeString(last.value, font)
+        break
+      case "'":
+      case '"':
+        newline()
+        if (last?.kind === 'string') text += decodeString(last.value, font)
+        break
+      case 'TJ':
+        if (last?.kind === 'array') {
+          for (const item of last.value) {
+            if (item.kind === 'string') text += decodeString(item.value, font)
+            else if (item.kind === 'number' && item.value < TJ_SPACE_THRESHOLD) space()
+          }
+        }
+        break
+      case 'Td':
+      case 'TD':
+        if (numberAt(1) !== 0) newline()
+        else space()
+        break
+      case 'T*':
+        newline()
+        break
+      case 'Tm': {
+        const y = numberAt(1)
+        if (lastLineY != null && y !== lastLineY) newline()
+        else space()
+        lastLineY = y
+        break
+      }
+      case 'ET':
+        space()
+        break
+    }
+    operands = []
+  }
+  return text
+}
+
+async function loadFonts(objects: Map<number, PdfObject>, fontDict: string): Promise<Map<string, FontCMap | null>> {
+  const fonts = new Map<string, FontCMap | null>()
+  for (const match of fontDict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+    const font = objects.get(Number(match[2]))
+    const [toUnicodeRef] = parseRefs(font ? readDictValue(font.dict, 'ToUnicode') : null)
+    const stream = toUnicodeRef != null ? objects.get(toUnicodeRef)?.stream : null
+    fonts.set(match[1], stream ? parseToUnicodeCMap(bytesToBinary(stream)) : null)
+  }
+  return fonts
+}
+
+function resolveDict(objects: Map<number, PdfObject>, value: string | null): string {
+  if (!value) return ''
+  const [ref] = parseRefs(/^\d+\s+\d+\s+R$/.test(value) ? value : null)
+  return ref != null ? objects.get(ref)?.dict ?? '' : value
+}
+
+type PdfPage = {
+  dict: string
+  resources: string
+}
+
+const PAGE_TYPE_PATTERN = /\/Type\s*\/Page(?![A-Za-z])/
+const PAGES_TYPE_PATTERN = /\/Type\s*\/Pages(?![A-Za-z])/
+
+// カタログの /Pages から /Kids をたどり、表示順のページを返す。/Resources は親から継承する
+function collectPages(objects: Map<number, PdfObject>): PdfPage[] {
+  const catalog = Array.from(objects.values()).find((object) => /\/Type\s*\/Catalog/.test(object.dict))
+  const rootRef: number | undefined = parseRefs(catalog ? readDictValue(catalog.dict, 'Pages') : null)[0]
+    ?? Array.from(objects.entries()).find(([, object]) => PAGES_TYPE_PATTERN.test(object.dict) && !readDictValue(object.dict, 'Parent'))?.[0]
+  const pages: PdfPage[] = []
+  const visited = new Set<number>()
+  const walk = (ref: number, inheritedResources: string) => {
+    if (visited.has(ref)) return
+    visited.add(ref)
+    const node = objects.get(ref)
+    if (!node) return
+    const resources = resolveDict(objects, readDictValue(node.dict, 'Resources')) || inheritedResources
+    if (PAGES_TYPE_PATTERN.test(node.dict)) {
+      for (const kid of parseRefs(readDictValue(node.dict, 'Kids'))) walk(kid, resources)
+    } else if (PAGE_TYPE_PATTERN.test(node.dict)) {
+      pages.push({ dict: node.dict, resources })
+    }
+  }
+  if (rootRef != null) walk(rootRef, '')
+  if (pages.length > 0) return pages
+
+  // ページツリーが壊れている場合はページ辞書をオブジェクト番号順に使う
+  return Array.from(objects.values())
+    .filter((object) => PAGE_TYPE_PATTERN.test(object.dict))
+    .map((object) => ({ dict: object.dict, resources: resolveDict(objects, readDictValue(object.dict, 'Resources')) }))
+}
+
+function readPageContent(objects: Map<number, PdfObject>, page: PdfPage): string {
+  let refs = parseRefs(readDictValue(page.dict, 'Contents'))
+  // /Contents が配列オブジェクトへの参照になっている場合
+  if (refs.length === 1 && !objects.get(refs[0])?.stream) refs = parseRefs(objects.get(refs[0])?.dict ?? '')
+  return refs.map((ref) => objects.get(ref)?.stream).filter((stream): stream is Uint8Array => !!stream).map(bytesToBinary).join('\n')
+}
+
+// ページ辞書がない PDF 用。ファイル内の全フォントを集め、テキストを描くストリームを番号順に読む
+async function extractUnpagedText(objects: Map<number, PdfObject>): Promise<string[]> {
+  const fonts = new Map<string, FontCMap | null>()
+  for (const object of objects.values()) {
+    const fontDict = resolveDict(objects, readDictValue(object.dict, 'Font'))
+    if (!fontDict) continue
+    for (const [name, cmap] of await loadFonts(objects, fontDict)) if (!fonts.has(name)) fonts.set(name, cmap)
+  }
+  return Array.from(objects.values())
+    .filter((object) => object.stream && !/\/(Type|Subtype)\b/.test(object.dict))
+    .map((object) => bytesToBinary(object.stream!))
+    .filter((content) => /\bBT\b/.test(content) && !content.includes('begincmap'))
+    .map((content) => renderContent(tokenizeContentStream(content), fonts))
+}
+
+// ページ順に本文を抜き出す。ページ辞書が見つからない PDF は全コンテンツストリームを読む
+export async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  const objects = await readObjects(bytesToBinary(bytes))
+  const pages = collectPages(objects)
+  const texts: string[] = []
+
+  for (const page of pages) {
+    const fonts = await loadFonts(objects, resolveDict(objects, readDictValue(page.resources, 'Font')))
+    texts.push(renderContent(tokenizeContentStream(readPageContent(objects, page)), fonts))
+  }
+  if (pages.length === 0) texts.push(...await extractUnpagedText(objects))
+  return texts.join('\n').replace(/[ \t]+\n/g, '\n').trim()
+}
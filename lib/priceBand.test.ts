@@ -0,0 +1,27 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { buildPriceBand } from './priceBand.ts'
+import { calcBuyTarget, calcRaise } from './stockPricing.ts'
+
+const expected = { targetUnit: 544500, targetClose: 34848000, buyTarget: 19025940 }
+
+test('buildPriceBand scales the target close price and recomputes the buy target at both ends', () => {
+  const band = buildPriceBand({
+    expected,
+    area: 64,
+    spread: { count: 4, borrowedCount: 0, mean: 502500, stdev: 17078, halfWidth: 0.06, thin: false },
+  })
+  assert.ok(band)
+  assert.deepEqual(band.expected, expected)
+  assert.deepEqual(band.low, { targetUnit: 511830, targetClose: 32757120, buyTarget: calcBuyTarget(calcRaise(32757120), 64) })
+  assert.deepEqual(band.high, { targetUnit: 577170, targetClose: 36938880, buyTarget: calcBuyTarget(calcRaise(36938880), 64) })
+  assert.ok(band.low.buyTarget < expected.buyTarget && expected.buyTarget < band.high.buyTarget)
+  assert.equal(band.thin, false)
+})
+
+test('buildPriceBand skips stocks without a target close price or area', () => {
+  const spread = { count: 0, borrowedCount: 0, mean: null, stdev: null, halfWidth: 0.25, thin: true }
+  assert.equal(buildPriceBand({ expected: { ...expected, targetClose: 0 }, area: 64, spread }), null)
+  assert.equal(buildPriceBand({ expected, area: 0, spread }), null)
+})
@@ -0,0 +1,55 @@
+import { DEFAULT_COST_PROFILE, type CostProfile } from './costProfile.ts'
+import type { ReferenceSpread } from './referenceValue.ts'
+import { calcBuyTarget, calcRaise, type PricingContext } from './stockPricing.ts'
+
+export type PriceBandPoint = {
+  targetUnit: number
+  targetClose: number
+  buyTarget: number
+}
+
+export type PriceBand = {
+  low: PriceBandPoint
+  expected: PriceBandPoint
+  high: PriceBandPoint
+  halfWidth: number
+  count: number
+  borrowedCount: number
+  thin: boolean
+}
+
+function scalePoint(
+  expected: PriceBandPoint,
+  ratio: number,
+  area: number,
+  profile: CostProfile,
+  context: PricingContext,
+): PriceBandPoint {
+  const targetClose = Math.round(expected.targetClose * ratio)
+  return {
+    targetUnit: Math.round(expected.targetUnit * ratio),
+    targetClose,
+    buyTarget: calcBuyTarget(calcRaise(targetClose, profile), area, profile, context),
+  }
+}
+
+// 期待値は保存済み（または算出済み）の目標値をそのまま使い、上下は目標成約価格を幅で伸縮して買付目標額まで計算し直す
+export function buildPriceBand(params: {
+  expected: PriceBandPoint
+  area: number
+  spread: ReferenceSpread
+  profile?: CostProfile
+  context?: PricingContext
+}): PriceBand | null {
+  const { expected, area, spread, profile = DEFAULT_COST_PROFILE, context = {} } = params
+  if (expected.targetClose <= 0 || area <= 0) return null
+  return {
+    low: scalePoint(expected, 1 - spread.halfWidth, area, profile, context),
+    expected,
+    high: scalePoint(expected, 1 + spread.halfWidth, area, profile, context),
+    halfWidth: spread.halfWidth,
+    count: spread.count,
+    borrowedCount: spread.borrowedCount,
+    thin: spread.thin,
+  }
+}
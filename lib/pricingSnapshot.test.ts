@@ -0,0 +1,115 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { DEFAULT_COST_PROFILE } from './costProfile.ts'
+import {
+  buildLegacyPricingSnapshot,
+  buildPricingSnapshot,
+  buildStockPricingFields,
+  diffPricingSnapshots,
+  mapPricingSnapshotJson,
+  PRICING_FORMULA_VERSION,
+  recalculatePricingSnapshot,
+  resolveStockPricingSnapshot,
+} from './pricingSnapshot.ts'
+import type { ReferenceValueEntry } from './referenceValue.ts'
+import { buildFloorRows, FLOOR_COEFS } from './stockPricing.ts'
+
+const inputs = {
+  estateEntryId: 'e1',
+  basisUnitPrice: 500000,
+  entryArea: 60,
+  settingUnit: 500000,
+  yearCoef: 0.1,
+  otherCoef: 0,
+  area: 60,
+  floor: 3,
+  layout: null,
+  currentCondition: null,
+  targetCondition: null,
+  builtYm: null,
+}
+const floorPattern = { label: '②中間', coefs: FLOOR_COEFS['②中間'] }
+const referenceRows: ReferenceValueEntry[] = [
+  { id: 'e1', floor: 3, area_sqm: 60, contract_price: 30_000_000, unit_price: null, condition_status: 'FULL_REFORM_ALL_EQUIP', contract_date: '2024-04-01' },
+  { id: 'e2', floor: 4, area_sqm: null, contract_price: null, unit_price: 480_000, condition_status: 'FULL_REFORM_ALL_EQUIP', contract_date: '2023-04-01' },
+]
+const now = new Date('2026-01-01T00:00:00.000Z')
+
+test('buildPricingSnapshot records the inputs, references and the same results as buildFloorRows', () => {
+  const snapshot = buildPricingSnapshot({ inputs, floorPattern, profile: DEFAULT_COST_PROFILE, referenceRows, comparables: [], now })
+  const floor = buildFloorRows(500000, 1.1, 60, '②中間')[2]
+
+  assert.equal(snapshot.formulaVersion, PRICING_FORMULA_VERSION)
+  assert.equal(snapshot.calculatedAt, '2026-01-01T00:00:00.000Z')
+  assert.deepEqual(snapshot.results, {
+    coefTotal: 1.1,
+    areaCoef: 1,
+    floorCoef: floor.floorCoef,
+    targetUnit: floor.targetUnit,
+    targetClose: floor.targetClose,
+    raise: floor.raise,
+    buyTarget: floor.buyTarget,
+  })
+  assert.deepEqual(snapshot.references.map((reference) => [reference.id, reference.unitPrice, reference.weight]), [
+    ['e1', 500000, null],
+    ['e2', 480000, null],
+  ])
+  assert.deepEqual(mapPricingSnapshotJson(JSON.parse(JSON.stringify(snapshot))), snapshot)
+  assert.equal(mapPricingSnapshotJson({ formulaVersion: 1 }), null)
+
+  const fields = buildStockPricingFields(snapshot)
+  assert.equal(fields.buy_target_price, floor.buyTarget)
+  assert.equal(fields.list_price, floor.targetClose)
+  assert.equal(fields.pricing_snapshot, snapshot)
+})
+
+test('diffPricingSnapshots compares a recalculation field by field', () => {
+  const previous = buildPricingSnapshot({ inputs, floorPattern, profile: DEFAULT_COST_PROFILE, referenceRows, comparables: [], now })
+  const next = recalculatePricingSnapshot(previous, {
+    basisUnitPrice: 480000,
+    entryArea: 60,
+    builtYm: null,
+    floorPattern: { label: '③攻め', coefs: FLOOR_COEFS['③攻め'] },
+    profile: DEFAULT_COST_PROFILE,
+    referenceRows: referenceRows.slice(1),
+    comparables: [],
+    now,
+  })
+  assert.deepEqual(next.inputs, { ...inputs, basisUnitPrice: 480000, settingUnit: 480000 })
+
+  const diff = diffPricingSnapshots(previous, next)
+  const changed = diff.rows.filter((row) => row.changed).map((row) => row.key)
+  assert.ok(changed.includes('basisUnitPrice'))
+  assert.ok(changed.includes('floorPattern'))
+  assert.ok(changed.includes('settingUnit'))
+  assert.ok(!changed.includes('yearCoef'))
+  assert.equal(diff.removedReferences, 1)
+  assert.equal(diff.addedReferences, 0)
+  assert.equal(diff.changed, true)
+
+  const buyTarget = diff.rows.find((row) => row.key === 'buyTarget')
+  assert.equal(buyTarget?.delta, (next.results.buyTarget ?? 0) - (previous.results.buyTarget ?? 0))
+  assert.equal(diffPricingSnapshots(previous, previous).changed, false)
+})
+
+test('stocks saved before snapshots fall back to the stored price columns', () => {
+  const row = {
+    estate_entry_id: 'e1',
+    floor: 3,
+    area_sqm: 60,
+    base_unit_price: 500000,
+    coef_total: 1.15,
+    floor_coef: 0.97,
+    target_unit_price: 557750,
+    target_close_price: 33465000,
+    raise_price: 24870000,
+    buy_target_price: 17000000,
+    pricing_snapshot: null,
+  }
+  const snapshot = resolveStockPricingSnapshot(row)
+  assert.deepEqual(snapshot, buildLegacyPricingSnapshot(row))
+  assert.equal(snapshot.formulaVersion, 0)
+  assert.equal(snapshot.inputs.yearCoef.toFixed(2), '0.15')
+  assert.equal(snapshot.results.buyTarget, 17000000)
+})
@@ -0,0 +1,339 @@
+import { resolveStockAreaAdjustment, type AreaCurve } from './areaAdjustment.ts'
+import { selectComparableRows, type StockComparable } from './comparables.ts'
+import { formatCostProfileLabel, type CostProfile } from './costProfile.ts'
+import type { HedonicSample } from './hedonicModel.ts'
+import { resolveReferenceUnitPrice, type ReferenceValueEntry } from './referenceValue.ts'
+import { buildRenovationSpec } from './renovationEstimate.ts'
+import { buildFloorRows, formatUnit, formatYen } from './stockPricing.ts'
+
+// 計算式（buildFloorRows・諸費用・補正係数の掛け方）を変えたら上げる
+export const PRICING_FORMULA_VERSION = 1
+
+export type PricingSnapshotInputs = {
+  estateEntryId: string | null
+  // MAX成約または比較事例の加重平均単価（設定単価を決める際の基準）
+  basisUnitPrice: number | null
+  entryArea: number | null
+  settingUnit: number
+  yearCoef: number
+  otherCoef: number
+  area: number
+  floor: number | null
+  layout: string | null
+  currentCondition: string | null
+  targetCondition: string | null
+  builtYm: string | null
+}
+
+export type PricingSnapshotFloorPattern = {
+  label: string | null
+  coefs: number[]
+}
+
+export type PricingSnapshotReference = {
+  id: string | null
+  floor: number | null
+  areaSqm: number | null
+  unitPrice: number | null
+  conditionStatus: string | null
+  contractDate: string | null
+  weight: number | null
+  borrowedFrom: string | null
+  adjustment: number | null
+}
+
+export type PricingSnapshotResults = {
+  coefTotal: number
+  areaCoef: number
+  floorCoef: number | null
+  targetUnit: number | null
+  targetClose: number | null
+  raise: number | null
+  buyTarget: number | null
+}
+
+// estate_stocks.pricing_snapshot に保存する、保存時点の計算の入力・参照事例・結果一式
+export type PricingSnapshot = {
+  formulaVersion: number
+  calculatedAt: string | null
+  inputs: PricingSnapshotInputs
+  floorPattern: PricingSnapshotFloorPattern
+  costProfile: CostProfile | null
+  areaCurve: AreaCurve | null
+  references: PricingSnapshotReference[]
+  results: PricingSnapshotResults
+}
+
+export type StockPricingRow = {
+  estate_entry_id: string | null
+  floor: number | null
+  area_sqm: number | null
+  layout?: string | null
+  current_condition?: string | null
+  target_condition?: string | null
+  base_unit_price?: number | null
+  coef_total?: number | null
+  area_coef?: number | null
+  floor_coef?: number | null
+  target_unit_price?: number | null
+  target_close_price?: number | null
+  raise_price?: number | null
+  buy_target_price?: number | null
+  pricing_snapshot?: unknown
+}
+
+type DiffFormat = 'yen' | 'unit' | 'coef' | 'area' | 'count' | 'text'
+
+export type PricingDiffRow = {
+  key: string
+  label: string
+  section: 'input' | 'result'
+  before: string
+  after: string
+  delta: number | null
+  changed: boolean
+}
+
+export type PricingSnapshotDiff = {
+  rows: PricingDiffRow[]
+  addedReferences: number
+  removedReferences: number
+  changed: boolean
+}
+
+function toSnapshotReference(row: ReferenceValueEntry, weights: Map<string, number>): PricingSnapshotReference {
+  return {
+    id: row.id ?? null,
+    floor: row.floor ?? null,
+    areaSqm: row.area_sqm ?? null,
+    unitPrice: resolveReferenceUnitPrice(row),
+    conditionStatus: row.condition_status ?? null,
+    contractDate: row.contract_date ?? row.reins_registered_date ?? null,
+    weight: row.id != null ? weights.get(row.id) ?? null : null,
+    borrowedFrom: row.borrowed?.complexName ?? null,
+    adjustment: row.borrowed?.adjustment ?? null,
+  }
+}
+
+export function buildPricingSnapshot(params: {
+  inputs: PricingSnapshotInputs
+  floorPattern: PricingSnapshotFloorPattern
+  profile: CostProfile
+  referenceRows: ReferenceValueEntry[]
+  comparables: StockComparable[]
+  marketSamples?: HedonicSample[]
+  now?: Date
+}): PricingSnapshot {
+  const { inputs, floorPattern, profile, referenceRows, comparables, marketSamples, now = new Date() } = params
+  const areaAdjustment = resolveStockAreaAdjustment({
+    referenceRows,
+    marketSamples,
+    comparables,
+    stockArea: inputs.area,
+    entryArea: inputs.entryArea,
+  })
+  const coefTotal = 1 + inputs.yearCoef + inputs.otherCoef
+  const areaCoef = areaAdjustment?.coef ?? 1
+  const floors = buildFloorRows(inputs.settingUnit, coefTotal * areaCoef, inputs.area, floorPattern.coefs, profile, {
+    builtYm: inputs.builtYm,
+    renovation: buildRenovationSpec(inputs.currentCondition, inputs.targetCondition, inputs.layout),
+  })
+  const target = floors.find((floor) => floor.floor === inputs.floor) ?? floors[0]
+  const weights = new Map(comparables.map((comparable) => [comparable.entryId, comparable.weight]))
+
+  return {
+    formulaVersion: PRICING_FORMULA_VERSION,
+    calculatedAt: now.toISOString(),
+    inputs,
+    floorPattern,
+    costProfile: profile,
+    areaCurve: areaAdjustment?.curve ?? null,
+    references: selectComparableRows(referenceRows, comparables).map((row) => toSnapshotReference(row, weights)),
+    results: {
+      coefTotal,
+      areaCoef,
+      floorCoef: target?.floorCoef ?? null,
+      targetUnit: target?.targetUnit ?? null,
+      targetClose: target?.targetClose ?? null,
+      raise: target?.raise ?? null,
+      buyTarget: target?.buyTarget ?? null,
+    },
+  }
+}
+
+// 保存済みの入力（係数・面積・階・内装）はそのままに、参照事例・階層パターン・費用プロファイルを現在の値で計算し直す。
+// 設定単価は基準単価（MAX成約・比較事例）が変わった分だけ同じ比率で動かす
+export function recalculatePricingSnapshot(previous: PricingSnapshot, current: {
+  basisUnitPrice: number | null
+  entryArea: number | null
+  builtYm: string | null
+  floorPattern: PricingSnapshotFloorPattern
+  profile: CostProfile
+  referenceRows: ReferenceValueEntry[]
+  comparables: StockComparable[]
+  marketSamples?: HedonicSample[]
+  now?: Date
+}): PricingSnapshot {
+  const { basisUnitPrice, entryArea, builtYm, ...rest } = current
+  const previousBasis = previous.inputs.basisUnitPrice
+  const settingUnit = previousBasis != null && previousBasis > 0 && basisUnitPrice != null && basisUnitPrice > 0
+    ? Math.round(previous.inputs.settingUnit * (basisUnitPrice / previousBasis))
+    : previous.inputs.settingUnit
+  return buildPricingSnapshot({
+    ...rest,
+    inputs: { ...previous.inputs, basisUnitPrice, entryArea, builtYm, settingUnit },
+  })
+}
+
+export function buildStockPricingSnapshotPayload(snapshot: PricingSnapshot): Record<string, unknown> {
+  return { pricing_snapshot: snapshot }
+}
+
+// 再計算を反映するときに更新する在庫の価格列
+export function buildStockPricingFields(snapshot: PricingSnapshot): Record<string, unknown> {
+  const { inputs, results } = snapshot
+  return {
+    base_unit_price: inputs.settingUnit || null,
+    coef_total: results.coefTotal,
+    area_coef: results.areaCoef,
+    floor_coef: results.floorCoef,
+    list_price: results.targetClose,
+    target_unit_price: results.targetUnit,
+    target_close_price: results.targetClose,
+    raise_price: results.raise,
+    buy_target_price: results.buyTarget,
+    ...buildStockPricingSnapshotPayload(snapshot),
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+export function mapPricingSnapshotJson(value: unknown): PricingSnapshot | null {
+  if (!isRecord(value) || typeof value.formulaVersion !== 'number') return null
+  if (!isRecord(value.inputs) || !isRecord(value.results) || !isRecord(value.floorPattern)) return null
+  return {
+    ...(value as unknown as PricingSnapshot),
+    references: Array.isArray(value.references) ? value.references as PricingSnapshotReference[] : [],
+  }
+}
+
+// スナップショット導入前の在庫は保存済みの列から組み立てる（年数係数と加点係数の内訳は不明なので係数合計を年数係数に寄せる）
+export function buildLegacyPricingSnapshot(row: StockPricingRow): PricingSnapshot {
+  const coefTotal = row.coef_total ?? 1
+  return {
+    formulaVersion: 0,
+    calculatedAt: null,
+    inputs: {
+      estateEntryId: row.estate_entry_id,
+      basisUnitPrice: null,
+      entryArea: null,
+      settingUnit: row.base_unit_price ?? 0,
+      yearCoef: coefTotal - 1,
+      otherCoef: 0,
+      area: row.area_sqm ?? 0,
+      floor: row.floor,
+      layout: row.layout ?? null,
+      currentCondition: row.current_condition ?? null,
+      targetCondition: row.target_condition ?? null,
+      builtYm: null,
+    },
+    floorPattern: { label: null, coefs: [] },
+    costProfile: null,
+    areaCurve: null,
+    references: [],
+    results: {
+      coefTotal,
+      areaCoef: row.area_coef ?? 1,
+      floorCoef: row.floor_coef ?? null,
+      targetUnit: row.target_unit_price ?? null,
+      targetClose: row.target_close_price ?? null,
+      raise: row.raise_price ?? null,
+      buyTarget: row.buy_target_price ?? null,
+    },
+  }
+}
+
+export function resolveStockPricingSnapshot(row: StockPricingRow): PricingSnapshot {
+  return mapPricingSnapshotJson(row.pricing_snapshot) ?? buildLegacyPricingSnapshot(row)
+}
+
+function formatValue(value: string | number | null, format: DiffFormat): string {
+  if (value == null || value === '') return '—'
+  if (typeof value === 'string') return value
+  switch (format) {
+    case 'yen': return formatYen(value)
+    case 'unit': return formatUnit(Math.round(value))
+    case 'coef': return value.toFixed(3)
+    case 'area': return `${value.toFixed(2)}㎡`
+    case 'count': return `${value.toLocaleString('ja-JP')}件`
+    default: return String(value)
+  }
+}
+
+type DiffField = {
+  key: string
+  label: string
+  section: PricingDiffRow['section']
+  format: DiffFormat
+  pick: (snapshot: PricingSnapshot) => string | number | null
+}
+
+const DIFF_FIELDS: DiffField[] = [
+  { key: 'basisUnitPrice', label: '基準単価（MAX成約・比較事例）', section: 'input', format: 'unit', pick: (s) => s.inputs.basisUnitPrice },
+  { key: 'settingUnit', label: '設定単価', section: 'input', format: 'unit', pick: (s) => s.inputs.settingUnit },
+  { key: 'yearCoef', label: '年数係数', section: 'input', format: 'coef', pick: (s) => s.inputs.yearCoef },
+  { key: 'otherCoef', label: '加点係数', section: 'input', format: 'coef', pick: (s) => s.inputs.otherCoef },
+  { key: 'area', label: '面積', section: 'input', format: 'area', pick: (s) => s.inputs.area },
+  { key: 'entryArea', label: '基準事例の面積', section: 'input', format: 'area', pick: (s) => s.inputs.entryArea },
+  { key: 'floor', label: '階', section: 'input', format: 'text', pick: (s) => (s.inputs.floor != null ? `${s.inputs.floor}F` : null) },
+  { key: 'condition', label: '現況 → 仕上げ', section: 'input', format: 'text', pick: (s) => `${s.inputs.currentCondition ?? '—'} → ${s.inputs.targetCondition ?? '—'}` },
+  { key: 'builtYm', label: '築年月', section: 'input', format: 'text', pick: (s) => s.inputs.builtYm },
+  { key: 'floorPattern', label: '階層パターン', section: 'input', format: 'text', pick: (s) => (s.floorPattern.coefs.length > 0 ? `${s.floorPattern.label ?? '(未設定)'}（${s.floorPattern.coefs.join(' / ')}）` : null) },
+  { key: 'costProfile', label: '費用プロファイル', section: 'input', format: 'text', pick: (s) => (s.costProfile ? formatCostProfileLabel(s.costProfile) : null) },
+  { key: 'areaCurve', label: '面積弾力性', section: 'input', format: 'coef', pick: (s) => s.areaCurve?.elasticity ?? null },
+  { key: 'references', label: '参照事例数', section: 'input', format: 'count', pick: (s) => (s.formulaVersion > 0 ? s.references.length : null) },
+  { key: 'formulaVersion', label: '計算式バージョン', section: 'input', format: 'text', pick: (s) => (s.formulaVersion > 0 ? `v${s.formulaVersion}` : '記録なし') },
+  { key: 'coefTotal', label: '係数合計', section: 'result', format: 'coef', pick: (s) => s.results.coefTotal },
+  { key: 'areaCoef', label: '面積補正係数', section: 'result', format: 'coef', pick: (s) => s.results.areaCoef },
+  { key: 'floorCoef', label: '階層係数', section: 'result', format: 'coef', pick: (s) => s.results.floorCoef },
+  { key: 'targetUnit', label: '目標単価', section: 'result', format: 'unit', pick: (s) => s.results.targetUnit },
+  { key: 'targetClose', label: '目標成約価格', section: 'result', format: 'yen', pick: (s) => s.results.targetClose },
+  { key: 'raise', label: '募集総額', section: 'result', format: 'yen', pick: (s) => s.results.raise },
+  { key: 'buyTarget', label: '買付目標額', section: 'result', format: 'yen', pick: (s) => s.results.buyTarget },
+]
+
+function referenceKey(reference: PricingSnapshotReference): string {
+  return reference.id ?? `${reference.contractDate}:${reference.floor}:${reference.unitPrice}`
+}
+
+export function diffPricingSnapshots(before: PricingSnapshot, after: PricingSnapshot): PricingSnapshotDiff {
+  const rows = DIFF_FIELDS.map((field) => {
+    const beforeValue = field.pick(before)
+    const afterValue = field.pick(after)
+    const formattedBefore = formatValue(beforeValue, field.format)
+    const formattedAfter = formatValue(afterValue, field.format)
+    return {
+      key: field.key,
+      label: field.label,
+      section: field.section,
+      before: formattedBefore,
+      after: formattedAfter,
+      delta: typeof beforeValue === 'number' && typeof afterValue === 'number' && field.format !== 'text' ? afterValue - beforeValue : null,
+      changed: formattedBefore !== formattedAfter,
+    }
+  })
+
+  const beforeKeys = new Set(before.references.map(referenceKey))
+  const afterKeys = new Set(after.references.map(referenceKey))
+  const addedReferences = before.formulaVersion > 0 ? [...afterKeys].filter((key) => !beforeKeys.has(key)).length : 0
+  const removedReferences = [...beforeKeys].filter((key) => !afterKeys.has(key)).length
+
+  return {
+    rows,
+    addedReferences,
+    removedReferences,
+    changed: rows.some((row) => row.changed) || addedReferences > 0 || removedReferences > 0,
+  }
+}
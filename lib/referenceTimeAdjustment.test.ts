@@ -0,0 +1,66 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { adjustReferenceEntries, buildPriceIndex } from './referenceTimeAdjustment.ts'
+import type { ReferenceValueEntry } from './referenceValue.ts'
+
+function entry(contractDate: string | null, unitPrice: number): ReferenceValueEntry {
+  return {
+    condition_status: 'FULL_REFORM_ALL_EQUIP',
+    floor: 1,
+    unit_price: unitPrice,
+    contract_price: null,
+    area_sqm: null,
+    contract_date: contractDate,
+  }
+}
+
+const rows = [
+  entry('2015-04-01', 200000),
+  entry('2020-06-01', 250000),
+  entry('2024-09-01', 300000),
+  entry('2024-10-01', 300000),
+  entry(null, 280000),
+]
+
+const NOW = new Date('2024-12-01T00:00:00Z')
+
+test('buildPriceIndex restates each year against the current year', () => {
+  const index = buildPriceIndex(rows, 'yearly', NOW)
+  assert.equal(index.targetYear, 2024)
+  assert.deepEqual(index.rows, [
+    { year: 2015, index: 0.667, factor: 1.5 },
+    { year: 2020, index: 0.833, factor: 1.2 },
+    { year: 2024, index: 1, factor: 1 },
+  ])
+  assert.deepEqual(buildPriceIndex(rows, 'none', NOW), { targetYear: null, annualGrowth: null, rows: [] })
+})
+
+test('buildPriceIndex extrapolates the fitted growth rate past the last contract year', () => {
+  const index = buildPriceIndex(rows, 'yearly', new Date('2026-06-01T00:00:00Z'))
+  assert.equal(index.targetYear, 2026)
+  assert.ok(index.annualGrowth != null && index.annualGrowth > 0)
+  const latest = index.rows.find((row) => row.year === 2024)
+  assert.equal(latest?.factor, Math.round((1 + index.annualGrowth) ** 2 * 1000) / 1000)
+
+  // 1年分しかない場合は横ばいとして現在年の水準とする
+  const single = buildPriceIndex([entry('2021-05-01', 250000)], 'yearly', new Date('2026-06-01T00:00:00Z'))
+  assert.deepEqual(single, { targetYear: 2026, annualGrowth: 0, rows: [{ year: 2021, index: 1, factor: 1 }] })
+})
+
+test('buildPriceIndex smooths neighbouring years weighted by contract count', () => {
+  const smoothed = buildPriceIndex([
+    entry('2022-01-01', 200000),
+    entry('2023-01-01', 260000),
+    entry('2024-01-01', 240000),
+  ], 'smoothed', NOW)
+  assert.equal(smoothed.targetYear, 2024)
+  assert.deepEqual(smoothed.rows.map((row) => row.factor), [1.087, 1.071, 1])
+})
+
+test('adjustReferenceEntries scales unit prices and leaves undated rows untouched', () => {
+  const adjusted = adjustReferenceEntries(rows, buildPriceIndex(rows, 'yearly', NOW))
+  assert.deepEqual(adjusted.map((row) => row.unit_price), [300000, 300000, 300000, 300000, 280000])
+  assert.equal(adjusted[2], rows[2])
+  assert.equal(adjustReferenceEntries(rows, { targetYear: null, annualGrowth: null, rows: [] }), rows)
+})
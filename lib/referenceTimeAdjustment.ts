@@ -0,0 +1,105 @@
+import {
+  buildYearlyReferenceSummaries,
+  fitGrowthCurve,
+  resolveReferenceUnitPrice,
+  type ReferenceValueEntry,
+  type YearlyReferenceSummaryRow,
+} from './referenceValue.ts'
+
+export type TimeAdjustmentMode = 'none' | 'yearly' | 'smoothed'
+
+export type PriceIndexRow = {
+  year: number
+  index: number
+  factor: number
+}
+
+// targetYear は換算先（現在）の年。最終成約年から先は annualGrowth で外挿する
+export type PriceIndex = {
+  targetYear: number | null
+  annualGrowth: number | null
+  rows: PriceIndexRow[]
+}
+
+export const TIME_ADJUSTMENT_OPTIONS: { value: TimeAdjustmentMode; label: string }[] = [
+  { value: 'none', label: '時点修正なし' },
+  { value: 'yearly', label: '年次平均で時点修正' },
+  { value: 'smoothed', label: '平滑化指数で時点修正' },
+]
+
+// 平滑化は前後1年の件数加重平均
+const SMOOTHING_WINDOW_YEARS = 1
+
+function smoothYearlySummaries(rows: YearlyReferenceSummaryRow[]): Map<number, number> {
+  return new Map(rows.map((row) => {
+    const window = rows.filter((other) => Math.abs(other.year - row.year) <= SMOOTHING_WINDOW_YEARS)
+    const count = window.reduce((sum, other) => sum + other.contractCount, 0)
+    const weighted = window.reduce((sum, other) => sum + other.meanUnitPrice * other.contractCount, 0)
+    return [row.year, count > 0 ? weighted / count : row.meanUnitPrice]
+  }))
+}
+
+// 年ごとの水準を件数加重で対数回帰した年率。2年分以上ないときは横ばいとみなす
+function estimateAnnualGrowth(yearly: YearlyReferenceSummaryRow[], levels: Map<number, number>): number {
+  const points = yearly
+    .map((row) => ({
+      label: String(row.year),
+      time: row.year,
+      meanUnitPrice: levels.get(row.year) ?? 0,
+      contractCount: row.contractCount,
+      fittedUnitPrice: null,
+    }))
+    .filter((point) => point.meanUnitPrice > 0)
+  if (points.length < 2) return 0
+  const curve = fitGrowthCurve(points)
+  return curve ? Math.exp(curve.slope) - 1 : 0
+}
+
+export function buildPriceIndex(rows: ReferenceValueEntry[], mode: TimeAdjustmentMode, now: Date = new Date()): PriceIndex {
+  const yearly = buildYearlyReferenceSummaries(rows)
+  if (mode === 'none' || yearly.length === 0) return { targetYear: null, annualGrowth: null, rows: [] }
+
+  const levels = mode === 'smoothed'
+    ? smoothYearlySummaries(yearly)
+    : new Map(yearly.map((row) => [row.year, row.meanUnitPrice]))
+  const lastYear = yearly[yearly.length - 1].year
+  const targetYear = Math.max(now.getFullYear(), lastYear)
+  const annualGrowth = estimateAnnualGrowth(yearly, levels)
+  const targetLevel = (levels.get(lastYear) ?? 0) * (1 + annualGrowth) ** (targetYear - lastYear)
+
+  return {
+    targetYear,
+    annualGrowth: Math.round(annualGrowth * 10000) / 10000,
+    rows: yearly.map((row) => {
+      const level = levels.get(row.year) ?? 0
+      return {
+        year: row.year,
+        index: targetLevel > 0 ? Math.round((level / targetLevel) * 1000) / 1000 : 1,
+        factor: level > 0 && targetLevel > 0 ? Math.round((targetLevel / level) * 1000) / 1000 : 1,
+      }
+    }),
+  }
+}
+
+function resolveEntryYear(row: ReferenceValueEntry): number | null {
+  const year = Number.parseInt((row.contract_date ?? '').slice(0, 4), 10)
+  return Number.isFinite(year) ? year : null
+}
+
+// 成約年の指数で現在の水準へ換算する（成約年不明の事例は補正しない）
+export function adjustReferenceEntries(rows: ReferenceValueEntry[], index: PriceIndex): ReferenceValueEntry[] {
+  if (index.rows.length === 0) return rows
+  const factors = new Map(index.rows.map((row) => [row.year, row.factor]))
+
+  return rows.map((row) => {
+    const year = resolveEntryYear(row)
+    const factor = year != null ? factors.get(year) : undefined
+    const unitPrice = resolveReferenceUnitPrice(row)
+    if (factor == null || factor === 1 || unitPrice == null) return row
+    return {
+      ...row,
+      unit_price: Math.round(unitPrice * factor * 100) / 100,
+      contract_price: row.contract_price != null ? Math.round(row.contract_price * factor) : null,
+    }
+  })
+}
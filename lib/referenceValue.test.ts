@@ -5,14 +5,28 @@ import {
   buildYearlyReferenceSummaries,
   buildReferenceValueTables,
   buildReferenceValueSummaries,
+  filterReferenceRowsBySource,
   resolveMaxReferenceValue,
   resolveMeanReferenceCoef,
+  resolveReferenceSpread,
   resolveYearGrowthCoef,
   resolveYearGrowthCoefResult,
   resolveReferenceUnitPrice,
+  summarizeReferenceValues,
   type ReferenceValueEntry,
+  type ReferenceValueMatrixCell,
 } from './referenceValue.ts'
 
+const emptyCell: ReferenceValueMatrixCell = { value: null, coef: null, median: null, trimmedMean: null, count: 0, borrowedCount: 0, outliers: [] }
+
+function cell(value: number, coef: number | null, median = value, count = 1): ReferenceValueMatrixCell {
+  return { value, coef, median, trimmedMean: median, count, borrowedCount: 0, outliers: [] }
+}
+
+function pickValueCoef(target: ReferenceValueMatrixCell) {
+  return { value: target.value, coef: target.coef }
+}
+
 const baseRows: ReferenceValueEntry[] = [
   { floor: 1, area_sqm: 50, contract_price: 10000000, unit_price: 200000, condition_status: 'FULL_RENO_INSULATED' },
   { floor: 1, area_sqm: 40, contract_price: 8800000, unit_price: 220000, condition_status: 'FULL_RENO_INSULATED' },
@@ -28,13 +42,13 @@ test('buildReferenceValueSummaries matches documented reference table expectatio
   const { conditionSummaries, floorSummaries } = buildReferenceValueSummaries(baseRows)
 
   assert.deepEqual(conditionSummaries, [
-    { key: 'FULL_RENO_INSULATED', label: 'フルリノベーション+断熱', max: 220000, mean: 210000 },
-    { key: 'FULL_RENO_HIGH_DESIGN', label: 'フルリノベーション(デザイン性・快適性良好)', max: 180000, mean: 180000 },
-    { key: 'FULL_REFORM_ALL_EQUIP', label: 'フルリフォーム(設備全て交換)', max: 150000, mean: 150000 },
-    { key: 'PARTIAL_REFORM', label: '一部リフォーム', max: 160000, mean: 160000 },
-    { key: 'OWNER_OCCUPIED', label: '売主居住中（または居住可能な状態）', max: 140000, mean: 140000 },
-    { key: 'NEEDS_RENOVATION', label: '改修必要', max: 130000, mean: 130000 },
-    { key: 'INVESTMENT_PROPERTY', label: '収益物件', max: null, mean: null },
+    { key: 'FULL_RENO_INSULATED', label: 'フルリノベーション+断熱', max: 220000, mean: 210000, median: 210000, trimmedMean: 210000, count: 2, outliers: [] },
+    { key: 'FULL_RENO_HIGH_DESIGN', label: 'フルリノベーション(デザイン性・快適性良好)', max: 180000, mean: 180000, median: 180000, trimmedMean: 180000, count: 1, outliers: [] },
+    { key: 'FULL_REFORM_ALL_EQUIP', label: 'フルリフォーム(設備全て交換)', max: 150000, mean: 150000, median: 150000, trimmedMean: 150000, count: 1, outliers: [] },
+    { key: 'PARTIAL_REFORM', label: '一部リフォーム', max: 160000, mean: 160000, median: 160000, trimmedMean: 160000, count: 1, outliers: [] },
+    { key: 'OWNER_OCCUPIED', label: '売主居住中（または居住可能な状態）', max: 140000, mean: 140000, median: 140000, trimmedMean: 140000, count: 1, outliers: [] },
+    { key: 'NEEDS_RENOVATION', label: '改修必要', max: 130000, mean: 130000, median: 130000, trimmedMean: 130000, count: 1, outliers: [] },
+    { key: 'INVESTMENT_PROPERTY', label: '収益物件', max: null, mean: null, median: null, trimmedMean: null, count: 0, outliers: [] },
   ])
 
   assert.deepEqual(floorSummaries, [
@@ -88,37 +102,37 @@ test('buildReferenceValueTables uses condition-specific max and mean values by f
     {
       floor: 1,
       values: {
-        FULL_RENO_INSULATED: { value: 220000, coef: 1 },
-        FULL_RENO_HIGH_DESIGN: { value: null, coef: null },
-        FULL_REFORM_ALL_EQUIP: { value: null, coef: null },
-        PARTIAL_REFORM: { value: null, coef: null },
-        OWNER_OCCUPIED: { value: null, coef: null },
-        NEEDS_RENOVATION: { value: null, coef: null },
-        INVESTMENT_PROPERTY: { value: null, coef: null },
+        FULL_RENO_INSULATED: cell(220000, 1, 210000, 2),
+        FULL_RENO_HIGH_DESIGN: emptyCell,
+        FULL_REFORM_ALL_EQUIP: emptyCell,
+        PARTIAL_REFORM: emptyCell,
+        OWNER_OCCUPIED: emptyCell,
+        NEEDS_RENOVATION: emptyCell,
+        INVESTMENT_PROPERTY: emptyCell,
       },
     },
     {
       floor: 2,
       values: {
-        FULL_RENO_INSULATED: { value: null, coef: null },
-        FULL_RENO_HIGH_DESIGN: { value: 180000, coef: null },
-        FULL_REFORM_ALL_EQUIP: { value: null, coef: null },
-        PARTIAL_REFORM: { value: 160000, coef: null },
-        OWNER_OCCUPIED: { value: null, coef: null },
-        NEEDS_RENOVATION: { value: null, coef: null },
-        INVESTMENT_PROPERTY: { value: null, coef: null },
+        FULL_RENO_INSULATED: emptyCell,
+        FULL_RENO_HIGH_DESIGN: cell(180000, null),
+        FULL_REFORM_ALL_EQUIP: emptyCell,
+        PARTIAL_REFORM: cell(160000, null),
+        OWNER_OCCUPIED: emptyCell,
+        NEEDS_RENOVATION: emptyCell,
+        INVESTMENT_PROPERTY: emptyCell,
       },
     },
     {
       floor: 3,
       values: {
-        FULL_RENO_INSULATED: { value: null, coef: null },
-        FULL_RENO_HIGH_DESIGN: { value: null, coef: null },
-        FULL_REFORM_ALL_EQUIP: { value: 150000, coef: null },
-        PARTIAL_REFORM: { value: null, coef: null },
-        OWNER_OCCUPIED: { value: null, coef: null },
-        NEEDS_RENOVATION: { value: 130000, coef: null },
-        INVESTMENT_PROPERTY: { value: null, coef: null },
+        FULL_RENO_INSULATED: emptyCell,
+        FULL_RENO_HIGH_DESIGN: emptyCell,
+        FULL_REFORM_ALL_EQUIP: cell(150000, null),
+        PARTIAL_REFORM: emptyCell,
+        OWNER_OCCUPIED: emptyCell,
+        NEEDS_RENOVATION: cell(130000, null),
+        INVESTMENT_PROPERTY: emptyCell,
       },
     },
   ])
@@ -127,37 +141,37 @@ test('buildReferenceValueTables uses condition-specific max and mean values by f
     {
       floor: 1,
       values: {
-        FULL_RENO_INSULATED: { value: 210000, coef: 1 },
-        FULL_RENO_HIGH_DESIGN: { value: null, coef: null },
-        FULL_REFORM_ALL_EQUIP: { value: null, coef: null },
-        PARTIAL_REFORM: { value: null, coef: null },
-        OWNER_OCCUPIED: { value: null, coef: null },
-        NEEDS_RENOVATION: { value: null, coef: null },
-        INVESTMENT_PROPERTY: { value: null, coef: null },
+        FULL_RENO_INSULATED: cell(210000, 1, 210000, 2),
+        FULL_RENO_HIGH_DESIGN: emptyCell,
+        FULL_REFORM_ALL_EQUIP: emptyCell,
+        PARTIAL_REFORM: emptyCell,
+        OWNER_OCCUPIED: emptyCell,
+        NEEDS_RENOVATION: emptyCell,
+        INVESTMENT_PROPERTY: emptyCell,
       },
     },
     {
       floor: 2,
       values: {
-        FULL_RENO_INSULATED: { value: null, coef: null },
-        FULL_RENO_HIGH_DESIGN: { value: 180000, coef: null },
-        FULL_REFORM_ALL_EQUIP: { value: null, coef: null },
-        PARTIAL_REFORM: { value: 160000, coef: null },
-        OWNER_OCCUPIED: { value: null, coef: null },
-        NEEDS_RENOVATION: { value: null, coef: null },
-        INVESTMENT_PROPERTY: { value: null, coef: null },
+        FULL_RENO_INSULATED: emptyCell,
+        FULL_RENO_HIGH_DESIGN: cell(180000, null),
+        FULL_REFORM_ALL_EQUIP: emptyCell,
+        PARTIAL_REFORM: cell(160000, null),
+        OWNER_OCCUPIED: emptyCell,
+        NEEDS_RENOVATION: emptyCell,
+        INVESTMENT_PROPERTY: emptyCell,
       },
     },
     {
       floor: 3,
       values: {
-        FULL_RENO_INSULATED: { value: null, coef: null },
-        FULL_RENO_HIGH_DESIGN: { value: null, coef: null },
-        FULL_REFORM_ALL_EQUIP: { value: 150000, coef: null },
-        PARTIAL_REFORM: { value: null, coef: null },
-        OWNER_OCCUPIED: { value: null, coef: null },
-        NEEDS_RENOVATION: { value: 130000, coef: null },
-        INVESTMENT_PROPERTY: { value: null, coef: null },
+        FULL_RENO_INSULATED: emptyCell,
+        FULL_RENO_HIGH_DESIGN: emptyCell,
+        FULL_REFORM_ALL_EQUIP: cell(150000, null),
+        PARTIAL_REFORM: emptyCell,
+        OWNER_OCCUPIED: emptyCell,
+        NEEDS_RENOVATION: cell(130000, null),
+        INVESTMENT_PROPERTY: emptyCell,
       },
     },
   ])
@@ -165,13 +179,13 @@ test('buildReferenceValueTables uses condition-specific max and mean values by f
   assert.deepEqual(meanRows[5], {
     floor: 6,
     values: {
-      FULL_RENO_INSULATED: { value: null, coef: null },
-      FULL_RENO_HIGH_DESIGN: { value: null, coef: null },
-      FULL_REFORM_ALL_EQUIP: { value: null, coef: null },
-      PARTIAL_REFORM: { value: null, coef: null },
-      OWNER_OCCUPIED: { value: null, coef: null },
-      NEEDS_RENOVATION: { value: null, coef: null },
-      INVESTMENT_PROPERTY: { value: null, coef: null },
+      FULL_RENO_INSULATED: emptyCell,
+      FULL_RENO_HIGH_DESIGN: emptyCell,
+      FULL_REFORM_ALL_EQUIP: emptyCell,
+      PARTIAL_REFORM: emptyCell,
+      OWNER_OCCUPIED: emptyCell,
+      NEEDS_RENOVATION: emptyCell,
+      INVESTMENT_PROPERTY: emptyCell,
     },
   })
 })
@@ -191,10 +205,10 @@ test('max coefficients use each condition`s first-floor max as the baseline', ()
     maxFloor: 5,
   })
 
-  assert.deepEqual(maxRows[0].values.FULL_RENO_INSULATED, { value: 300, coef: 1 })
-  assert.deepEqual(maxRows[0].values.FULL_RENO_HIGH_DESIGN, { value: 500, coef: 1 })
-  assert.deepEqual(maxRows[1].values.FULL_RENO_INSULATED, { value: 240, coef: 0.8 })
-  assert.deepEqual(maxRows[4].values.FULL_RENO_INSULATED, { value: 186, coef: 0.62 })
+  assert.deepEqual(pickValueCoef(maxRows[0].values.FULL_RENO_INSULATED), { value: 300, coef: 1 })
+  assert.deepEqual(pickValueCoef(maxRows[0].values.FULL_RENO_HIGH_DESIGN), { value: 500, coef: 1 })
+  assert.deepEqual(pickValueCoef(maxRows[1].values.FULL_RENO_INSULATED), { value: 240, coef: 0.8 })
+  assert.deepEqual(pickValueCoef(maxRows[4].values.FULL_RENO_INSULATED), { value: 186, coef: 0.62 })
 })
 
 test('mean coefficients use each condition`s first-floor average as the baseline', () => {
@@ -206,8 +220,8 @@ test('mean coefficients use each condition`s first-floor average as the baseline
     maxFloor: 5,
   })
 
-  assert.deepEqual(meanRows[0].values.PARTIAL_REFORM, { value: 84411, coef: 1 })
-  assert.deepEqual(meanRows[4].values.PARTIAL_REFORM, { value: 52667, coef: 0.62 })
+  assert.deepEqual(pickValueCoef(meanRows[0].values.PARTIAL_REFORM), { value: 84411, coef: 1 })
+  assert.deepEqual(pickValueCoef(meanRows[4].values.PARTIAL_REFORM), { value: 52667, coef: 0.62 })
 })
 
 test('resolveMeanReferenceCoef returns the full-reform mean coefficient for the requested floor', () => {
@@ -235,6 +249,48 @@ test('resolveMaxReferenceValue returns the full-reform max value for the request
   assert.equal(resolveMaxReferenceValue({ rows, maxFloor: 5, floor: null }), null)
 })
 
+test('resolveReferenceSpread widens the band for thin reference cells', () => {
+  const rows: ReferenceValueEntry[] = [480000, 500000, 520000, 510000].map((unitPrice) => (
+    { floor: 4, area_sqm: null, contract_price: null, unit_price: unitPrice, condition_status: 'FULL_REFORM_ALL_EQUIP' }
+  ))
+
+  assert.deepEqual(resolveReferenceSpread({ rows, floor: 4 }), { count: 4, borrowedCount: 0, mean: 502500, stdev: 17078, halfWidth: 0.06, thin: false })
+  assert.deepEqual(resolveReferenceSpread({ rows: rows.slice(0, 1), floor: 4 }), { count: 1, borrowedCount: 0, mean: 480000, stdev: 0, halfWidth: 0.1, thin: true })
+  assert.deepEqual(resolveReferenceSpread({ rows, floor: 2 }), { count: 0, borrowedCount: 0, mean: null, stdev: null, halfWidth: 0.25, thin: true })
+  assert.equal(resolveReferenceSpread({ rows, floor: 4, condition: 'PARTIAL_REFORM' }).count, 0)
+})
+
+test('summarizeReferenceValues adds median, trimmed mean, counts and IQR outliers', () => {
+  assert.deepEqual(summarizeReferenceValues([300000, 310000, 305000, 295000, 3000000]), {
+    max: 3000000,
+    mean: 842000,
+    median: 305000,
+    trimmedMean: 305000,
+    count: 5,
+    outliers: [3000000],
+  })
+  assert.deepEqual(summarizeReferenceValues([100, 200, 300]).outliers, [])
+  assert.equal(summarizeReferenceValues([100, 200]).median, 150)
+  assert.equal(summarizeReferenceValues([]).count, 0)
+})
+
+test('the selected statistic feeds the mean table and reference resolvers', () => {
+  const rows: ReferenceValueEntry[] = [
+    ...[200000, 210000, 220000, 205000].map((unitPrice) => ({ floor: 1, area_sqm: null, contract_price: null, unit_price: unitPrice, condition_status: 'FULL_REFORM_ALL_EQUIP' as const })),
+    ...[150000, 160000, 155000, 900000].map((unitPrice) => ({ floor: 3, area_sqm: null, contract_price: null, unit_price: unitPrice, condition_status: 'FULL_REFORM_ALL_EQUIP' as const })),
+  ]
+
+  const { meanRows } = buildReferenceValueTables({ rows, maxFloor: 3, statistic: 'median' })
+  assert.equal(meanRows[2].values.FULL_REFORM_ALL_EQUIP.value, 157500)
+  assert.equal(meanRows[2].values.FULL_REFORM_ALL_EQUIP.count, 4)
+  assert.deepEqual(meanRows[2].values.FULL_REFORM_ALL_EQUIP.outliers, [900000])
+
+  assert.equal(resolveMeanReferenceCoef({ rows, maxFloor: 3, floor: 3 }), 1.63)
+  assert.equal(resolveMeanReferenceCoef({ rows, maxFloor: 3, floor: 3, statistic: 'median' }), 0.76)
+  assert.equal(resolveMaxReferenceValue({ rows, maxFloor: 3, floor: 3 }), 900000)
+  assert.equal(resolveMaxReferenceValue({ rows, maxFloor: 3, floor: 3, statistic: 'median' }), 157500)
+})
+
 test('buildYearlyReferenceSummaries groups by contract year with average unit price and count', () => {
   const rows: ReferenceValueEntry[] = [
     { floor: 1, area_sqm: null, contract_price: null, unit_price: 150000, condition_status: 'FULL_REFORM_ALL_EQUIP', contract_date: '2009-02-01', reins_registered_date: null },
@@ -250,16 +306,99 @@ test('buildYearlyReferenceSummaries groups by contract year with average unit pr
   ])
 })
 
-test('resolveYearGrowthCoef follows the rounded yearly growth calculation from oldest and latest averages', () => {
+const growthRows: ReferenceValueEntry[] = Array.from({ length: 9 }, (_, index) => ({
+  floor: index === 4 ? 3 : 1,
+  area_sqm: null,
+  contract_price: null,
+  unit_price: Math.round(200000 * 1.05 ** index),
+  condition_status: 'FULL_REFORM_ALL_EQUIP',
+  contract_date: `${2016 + index}-07-15`,
+}))
+
+test('resolveYearGrowthCoefResult compounds a CAGR fitted over every yearly point from the base contract month', () => {
+  const result = resolveYearGrowthCoefResult({ rows: growthRows, floor: 3, now: new Date('2025-07-01T00:00:00') })
+
+  assert.equal(result.reason, null)
+  assert.equal(result.cagr, 0.05)
+  assert.equal(result.baseDate, '2020-07-15')
+  assert.equal(result.elapsedYears, 5)
+  assert.equal(result.value, 0.28)
+  assert.equal(result.points.length, 9)
+  assert.deepEqual(result.points[0], { label: '2016', time: 2016.5, meanUnitPrice: 200000, contractCount: 1, fittedUnitPrice: 200000 })
+  assert.deepEqual(result.notes, [])
+
+  assert.equal(resolveYearGrowthCoef({ rows: growthRows, floor: 3, now: new Date('2020-07-20T00:00:00') }), 0)
+  assert.equal(resolveYearGrowthCoef({ rows: growthRows, floor: 2 }), null)
+  assert.equal(resolveYearGrowthCoef({ rows: growthRows, floor: null }), null)
+})
+
+test('resolveYearGrowthCoefResult supports monthly points and flags extrapolation', () => {
+  const result = resolveYearGrowthCoefResult({
+    rows: growthRows,
+    floor: 3,
+    resolution: 'monthly',
+    now: new Date('2029-01-10T00:00:00'),
+  })
+
+  assert.equal(result.points[0]?.label, '2016-07')
+  assert.equal(result.cagr, 0.05)
+  assert.equal(result.elapsedYears, 8.5)
+  assert.deepEqual(result.notes, ['直近4年は成約データがなく外挿しています'])
+})
+
+test('resolveYearGrowthCoefResult does not read a shift in condition mix as price growth', () => {
+  // どちらの状態も価格は横ばいだが、後年ほど高単価のリノベ物件が増える
   const rows: ReferenceValueEntry[] = [
-    { floor: 3, area_sqm: null, contract_price: null, unit_price: 175051, condition_status: 'FULL_REFORM_ALL_EQUIP', contract_date: '2019-06-01' },
-    { floor: 1, area_sqm: null, contract_price: null, unit_price: 149687, condition_status: 'FULL_REFORM_ALL_EQUIP', contract_date: '2009-01-01' },
-    { floor: 2, area_sqm: null, contract_price: null, unit_price: 180705, condition_status: 'FULL_REFORM_ALL_EQUIP', contract_date: '2026-01-01' },
+    ...Array.from({ length: 9 }, (_, index) => ({
+      floor: 3,
+      area_sqm: null,
+      contract_price: null,
+      unit_price: 200000,
+      condition_status: 'FULL_REFORM_ALL_EQUIP' as const,
+      contract_date: `${2016 + index}-07-15`,
+    })),
+    ...Array.from({ length: 8 }, (_, index) => ({
+      floor: 3,
+      area_sqm: null,
+      contract_price: null,
+      unit_price: 300000,
+      condition_status: 'FULL_RENO_INSULATED' as const,
+      contract_date: `${2021 + (index % 4)}-03-15`,
+    })),
   ]
+  const result = resolveYearGrowthCoefResult({ rows, floor: 3, now: new Date('2025-07-01T00:00:00') })
 
-  assert.equal(resolveYearGrowthCoef({ rows, floor: 3 }), 0.49)
-  assert.equal(resolveYearGrowthCoef({ rows, floor: 2 }), 0)
-  assert.equal(resolveYearGrowthCoef({ rows, floor: null }), null)
+  assert.equal(result.reason, null)
+  assert.equal(result.cagr, 0)
+  assert.equal(result.value, 0)
+  assert.deepEqual(result.points.map((point) => point.meanUnitPrice), Array(9).fill(200000))
+})
+
+test('resolveYearGrowthCoefResult uses the nearest floor level when the target floor has no dated contracts', () => {
+  const rows: ReferenceValueEntry[] = [
+    ...Array.from({ length: 5 }, (_, index) => ({
+      floor: 2,
+      area_sqm: null,
+      contract_price: null,
+      unit_price: Math.round(200000 * 1.02 ** index),
+      condition_status: 'FULL_REFORM_ALL_EQUIP' as const,
+      contract_date: `${2020 + index}-07-15`,
+    })),
+    // 該当階の事例はレインズ登録日しかない
+    { floor: 3, area_sqm: null, contract_price: null, unit_price: 250000, condition_status: 'FULL_REFORM_ALL_EQUIP', reins_registered_date: '2024-01-10' },
+  ]
+  const result = resolveYearGrowthCoefResult({ rows, floor: 3, now: new Date('2025-07-01T00:00:00') })
+
+  assert.equal(result.reason, null)
+  assert.equal(result.cagr, 0.02)
+  assert.deepEqual(result.notes, ['3階に成約日のある事例がないため、2階の水準で表示しています'])
+  assert.equal(result.points[0].fittedUnitPrice, 200000)
+
+  const otherCondition = rows.map((row) => ({ ...row, condition_status: row.floor === 3 ? row.condition_status : 'PARTIAL_REFORM' as const }))
+  assert.equal(
+    resolveYearGrowthCoefResult({ rows: otherCondition, floor: 3, now: new Date('2025-07-01T00:00:00') }).reason,
+    '該当状態に成約日のある事例がないため水準を決められません',
+  )
 })
 
 test('resolveYearGrowthCoefResult explains why the coefficient is blank', () => {
@@ -268,7 +407,7 @@ test('resolveYearGrowthCoefResult explains why the coefficient is blank', () =>
       rows: [],
       floor: null,
     }),
-    { value: null, reason: '階数を入力すると年数係数を計算できます' },
+    { value: null, reason: '階数を入力すると年数係数を計算できます', cagr: null, elapsedYears: null, baseDate: null, points: [], notes: [] },
   )
 
   assert.deepEqual(
@@ -277,7 +416,23 @@ test('resolveYearGrowthCoefResult explains why the coefficient is blank', () =>
         { floor: 1, area_sqm: null, contract_price: null, unit_price: 149687, condition_status: 'FULL_REFORM_ALL_EQUIP', contract_date: '2009-01-01' },
       ],
       floor: 1,
-    }),
-    { value: null, reason: '年度別平均㎡単価の表に2年分以上のデータがありません' },
+    }).reason,
+    '年度別の平均㎡単価が3時点以上必要です（現在1時点）',
+  )
+
+  assert.equal(
+    resolveYearGrowthCoefResult({ rows: growthRows.slice(0, 4), floor: 1 }).reason,
+    '成約日のある過去成約が5件以上必要です（現在4件）',
   )
 })
+
+test('filterReferenceRowsBySource treats untagged rows as own registrations', () => {
+  const rows: ReferenceValueEntry[] = [
+    { id: 'a', condition_status: 'PARTIAL_REFORM', floor: 1, unit_price: 200000, contract_price: null, area_sqm: 50 },
+    { id: 'b', source: 'MLIT', condition_status: 'PARTIAL_REFORM', floor: 1, unit_price: 180000, contract_price: null, area_sqm: 50 },
+  ]
+  assert.deepEqual(filterReferenceRowsBySource(rows, { REINS: true, MLIT: false }).map((row) => row.id), ['a'])
+  assert.deepEqual(filterReferenceRowsBySource(rows, { REINS: false, MLIT: true }).map((row) => row.id), ['b'])
+  const { meanRows } = buildReferenceValueTables({ rows: filterReferenceRowsBySource(rows, { REINS: true, MLIT: true }), maxFloor: 1 })
+  assert.equal(meanRows[0].values.PARTIAL_REFORM.value, 190000)
+})
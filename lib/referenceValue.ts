@@ -7,7 +7,20 @@ export type ConditionStatus =
   | 'NEEDS_RENOVATION'
   | 'INVESTMENT_PROPERTY'
 
+// 類似団地から借りた事例。unit_price は類似度補正後の値で、補正前の単価を originalUnitPrice に残す
+export type BorrowedReference = {
+  complexId: string
+  complexName: string
+  adjustment: number
+  originalUnitPrice: number
+}
+
+// 事例の出典。null は自社登録（REINS など）の成約
+export type ReferenceSource = 'REINS' | 'MLIT'
+
 export type ReferenceValueEntry = {
+  id?: string
+  source?: ReferenceSource | null
   condition_status: ConditionStatus | null
   floor: number | null
   unit_price: number | null
@@ -15,15 +28,36 @@ export type ReferenceValueEntry = {
   area_sqm: number | null
   contract_date?: string | null
   reins_registered_date?: string | null
+  borrowed?: BorrowedReference | null
+}
+
+export type ReferenceStats = {
+  max: number | null
+  mean: number | null
+  median: number | null
+  trimmedMean: number | null
+  count: number
+  outliers: number[]
 }
 
 export type ConditionSummaryRow = {
   key: ConditionStatus
   label: string
-  max: number | null
+} & ReferenceStats
+
+// 目標単価の上下幅（相対値）。count はそのセル（状態×階）の事例数
+export type ReferenceSpread = {
+  count: number
+  borrowedCount: number
   mean: number | null
+  stdev: number | null
+  halfWidth: number
+  thin: boolean
 }
 
+export type CentralStatistic = 'mean' | 'median' | 'trimmedMean'
+export type ReferenceStatistic = 'max' | CentralStatistic
+
 export type FloorSummaryRow = {
   floor: number
   max: number | null
@@ -39,6 +73,11 @@ export type ReferenceValueMatrixColumn = {
 export type ReferenceValueMatrixCell = {
   value: number | null
   coef: number | null
+  median: number | null
+  trimmedMean: number | null
+  count: number
+  borrowedCount: number
+  outliers: number[]
 }
 
 export type ReferenceValueMatrixRow = {
@@ -52,12 +91,53 @@ export type YearlyReferenceSummaryRow = {
   contractCount: number
 }
 
+export type GrowthResolution = 'yearly' | 'monthly'
+
+export type YearGrowthPoint = {
+  label: string
+  time: number
+  meanUnitPrice: number
+  contractCount: number
+  fittedUnitPrice: number | null
+}
+
+export type YearGrowthCoefParams = {
+  rows: ReferenceValueEntry[]
+  floor: number | null
+  condition?: ConditionStatus
+  resolution?: GrowthResolution
+  now?: Date
+}
+
 export type YearGrowthCoefResult = {
   value: number | null
   reason: string | null
+  cagr: number | null
+  elapsedYears: number | null
+  baseDate: string | null
+  points: YearGrowthPoint[]
+  notes: string[]
 }
 
 export const FLOOR_COEF_BASE_UNIT_PRICE = 200000
+// 年数係数の成長率推定に必要な最低件数（成約件数・時点数）
+export const GROWTH_MIN_SAMPLES = 5
+export const GROWTH_MIN_POINTS = 3
+// トリム平均で上下それぞれ除外する割合
+export const TRIMMED_MEAN_RATIO = 0.2
+// 四分位範囲による外れ値判定は4件以上から行う
+export const IQR_OUTLIER_MIN_COUNT = 4
+
+// 事例のばらつきに加え、件数が少ないほど幅を広げる（1件なら ±PRIOR_SPREAD）
+export const REFERENCE_BAND_PRIOR_SPREAD = 0.1
+export const REFERENCE_BAND_MAX_SPREAD = 0.25
+export const REFERENCE_BAND_MIN_SAMPLES = 3
+
+export const CENTRAL_STATISTIC_OPTIONS: { value: CentralStatistic; label: string }[] = [
+  { value: 'mean', label: '平均値' },
+  { value: 'median', label: '中央値' },
+  { value: 'trimmedMean', label: 'トリム平均' },
+]
 
 export const CONDITION_STATUS_OPTIONS: { value: ConditionStatus; label: string }[] = [
   { value: 'FULL_RENO_INSULATED', label: 'フルリノベーション+断熱' },
@@ -69,6 +149,11 @@ export const CONDITION_STATUS_OPTIONS: { value: ConditionStatus; label: string }
   { value: 'INVESTMENT_PROPERTY', label: '収益物件' },
 ]
 
+export const REFERENCE_SOURCE_OPTIONS: { value: ReferenceSource; label: string }[] = [
+  { value: 'REINS', label: '自社登録（REINS）' },
+  { value: 'MLIT', label: '国交省 取引価格情報' },
+]
+
 export const REFERENCE_VALUE_MATRIX_COLUMNS: ReferenceValueMatrixColumn[] = [
   { key: 'FULL_RENO_INSULATED', label: 'フルリノベ++断熱' },
   { key: 'FULL_RENO_HIGH_DESIGN', label: 'フルリノベ' },
@@ -84,11 +169,58 @@ function calcDerivedUnitPrice(contractPrice: number | null, areaSqm: number | nu
   return Math.round((contractPrice / areaSqm) * 100) / 100
 }
 
+export function resolveReferenceSource(row: ReferenceValueEntry): ReferenceSource {
+  return row.source === 'MLIT' ? 'MLIT' : 'REINS'
+}
+
+export function filterReferenceRowsBySource(
+  rows: ReferenceValueEntry[],
+  enabled: Record<ReferenceSource, boolean>,
+): ReferenceValueEntry[] {
+  return rows.filter((row) => enabled[resolveReferenceSource(row)])
+}
+
 export function resolveReferenceUnitPrice(row: ReferenceValueEntry): number | null {
   if (typeof row.unit_price === 'number' && Number.isFinite(row.unit_price)) return row.unit_price
   return calcDerivedUnitPrice(row.contract_price, row.area_sqm)
 }
 
+function calcQuantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+export function summarizeReferenceValues(values: number[]): ReferenceStats {
+  if (values.length === 0) {
+    return { max: null, mean: null, median: null, trimmedMean: null, count: 0, outliers: [] }
+  }
+  const sorted = [...values].sort((a, b) => a - b)
+  const count = sorted.length
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / count
+  const trim = Math.floor(count * TRIMMED_MEAN_RATIO)
+  const trimmed = sorted.slice(trim, count - trim)
+  const trimmedMean = trimmed.reduce((sum, value) => sum + value, 0) / trimmed.length
+
+  let outliers: number[] = []
+  if (count >= IQR_OUTLIER_MIN_COUNT) {
+    const q1 = calcQuantile(sorted, 0.25)
+    const q3 = calcQuantile(sorted, 0.75)
+    const iqr = q3 - q1
+    outliers = values.filter((value) => value < q1 - 1.5 * iqr || value > q3 + 1.5 * iqr)
+  }
+
+  return {
+    max: sorted[count - 1],
+    mean,
+    median: calcQuantile(sorted, 0.5),
+    trimmedMean,
+    count,
+    outliers,
+  }
+}
+
 export function buildReferenceValueSummaries(rows: ReferenceValueEntry[]): {
   conditionSummaries: ConditionSummaryRow[]
   floorSummaries: FloorSummaryRow[]
@@ -113,13 +245,11 @@ export function buildReferenceValueSummaries(rows: ReferenceValueEntry[]): {
     }
   }
 
-  const conditionSummaries = CONDITION_STATUS_OPTIONS.map((option) => {
-    const values = grouped.get(option.value) ?? []
-    if (values.length === 0) return { key: option.value, label: option.label, max: null, mean: null }
-    const max = Math.max(...values)
-    const mean = values.reduce((sum, value) => sum + value, 0) / values.length
-    return { key: option.value, label: option.label, max, mean }
-  })
+  const conditionSummaries = CONDITION_STATUS_OPTIONS.map((option) => ({
+    key: option.value,
+    label: option.label,
+    ...summarizeReferenceValues(grouped.get(option.value) ?? []),
+  }))
 
   const floorSummaries = [...new Set<number>([1, ...floorGrouped.keys()])]
     .sort((a, b) => b - a)
@@ -146,37 +276,14 @@ function calcReferenceCoef(value: number | null, base: number | null): number |
   return Math.round((value / base) * 100) / 100
 }
 
-function buildConditionFloorMeanMap(rows: ReferenceValueEntry[]): Map<ConditionStatus, Map<number, number>> {
-  const grouped = new Map<ConditionStatus, Map<number, number[]>>()
-
-  for (const row of rows) {
-    const unitPrice = resolveReferenceUnitPrice(row)
-    if (unitPrice == null) continue
-    if (row.condition_status == null) continue
-    if (typeof row.floor !== 'number' || !Number.isFinite(row.floor)) continue
-
-    const floorMap = grouped.get(row.condition_status) ?? new Map<number, number[]>()
-    const values = floorMap.get(row.floor) ?? []
-    values.push(unitPrice)
-    floorMap.set(row.floor, values)
-    grouped.set(row.condition_status, floorMap)
-  }
-
-  return new Map(
-    [...grouped.entries()].map(([status, floorMap]) => [
-      status,
-      new Map(
-        [...floorMap.entries()].map(([floor, values]) => [
-          floor,
-          roundReferenceValue(values.reduce((sum, current) => sum + current, 0) / values.length),
-        ]),
-      ),
-    ]),
-  )
+function roundReferenceStat(value: number | null): number | null {
+  return value == null ? null : roundReferenceValue(value)
 }
 
-function buildConditionFloorMaxMap(rows: ReferenceValueEntry[]): Map<ConditionStatus, Map<number, number>> {
-  const grouped = new Map<ConditionStatus, Map<number, number[]>>()
+type CellStats = ReferenceStats & { borrowedCount: number }
+
+function buildConditionFloorStatsMap(rows: ReferenceValueEntry[]): Map<ConditionStatus, Map<number, CellStats>> {
+  const grouped = new Map<ConditionStatus, Map<number, { values: number[]; borrowedCount: number }>>()
 
   for (const row of rows) {
     const unitPrice = resolveReferenceUnitPrice(row)
@@ -184,10 +291,11 @@ function buildConditionFloorMaxMap(rows: ReferenceValueEntry[]): Map<ConditionSt
     if (row.condition_status == null) continue
     if (typeof row.floor !== 'number' || !Number.isFinite(row.floor)) continue
 
-    const floorMap = grouped.get(row.condition_status) ?? new Map<number, number[]>()
-    const values = floorMap.get(row.floor) ?? []
-    values.push(unitPrice)
-    floorMap.set(row.floor, values)
+    const floorMap = grouped.get(row.condition_status) ?? new Map<number, { values: number[]; borrowedCount: number }>()
+    const bucket = floorMap.get(row.floor) ?? { values: [], borrowedCount: 0 }
+    bucket.values.push(unitPrice)
+    if (row.borrowed) bucket.borrowedCount += 1
+    floorMap.set(row.floor, bucket)
     grouped.set(row.condition_status, floorMap)
   }
 
@@ -195,76 +303,72 @@ function buildConditionFloorMaxMap(rows: ReferenceValueEntry[]): Map<ConditionSt
     [...grouped.entries()].map(([status, floorMap]) => [
       status,
       new Map(
-        [...floorMap.entries()].map(([floor, values]) => [
+        [...floorMap.entries()].map(([floor, bucket]) => [
           floor,
-          roundReferenceValue(Math.max(...values)),
+          { ...summarizeReferenceValues(bucket.values), borrowedCount: bucket.borrowedCount },
         ]),
       ),
     ]),
   )
 }
 
+function pickReferenceStat(stats: ReferenceStats | undefined, statistic: ReferenceStatistic): number | null {
+  return roundReferenceStat(stats?.[statistic] ?? null)
+}
+
 export function buildReferenceValueTables(params: {
   rows: ReferenceValueEntry[]
   maxFloor: number | null
+  statistic?: CentralStatistic
 }): {
   maxRows: ReferenceValueMatrixRow[]
   meanRows: ReferenceValueMatrixRow[]
 } {
-  const { rows, maxFloor } = params
+  const { rows, maxFloor, statistic = 'mean' } = params
   const floorSummaries = buildReferenceValueSummaries(rows).floorSummaries
   const fallbackMaxFloor = floorSummaries.reduce((highest, row) => Math.max(highest, row.floor), 1)
   const totalFloors = typeof maxFloor === 'number' && Number.isFinite(maxFloor) && maxFloor > 0
     ? Math.floor(maxFloor)
     : fallbackMaxFloor
 
-  const conditionFloorMaxMap = buildConditionFloorMaxMap(rows)
-  const conditionFloorMeanMap = buildConditionFloorMeanMap(rows)
-  const firstFloorMaxByCondition = new Map(
-    REFERENCE_VALUE_MATRIX_COLUMNS.map((column) => [
-      column.key,
-      conditionFloorMaxMap.get(column.key)?.get(1) ?? null,
-    ]),
-  )
-  const firstFloorMeanByCondition = new Map(
-    REFERENCE_VALUE_MATRIX_COLUMNS.map((column) => [
-      column.key,
-      conditionFloorMeanMap.get(column.key)?.get(1) ?? null,
-    ]),
-  )
-
-  const buildRows = (kind: 'max' | 'mean'): ReferenceValueMatrixRow[] => Array.from({ length: totalFloors }, (_, index) => {
-    const floor = index + 1
-    const values = Object.fromEntries(
-      CONDITION_STATUS_OPTIONS.map((option) => {
-        if (kind === 'max') {
-          const value = conditionFloorMaxMap.get(option.value)?.get(floor) ?? null
+  const conditionFloorStatsMap = buildConditionFloorStatsMap(rows)
+
+  const buildRows = (kind: ReferenceStatistic): ReferenceValueMatrixRow[] => {
+    const firstFloorByCondition = new Map(
+      REFERENCE_VALUE_MATRIX_COLUMNS.map((column) => [
+        column.key,
+        pickReferenceStat(conditionFloorStatsMap.get(column.key)?.get(1), kind),
+      ]),
+    )
+
+    return Array.from({ length: totalFloors }, (_, index) => {
+      const floor = index + 1
+      const values = Object.fromEntries(
+        CONDITION_STATUS_OPTIONS.map((option) => {
+          const stats = conditionFloorStatsMap.get(option.value)?.get(floor)
+          const value = pickReferenceStat(stats, kind)
           return [
             option.value,
             {
               value,
-              coef: calcReferenceCoef(value, firstFloorMaxByCondition.get(option.value) ?? null),
+              coef: calcReferenceCoef(value, firstFloorByCondition.get(option.value) ?? null),
+              median: pickReferenceStat(stats, 'median'),
+              trimmedMean: pickReferenceStat(stats, 'trimmedMean'),
+              count: stats?.count ?? 0,
+              borrowedCount: stats?.borrowedCount ?? 0,
+              outliers: stats?.outliers ?? [],
             },
           ]
-        }
-
-        const value = conditionFloorMeanMap.get(option.value)?.get(floor) ?? null
-        return [
-          option.value,
-          {
-            value,
-            coef: calcReferenceCoef(value, firstFloorMeanByCondition.get(option.value) ?? null),
-          },
-        ]
-      }),
-    ) as Record<ConditionStatus, ReferenceValueMatrixCell>
-
-    return { floor, values }
-  })
+        }),
+      ) as Record<ConditionStatus, ReferenceValueMatrixCell>
+
+      return { floor, values }
+    })
+  }
 
   return {
     maxRows: buildRows('max'),
-    meanRows: buildRows('mean'),
+    meanRows: buildRows(statistic),
   }
 }
 
@@ -273,11 +377,12 @@ export function resolveMeanReferenceCoef(params: {
   maxFloor: number | null
   floor: number | null
   condition?: ConditionStatus
+  statistic?: CentralStatistic
 }): number | null {
-  const { rows, maxFloor, floor, condition = 'FULL_REFORM_ALL_EQUIP' } = params
+  const { rows, maxFloor, floor, condition = 'FULL_REFORM_ALL_EQUIP', statistic = 'mean' } = params
   if (typeof floor !== 'number' || !Number.isFinite(floor) || floor <= 0) return null
 
-  const { meanRows } = buildReferenceValueTables({ rows, maxFloor })
+  const { meanRows } = buildReferenceValueTables({ rows, maxFloor, statistic })
   return meanRows.find((row) => row.floor === floor)?.values[condition].coef ?? null
 }
 
@@ -286,12 +391,51 @@ export function resolveMaxReferenceValue(params: {
   maxFloor: number | null
   floor: number | null
   condition?: ConditionStatus
+  statistic?: ReferenceStatistic
 }): number | null {
-  const { rows, maxFloor, floor, condition = 'FULL_REFORM_ALL_EQUIP' } = params
+  const { rows, maxFloor, floor, condition = 'FULL_REFORM_ALL_EQUIP', statistic = 'max' } = params
   if (typeof floor !== 'number' || !Number.isFinite(floor) || floor <= 0) return null
 
-  const { maxRows } = buildReferenceValueTables({ rows, maxFloor })
-  return maxRows.find((row) => row.floor === floor)?.values[condition].value ?? null
+  const { maxRows, meanRows } = statistic === 'max'
+    ? buildReferenceValueTables({ rows, maxFloor })
+    : buildReferenceValueTables({ rows, maxFloor, statistic })
+  return (statistic === 'max' ? maxRows : meanRows).find((row) => row.floor === floor)?.values[condition].value ?? null
+}
+
+// resolveMaxReferenceValue / resolveMeanReferenceCoef と同じセル（状態×階）の事例から価格帯の幅を求める
+export function resolveReferenceSpread(params: {
+  rows: ReferenceValueEntry[]
+  floor: number | null
+  condition?: ConditionStatus
+}): ReferenceSpread {
+  const { rows, floor, condition = 'FULL_REFORM_ALL_EQUIP' } = params
+  const cellRows = typeof floor === 'number' && Number.isFinite(floor)
+    ? rows.filter((row) => row.condition_status === condition && row.floor === floor)
+    : []
+  const samples = cellRows
+    .map((row) => ({ value: resolveReferenceUnitPrice(row), borrowed: Boolean(row.borrowed) }))
+    .filter((sample): sample is { value: number; borrowed: boolean } => sample.value != null && sample.value > 0)
+  const values = samples.map((sample) => sample.value)
+  const count = values.length
+  const borrowedCount = samples.filter((sample) => sample.borrowed).length
+  if (count === 0) {
+    return { count, borrowedCount, mean: null, stdev: null, halfWidth: REFERENCE_BAND_MAX_SPREAD, thin: true }
+  }
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / count
+  const stdev = count >= 2
+    ? Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (count - 1))
+    : 0
+  const cv = stdev / mean
+  const halfWidth = Math.min(Math.sqrt(cv ** 2 + REFERENCE_BAND_PRIOR_SPREAD ** 2 / count), REFERENCE_BAND_MAX_SPREAD)
+  return {
+    count,
+    borrowedCount,
+    mean: roundReferenceValue(mean),
+    stdev: roundReferenceValue(stdev),
+    halfWidth: Math.round(halfWidth * 1000) / 1000,
+    thin: count < REFERENCE_BAND_MIN_SAMPLES,
+  }
 }
 
 function extractContractYear(value: string | null | undefined): number | null {
@@ -327,14 +471,120 @@ export function buildYearlyReferenceSummaries(rows: ReferenceValueEntry[]): Year
     }))
 }
 
-export function resolveYearGrowthCoefResult(params: {
-  rows: ReferenceValueEntry[]
-  floor: number | null
-  condition?: ConditionStatus
-}): YearGrowthCoefResult {
-  const { rows, floor, condition = 'FULL_REFORM_ALL_EQUIP' } = params
+// 年・月を小数の年に換算する（月の中央を代表値とする）
+function toFractionalYear(value: string | null | undefined): number | null {
+  const year = extractContractYear(value)
+  if (year == null || !value) return null
+  const month = Number.parseInt(value.slice(5, 7), 10)
+  return year + ((Number.isFinite(month) && month >= 1 && month <= 12 ? month : 7) - 0.5) / 12
+}
+
+function toGrowthTime(row: ReferenceValueEntry, resolution: GrowthResolution): number | null {
+  const time = toFractionalYear(row.contract_date)
+  if (time == null) return null
+  return resolution === 'monthly' ? time : Math.floor(time) + 0.5
+}
+
+function buildGrowthPoints(rows: ReferenceValueEntry[], resolution: GrowthResolution): YearGrowthPoint[] {
+  const grouped = new Map<string, { time: number; values: number[] }>()
+
+  for (const row of rows) {
+    const bucketTime = toGrowthTime(row, resolution)
+    const unitPrice = resolveReferenceUnitPrice(row)
+    if (bucketTime == null || unitPrice == null || unitPrice <= 0 || !row.contract_date) continue
+
+    const label = resolution === 'monthly' ? row.contract_date.slice(0, 7) : row.contract_date.slice(0, 4)
+    const bucket = grouped.get(label) ?? { time: bucketTime, values: [] }
+    bucket.values.push(unitPrice)
+    grouped.set(label, bucket)
+  }
+
+  return [...grouped.entries()]
+    .sort((a, b) => a[1].time - b[1].time)
+    .map(([label, bucket]) => ({
+      label,
+      time: bucket.time,
+      meanUnitPrice: Math.round(bucket.values.reduce((sum, value) => sum + value, 0) / bucket.values.length),
+      contractCount: bucket.values.length,
+      fittedUnitPrice: null,
+    }))
+}
+
+function growthGroupKey(condition: ConditionStatus | null | undefined, floor: number | null | undefined): string {
+  return `${condition ?? ''}|${floor ?? ''}`
+}
+
+// 状態×階のグループごとに水準（切片）を持たせ、グループ内の時系列変化だけから共通の傾きを求める。
+// 時期によって状態・階の構成が偏っても、それを値上がりと取り違えないようにする
+function fitGroupedGrowth(
+  rows: ReferenceValueEntry[],
+  resolution: GrowthResolution,
+): { slope: number; intercepts: Map<string, number> } | null {
+  const groups = new Map<string, { time: number; logPrice: number }[]>()
+  for (const row of rows) {
+    const time = toGrowthTime(row, resolution)
+    const unitPrice = resolveReferenceUnitPrice(row)
+    if (time == null || unitPrice == null || unitPrice <= 0) continue
+    const key = growthGroupKey(row.condition_status, row.floor)
+    const samples = groups.get(key) ?? []
+    samples.push({ time, logPrice: Math.log(unitPrice) })
+    groups.set(key, samples)
+  }
+
+  const means = new Map([...groups.entries()].map(([key, samples]) => [key, {
+    time: samples.reduce((sum, sample) => sum + sample.time, 0) / samples.length,
+    logPrice: samples.reduce((sum, sample) => sum + sample.logPrice, 0) / samples.length,
+  }]))
+  let stt = 0
+  let sty = 0
+  for (const [key, samples] of groups) {
+    const mean = means.get(key)!
+    for (const sample of samples) {
+      stt += (sample.time - mean.time) ** 2
+      sty += (sample.time - mean.time) * (sample.logPrice - mean.logPrice)
+    }
+  }
+  if (stt === 0) return null
+  const slope = sty / stt
+  return {
+    slope,
+    intercepts: new Map([...means.entries()].map(([key, mean]) => [key, mean.logPrice - slope * mean.time])),
+  }
+}
+
+// log(平均㎡単価) を時点に対して件数加重で直線回帰し、傾きから年率（CAGR）を求める
+export function fitGrowthCurve(points: YearGrowthPoint[]): { slope: number; intercept: number; rSquared: number } | null {
+  const weight = points.reduce((sum, point) => sum + point.contractCount, 0)
+  if (weight === 0) return null
+  const meanT = points.reduce((sum, point) => sum + point.time * point.contractCount, 0) / weight
+  const meanY = points.reduce((sum, point) => sum + Math.log(point.meanUnitPrice) * point.contractCount, 0) / weight
+  let stt = 0
+  let sty = 0
+  let syy = 0
+  for (const point of points) {
+    const dt = point.time - meanT
+    const dy = Math.log(point.meanUnitPrice) - meanY
+    stt += point.contractCount * dt * dt
+    sty += point.contractCount * dt * dy
+    syy += point.contractCount * dy * dy
+  }
+  if (stt === 0) return null
+  const slope = sty / stt
+  return {
+    slope,
+    intercept: meanY - slope * meanT,
+    rSquared: syy > 0 ? (sty * sty) / (stt * syy) : 1,
+  }
+}
+
+function emptyGrowthResult(reason: string, points: YearGrowthPoint[] = [], baseDate: string | null = null): YearGrowthCoefResult {
+  return { value: null, reason, cagr: null, elapsedYears: null, baseDate, points, notes: [] }
+}
+
+export function resolveYearGrowthCoefResult(params: YearGrowthCoefParams): YearGrowthCoefResult {
+  const { rows, floor, condition = 'FULL_REFORM_ALL_EQUIP', resolution = 'yearly', now = new Date() } = params
   if (typeof floor !== 'number' || !Number.isFinite(floor) || floor <= 0) {
-    return { value: null, reason: '階数を入力すると年数係数を計算できます' }
+    return emptyGrowthResult('階数を入力すると年数係数を計算できます')
   }
 
   const floorReferenceRows = rows
@@ -344,40 +594,68 @@ export function resolveYearGrowthCoefResult(params: {
     .sort((a, b) => (b.unitPrice ?? 0) - (a.unitPrice ?? 0))
 
   const baseDate = floorReferenceRows[0] ? resolveReferenceEventDate(floorReferenceRows[0].row) : null
-  const baseYear = extractContractYear(baseDate)
-  if (baseYear == null) {
-    return { value: null, reason: '該当階・フルリフォームのMAX事例に成約日またはレインズ成約年月日がありません' }
+  const baseTime = toFractionalYear(baseDate)
+  if (baseTime == null) {
+    return emptyGrowthResult('該当階・フルリフォームのMAX事例に成約日またはレインズ成約年月日がありません')
   }
 
-  const yearlyRows = buildYearlyReferenceSummaries(rows)
-  if (yearlyRows.length < 2) {
-    return { value: null, reason: '年度別平均㎡単価の表に2年分以上のデータがありません' }
+  const points = buildGrowthPoints(rows, resolution)
+  const sampleCount = points.reduce((sum, point) => sum + point.contractCount, 0)
+  if (points.length < GROWTH_MIN_POINTS) {
+    return emptyGrowthResult(`${resolution === 'monthly' ? '月別' : '年度別'}の平均㎡単価が${GROWTH_MIN_POINTS}時点以上必要です（現在${points.length}時点）`, points, baseDate)
   }
-
-  const oldest = yearlyRows[0]
-  const latest = yearlyRows[yearlyRows.length - 1]
-  const elapsedYears = latest.year - oldest.year
-  if (elapsedYears <= 0 || oldest.meanUnitPrice <= 0) {
-    return { value: null, reason: '年度別平均㎡単価の比較に必要な基準データが不足しています' }
+  if (sampleCount < GROWTH_MIN_SAMPLES) {
+    return emptyGrowthResult(`成約日のある過去成約が${GROWTH_MIN_SAMPLES}件以上必要です（現在${sampleCount}件）`, points, baseDate)
   }
 
-  const yearsFromBase = latest.year - baseYear
-  if (yearsFromBase <= 0) {
-    return { value: 0, reason: null }
-  }
+  const grouped = fitGroupedGrowth(rows, resolution)
+  if (!grouped) return emptyGrowthResult('同じ状態・階の成約が複数時点にないため成長率を推定できません', points, baseDate)
+
+  // 該当階に成約日のある事例が無ければ、同じ状態で最も近い階の水準を使う
+  const targetFloor = grouped.intercepts.has(growthGroupKey(condition, floor))
+    ? floor
+    : rows
+      .filter((row) => row.condition_status === condition && typeof row.floor === 'number' && grouped.intercepts.has(growthGroupKey(condition, row.floor)))
+      .map((row) => row.floor as number)
+      .sort((a, b) => Math.abs(a - floor) - Math.abs(b - floor) || a - b)[0]
+  if (targetFloor == null) return emptyGrowthResult('該当状態に成約日のある事例がないため水準を決められません', points, baseDate)
+
+  // 各事例を該当階・状態の水準にそろえてから時点別に平均する
+  const targetIntercept = grouped.intercepts.get(growthGroupKey(condition, targetFloor))!
+  const normalizedRows = rows.map((row) => {
+    const unitPrice = resolveReferenceUnitPrice(row)
+    const intercept = grouped.intercepts.get(growthGroupKey(row.condition_status, row.floor))
+    if (unitPrice == null || intercept == null) return row
+    return { ...row, unit_price: unitPrice * Math.exp(targetIntercept - intercept) }
+  })
+  const normalizedPoints = buildGrowthPoints(normalizedRows, resolution)
+  const curve = fitGrowthCurve(normalizedPoints)
+  if (!curve) return emptyGrowthResult('成長率を推定できませんでした', points, baseDate)
+
+  const fittedPoints = normalizedPoints.map((point) => ({
+    ...point,
+    fittedUnitPrice: Math.round(Math.exp(targetIntercept + grouped.slope * point.time)),
+  }))
+  const cagr = Math.exp(grouped.slope) - 1
+  const nowTime = now.getFullYear() + (now.getMonth() + 0.5) / 12
+  const elapsedYears = Math.max(Math.round((nowTime - baseTime) * 100) / 100, 0)
+  const notes: string[] = []
+  if (targetFloor !== floor) notes.push(`${floor}階に成約日のある事例がないため、${targetFloor}階の水準で表示しています`)
+  if (curve.rSquared < 0.5) notes.push(`当てはまりが弱いため参考値です（決定係数 ${curve.rSquared.toFixed(2)}）`)
+  const lastTime = points[points.length - 1].time
+  if (nowTime - lastTime > 2) notes.push(`直近${Math.floor(nowTime - lastTime)}年は成約データがなく外挿しています`)
 
-  const growthRatio = Math.round((latest.meanUnitPrice / oldest.meanUnitPrice) * 10) / 10
-  const annualGrowth = Math.round((growthRatio / elapsedYears) * 100) / 100
   return {
-    value: Math.round(annualGrowth * yearsFromBase * 100) / 100,
+    value: elapsedYears === 0 ? 0 : Math.round(((1 + cagr) ** elapsedYears - 1) * 100) / 100,
     reason: null,
+    cagr: Math.round(cagr * 10000) / 10000,
+    elapsedYears,
+    baseDate,
+    points: fittedPoints,
+    notes,
   }
 }
 
-export function resolveYearGrowthCoef(params: {
-  rows: ReferenceValueEntry[]
-  floor: number | null
-  condition?: ConditionStatus
-}): number | null {
+export function resolveYearGrowthCoef(params: YearGrowthCoefParams): number | null {
   return resolveYearGrowthCoefResult(params).value
 }
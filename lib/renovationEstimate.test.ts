@@ -0,0 +1,44 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { buildRenovationSpec, estimateRenovation, parseLayout, RENOVATION_TARGET_OPTIONS } from './renovationEstimate.ts'
+
+test('parseLayout reads room counts from half- and full-width layouts', () => {
+  assert.deepEqual(parseLayout('3DK'), { rooms: 3, kind: 'DK' })
+  assert.deepEqual(parseLayout('２ＳＬＤＫ'), { rooms: 2, kind: 'LDK' })
+  assert.equal(parseLayout('不明'), null)
+  assert.equal(parseLayout(null), null)
+})
+
+test('estimateRenovation builds line items from the target condition and layout', () => {
+  const full = estimateRenovation({ currentCondition: 'NEEDS_RENOVATION', targetCondition: 'FULL_RENO_INSULATED', layout: '3DK' }, 60)
+  assert.ok(full)
+  assert.deepEqual(full.lines.map((line) => [line.key, line.amount]), [
+    ['kitchen', 1_100_000],
+    ['bath', 1_000_000],
+    ['sanitary', 450_000],
+    ['flooring', 840_000],
+    ['interior', 720_000],
+    ['insulation', 1_200_000],
+    ['layoutChange', 650_000],
+  ])
+  assert.equal(full.subtotal, 5_960_000)
+  assert.equal(full.conditionFactor, 1.2)
+  assert.equal(full.total, 7_152_000)
+
+  const lDk = estimateRenovation({ currentCondition: null, targetCondition: 'FULL_RENO_HIGH_DESIGN', layout: '2LDK' }, 60)
+  assert.ok(lDk && !lDk.lines.some((line) => line.key === 'layoutChange'))
+
+  const partial = estimateRenovation({ currentCondition: 'OWNER_OCCUPIED', targetCondition: 'PARTIAL_REFORM', layout: '２ＬＤＫ' }, 55)
+  assert.equal(partial?.total, 770_000 + 540_000)
+})
+
+test('estimateRenovation falls back when no target template applies', () => {
+  assert.equal(estimateRenovation(null, 60), null)
+  assert.deepEqual(buildRenovationSpec('UNKNOWN', '', ' 3DK '), { currentCondition: null, targetCondition: null, layout: '3DK' })
+  assert.equal(estimateRenovation({ currentCondition: 'NEEDS_RENOVATION', targetCondition: null, layout: '3DK' }, 60), null)
+  assert.equal(estimateRenovation({ currentCondition: null, targetCondition: 'OWNER_OCCUPIED', layout: '3DK' }, 60), null)
+  assert.deepEqual(RENOVATION_TARGET_OPTIONS.map((option) => option.value), [
+    'FULL_RENO_INSULATED', 'FULL_RENO_HIGH_DESIGN', 'FULL_REFORM_ALL_EQUIP', 'PARTIAL_REFORM',
+  ])
+})
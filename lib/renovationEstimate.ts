@@ -0,0 +1,131 @@
+import { CONDITION_STATUS_OPTIONS, type ConditionStatus } from './referenceValue.ts'
+
+export type RenovationItemKey =
+  | 'kitchen'
+  | 'bath'
+  | 'sanitary'
+  | 'flooring'
+  | 'interior'
+  | 'insulation'
+  | 'layoutChange'
+
+// set: 1式 / sqm: 専有面積あたり / room: 居室（+LDK・DK）あたり
+export type RenovationUnit = 'set' | 'sqm' | 'room'
+
+export type RenovationItemTemplate = {
+  key: RenovationItemKey
+  label: string
+  unit: RenovationUnit
+  unitCost: number
+}
+
+export type RenovationSpec = {
+  currentCondition: ConditionStatus | null
+  targetCondition: ConditionStatus | null
+  layout: string | null
+}
+
+export type RenovationEstimateLine = {
+  key: RenovationItemKey
+  label: string
+  quantity: number
+  unit: RenovationUnit
+  unitCost: number
+  amount: number
+}
+
+export type RenovationEstimate = {
+  lines: RenovationEstimateLine[]
+  subtotal: number
+  conditionFactor: number
+  total: number
+}
+
+export type ParsedLayout = {
+  rooms: number
+  kind: 'LDK' | 'DK' | 'K' | 'R'
+}
+
+export const RENOVATION_ITEM_TEMPLATES: RenovationItemTemplate[] = [
+  { key: 'kitchen', label: 'キッチン交換', unit: 'set', unitCost: 1_100_000 },
+  { key: 'bath', label: 'ユニットバス交換', unit: 'set', unitCost: 1_000_000 },
+  { key: 'sanitary', label: '洗面台・トイレ交換', unit: 'set', unitCost: 450_000 },
+  { key: 'flooring', label: '床（フローリング）張替', unit: 'sqm', unitCost: 14_000 },
+  { key: 'interior', label: 'クロス・建具', unit: 'room', unitCost: 180_000 },
+  { key: 'insulation', label: '内断熱・内窓', unit: 'sqm', unitCost: 20_000 },
+  { key: 'layoutChange', label: '間取り変更（DK→LDK）', unit: 'set', unitCost: 650_000 },
+]
+
+// 目標の仕上がり状態ごとに必要な工事項目。間取り変更は DK・K タイプの住戸だけに計上する
+export const RENOVATION_TARGET_ITEMS: Partial<Record<ConditionStatus, RenovationItemKey[]>> = {
+  FULL_RENO_INSULATED: ['kitchen', 'bath', 'sanitary', 'flooring', 'interior', 'insulation', 'layoutChange'],
+  FULL_RENO_HIGH_DESIGN: ['kitchen', 'bath', 'sanitary', 'flooring', 'interior', 'layoutChange'],
+  FULL_REFORM_ALL_EQUIP: ['kitchen', 'bath', 'sanitary', 'flooring', 'interior'],
+  PARTIAL_REFORM: ['flooring', 'interior'],
+}
+
+// 現況による補正（解体・下地補修の増減）。未設定は1.0
+export const RENOVATION_CONDITION_FACTORS: Partial<Record<ConditionStatus, number>> = {
+  NEEDS_RENOVATION: 1.2,
+  OWNER_OCCUPIED: 1.0,
+  INVESTMENT_PROPERTY: 1.05,
+  PARTIAL_REFORM: 0.9,
+  FULL_REFORM_ALL_EQUIP: 0.75,
+  FULL_RENO_HIGH_DESIGN: 0.7,
+  FULL_RENO_INSULATED: 0.7,
+}
+
+export const RENOVATION_TARGET_OPTIONS = CONDITION_STATUS_OPTIONS.filter((option) => option.value in RENOVATION_TARGET_ITEMS)
+
+function toConditionStatus(value: string | null | undefined): ConditionStatus | null {
+  return CONDITION_STATUS_OPTIONS.find((option) => option.value === value)?.value ?? null
+}
+
+export function buildRenovationSpec(
+  currentCondition: string | null | undefined,
+  targetCondition: string | null | undefined,
+  layout: string | null | undefined,
+): RenovationSpec {
+  return {
+    currentCondition: toConditionStatus(currentCondition),
+    targetCondition: toConditionStatus(targetCondition),
+    layout: layout?.trim() || null,
+  }
+}
+
+export function parseLayout(layout: string | null | undefined): ParsedLayout | null {
+  if (!layout) return null
+  const normalized = layout.normalize('NFKC').toUpperCase().replace(/\s/g, '')
+  const matched = normalized.match(/^(\d+)S?(LDK|DK|K|R)/)
+  if (!matched) return null
+  return { rooms: Number.parseInt(matched[1], 10), kind: matched[2] as ParsedLayout['kind'] }
+}
+
+function resolveQuantity(template: RenovationItemTemplate, area: number, layout: ParsedLayout | null): number {
+  if (template.unit === 'sqm') return Math.max(area, 0)
+  if (template.unit === 'room') return layout ? layout.rooms + (layout.kind === 'R' ? 0 : 1) : Math.max(Math.round(area / 20), 1)
+  if (template.key === 'layoutChange') return layout && (layout.kind === 'DK' || layout.kind === 'K') && layout.rooms >= 2 ? 1 : 0
+  return 1
+}
+
+// 目標状態が未設定（またはテンプレートがない）場合は null を返し、面積帯による概算にフォールバックさせる
+export function estimateRenovation(spec: RenovationSpec | null | undefined, area: number): RenovationEstimate | null {
+  const items = spec?.targetCondition ? RENOVATION_TARGET_ITEMS[spec.targetCondition] : undefined
+  if (!spec || !items || area <= 0) return null
+  const layout = parseLayout(spec.layout)
+  const lines = RENOVATION_ITEM_TEMPLATES
+    .filter((template) => items.includes(template.key))
+    .map((template) => {
+      const quantity = resolveQuantity(template, area, layout)
+      return { ...template, quantity, amount: Math.round(quantity * template.unitCost) }
+    })
+    .filter((line) => line.amount > 0)
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0)
+  const conditionFactor = (spec.currentCondition ? RENOVATION_CONDITION_FACTORS[spec.currentCondition] : undefined) ?? 1
+  return {
+    lines,
+    subtotal,
+    conditionFactor,
+    total: Math.round(subtotal * conditionFactor / 1000) * 1000,
+  }
+}
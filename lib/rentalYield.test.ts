@@ -0,0 +1,41 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { calcRentalYieldValuation } from './rentalYield.ts'
+import { calcBuyTarget } from './stockPricing.ts'
+
+const base = {
+  monthlyRent: 100000,
+  grossYield: 0.1,
+  netYield: 0.06,
+  vacancyRate: 0.05,
+  mgmtFeeMonthly: 10000,
+  repairReserveFeeMonthly: 8000,
+  area: 60,
+}
+
+test('rental yield valuation deducts fees and vacancy before applying the net yield', () => {
+  const valuation = calcRentalYieldValuation(base)
+  assert.ok(valuation)
+  assert.equal(valuation.annualRent, 1200000)
+  assert.equal(valuation.vacancyLoss, 60000)
+  assert.equal(valuation.annualFees, 216000)
+  assert.equal(valuation.netOperatingIncome, 924000)
+  assert.equal(valuation.grossMaxPrice, 12000000)
+  assert.equal(valuation.netBudget, 15400000)
+  // 実質利回りは総投資額に対する利回りなので、リノベ費用・諸費用を除いた物件価格に割り戻す
+  assert.equal(valuation.netMaxPrice, calcBuyTarget(15400000, 60))
+  assert.equal(valuation.maxPurchasePrice, valuation.netMaxPrice)
+  assert.equal(valuation.binding, 'net')
+})
+
+test('rental yield valuation is capped by the gross yield and skips missing inputs', () => {
+  const valuation = calcRentalYieldValuation({ ...base, netYield: 0.04, vacancyRate: 0, mgmtFeeMonthly: 0, repairReserveFeeMonthly: 0 })
+  assert.ok(valuation)
+  assert.equal(valuation.maxPurchasePrice, 12000000)
+  assert.equal(valuation.binding, 'gross')
+
+  assert.equal(calcRentalYieldValuation({ ...base, monthlyRent: 0 }), null)
+  assert.equal(calcRentalYieldValuation({ ...base, netYield: 0 }), null)
+  assert.equal(calcRentalYieldValuation({ ...base, mgmtFeeMonthly: 200000 })?.netMaxPrice, 0)
+})
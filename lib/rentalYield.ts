@@ -0,0 +1,58 @@
+import { DEFAULT_COST_PROFILE, type CostProfile } from './costProfile.ts'
+import { calcBuyTarget, type PricingContext } from './stockPricing.ts'
+
+export type RentalYieldInput = {
+  monthlyRent: number
+  grossYield: number
+  netYield: number
+  vacancyRate: number
+  mgmtFeeMonthly: number
+  repairReserveFeeMonthly: number
+  area: number
+  profile?: CostProfile
+  context?: PricingContext
+}
+
+export type RentalYieldValuation = {
+  annualRent: number
+  vacancyLoss: number
+  annualFees: number
+  netOperatingIncome: number
+  grossMaxPrice: number
+  netBudget: number
+  netMaxPrice: number
+  maxPurchasePrice: number
+  binding: 'gross' | 'net'
+}
+
+export const DEFAULT_GROSS_YIELD = 0.1
+export const DEFAULT_NET_YIELD = 0.06
+export const DEFAULT_VACANCY_RATE = 0.05
+
+// 表面利回りは物件価格、実質利回りは総投資額（物件価格 + リノベ費用 + 仲介手数料 + 諸費用）に対して判定し、低い方を上限とする
+export function calcRentalYieldValuation(input: RentalYieldInput): RentalYieldValuation | null {
+  if (input.monthlyRent <= 0 || input.grossYield <= 0 || input.netYield <= 0) return null
+  const profile = input.profile ?? DEFAULT_COST_PROFILE
+  const annualRent = Math.round(input.monthlyRent * 12)
+  const vacancyLoss = Math.round(annualRent * Math.min(Math.max(input.vacancyRate, 0), 1))
+  const annualFees = Math.round((Math.max(input.mgmtFeeMonthly, 0) + Math.max(input.repairReserveFeeMonthly, 0)) * 12)
+  const netOperatingIncome = annualRent - vacancyLoss - annualFees
+
+  const grossMaxPrice = Math.floor(annualRent / input.grossYield)
+  // 総投資額の上限は募集総額と同じ内訳なので、買付目標額と同じ計算で物件価格に割り戻す
+  const netBudget = Math.max(Math.floor(netOperatingIncome / input.netYield), 0)
+  const netMaxPrice = netBudget > 0 ? Math.max(calcBuyTarget(netBudget, input.area, profile, input.context), 0) : 0
+  const binding = netMaxPrice < grossMaxPrice ? 'net' : 'gross'
+
+  return {
+    annualRent,
+    vacancyLoss,
+    annualFees,
+    netOperatingIncome,
+    grossMaxPrice,
+    netBudget,
+    netMaxPrice,
+    maxPurchasePrice: Math.min(grossMaxPrice, netMaxPrice),
+    binding,
+  }
+}
@@ -4,6 +4,7 @@ import assert from 'node:assert/strict'
 import {
   countComplexContractsSince,
   loadComplexEditSnapshot,
+  loadComplexReferenceRows,
   loadComplexReferenceSummaries,
 } from './complexEdit.ts'
 
@@ -74,12 +75,20 @@ test('loadComplexReferenceSummaries builds condition and floor summaries from en
     label: 'フルリノベーション+断熱',
     max: 550000,
     mean: 500000,
+    median: 500000,
+    trimmedMean: 500000,
+    count: 2,
+    outliers: [],
   })
   assert.deepEqual(conditionSummaries.find((row) => row.key === 'OWNER_OCCUPIED'), {
     key: 'OWNER_OCCUPIED',
     label: '売主居住中（または居住可能な状態）',
     max: 400000,
     mean: 400000,
+    median: 400000,
+    trimmedMean: 400000,
+    count: 1,
+    outliers: [],
   })
   assert.deepEqual(floorSummaries.slice(0, 3), [
     { floor: 4, max: 550000, mean: 550000, coef: 2.75 },
@@ -88,6 +97,91 @@ test('loadComplexReferenceSummaries builds condition and floor summaries from en
   ])
 })
 
+test('loadComplexReferenceSummaries retries without source when the column is missing', async () => {
+  const selects: string[] = []
+  const supabase = {
+    from: () => ({
+      select: (columns: string) => {
+        selects.push(columns)
+        return {
+          eq: () => ({
+            is: () => ({
+              limit: async () => (columns.includes('source')
+                ? { data: null, error: { message: 'column estate_entries.source does not exist' } }
+                : { data: [{ id: 'e1', condition_status: 'OWNER_OCCUPIED', floor: 1, unit_price: 300000, contract_price: null, area_sqm: null, contract_date: '2024-04-01', reins_registered_date: null }], error: null }),
+            }),
+          }),
+        }
+      },
+    }),
+  }
+
+  const { rows } = await loadComplexReferenceSummaries(supabase, 'complex-1')
+  assert.deepEqual(rows.map((row) => row.id), ['e1'])
+  assert.equal(selects.length, 2)
+  assert.equal(selects[1].includes('source'), false)
+
+  const failing = {
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          is: () => ({ limit: async () => ({ data: null, error: { message: 'permission denied' } }) }),
+        }),
+      }),
+    }),
+  }
+  await assert.rejects(() => loadComplexReferenceSummaries(failing, 'complex-1'), { message: 'permission denied' })
+})
+
+test('loadComplexReferenceRows appends adjusted rows from similar complexes when own data is thin', async () => {
+  const calls: Array<{ table: string; method: string; args: unknown[] }> = []
+  const complexes = [
+    { id: 'complex-1', name: '団地A', station_name: '高島平駅', built_ym: '1972-01', unit_count: 400 },
+    { id: 'complex-2', name: '団地B', station_name: '高島平駅', built_ym: '1974-01', unit_count: 800 },
+    { id: 'complex-3', name: '団地C', station_name: '高島平駅', built_ym: '1990-01', unit_count: 400 },
+  ]
+  const supabase = {
+    from: (table: string) => ({
+      select: () => ({
+        eq: (column: string, value: unknown) => {
+          calls.push({ table, method: 'eq', args: [column, value] })
+          return {
+            maybeSingle: async () => ({ data: complexes[0], error: null }),
+            is: () => ({
+              limit: async () => ({
+                data: table === 'housing_complexes'
+                  ? complexes
+                  : [{ id: 'own-1', condition_status: 'FULL_REFORM_ALL_EQUIP', floor: 3, unit_price: 500000, contract_price: null, area_sqm: null, contract_date: '2024-04-01', reins_registered_date: null }],
+                error: null,
+              }),
+            }),
+          }
+        },
+        in: (column: string, values: string[]) => {
+          calls.push({ table, method: 'in', args: [column, values] })
+          return {
+            is: () => ({
+              limit: async () => ({
+                data: [{ id: 'b-1', complex_id: 'complex-2', condition_status: 'FULL_REFORM_ALL_EQUIP', floor: 3, unit_price: 400000, contract_price: null, area_sqm: null, contract_date: '2024-05-01', reins_registered_date: null }],
+                error: null,
+              }),
+            }),
+          }
+        },
+      }),
+    }),
+  }
+
+  const rows = await loadComplexReferenceRows(supabase, 'complex-1')
+  assert.deepEqual(rows.map((row) => [row.id, row.unit_price, row.borrowed?.complexName ?? null]), [
+    ['own-1', 500000, null],
+    ['b-1', 384000, '団地B'],
+  ])
+  assert.deepEqual(calls.filter((call) => call.method === 'in'), [
+    { table: 'estate_entries', method: 'in', args: ['complex_id', ['complex-2']] },
+  ])
+})
+
 test('loadComplexEditSnapshot returns the latest complex and evaluation rows', async () => {
   const calls: Array<{ table: string; method: string; args: unknown[] }> = []
   const supabase = {
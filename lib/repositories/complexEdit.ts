@@ -1,3 +1,10 @@
+import {
+  borrowReferenceRows,
+  findSimilarComplexes,
+  needsBorrowedComparables,
+  type BorrowableReferenceEntry,
+  type ComplexSimilarityProfile,
+} from '../borrowedComparables.ts'
 import {
   buildReferenceValueSummaries,
   type ConditionSummaryRow,
@@ -30,6 +37,26 @@ type EstateEntriesReferenceSelect = {
   }
 }
 
+type EstateEntriesBorrowSelect = {
+  select(columns: string): {
+    in(column: string, values: string[]): {
+      is(column: string, value: null): {
+        limit(count: number): QueryListResult<Record<string, unknown>>
+      }
+    }
+  }
+}
+
+type HousingComplexesStationSelect = {
+  select(columns: string): {
+    eq(column: string, value: unknown): {
+      is(column: string, value: null): {
+        limit(count: number): QueryListResult<Record<string, unknown>>
+      }
+    }
+  }
+}
+
 type HousingComplexesSelect = {
   select(columns: string): {
     eq(column: string, value: unknown): {
@@ -53,8 +80,8 @@ type ComplexEvaluationsSelect = {
 }
 
 type ComplexEditRepositoryClient = {
-  from(table: 'estate_entries'): EstateEntriesCountSelect & EstateEntriesReferenceSelect
-  from(table: 'housing_complexes'): HousingComplexesSelect
+  from(table: 'estate_entries'): EstateEntriesCountSelect & EstateEntriesReferenceSelect & EstateEntriesBorrowSelect
+  from(table: 'housing_complexes'): HousingComplexesSelect & HousingComplexesStationSelect
   from(table: 'complex_evaluations'): ComplexEvaluationsSelect
 }
 
@@ -71,6 +98,7 @@ type ComplexEditRow = {
   unit_count: number | null
   building_structure: string | null
   floor_count: number | null
+  floor_coef_pattern: string | null
   seller: string | null
   builder: string | null
   mgmt_company: string | null
@@ -87,6 +115,14 @@ type ComplexEditRow = {
   same_station_old_seismic_case: string | null
 }
 
+type ComplexSimilarityRow = {
+  id: string
+  name: string | null
+  station_name: string | null
+  built_ym: string | null
+  unit_count: number | null
+}
+
 type StoredOption = { value?: string; label?: string; score?: number }
 
 type StoredFactors = {
@@ -117,6 +153,16 @@ function asComplexEditRepositoryClient(supabase: unknown): ComplexEditRepository
   return supabase as ComplexEditRepositoryClient
 }
 
+function mapSimilarityRow(row: ComplexSimilarityRow): ComplexSimilarityProfile {
+  return {
+    id: row.id,
+    name: row.name ?? null,
+    stationName: row.station_name ?? null,
+    builtYm: row.built_ym ?? null,
+    unitCount: row.unit_count ?? null,
+  }
+}
+
 export async function countComplexContractsSince(supabase: unknown, complexId: string, sinceText: string): Promise<number> {
   const client = asComplexEditRepositoryClient(supabase)
   const { count, error } = await client
@@ -129,14 +175,23 @@ export async function countComplexContractsSince(supabase: unknown, complexId: s
   return count ?? 0
 }
 
+// source 列が未追加の環境では旧列だけで読み直す（出典なしは自社登録として扱われる）
+const REFERENCE_COLUMNS = 'id, source, condition_status, floor, unit_price, contract_price, area_sqm, contract_date, reins_registered_date'
+const LEGACY_REFERENCE_COLUMNS = 'id, condition_status, floor, unit_price, contract_price, area_sqm, contract_date, reins_registered_date'
+
+function isMissingColumnError(error: RepositoryError): boolean {
+  return /column .* does not exist/i.test(error.message)
+}
+
 export async function loadComplexReferenceSummaries(supabase: unknown, complexId: string): Promise<ComplexReferenceSummaries> {
   const client = asComplexEditRepositoryClient(supabase)
-  const { data, error } = await client
-    .from('estate_entries')
-    .select('condition_status, floor, unit_price, contract_price, area_sqm, contract_date, reins_registered_date')
+  const query = (columns: string) => (client.from('estate_entries') as EstateEntriesReferenceSelect)
+    .select(columns)
     .eq('complex_id', complexId)
     .is('deleted_at', null)
     .limit(5000)
+  let { data, error } = await query(REFERENCE_COLUMNS)
+  if (error && isMissingColumnError(error)) ({ data, error } = await query(LEGACY_REFERENCE_COLUMNS))
   if (error) throw error
   const rows = (data ?? []) as ReferenceValueEntry[]
   return {
@@ -145,6 +200,49 @@ export async function loadComplexReferenceSummaries(supabase: unknown, complexId
   }
 }
 
+const SIMILARITY_COLUMNS = 'id, name, station_name, built_ym, unit_count'
+
+// 同じ駅・近い築年・近い総戸数の団地から、類似度補正を掛けた事例を借りる
+export async function loadBorrowedReferenceRows(supabase: unknown, complexId: string): Promise<ReferenceValueEntry[]> {
+  const client = asComplexEditRepositoryClient(supabase)
+  const { data: target, error: targetError } = await (client.from('housing_complexes') as HousingComplexesSelect)
+    .select(SIMILARITY_COLUMNS)
+    .eq('id', complexId)
+    .maybeSingle()
+  if (targetError) throw targetError
+  const targetRow = target as ComplexSimilarityRow | null
+  if (!targetRow?.station_name) return []
+
+  const { data: candidates, error: candidatesError } = await (client.from('housing_complexes') as HousingComplexesStationSelect)
+    .select(SIMILARITY_COLUMNS)
+    .eq('station_name', targetRow.station_name)
+    .is('deleted_at', null)
+    .limit(200)
+  if (candidatesError) throw candidatesError
+  const similar = findSimilarComplexes(
+    mapSimilarityRow(targetRow),
+    ((candidates ?? []) as ComplexSimilarityRow[]).map(mapSimilarityRow),
+  )
+  if (similar.length === 0) return []
+
+  const query = (columns: string) => (client.from('estate_entries') as EstateEntriesBorrowSelect)
+    .select(`complex_id, ${columns}`)
+    .in('complex_id', similar.map((complex) => complex.complexId))
+    .is('deleted_at', null)
+    .limit(5000)
+  let { data, error } = await query(REFERENCE_COLUMNS)
+  if (error && isMissingColumnError(error)) ({ data, error } = await query(LEGACY_REFERENCE_COLUMNS))
+  if (error) throw error
+  return borrowReferenceRows((data ?? []) as BorrowableReferenceEntry[], similar)
+}
+
+// 自団地の事例が少ないときだけ類似団地の事例を後ろに足す
+export async function loadComplexReferenceRows(supabase: unknown, complexId: string): Promise<ReferenceValueEntry[]> {
+  const { rows } = await loadComplexReferenceSummaries(supabase, complexId)
+  if (!needsBorrowedComparables(rows)) return rows
+  return [...rows, ...await loadBorrowedReferenceRows(supabase, complexId)]
+}
+
 export async function loadComplexEditSnapshot(supabase: unknown, complexId: string): Promise<ComplexEditSnapshot> {
   const client = asComplexEditRepositoryClient(supabase)
   const { data: complex, error: complexError } = await client
@@ -152,7 +250,7 @@ export async function loadComplexEditSnapshot(supabase: unknown, complexId: stri
     .select(`
       id, name, pref, city, town, built_ym,
       station_name, station_access_type, station_minutes,
-      unit_count, building_structure, floor_count,
+      unit_count, building_structure, floor_count, floor_coef_pattern,
       seller, builder, mgmt_company, mgmt_type,
       mgmt_fee_monthly, repair_reserve_fee_monthly, other_fee_monthly,
       rent_case_availability, rent_case_max_monthly_rent,
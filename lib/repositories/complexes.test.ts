@@ -1,7 +1,7 @@
 import test from 'node:test'
 import assert from 'node:assert/strict'
 
-import { insertComplex, insertComplexEvaluation, updateComplex } from './complexes.ts'
+import { insertComplex, insertComplexEvaluation, listComplexAddressProfiles, updateComplex } from './complexes.ts'
 
 test('complex repository write helpers insert, update, and create evaluations', async () => {
   const calls: Array<{ table: string; method: string; args: unknown[] }> = []
@@ -49,3 +49,37 @@ test('complex repository write helpers insert, update, and create evaluations',
   assert.equal(calls.some((call) => call.table === 'housing_complexes' && call.method === 'update'), true)
   assert.equal(calls.some((call) => call.table === 'complex_evaluations' && call.method === 'insert'), true)
 })
+
+test('listComplexAddressProfiles maps address and built month for matching', async () => {
+  const calls: Array<{ method: string; args: unknown[] }> = []
+  const supabase = {
+    from: (table: string) => {
+      assert.equal(table, 'housing_complexes')
+      return {
+        select: (...args: unknown[]) => {
+          calls.push({ method: 'select', args })
+          return {
+            is: (...isArgs: unknown[]) => {
+              calls.push({ method: 'is', args: isArgs })
+              return {
+                order: async (...orderArgs: unknown[]) => {
+                  calls.push({ method: 'order', args: orderArgs })
+                  return { data: [{ id: 'c1', name: null, pref: '大阪府', city: '堺市南区', town: null, built_ym: '1975-04' }], error: null }
+                },
+              }
+            },
+          }
+        },
+      }
+    },
+  }
+
+  assert.deepEqual(await listComplexAddressProfiles(supabase), [
+    { id: 'c1', name: '(名称未設定)', pref: '大阪府', city: '堺市南区', town: null, builtYm: '1975-04' },
+  ])
+  assert.deepEqual(calls, [
+    { method: 'select', args: ['id, name, pref, city, town, built_ym'] },
+    { method: 'is', args: ['deleted_at', null] },
+    { method: 'order', args: ['created_at', { ascending: false }] },
+  ])
+})
@@ -1,4 +1,7 @@
+import type { MlitComplexProfile } from '../mlitImport.ts'
+
 type RepositoryError = { message: string }
+type QueryListResult<T> = Promise<{ data: T[] | null; error: RepositoryError | null }>
 type QueryInsertSingleResult<T> = Promise<{ data: T | null; error: RepositoryError | null }>
 type QueryInsertResult = Promise<{ error: RepositoryError | null }>
 type QueryUpdateResult = Promise<{ error: RepositoryError | null }>
@@ -14,12 +17,29 @@ type HousingComplexesInsert = {
   }
 }
 
+type HousingComplexesSelect = {
+  select(columns: string): {
+    is(column: string, value: null): {
+      order(column: string, options: { ascending: boolean }): QueryListResult<Record<string, unknown>>
+    }
+  }
+}
+
+type HousingComplexAddressRow = {
+  id: string
+  name: string | null
+  pref: string | null
+  city: string | null
+  town: string | null
+  built_ym: string | null
+}
+
 type ComplexEvaluationsInsert = {
   insert(payload: Record<string, unknown>): QueryInsertResult
 }
 
 type ComplexesRepositoryClient = {
-  from(table: 'housing_complexes'): HousingComplexesInsert
+  from(table: 'housing_complexes'): HousingComplexesInsert & HousingComplexesSelect
   from(table: 'complex_evaluations'): ComplexEvaluationsInsert
 }
 
@@ -46,3 +66,21 @@ export async function insertComplexEvaluation(supabase: unknown, payload: Record
   const { error } = await client.from('complex_evaluations').insert(payload)
   if (error) throw error
 }
+
+// 所在地と築年で取引データを団地に照合するための一覧
+export async function listComplexAddressProfiles(supabase: unknown): Promise<MlitComplexProfile[]> {
+  const client = asComplexesRepositoryClient(supabase)
+  const { data, error } = await (client.from('housing_complexes') as HousingComplexesSelect)
+    .select('id, name, pref, city, town, built_ym')
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false })
+  if (error) throw error
+  return ((data ?? []) as HousingComplexAddressRow[]).map((row) => ({
+    id: row.id,
+    name: row.name ?? '(名称未設定)',
+    pref: row.pref ?? null,
+    city: row.city ?? null,
+    town: row.town ?? null,
+    builtYm: row.built_ym ?? null,
+  }))
+}
@@ -0,0 +1,76 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { insertCostProfile, listCostProfiles, loadActiveCostProfile, loadStockCostProfile } from './costProfiles.ts'
+
+function buildListClient(calls: Array<{ method: string; args: unknown[] }>) {
+  return {
+    from: (table: string) => {
+      assert.equal(table, 'pricing_cost_profiles')
+      return {
+        select: (...args: unknown[]) => {
+          calls.push({ method: 'select', args })
+          return {
+            is: (...isArgs: unknown[]) => {
+              calls.push({ method: 'is', args: isArgs })
+              return {
+                order: async (...orderArgs: unknown[]) => {
+                  calls.push({ method: 'order', args: orderArgs })
+                  return {
+                    data: [
+                      { id: 'p2', version: 2, name: '改定', effective_from: '2026-04-01', move_cost_bands: [{ minArea: 0, unitCost: 140000, slopePerSqm: 0 }], brokerage_rule: null, other_cost_rate: 0.08, margin_divisor: 1.2 },
+                      { id: 'p1', version: 1, name: '初版', effective_from: '2025-04-01', move_cost_bands: null, brokerage_rule: null, other_cost_rate: null, margin_divisor: null },
+                    ],
+                    error: null,
+                  }
+                },
+              }
+            },
+          }
+        },
+      }
+    },
+  }
+}
+
+test('listCostProfiles maps stored versions and excludes deleted rows', async () => {
+  const calls: Array<{ method: string; args: unknown[] }> = []
+  const profiles = await listCostProfiles(buildListClient(calls))
+
+  assert.deepEqual(profiles.map((profile) => [profile.id, profile.version, profile.otherCostRate]), [['p2', 2, 0.08], ['p1', 1, 0.075]])
+  assert.deepEqual(calls.slice(1), [
+    { method: 'is', args: ['deleted_at', null] },
+    { method: 'order', args: ['version', { ascending: false }] },
+  ])
+})
+
+test('loadActiveCostProfile resolves the profile effective on the given date', async () => {
+  const calls: Array<{ method: string; args: unknown[] }> = []
+  assert.equal((await loadActiveCostProfile(buildListClient(calls), new Date('2026-03-01T00:00:00.000Z'))).id, 'p1')
+  assert.equal((await loadActiveCostProfile(buildListClient(calls), new Date('2026-05-01T00:00:00.000Z'))).id, 'p2')
+})
+
+test('loadStockCostProfile returns the version a stock was priced with', async () => {
+  const calls: Array<{ method: string; args: unknown[] }> = []
+  const now = new Date('2026-05-01T00:00:00.000Z')
+  assert.equal((await loadStockCostProfile(buildListClient(calls), { cost_profile_id: 'p1', cost_profile_version: 1 }, now)).id, 'p1')
+  assert.equal((await loadStockCostProfile(buildListClient(calls), { cost_profile_id: null, cost_profile_version: null }, now)).id, 'p2')
+})
+
+test('insertCostProfile inserts a new version row', async () => {
+  const inserted: unknown[] = []
+  const supabase = {
+    from: (table: string) => {
+      assert.equal(table, 'pricing_cost_profiles')
+      return {
+        insert: async (payload: unknown) => {
+          inserted.push(payload)
+          return { error: null }
+        },
+      }
+    },
+  }
+
+  await insertCostProfile(supabase, { version: 3, name: '改定' })
+  assert.deepEqual(inserted, [{ version: 3, name: '改定' }])
+})
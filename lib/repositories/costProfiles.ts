@@ -0,0 +1,57 @@
+import {
+  mapCostProfileRow,
+  resolveActiveCostProfile,
+  resolveStockCostProfile,
+  type CostProfile,
+  type CostProfileRow,
+} from '../costProfile.ts'
+
+type RepositoryError = { message: string }
+type QueryListResult<T> = Promise<{ data: T[] | null; error: RepositoryError | null }>
+type QueryInsertResult = Promise<{ error: RepositoryError | null }>
+
+type PricingCostProfilesTable = {
+  select(columns: string): {
+    is(column: string, value: null): {
+      order(column: string, options: { ascending: boolean }): QueryListResult<Record<string, unknown>>
+    }
+  }
+  insert(payload: Record<string, unknown>): QueryInsertResult
+}
+
+type CostProfilesRepositoryClient = {
+  from(table: 'pricing_cost_profiles'): PricingCostProfilesTable
+}
+
+function asCostProfilesRepositoryClient(supabase: unknown): CostProfilesRepositoryClient {
+  return supabase as CostProfilesRepositoryClient
+}
+
+export async function listCostProfiles(supabase: unknown): Promise<CostProfile[]> {
+  const client = asCostProfilesRepositoryClient(supabase)
+  const { data, error } = await client
+    .from('pricing_cost_profiles')
+    .select('id, version, name, effective_from, move_cost_bands, brokerage_rule, other_cost_rate, other_cost_mode, acquisition_cost_params, margin_divisor')
+    .is('deleted_at', null)
+    .order('version', { ascending: false })
+  if (error) throw error
+  return ((data ?? []) as CostProfileRow[]).map(mapCostProfileRow)
+}
+
+export async function loadActiveCostProfile(supabase: unknown, now: Date = new Date()): Promise<CostProfile> {
+  return resolveActiveCostProfile(await listCostProfiles(supabase), now)
+}
+
+export async function loadStockCostProfile(
+  supabase: unknown,
+  stock: { cost_profile_id?: string | null; cost_profile_version?: number | null },
+  now: Date = new Date(),
+): Promise<CostProfile> {
+  return resolveStockCostProfile(await listCostProfiles(supabase), stock, now)
+}
+
+export async function insertCostProfile(supabase: unknown, payload: Record<string, unknown>) {
+  const client = asCostProfilesRepositoryClient(supabase)
+  const { error } = await client.from('pricing_cost_profiles').insert(payload)
+  if (error) throw error
+}
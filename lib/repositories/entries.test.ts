@@ -1,7 +1,7 @@
 import test from 'node:test'
 import assert from 'node:assert/strict'
 
-import { insertEntries, softDeleteEntry, updateEntry, uploadEntryPdf } from './entries.ts'
+import { insertEntries, listEntriesBySource, softDeleteEntry, updateEntry, uploadEntryPdf } from './entries.ts'
 
 test('entry repository write helpers insert, update, delete, and upload pdf', async () => {
   const calls: Array<{ method: string; args: unknown[] }> = []
@@ -54,3 +54,43 @@ test('entry repository write helpers insert, update, delete, and upload pdf', as
   assert.equal(calls.filter((call) => call.method === 'update').length, 2)
   assert.equal(calls.some((call) => call.method === 'upload'), true)
 })
+
+test('listEntriesBySource loads active rows of one source for duplicate checks', async () => {
+  const calls: Array<{ method: string; args: unknown[] }> = []
+  const supabase = {
+    from: (table: string) => {
+      assert.equal(table, 'estate_entries')
+      return {
+        select: (...args: unknown[]) => {
+          calls.push({ method: 'select', args })
+          return {
+            eq: (...eqArgs: unknown[]) => {
+              calls.push({ method: 'eq', args: eqArgs })
+              return {
+                is: (...isArgs: unknown[]) => {
+                  calls.push({ method: 'is', args: isArgs })
+                  return {
+                    limit: async (...limitArgs: unknown[]) => {
+                      calls.push({ method: 'limit', args: limitArgs })
+                      return { data: [{ complex_id: 'c1', contract_date: '2024-02-15', area_sqm: 50, contract_price: 9_800_000 }], error: null }
+                    },
+                  }
+                },
+              }
+            },
+          }
+        },
+      }
+    },
+  }
+
+  assert.deepEqual(await listEntriesBySource(supabase, 'MLIT'), [
+    { complex_id: 'c1', contract_date: '2024-02-15', area_sqm: 50, contract_price: 9_800_000 },
+  ])
+  assert.deepEqual(calls, [
+    { method: 'select', args: ['complex_id, contract_date, area_sqm, contract_price'] },
+    { method: 'eq', args: ['source', 'MLIT'] },
+    { method: 'is', args: ['deleted_at', null] },
+    { method: 'limit', args: [20000] },
+  ])
+})
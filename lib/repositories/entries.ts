@@ -1,6 +1,9 @@
 import { buildSoftDeletePayload } from '../deletePayload.ts'
+import type { MlitExistingRow } from '../mlitImport.ts'
+import type { ReferenceSource } from '../referenceValue.ts'
 
 type RepositoryError = { message: string }
+type QueryListResult<T> = Promise<{ data: T[] | null; error: RepositoryError | null }>
 type QueryInsertResult = Promise<{ error: RepositoryError | null }>
 type QueryUpdateResult = Promise<{ error: RepositoryError | null }>
 
@@ -11,6 +14,16 @@ type EstateEntriesInsert = {
   }
 }
 
+type EstateEntriesSourceSelect = {
+  select(columns: string): {
+    eq(column: string, value: unknown): {
+      is(column: string, value: null): {
+        limit(count: number): QueryListResult<Record<string, unknown>>
+      }
+    }
+  }
+}
+
 type UploadsBucket = {
   upload(
     path: string,
@@ -20,7 +33,7 @@ type UploadsBucket = {
 }
 
 type EntriesRepositoryClient = {
-  from(table: 'estate_entries'): EstateEntriesInsert
+  from(table: 'estate_entries'): EstateEntriesInsert & EstateEntriesSourceSelect
   storage?: {
     from(bucket: 'uploads'): UploadsBucket
   }
@@ -36,6 +49,18 @@ export async function insertEntries(supabase: unknown, payloads: Record<string,
   if (error) throw error
 }
 
+// 取り込み済みの外部データとの重複確認に使う
+export async function listEntriesBySource(supabase: unknown, source: ReferenceSource): Promise<MlitExistingRow[]> {
+  const client = asEntriesRepositoryClient(supabase)
+  const { data, error } = await (client.from('estate_entries') as EstateEntriesSourceSelect)
+    .select('complex_id, contract_date, area_sqm, contract_price')
+    .eq('source', source)
+    .is('deleted_at', null)
+    .limit(20000)
+  if (error) throw error
+  return (data ?? []) as MlitExistingRow[]
+}
+
 export async function updateEntry(supabase: unknown, entryId: string, payload: Record<string, unknown>) {
   const client = asEntriesRepositoryClient(supabase)
   const { error } = await client.from('estate_entries').update(payload).eq('id', entryId)
@@ -0,0 +1,71 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { insertFloorPattern, listFloorPatterns, softDeleteFloorPattern } from './floorPatterns.ts'
+
+test('listFloorPatterns maps non-deleted shared and complex patterns', async () => {
+  const calls: Array<{ method: string; args: unknown[] }> = []
+  const supabase = {
+    from: (table: string) => {
+      assert.equal(table, 'floor_coef_patterns')
+      return {
+        select: (...args: unknown[]) => {
+          calls.push({ method: 'select', args })
+          return {
+            is: (...isArgs: unknown[]) => {
+              calls.push({ method: 'is', args: isArgs })
+              return {
+                order: async () => ({
+                  data: [
+                    { id: 'p1', name: '高層向け', coefs: [1, 1.02, 1.04], complex_id: null },
+                    { id: 'p2', name: '3階建', coefs: [1, 0.97, 0.93], complex_id: 'complex-1' },
+                  ],
+                  error: null,
+                }),
+              }
+            },
+          }
+        },
+      }
+    },
+  }
+
+  assert.deepEqual(await listFloorPatterns(supabase), [
+    { id: 'p1', name: '高層向け', coefs: [1, 1.02, 1.04], complexId: null },
+    { id: 'p2', name: '3階建', coefs: [1, 0.97, 0.93], complexId: 'complex-1' },
+  ])
+  assert.deepEqual(calls[1], { method: 'is', args: ['deleted_at', null] })
+})
+
+test('floor pattern write helpers insert with returned id and soft delete', async () => {
+  const calls: Array<{ method: string; args: unknown[] }> = []
+  const supabase = {
+    from: (table: string) => {
+      assert.equal(table, 'floor_coef_patterns')
+      return {
+        insert: (...args: unknown[]) => {
+          calls.push({ method: 'insert', args })
+          return {
+            select: () => ({
+              single: async () => ({ data: { id: 'p3' }, error: null }),
+            }),
+          }
+        },
+        update: (...args: unknown[]) => {
+          calls.push({ method: 'update', args })
+          return {
+            eq: async (...eqArgs: unknown[]) => {
+              calls.push({ method: 'eq', args: eqArgs })
+              return { error: null }
+            },
+          }
+        },
+      }
+    },
+  }
+
+  assert.equal(await insertFloorPattern(supabase, { name: '4階建', coefs: [1, 0.99, 0.97, 0.95] }), 'p3')
+  await softDeleteFloorPattern(supabase, 'p3', 'user-1')
+  assert.deepEqual(calls.map((call) => call.method), ['insert', 'update', 'eq'])
+  assert.deepEqual(calls[2]?.args, ['id', 'p3'])
+})
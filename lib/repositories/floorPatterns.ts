@@ -0,0 +1,56 @@
+import { buildSoftDeletePayload } from '../deletePayload.ts'
+import { mapFloorPatternRow, type CustomFloorPattern, type FloorPatternRow } from '../floorPatterns.ts'
+
+type RepositoryError = { message: string }
+type QueryListResult<T> = Promise<{ data: T[] | null; error: RepositoryError | null }>
+type QueryInsertSingleResult<T> = Promise<{ data: T | null; error: RepositoryError | null }>
+type QueryUpdateResult = Promise<{ error: RepositoryError | null }>
+
+type FloorCoefPatternsTable = {
+  select(columns: string): {
+    is(column: string, value: null): {
+      order(column: string, options: { ascending: boolean }): QueryListResult<Record<string, unknown>>
+    }
+  }
+  insert(payload: Record<string, unknown>): {
+    select(columns: string): {
+      single(): QueryInsertSingleResult<{ id: string }>
+    }
+  }
+  update(payload: Record<string, unknown>): {
+    eq(column: string, value: unknown): QueryUpdateResult
+  }
+}
+
+type FloorPatternsRepositoryClient = {
+  from(table: 'floor_coef_patterns'): FloorCoefPatternsTable
+}
+
+function asFloorPatternsRepositoryClient(supabase: unknown): FloorPatternsRepositoryClient {
+  return supabase as FloorPatternsRepositoryClient
+}
+
+export async function listFloorPatterns(supabase: unknown): Promise<CustomFloorPattern[]> {
+  const client = asFloorPatternsRepositoryClient(supabase)
+  const { data, error } = await client
+    .from('floor_coef_patterns')
+    .select('id, name, coefs, complex_id')
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true })
+  if (error) throw error
+  return ((data ?? []) as FloorPatternRow[]).map(mapFloorPatternRow)
+}
+
+export async function insertFloorPattern(supabase: unknown, payload: Record<string, unknown>): Promise<string> {
+  const client = asFloorPatternsRepositoryClient(supabase)
+  const { data, error } = await client.from('floor_coef_patterns').insert(payload).select('id').single()
+  if (error) throw error
+  if (!data?.id) throw new Error('階数効用パターンIDの取得に失敗しました')
+  return data.id
+}
+
+export async function softDeleteFloorPattern(supabase: unknown, patternId: string, userId?: string | null) {
+  const client = asFloorPatternsRepositoryClient(supabase)
+  const { error } = await client.from('floor_coef_patterns').update(buildSoftDeletePayload(userId)).eq('id', patternId)
+  if (error) throw error
+}
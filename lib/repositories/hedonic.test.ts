@@ -0,0 +1,51 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { listHedonicSamples } from './hedonic.ts'
+
+test('listHedonicSamples joins complex attributes and drops rows without a unit price', async () => {
+  const calls: Array<{ method: string; args: unknown[] }> = []
+  const supabase = {
+    from: (table: string) => {
+      assert.equal(table, 'estate_entries')
+      return {
+        select: (...args: unknown[]) => {
+          calls.push({ method: 'select', args })
+          return {
+            is: (...isArgs: unknown[]) => {
+              calls.push({ method: 'is', args: isArgs })
+              return {
+                limit: async () => ({
+                  data: [
+                    {
+                      complex_id: 'c1', floor: 3, area_sqm: 50, unit_price: 280000, contract_price: null,
+                      condition_status: 'FULL_REFORM_ALL_EQUIP', contract_date: '2024-02-01', built_month: '1980-04-01', has_elevator: false,
+                      housing_complexes: { built_ym: '1979-01', station_minutes: 9, has_elevator: null },
+                    },
+                    { complex_id: 'c1', floor: 1, area_sqm: null, unit_price: null, contract_price: null, condition_status: null, contract_date: null },
+                  ],
+                  error: null,
+                }),
+              }
+            },
+          }
+        },
+      }
+    },
+  }
+
+  const samples = await listHedonicSamples(supabase)
+  assert.equal(samples.length, 1)
+  assert.deepEqual(samples[0], {
+    complexId: 'c1',
+    unitPrice: 280000,
+    floor: 3,
+    area: 50,
+    condition: 'FULL_REFORM_ALL_EQUIP',
+    contractYear: 2024,
+    hasElevator: false,
+    builtAge: 44,
+    stationMinutes: 9,
+  })
+  assert.deepEqual(calls[1], { method: 'is', args: ['deleted_at', null] })
+})
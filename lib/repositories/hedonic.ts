@@ -0,0 +1,33 @@
+import { mapHedonicEntryRow, type HedonicEntryRow, type HedonicSample } from '../hedonicModel.ts'
+
+type RepositoryError = { message: string }
+type QueryListResult<T> = Promise<{ data: T[] | null; error: RepositoryError | null }>
+
+type EstateEntriesTable = {
+  select(columns: string): {
+    is(column: string, value: null): {
+      limit(count: number): QueryListResult<Record<string, unknown>>
+    }
+  }
+}
+
+type HedonicRepositoryClient = {
+  from(table: 'estate_entries'): EstateEntriesTable
+}
+
+function asHedonicRepositoryClient(supabase: unknown): HedonicRepositoryClient {
+  return supabase as HedonicRepositoryClient
+}
+
+export async function listHedonicSamples(supabase: unknown): Promise<HedonicSample[]> {
+  const client = asHedonicRepositoryClient(supabase)
+  const { data, error } = await client
+    .from('estate_entries')
+    .select('complex_id, floor, area_sqm, unit_price, contract_price, condition_status, contract_date, reins_registered_date, built_month, has_elevator, housing_complexes ( built_ym, station_minutes, has_elevator )')
+    .is('deleted_at', null)
+    .limit(20000)
+  if (error) throw error
+  return ((data ?? []) as HedonicEntryRow[])
+    .map(mapHedonicEntryRow)
+    .filter((sample): sample is HedonicSample => sample != null)
+}
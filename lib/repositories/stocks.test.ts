@@ -8,7 +8,9 @@ import {
   listMaxEntriesForComplex,
   listStockComplexes,
   listStocksByComplex,
+  listStocksForRepricing,
   loadStockDetail,
+  loadStockHoldingContext,
   loadStockEdit,
   softDeleteStock,
   updateStock,
@@ -49,6 +51,12 @@ test('listStockComplexes maps complex rows for stock screens', async () => {
     city: '大阪市',
     floorPattern: '②中間',
     floorCount: 5,
+    builtYm: null,
+    stationMinutes: null,
+    hasElevator: null,
+    mgmtFeeMonthly: null,
+    repairReserveFeeMonthly: null,
+    rentCaseMaxMonthlyRent: null,
   }])
   assert.equal(calls.some((call) => call.method === 'is' && call.args[0] === 'deleted_at'), true)
 })
@@ -134,6 +142,44 @@ test('stock repository read helpers keep list and MAX-entry query shapes stable'
   }])
 })
 
+test('listStocksForRepricing loads every active stock with its pricing columns', async () => {
+  const calls: Array<{ method: string; args: unknown[] }> = []
+  const supabase = {
+    from: (table: string) => {
+      assert.equal(table, 'estate_stocks')
+      return {
+        select: (...args: unknown[]) => {
+          calls.push({ method: 'select', args })
+          return {
+            is: (...isArgs: unknown[]) => {
+              calls.push({ method: 'is', args: isArgs })
+              return {
+                order: (...orderArgs: unknown[]) => {
+                  calls.push({ method: 'order', args: orderArgs })
+                  return {
+                    limit: async (...limitArgs: unknown[]) => {
+                      calls.push({ method: 'limit', args: limitArgs })
+                      return { data: [{ id: 's1', complex_id: 'c1', estate_entry_id: 'e1', pricing_snapshot: null }], error: null }
+                    },
+                  }
+                },
+              }
+            },
+          }
+        },
+      }
+    },
+  }
+
+  assert.deepEqual(await listStocksForRepricing(supabase), [{ id: 's1', complex_id: 'c1', estate_entry_id: 'e1', pricing_snapshot: null }])
+  assert.match(String(calls[0].args[0]), /comparable_entries, pricing_snapshot/)
+  assert.deepEqual(calls.slice(1), [
+    { method: 'is', args: ['deleted_at', null] },
+    { method: 'order', args: ['registered_date', { ascending: false, nullsFirst: false }] },
+    { method: 'limit', args: [2000] },
+  ])
+})
+
 test('loadStockEntryContext returns entry context for stock registration routing', async () => {
   const supabase = {
     from: (table: string) => {
@@ -312,3 +358,41 @@ test('stock repository detail/edit helpers load rows, create signed urls, and up
   assert.equal(await createStockPdfSignedUrl(supabase, 'stocks/a.pdf'), 'https://example.com/stocks/a.pdf')
   await updateStock(supabase, 'stock-1', { status: '買付' })
 })
+
+test('loadStockHoldingContext reads monthly fees and the latest MINI time to sell', async () => {
+  const supabase = {
+    from: (table: string) => {
+      if (table === 'housing_complexes') {
+        return {
+          select: (columns: string) => {
+            assert.equal(columns, 'mgmt_fee_monthly, repair_reserve_fee_monthly, built_ym')
+            return {
+              eq: (...eqArgs: unknown[]) => {
+                assert.deepEqual(eqArgs, ['id', 'complex-1'])
+                return { maybeSingle: async () => ({ data: { mgmt_fee_monthly: 12000, repair_reserve_fee_monthly: 8000, built_ym: '1998-04' }, error: null }) }
+              },
+            }
+          },
+        }
+      }
+      assert.equal(table, 'estate_entries')
+      const chain = {
+        eq: () => chain,
+        is: () => chain,
+        order: () => chain,
+        limit: async (count: number) => {
+          assert.equal(count, 1)
+          return { data: [{ reins_registered_date: '2025-01-01', contract_date: '2025-03-02' }], error: null }
+        },
+      }
+      return { select: () => chain }
+    },
+  }
+
+  assert.deepEqual(await loadStockHoldingContext(supabase, 'complex-1'), {
+    mgmtFeeMonthly: 12000,
+    repairReserveFeeMonthly: 8000,
+    miniElapsedDays: 60,
+    builtYm: '1998-04',
+  })
+})
@@ -1,3 +1,5 @@
+import type { StockRepricingRow } from '../bulkRepricing.ts'
+import { diffDays } from '../entryMath.ts'
 import { buildStockDeletePayload, type StockRow } from '../stockCards.ts'
 import { safeNumber } from '../stockPricing.ts'
 
@@ -15,6 +17,14 @@ type HousingComplexesSelect = {
   }
 }
 
+type HousingComplexesMaybeSingleSelect = {
+  select(columns: string): {
+    eq(column: string, value: unknown): {
+      maybeSingle(): QueryMaybeSingleResult<Record<string, unknown>>
+    }
+  }
+}
+
 type EstateStocksSelect = {
   select(columns: string): {
     eq(column: string, value: unknown): {
@@ -31,6 +41,16 @@ type EstateStocksSelect = {
   }
 }
 
+type EstateStocksActiveSelect = {
+  select(columns: string): {
+    is(column: string, value: null): {
+      order(column: string, options: { ascending: boolean; nullsFirst?: boolean }): {
+        limit(count: number): QueryListResult<Record<string, unknown>>
+      }
+    }
+  }
+}
+
 type EstateStocksMaybeSingleSelect = {
   select(columns: string): {
     eq(column: string, value: unknown): {
@@ -71,8 +91,8 @@ type UploadsBucket = {
 }
 
 type StocksRepositoryClient = {
-  from(table: 'housing_complexes'): HousingComplexesSelect
-  from(table: 'estate_stocks'): EstateStocksSelect & EstateStocksMaybeSingleSelect
+  from(table: 'housing_complexes'): HousingComplexesSelect & HousingComplexesMaybeSingleSelect
+  from(table: 'estate_stocks'): EstateStocksSelect & EstateStocksActiveSelect & EstateStocksMaybeSingleSelect
   from(table: 'estate_entries'): EstateEntriesSelect & EstateEntriesMaybeSingleSelect
   storage?: {
     from(bucket: 'uploads'): UploadsBucket
@@ -86,6 +106,12 @@ type StockComplexRow = {
   city: string | null
   floor_coef_pattern?: string | null
   floor_count?: number | null
+  built_ym?: string | null
+  station_minutes?: number | null
+  has_elevator?: boolean | null
+  mgmt_fee_monthly?: number | null
+  repair_reserve_fee_monthly?: number | null
+  rent_case_max_monthly_rent?: number | null
 }
 
 type StockEntryRaw = {
@@ -106,11 +132,17 @@ type StockEntryRaw = {
 
 export type StockDetailRow = {
   id: string
+  complex_id?: string | null
   estate_entry_id: string | null
   floor: number | null
   area_sqm: number | null
   list_price: number | null
+  target_unit_price?: number | null
+  target_close_price?: number | null
+  raise_price?: number | null
+  buy_target_price?: number | null
   registered_date: string | null
+  contract_date?: string | null
   stock_mysoku_path: string | null
   broker_name: string | null
   broker_pref: string | null
@@ -123,6 +155,18 @@ export type StockDetailRow = {
   broker_mysoku_url: string | null
   broker_photo_url: string | null
   fundplan_url: string | null
+  funding_plan?: unknown
+  comparable_entries?: unknown
+  pricing_snapshot?: unknown
+  base_unit_price?: number | null
+  coef_total?: number | null
+  area_coef?: number | null
+  floor_coef?: number | null
+  cost_profile_id?: string | null
+  cost_profile_version?: number | null
+  layout?: string | null
+  current_condition?: string | null
+  target_condition?: string | null
   status: string | null
 }
 
@@ -138,9 +182,20 @@ export type StockEditRow = {
   base_unit_price: number | null
   entry_unit_price?: number | null
   coef_total: number | null
+  current_condition?: string | null
+  target_condition?: string | null
+  comparable_entries?: unknown
+  pricing_snapshot?: unknown
   stock_mysoku_path: string | null
 }
 
+export type StockHoldingContext = {
+  mgmtFeeMonthly: number | null
+  repairReserveFeeMonthly: number | null
+  miniElapsedDays: number | null
+  builtYm: string | null
+}
+
 export type StockComplexOption = {
   id: string
   name: string
@@ -148,6 +203,12 @@ export type StockComplexOption = {
   city: string | null
   floorPattern: string | null
   floorCount: number | null
+  builtYm: string | null
+  stationMinutes: number | null
+  hasElevator: boolean | null
+  mgmtFeeMonthly: number | null
+  repairReserveFeeMonthly: number | null
+  rentCaseMaxMonthlyRent: number | null
 }
 
 export type StockRegEntryOption = {
@@ -182,6 +243,12 @@ function mapComplexRow(row: StockComplexRow): StockComplexOption {
     city: row.city ?? null,
     floorPattern: row.floor_coef_pattern ?? null,
     floorCount: row.floor_count ?? null,
+    builtYm: row.built_ym ?? null,
+    stationMinutes: row.station_minutes ?? null,
+    hasElevator: row.has_elevator ?? null,
+    mgmtFeeMonthly: row.mgmt_fee_monthly ?? null,
+    repairReserveFeeMonthly: row.repair_reserve_fee_monthly ?? null,
+    rentCaseMaxMonthlyRent: row.rent_case_max_monthly_rent ?? null,
   }
 }
 
@@ -206,7 +273,7 @@ export async function listStockComplexes(supabase: unknown): Promise<StockComple
   const client = asStocksRepositoryClient(supabase)
   const { data, error } = await client
     .from('housing_complexes')
-    .select('id, name, pref, city, floor_coef_pattern, floor_count')
+    .select('id, name, pref, city, floor_coef_pattern, floor_count, built_ym, station_minutes, has_elevator, mgmt_fee_monthly, repair_reserve_fee_monthly, rent_case_max_monthly_rent')
     .is('deleted_at', null)
     .order('created_at', { ascending: false })
   if (error) throw error
@@ -220,7 +287,7 @@ export async function listStocksByComplex(supabase: unknown, complexId: string):
     .select(`
       id, complex_id, estate_entry_id, floor, area_sqm, layout, registered_date, contract_date, list_price,
       target_unit_price, target_close_price, buy_target_price, raise_price,
-      base_unit_price, coef_total, floor_coef, status, stock_mysoku_path,
+      base_unit_price, coef_total, floor_coef, status, stock_mysoku_path, cost_profile_version, comparable_entries,
       estate_entries ( renovated, contract_kind, estate_name )
     `)
     .eq('complex_id', complexId)
@@ -231,6 +298,18 @@ export async function listStocksByComplex(supabase: unknown, complexId: string):
   return (data ?? []) as StockRow[]
 }
 
+// 一括見直し用に、価格の計算に使った列だけを全在庫分取得する
+export async function listStocksForRepricing(supabase: unknown): Promise<StockRepricingRow[]> {
+  const client = asStocksRepositoryClient(supabase)
+  const { data, error } = await (client.from('estate_stocks') as EstateStocksActiveSelect)
+    .select('id, complex_id, estate_entry_id, floor, area_sqm, layout, current_condition, target_condition, base_unit_price, coef_total, area_coef, floor_coef, target_unit_price, target_close_price, raise_price, buy_target_price, comparable_entries, pricing_snapshot')
+    .is('deleted_at', null)
+    .order('registered_date', { ascending: false, nullsFirst: false })
+    .limit(2000)
+  if (error) throw error
+  return (data ?? []) as StockRepricingRow[]
+}
+
 export async function softDeleteStock(supabase: unknown, stockId: string, userId?: string | null) {
   const client = asStocksRepositoryClient(supabase)
   const { error } = await client.from('estate_stocks').update(buildStockDeletePayload(userId)).eq('id', stockId)
@@ -288,17 +367,51 @@ export async function insertStock(supabase: unknown, payload: Record<string, unk
 export async function loadStockDetail(supabase: unknown, stockId: string): Promise<StockDetailRow | null> {
   const client = asStocksRepositoryClient(supabase)
   const { data, error } = await (client.from('estate_stocks') as EstateStocksMaybeSingleSelect)
-    .select('id, estate_entry_id, floor, area_sqm, list_price, registered_date, stock_mysoku_path, broker_name, broker_pref, broker_city, broker_town, broker_tel, broker_person, broker_mobile, broker_email, broker_mysoku_url, broker_photo_url, fundplan_url, status')
+    .select('id, complex_id, estate_entry_id, floor, area_sqm, list_price, target_unit_price, target_close_price, raise_price, buy_target_price, registered_date, contract_date, stock_mysoku_path, broker_name, broker_pref, broker_city, broker_town, broker_tel, broker_person, broker_mobile, broker_email, broker_mysoku_url, broker_photo_url, fundplan_url, funding_plan, comparable_entries, pricing_snapshot, base_unit_price, coef_total, area_coef, floor_coef, cost_profile_id, cost_profile_version, layout, current_condition, target_condition, status')
     .eq('id', stockId)
     .maybeSingle()
   if (error) throw error
   return (data ?? null) as StockDetailRow | null
 }
 
+// 保有コスト（管理費・修繕積立金）と、直近MINI成約の売出〜成約日数を取得する
+export async function loadStockHoldingContext(supabase: unknown, complexId: string): Promise<StockHoldingContext> {
+  const client = asStocksRepositoryClient(supabase)
+  const [complexResult, miniResult] = await Promise.all([
+    (client.from('housing_complexes') as HousingComplexesMaybeSingleSelect)
+      .select('mgmt_fee_monthly, repair_reserve_fee_monthly, built_ym')
+      .eq('id', complexId)
+      .maybeSingle(),
+    client
+      .from('estate_entries')
+      .select('reins_registered_date, contract_date')
+      .eq('complex_id', complexId)
+      .eq('contract_kind', 'MINI')
+      .is('deleted_at', null)
+      .order('contract_date', { ascending: false, nullsFirst: false })
+      .limit(1),
+  ])
+  if (complexResult.error) throw complexResult.error
+  if (miniResult.error) throw miniResult.error
+
+  const complex = (complexResult.data ?? {}) as {
+    mgmt_fee_monthly?: number | null
+    repair_reserve_fee_monthly?: number | null
+    built_ym?: string | null
+  }
+  const mini = ((miniResult.data ?? []) as Array<{ reins_registered_date: string | null; contract_date: string | null }>)[0]
+  return {
+    mgmtFeeMonthly: complex.mgmt_fee_monthly ?? null,
+    repairReserveFeeMonthly: complex.repair_reserve_fee_monthly ?? null,
+    miniElapsedDays: mini ? diffDays(mini.reins_registered_date, mini.contract_date) : null,
+    builtYm: complex.built_ym ?? null,
+  }
+}
+
 export async function loadStockEdit(supabase: unknown, stockId: string): Promise<StockEditRow | null> {
   const client = asStocksRepositoryClient(supabase)
   const { data, error } = await (client.from('estate_stocks') as EstateStocksMaybeSingleSelect)
-    .select('id, complex_id, estate_entry_id, floor, area_sqm, layout, registered_date, contract_date, base_unit_price, coef_total, stock_mysoku_path, estate_entries ( unit_price )')
+    .select('id, complex_id, estate_entry_id, floor, area_sqm, layout, registered_date, contract_date, base_unit_price, coef_total, current_condition, target_condition, comparable_entries, pricing_snapshot, stock_mysoku_path, estate_entries ( unit_price )')
     .eq('id', stockId)
     .maybeSingle()
   if (error) throw error
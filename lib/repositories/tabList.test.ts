@@ -6,6 +6,7 @@ import {
   hasEntryKindConflict,
   listTabListComplexes,
   listTabListEntries,
+  mergeTabListEntries,
   softDeleteTabListEntry,
   updateTabListEntry,
 } from './tabList.ts'
@@ -88,7 +89,7 @@ test('listTabListEntries falls back to legacy select when newer columns are miss
             order: () => ({
               limit: async () => {
                 count += 1
-                if (count === 1) return { data: null, error: { message: 'column built_month does not exist' } }
+                if (count <= 2) return { data: null, error: { message: 'column built_month does not exist' } }
                 return {
                   data: [{ id: 'e1', contract_kind: 'MAX', floor: 3, area_sqm: 64, has_elevator: true, reins_registered_date: null, contract_date: null, max_price: 32000000, past_min: null, mysoku_pdf_path: null, created_at: '2026-03-16T00:00:00.000Z' }],
                   error: null,
@@ -118,9 +119,44 @@ test('listTabListEntries falls back to legacy select when newer columns are miss
     built_month: null,
     building_no: null,
     condition_status: null,
+    source: null,
   }])
 })
 
+test('listTabListEntries keeps prices when only the source column is missing', async () => {
+  const selects: string[] = []
+  const supabase = {
+    from: () => ({
+      select: (columns: string) => {
+        selects.push(columns)
+        return {
+          eq: () => ({
+            is: () => ({
+              order: () => ({
+                limit: async () => {
+                  if (columns.includes('source')) return { data: null, error: { message: 'column estate_entries.source does not exist' } }
+                  return {
+                    data: [{ id: 'e1', contract_kind: 'MAX', floor: 3, area_sqm: 64, contract_price: 32000000, unit_price: 500000, built_month: '1975-04-01', building_no: 2, condition_status: 'PARTIAL_REFORM', has_elevator: true, reins_registered_date: null, contract_date: '2025-06-01', max_price: 32000000, past_min: null, mysoku_pdf_path: null, created_at: '2026-03-16T00:00:00.000Z' }],
+                    error: null,
+                  }
+                },
+              }),
+            }),
+          }),
+        }
+      },
+    }),
+  }
+
+  const [row] = await listTabListEntries(supabase, 'complex-1')
+  assert.equal(selects.length, 2)
+  assert.equal(selects[1].includes('contract_price'), true)
+  assert.equal(row.contract_price, 32000000)
+  assert.equal(row.unit_price, 500000)
+  assert.equal(row.condition_status, 'PARTIAL_REFORM')
+  assert.equal(row.source, null)
+})
+
 test('tab-list repository write helpers update, delete, conflict-check, and signed url', async () => {
   const updateCalls: Array<{ method: string; args: unknown[] }> = []
   const supabaseForUpdate = {
@@ -163,3 +199,65 @@ test('tab-list repository write helpers update, delete, conflict-check, and sign
   }
   assert.equal(await createEntryPdfSignedUrl(supabaseForSignedUrl, 'file.pdf'), 'https://example.com/file.pdf')
 })
+
+function createMergeMock(options: { failDrop?: boolean } = {}) {
+  const calls: Array<{ table: string; method: string; args: unknown[] }> = []
+  const supabase = {
+    from: (table: string) => ({
+      select: (...args: unknown[]) => {
+        calls.push({ table, method: 'select', args })
+        return {
+          eq: (...eqArgs: unknown[]) => {
+            calls.push({ table, method: 'eq', args: eqArgs })
+            if (table === 'estate_stocks') return Promise.resolve({ data: [{ id: 'stock-1' }, { id: 'stock-2' }], error: null })
+            return { maybeSingle: async () => ({ data: { contract_price: 9_800_000 }, error: null }) }
+          },
+        }
+      },
+      update: (...args: unknown[]) => {
+        calls.push({ table, method: 'update', args })
+        return {
+          eq: async (...eqArgs: unknown[]) => {
+            calls.push({ table, method: 'eq', args: eqArgs })
+            return { error: options.failDrop && eqArgs[1] === 'drop-1' ? { message: 'denied' } : null }
+          },
+          in: async (...inArgs: unknown[]) => {
+            calls.push({ table, method: 'in', args: inArgs })
+            return { error: null }
+          },
+        }
+      },
+    }),
+  }
+  return { supabase, calls }
+}
+
+test('mergeTabListEntries updates the surviving row, moves linked stocks and soft-deletes the duplicate', async () => {
+  const { supabase, calls } = createMergeMock()
+  await mergeTabListEntries(supabase, 'keep-1', { contract_price: 10_000_000 }, 'drop-1', { deleted_at: 'now', merged_into_id: 'keep-1' })
+  assert.deepEqual(calls.filter((call) => call.method !== 'select'), [
+    { table: 'estate_entries', method: 'eq', args: ['id', 'keep-1'] },
+    { table: 'estate_stocks', method: 'eq', args: ['estate_entry_id', 'drop-1'] },
+    { table: 'estate_entries', method: 'update', args: [{ contract_price: 10_000_000 }] },
+    { table: 'estate_entries', method: 'eq', args: ['id', 'keep-1'] },
+    { table: 'estate_stocks', method: 'update', args: [{ estate_entry_id: 'keep-1' }] },
+    { table: 'estate_stocks', method: 'in', args: ['id', ['stock-1', 'stock-2']] },
+    { table: 'estate_entries', method: 'update', args: [{ deleted_at: 'now', merged_into_id: 'keep-1' }] },
+    { table: 'estate_entries', method: 'eq', args: ['id', 'drop-1'] },
+  ])
+  assert.deepEqual(calls[0], { table: 'estate_entries', method: 'select', args: ['contract_price'] })
+})
+
+test('mergeTabListEntries restores stocks and the surviving row when the soft delete fails', async () => {
+  const { supabase, calls } = createMergeMock({ failDrop: true })
+  await assert.rejects(
+    () => mergeTabListEntries(supabase, 'keep-1', { contract_price: 10_000_000 }, 'drop-1', { deleted_at: 'now', merged_into_id: 'keep-1' }),
+    { message: 'denied' },
+  )
+  assert.deepEqual(calls.slice(-4), [
+    { table: 'estate_stocks', method: 'update', args: [{ estate_entry_id: 'drop-1' }] },
+    { table: 'estate_stocks', method: 'in', args: ['id', ['stock-1', 'stock-2']] },
+    { table: 'estate_entries', method: 'update', args: [{ contract_price: 9_800_000 }] },
+    { table: 'estate_entries', method: 'eq', args: ['id', 'keep-1'] },
+  ])
+})
@@ -41,13 +41,31 @@ type EstateEntriesConflictSelect = {
   }
 }
 
+type EstateEntriesSingleSelect = {
+  select(columns: string): {
+    eq(column: string, value: unknown): {
+      maybeSingle(): Promise<{ data: Record<string, unknown> | null; error: RepositoryError | null }>
+    }
+  }
+}
+
+type EstateStocksEntryUpdate = {
+  select(columns: string): {
+    eq(column: string, value: unknown): QueryListResult<{ id: string }>
+  }
+  update(payload: Record<string, unknown>): {
+    in(column: string, values: string[]): QueryUpdateResult
+  }
+}
+
 type UploadsBucket = {
   createSignedUrl(path: string, expiresIn: number): Promise<{ data: { signedUrl: string | null } | null; error: RepositoryError | null }>
 }
 
 type TabListRepositoryClient = {
   from(table: 'housing_complexes'): HousingComplexesSelect
-  from(table: 'estate_entries'): EstateEntriesSelect & EstateEntriesConflictSelect
+  from(table: 'estate_entries'): EstateEntriesSelect & EstateEntriesConflictSelect & EstateEntriesSingleSelect
+  from(table: 'estate_stocks'): EstateStocksEntryUpdate
   storage?: {
     from(bucket: 'uploads'): UploadsBucket
   }
@@ -92,6 +110,7 @@ type EntryRowRaw = {
   past_min: number | null
   mysoku_pdf_path: string | null
   created_at: string
+  source?: string | null
 }
 
 export type TabListComplexOption = {
@@ -123,6 +142,7 @@ export type TabListEntryRow = {
   past_min: number | null
   mysoku_pdf_path: string | null
   created_at: string
+  source: string | null
 }
 
 function asTabListRepositoryClient(supabase: unknown): TabListRepositoryClient {
@@ -151,6 +171,7 @@ function mapLegacyEntryRow(row: EntryRowRaw): TabListEntryRow {
     built_month: null,
     building_no: null,
     condition_status: null,
+    source: null,
   }
 }
 
@@ -165,28 +186,30 @@ export async function listTabListComplexes(supabase: unknown): Promise<TabListCo
   return ((data ?? []) as HousingComplexRow[]).map(mapComplexRow)
 }
 
+const ENTRY_COLUMNS = 'id, contract_kind, floor, area_sqm, contract_price, unit_price, built_month, building_no, condition_status, has_elevator, reins_registered_date, contract_date, max_price, past_min, mysoku_pdf_path, source, created_at'
+// source 列が未追加の DB 向け。価格・単価などは落とさずに読む
+const SOURCELESS_ENTRY_COLUMNS = 'id, contract_kind, floor, area_sqm, contract_price, unit_price, built_month, building_no, condition_status, has_elevator, reins_registered_date, contract_date, max_price, past_min, mysoku_pdf_path, created_at'
+const LEGACY_ENTRY_COLUMNS = 'id, contract_kind, floor, area_sqm, has_elevator, reins_registered_date, contract_date, max_price, past_min, mysoku_pdf_path, created_at'
+
+function isMissingColumnError(error: RepositoryError): boolean {
+  return /column .* does not exist/i.test(error.message)
+}
+
 export async function listTabListEntries(supabase: unknown, complexId: string): Promise<TabListEntryRow[]> {
   const client = asTabListRepositoryClient(supabase)
-  const nextSelect = 'id, contract_kind, floor, area_sqm, contract_price, unit_price, built_month, building_no, condition_status, has_elevator, reins_registered_date, contract_date, max_price, past_min, mysoku_pdf_path, created_at'
-  const legacySelect = 'id, contract_kind, floor, area_sqm, has_elevator, reins_registered_date, contract_date, max_price, past_min, mysoku_pdf_path, created_at'
-
-  const { data, error } = await (client.from('estate_entries') as EstateEntriesSelect)
-    .select(nextSelect)
+  const query = (columns: string) => (client.from('estate_entries') as EstateEntriesSelect)
+    .select(columns)
     .eq('complex_id', complexId)
     .is('deleted_at', null)
     .order('created_at', { ascending: false })
     .limit(5000)
 
-  if (!error) return (data ?? []) as TabListEntryRow[]
+  let { data, error } = await query(ENTRY_COLUMNS)
+  if (error && isMissingColumnError(error)) ({ data, error } = await query(SOURCELESS_ENTRY_COLUMNS))
+  if (!error) return ((data ?? []) as EntryRowRaw[]).map((row) => ({ ...row, source: row.source ?? null }) as TabListEntryRow)
+  if (!isMissingColumnError(error)) throw error
 
-  if (!/column .* does not exist/i.test(error.message)) throw error
-
-  const { data: legacyData, error: legacyError } = await (client.from('estate_entries') as EstateEntriesSelect)
-    .select(legacySelect)
-    .eq('complex_id', complexId)
-    .is('deleted_at', null)
-    .order('created_at', { ascending: false })
-    .limit(5000)
+  const { data: legacyData, error: legacyError } = await query(LEGACY_ENTRY_COLUMNS)
   if (legacyError) throw legacyError
 
   return ((legacyData ?? []) as EntryRowRaw[]).map(mapLegacyEntryRow)
@@ -222,6 +245,46 @@ export async function softDeleteTabListEntry(supabase: unknown, entryId: string,
   if (error) throw error
 }
 
+// 残す行の更新 → 統合される行を参照していた在庫の付け替え → 統合される行の論理削除の順に行う。
+// 途中で失敗したら、付け替えた在庫と残す行を元の値に戻してからエラーを投げる
+export async function mergeTabListEntries(
+  supabase: unknown,
+  keepId: string,
+  keepPayload: Record<string, unknown>,
+  dropId: string,
+  dropPayload: Record<string, unknown>,
+) {
+  const client = asTabListRepositoryClient(supabase)
+  const { data: original, error: originalError } = await (client.from('estate_entries') as EstateEntriesSingleSelect)
+    .select(Object.keys(keepPayload).join(', '))
+    .eq('id', keepId)
+    .maybeSingle()
+  if (originalError) throw originalError
+  if (!original) throw new Error('残す成約が見つかりません')
+
+  const { data: stocks, error: stocksError } = await client.from('estate_stocks').select('id').eq('estate_entry_id', dropId)
+  if (stocksError) throw stocksError
+  const stockIds = (stocks ?? []).map((stock) => stock.id)
+
+  const { error } = await client.from('estate_entries').update(keepPayload).eq('id', keepId)
+  if (error) throw error
+
+  let movedStocks = false
+  try {
+    if (stockIds.length > 0) {
+      const { error: moveError } = await client.from('estate_stocks').update({ estate_entry_id: keepId }).in('id', stockIds)
+      if (moveError) throw moveError
+      movedStocks = true
+    }
+    const { error: dropError } = await client.from('estate_entries').update(dropPayload).eq('id', dropId)
+    if (dropError) throw dropError
+  } catch (e) {
+    if (movedStocks) await client.from('estate_stocks').update({ estate_entry_id: dropId }).in('id', stockIds)
+    await client.from('estate_entries').update(original).eq('id', keepId)
+    throw e
+  }
+}
+
 export async function createEntryPdfSignedUrl(supabase: unknown, path: string): Promise<string> {
   const client = asTabListRepositoryClient(supabase)
   if (!client.storage) throw new Error('storage client is not available')
@@ -1,7 +1,8 @@
 import test from 'node:test'
 import assert from 'node:assert/strict'
 
-import { buildStockDeletePayload, diffFromNowDays, formatStockYen, mapStockRowToCard } from './stockCards.ts'
+import { DEFAULT_COST_PROFILE } from './costProfile.ts'
+import { buildStockDeletePayload, diffFromNowDays, formatStockRange, formatStockYen, mapStockRowToCard } from './stockCards.ts'
 
 test('mapStockRowToCard derives fallback target values and elapsed days', () => {
   const card = mapStockRowToCard(
@@ -37,17 +38,88 @@ test('mapStockRowToCard derives fallback target values and elapsed days', () =>
     unit: 437500,
     targetUnit: 544500,
     targetPrice: 34848000,
-    buyTarget: 16710400,
+    buyTarget: 19025940,
     raise: 28800000,
     status: '未設定',
     days: 15,
     renovated: true,
+    costProfileVersion: null,
+    band: null,
   })
 })
 
+test('mapStockRowToCard uses the supplied cost profile for fallback targets and keeps the pricing version', () => {
+  const card = mapStockRowToCard(
+    {
+      id: 'stock-2',
+      floor: 1,
+      area_sqm: 60,
+      layout: null,
+      registered_date: null,
+      contract_date: null,
+      list_price: null,
+      target_unit_price: 550_000,
+      target_close_price: 33_000_000,
+      buy_target_price: null,
+      raise_price: null,
+      base_unit_price: null,
+      coef_total: null,
+      floor_coef: null,
+      status: '買付',
+      cost_profile_version: 2,
+    },
+    new Date('2026-03-16T00:00:00.000Z'),
+    {
+      ...DEFAULT_COST_PROFILE,
+      id: 'p2',
+      version: 2,
+      marginDivisor: 1.25,
+      brokerage: { ...DEFAULT_COST_PROFILE.brokerage, mode: 'flat' },
+      otherCostRate: 0.05,
+      otherCostMode: 'flat',
+    },
+  )
+
+  assert.equal(card.raise, 26400000)
+  assert.equal(card.buyTarget, 26400000 - 7920000 - 1452000 - 1320000)
+  assert.equal(card.costProfileVersion, 2)
+})
+
+test('mapStockRowToCard attaches a price band when reference rows are supplied', () => {
+  const card = mapStockRowToCard(
+    {
+      id: 'stock-3',
+      floor: 4,
+      area_sqm: 64,
+      layout: null,
+      registered_date: null,
+      contract_date: null,
+      list_price: null,
+      target_unit_price: 544_500,
+      target_close_price: 34_848_000,
+      buy_target_price: 19_025_940,
+      raise_price: null,
+      base_unit_price: null,
+      coef_total: null,
+      floor_coef: null,
+      status: null,
+    },
+    new Date('2026-03-16T00:00:00.000Z'),
+    DEFAULT_COST_PROFILE,
+    [{ floor: 4, area_sqm: null, contract_price: null, unit_price: 480_000, condition_status: 'FULL_REFORM_ALL_EQUIP' }],
+  )
+
+  assert.equal(card.band?.thin, true)
+  assert.equal(card.band?.count, 1)
+  assert.deepEqual(card.band?.expected, { targetUnit: 544500, targetClose: 34848000, buyTarget: 19025940 })
+  assert.equal(card.band?.low.targetClose, 31363200)
+  assert.equal(card.band?.high.targetClose, 38332800)
+})
+
 test('stock card helpers keep delete payload and formatting stable', () => {
   assert.equal(diffFromNowDays('2026-03-10', new Date('2026-03-16T00:00:00.000Z')), 6)
   assert.equal(formatStockYen(1234567), '1,234,567 円')
+  assert.equal(formatStockRange(16319649, 21732326), '1,632〜2,173万円')
   assert.deepEqual(buildStockDeletePayload('user-1', new Date('2026-03-16T10:00:00.000Z')), {
     deleted_at: '2026-03-16T10:00:00.000Z',
     deleted_by: 'user-1',
@@ -1,5 +1,9 @@
+import { mapStockComparablesJson, selectComparableRows } from './comparables.ts'
 import { buildSoftDeletePayload } from './deletePayload.ts'
-import { formatYen, safeNumber } from './stockPricing.ts'
+import { DEFAULT_COST_PROFILE, type CostProfile } from './costProfile.ts'
+import { buildPriceBand, type PriceBand } from './priceBand.ts'
+import { resolveReferenceSpread, type ReferenceValueEntry } from './referenceValue.ts'
+import { calcBuyTarget, calcRaise, formatYen, safeNumber } from './stockPricing.ts'
 
 export type StockEntryLike = {
   renovated: boolean | null
@@ -23,6 +27,8 @@ export type StockRow = {
   coef_total: number | null
   floor_coef: number | null
   status: string | null
+  cost_profile_version?: number | null
+  comparable_entries?: unknown
   estate_entries?: StockEntryLike | StockEntryLike[] | null
 }
 
@@ -42,6 +48,8 @@ export type StockCard = {
   status: string
   days: number
   renovated: boolean | null
+  costProfileVersion: number | null
+  band: PriceBand | null
 }
 
 export function parseDateOrNull(value: string | null): Date | null {
@@ -56,7 +64,13 @@ export function diffFromNowDays(value: string | null, now: Date = new Date()): n
   return Math.round(Math.abs(now.getTime() - date.getTime()) / 86400000)
 }
 
-export function mapStockRowToCard(row: StockRow, now: Date = new Date()): StockCard {
+// referenceRows を渡すと、同じ団地の成約事例（比較事例を選んでいればその事例）のばらつきから目標値の価格帯を付ける
+export function mapStockRowToCard(
+  row: StockRow,
+  now: Date = new Date(),
+  profile: CostProfile = DEFAULT_COST_PROFILE,
+  referenceRows?: ReferenceValueEntry[],
+): StockCard {
   const entry = Array.isArray(row.estate_entries) ? (row.estate_entries[0] ?? null) : (row.estate_entries ?? null)
   const area = safeNumber(row.area_sqm)
   const listPrice = safeNumber(row.list_price)
@@ -69,12 +83,20 @@ export function mapStockRowToCard(row: StockRow, now: Date = new Date()): StockC
   const targetPriceStored = safeNumber(row.target_close_price)
   const targetPrice = targetPriceStored || Math.round(targetUnit * area)
   const raiseStored = safeNumber(row.raise_price)
-  const raise = raiseStored || Math.floor((targetPrice / 1.21) / 10000) * 10000
+  const raise = raiseStored || calcRaise(targetPrice, profile)
   const buyStored = safeNumber(row.buy_target_price)
-  const moveCost = area < 60 ? Math.round(area * 132000) : (area >= 80 ? Math.round(area * 123000) : Math.round(area * (132000 - (area - 60) * 400)))
-  const brokerage = raise < 10_000_000 ? 550_000 : Math.round(raise * 0.055)
-  const other = Math.round(raise * 0.075)
-  const buyTarget = buyStored || (raise - moveCost - brokerage - other)
+  const buyTarget = buyStored || calcBuyTarget(raise, area, profile)
+  const band = referenceRows
+    ? buildPriceBand({
+      expected: { targetUnit, targetClose: targetPrice, buyTarget },
+      area,
+      spread: resolveReferenceSpread({
+        rows: selectComparableRows(referenceRows, mapStockComparablesJson(row.comparable_entries)),
+        floor: row.floor,
+      }),
+      profile,
+    })
+    : null
 
   return {
     id: row.id,
@@ -92,17 +114,28 @@ export function mapStockRowToCard(row: StockRow, now: Date = new Date()): StockC
     status: row.status ?? '未設定',
     days: diffFromNowDays(row.registered_date, now),
     renovated: entry?.renovated ?? null,
+    costProfileVersion: row.cost_profile_version ?? null,
+    band,
   }
 }
 
-export function mapStockRowsToCards(rows: StockRow[], now: Date = new Date()): StockCard[] {
-  return rows.map((row) => mapStockRowToCard(row, now))
+export function mapStockRowsToCards(
+  rows: StockRow[],
+  now: Date = new Date(),
+  profile: CostProfile = DEFAULT_COST_PROFILE,
+  referenceRows?: ReferenceValueEntry[],
+): StockCard[] {
+  return rows.map((row) => mapStockRowToCard(row, now, profile, referenceRows))
 }
 
 export function formatStockYen(value: number): string {
   return formatYen(value)
 }
 
+export function formatStockRange(low: number, high: number): string {
+  return `${Math.round(low / 10000).toLocaleString('ja-JP')}〜${Math.round(high / 10000).toLocaleString('ja-JP')}万円`
+}
+
 export function buildStockDeletePayload(userId?: string | null, now = new Date()): Record<string, unknown> {
   return buildSoftDeletePayload(userId, now)
 }
@@ -1,15 +1,22 @@
 import test from 'node:test'
 import assert from 'node:assert/strict'
 
+import { DEFAULT_COST_PROFILE, type CostProfile } from './costProfile.ts'
 import {
   buildFloorRows,
+  calcAcquisitionBreakdown,
   calcBaseUnitPrice,
   calcBrokerage,
+  calcBuyTarget,
   calcMoveCost,
   calcOtherCost,
+  calcRaise,
+  calcRenovationCost,
+  calcSaleBrokerage,
   formatUnit,
   getFloorCoefs,
   safeNumber,
+  solvePurchaseCosts,
   toFixedString,
   toNumberString,
 } from './stockPricing.ts'
@@ -23,15 +30,55 @@ test('safeNumber parses strings and defaults invalid values to zero', () => {
 test('getFloorCoefs returns configured pattern coefficients with safe fallback', () => {
   assert.deepEqual(getFloorCoefs('①保守的'), [1.0, 0.98, 0.95, 0.9, 0.85])
   assert.deepEqual(getFloorCoefs('unknown'), [1, 1, 1, 1, 1])
+  assert.deepEqual(getFloorCoefs([1, 0.97, 0.94]), [1, 0.97, 0.94])
+  assert.deepEqual(getFloorCoefs([]), [1, 1, 1, 1, 1])
 })
 
 test('cost helpers keep pricing thresholds stable', () => {
   assert.equal(calcMoveCost(55), 7260000)
   assert.equal(calcMoveCost(70), 8960000)
   assert.equal(calcMoveCost(85), 10455000)
-  assert.equal(calcBrokerage(9_900_000), 550000)
-  assert.equal(calcBrokerage(10_000_000), 550000)
-  assert.equal(calcOtherCost(10_000_000), 750000)
+  assert.equal(calcBrokerage(9_900_000), 392700)
+  assert.equal(calcBrokerage(20_000_000), 726000)
+  assert.equal(calcBrokerage(5_000_000), 330000)
+  assert.equal(calcOtherCost(10_000_000, { ...DEFAULT_COST_PROFILE, otherCostMode: 'flat' }), 750000)
+})
+
+test('itemized other costs are solved together with the buy target', () => {
+  const raise = 27_270_000
+  const breakdown = calcAcquisitionBreakdown(raise, 60)
+  assert.ok(breakdown)
+  const buyTarget = calcBuyTarget(raise, 60)
+  assert.equal(breakdown.purchasePrice, buyTarget)
+  assert.equal(buyTarget + breakdown.total + calcBrokerage(buyTarget), raise - calcMoveCost(60))
+  assert.equal(calcOtherCost(raise, DEFAULT_COST_PROFILE, 60), breakdown.total)
+
+  // 築年控除が効く団地は不動産取得税が下がり、買付目標額が上がる
+  assert.ok(calcBuyTarget(raise, 60, DEFAULT_COST_PROFILE, { builtYm: '1978-04' }) > buyTarget)
+  assert.equal(calcAcquisitionBreakdown(raise, 60, { ...DEFAULT_COST_PROFILE, otherCostMode: 'flat' }), null)
+})
+
+test('renovation estimates replace the area-only cost in the buy target', () => {
+  const renovation = { currentCondition: 'NEEDS_RENOVATION' as const, targetCondition: 'FULL_RENO_INSULATED' as const, layout: '3DK' }
+  assert.equal(calcRenovationCost(60), calcMoveCost(60))
+  assert.equal(calcRenovationCost(60, DEFAULT_COST_PROFILE, { renovation }), 7_152_000)
+
+  const raise = 27_270_000
+  const costs = solvePurchaseCosts(raise, 60, DEFAULT_COST_PROFILE, { renovation })
+  assert.equal(costs.buyTarget + 7_152_000 + costs.brokerage + costs.otherCost, raise)
+  assert.ok(costs.buyTarget > calcBuyTarget(raise, 60))
+})
+
+test('brokerage sides decide which trades pay the statutory fee', () => {
+  const raise = 27_270_000
+  const sellOnly = { ...DEFAULT_COST_PROFILE, brokerage: { ...DEFAULT_COST_PROFILE.brokerage, sides: 'sell' as const } }
+  const both = { ...DEFAULT_COST_PROFILE, brokerage: { ...DEFAULT_COST_PROFILE.brokerage, sides: 'both' as const } }
+
+  assert.equal(solvePurchaseCosts(raise, 60, sellOnly).brokerage, 0)
+  assert.ok(calcBuyTarget(raise, 60, sellOnly) > calcBuyTarget(raise, 60))
+  assert.equal(calcBuyTarget(raise, 60, both), calcBuyTarget(raise, 60))
+  assert.equal(calcSaleBrokerage(33_000_000), 0)
+  assert.equal(calcSaleBrokerage(33_000_000, both), 1155000)
 })
 
 test('buildFloorRows calculates target prices and buy target per floor pattern', () => {
@@ -43,9 +90,37 @@ test('buildFloorRows calculates target prices and buy target per floor pattern',
     targetUnit: 550000,
     targetClose: 33000000,
     raise: 27270000,
-    buyTarget: 15804900,
+    buyTarget: 17990086,
   })
   assert.equal(rows[4]?.targetUnit, 484000)
+
+  const customRows = buildFloorRows(500000, 1, 60, [1, 0.99, 0.98, 0.97, 0.96, 0.95, 0.94, 0.93])
+  assert.equal(customRows.length, 8)
+  assert.deepEqual(customRows.map((row) => row.floor), [1, 2, 3, 4, 5, 6, 7, 8])
+  assert.equal(customRows[7]?.targetUnit, 465000)
+})
+
+test('cost helpers follow the supplied cost profile', () => {
+  const profile: CostProfile = {
+    ...DEFAULT_COST_PROFILE,
+    id: 'p2',
+    version: 2,
+    moveCostBands: [{ minArea: 0, unitCost: 100000, slopePerSqm: 0 }, { minArea: 70, unitCost: 90000, slopePerSqm: 0 }],
+    brokerage: { ...DEFAULT_COST_PROFILE.brokerage, mode: 'flat', thresholdPrice: 5_000_000, flatFee: 330_000, rate: 0.033 },
+    otherCostRate: 0.05,
+    otherCostMode: 'flat',
+    marginDivisor: 1.25,
+  }
+
+  assert.equal(calcMoveCost(60, profile), 6000000)
+  assert.equal(calcMoveCost(75, profile), 6750000)
+  assert.equal(calcBrokerage(4_000_000, profile), 330000)
+  assert.equal(calcBrokerage(20_000_000, profile), 660000)
+  assert.equal(calcOtherCost(20_000_000, profile), 1000000)
+  assert.equal(calcRaise(33_000_000, profile), 26400000)
+  assert.equal(calcBuyTarget(26_400_000, 60, profile), 26400000 - 6000000 - 871200 - 1320000)
+  assert.equal(buildFloorRows(500000, 1.1, 60, '②中間', profile)[0]?.buyTarget, 18208800)
+  assert.equal(calcRaise(33_000_000), 27270000)
 })
 
 test('display helpers preserve existing form defaults', () => {
@@ -1,3 +1,8 @@
+import { calcAcquisitionCosts, type AcquisitionContext, type AcquisitionCostBreakdown } from './acquisitionCost.ts'
+import { calcStatutoryBrokerage } from './brokerage.ts'
+import { DEFAULT_COST_PROFILE, sortMoveCostBands, type CostProfile } from './costProfile.ts'
+import { estimateRenovation, type RenovationSpec } from './renovationEstimate.ts'
+
 export type FloorPattern = '①保守的' | '②中間' | '③攻め' | '④超攻め'
 
 export type FloorRow = {
@@ -9,6 +14,18 @@ export type FloorRow = {
   buyTarget: number
 }
 
+// 諸費用の計算条件に加え、リノベ工事の見積条件があれば面積帯の概算の代わりに使う
+export type PricingContext = AcquisitionContext & {
+  renovation?: RenovationSpec | null
+}
+
+export type PurchaseCosts = {
+  buyTarget: number
+  brokerage: number
+  otherCost: number
+  breakdown: AcquisitionCostBreakdown | null
+}
+
 export const FLOOR_COEFS: Record<FloorPattern, number[]> = {
   '①保守的': [1.0, 0.98, 0.95, 0.9, 0.85],
   '②中間': [1.0, 0.99, 0.96, 0.92, 0.88],
@@ -25,37 +42,127 @@ export function safeNumber(value: string | number | null | undefined): number {
   return 0
 }
 
-export function getFloorCoefs(pattern: string | null | undefined): number[] {
+export function getFloorCoefs(pattern: string | number[] | null | undefined): number[] {
+  if (Array.isArray(pattern)) return pattern.length > 0 ? pattern : [1, 1, 1, 1, 1]
   if (pattern && pattern in FLOOR_COEFS) {
     return FLOOR_COEFS[pattern as FloorPattern]
   }
   return [1, 1, 1, 1, 1]
 }
 
-export function calcMoveCost(area: number): number {
-  if (area < 60) return Math.round(area * 132000)
-  if (area >= 80) return Math.round(area * 123000)
-  return Math.round(area * (132000 - (area - 60) * 400))
+export function calcMoveCost(area: number, profile: CostProfile = DEFAULT_COST_PROFILE): number {
+  const bands = sortMoveCostBands(profile.moveCostBands)
+  const band = bands.filter((item) => area >= item.minArea).pop() ?? bands[0]
+  if (!band) return 0
+  return Math.round(area * (band.unitCost - (area - band.minArea) * band.slopePerSqm))
+}
+
+export function calcRenovationCost(area: number, profile: CostProfile = DEFAULT_COST_PROFILE, context: PricingContext = {}): number {
+  return estimateRenovation(context.renovation, area)?.total ?? calcMoveCost(area, profile)
+}
+
+// 仲介手数料（片側）。法定方式は取引価格、一律方式は従来どおり募集総額を渡す
+export function calcBrokerage(price: number, profile: CostProfile = DEFAULT_COST_PROFILE): number {
+  const rule = profile.brokerage
+  if (rule.mode === 'statutory') return calcStatutoryBrokerage(price, rule)
+  if (price <= 0) return 0
+  if (price < rule.thresholdPrice) return rule.flatFee
+  return Math.round(price * rule.rate)
+}
+
+export function paysBrokerage(profile: CostProfile, side: 'buy' | 'sell'): boolean {
+  return profile.brokerage.sides === 'both' || profile.brokerage.sides === side
+}
+
+export function calcSaleBrokerage(salePrice: number, profile: CostProfile = DEFAULT_COST_PROFILE): number {
+  return paysBrokerage(profile, 'sell') ? calcBrokerage(salePrice, profile) : 0
+}
+
+// 物件価格が決まっているときの仕入時の仲介手数料と諸費用
+export function calcPurchaseCosts(
+  purchasePrice: number,
+  raise: number,
+  area: number,
+  profile: CostProfile = DEFAULT_COST_PROFILE,
+  context: PricingContext = {},
+): Omit<PurchaseCosts, 'buyTarget'> {
+  const brokeragePrice = profile.brokerage.mode === 'statutory' ? purchasePrice : raise
+  const brokerage = paysBrokerage(profile, 'buy') ? calcBrokerage(brokeragePrice, profile) : 0
+  const breakdown = profile.otherCostMode === 'itemized'
+    ? calcAcquisitionCosts({ purchasePrice, area, costParams: profile.acquisitionCost, context })
+    : null
+  const otherCost = breakdown ? breakdown.total : Math.round(raise * profile.otherCostRate)
+  return { brokerage, otherCost, breakdown }
+}
+
+// 仲介手数料と諸費用は物件価格（= 買付目標額）に依存するため、買付目標額と費用を交互に更新して収束させる。
+// 端数で振動しても buyTarget + リノベ費用 + brokerage + otherCost = 募集総額 は常に成り立つ
+export function solvePurchaseCosts(
+  raise: number,
+  area: number,
+  profile: CostProfile = DEFAULT_COST_PROFILE,
+  context: PricingContext = {},
+): PurchaseCosts {
+  const moveCost = calcRenovationCost(area, profile, context)
+  const costsAt = (purchasePrice: number): PurchaseCosts => {
+    const costs = calcPurchaseCosts(purchasePrice, raise, area, profile, context)
+    return { ...costs, buyTarget: raise - moveCost - costs.brokerage - costs.otherCost }
+  }
+
+  let costs = costsAt(raise - moveCost)
+  for (let i = 0; i < 12; i += 1) {
+    const next = costsAt(costs.buyTarget)
+    const converged = next.buyTarget === costs.buyTarget
+    costs = next
+    if (converged) break
+  }
+  return costs
+}
+
+export function calcAcquisitionBreakdown(
+  raise: number,
+  area: number,
+  profile: CostProfile = DEFAULT_COST_PROFILE,
+  context: PricingContext = {},
+): AcquisitionCostBreakdown | null {
+  return solvePurchaseCosts(raise, area, profile, context).breakdown
+}
+
+export function calcOtherCost(
+  raise: number,
+  profile: CostProfile = DEFAULT_COST_PROFILE,
+  area = 0,
+  context: PricingContext = {},
+): number {
+  return solvePurchaseCosts(raise, area, profile, context).otherCost
 }
 
-export function calcBrokerage(raise: number): number {
-  if (raise < 10_000_000) return 550_000
-  return Math.round(raise * 0.055)
+export function calcRaise(targetClose: number, profile: CostProfile = DEFAULT_COST_PROFILE): number {
+  return Math.floor((targetClose / profile.marginDivisor) / 10000) * 10000
 }
 
-export function calcOtherCost(raise: number): number {
-  return Math.round(raise * 0.075)
+export function calcBuyTarget(
+  raise: number,
+  area: number,
+  profile: CostProfile = DEFAULT_COST_PROFILE,
+  context: PricingContext = {},
+): number {
+  return solvePurchaseCosts(raise, area, profile, context).buyTarget
 }
 
-export function buildFloorRows(baseUnit: number, baseCoef: number, area: number, pattern: string | null | undefined): FloorRow[] {
+export function buildFloorRows(
+  baseUnit: number,
+  baseCoef: number,
+  area: number,
+  pattern: string | number[] | null | undefined,
+  profile: CostProfile = DEFAULT_COST_PROFILE,
+  context: PricingContext = {},
+): FloorRow[] {
   return getFloorCoefs(pattern).map((floorCoef, index) => {
     const targetUnit = Math.round(baseUnit * baseCoef * floorCoef)
     const targetClose = Math.round(targetUnit * area)
-    const raise = Math.floor((targetClose / 1.21) / 10000) * 10000
-    const moveCost = calcMoveCost(area)
-    const brokerage = calcBrokerage(raise)
-    const other = calcOtherCost(raise)
-    const buyTarget = raise - moveCost - brokerage - other
+    const raise = calcRaise(targetClose, profile)
+    const buyTarget = calcBuyTarget(raise, area, profile, context)
 
     return {
       floor: index + 1,
@@ -0,0 +1,62 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { buildFloorPatternOptions } from './floorPatterns.ts'
+import { buildSensitivityRows, resolveBreakEven } from './stockSensitivity.ts'
+import { buildFloorRows, calcBuyTarget, FLOOR_COEFS } from './stockPricing.ts'
+
+const base = {
+  baseUnit: 500000,
+  yearCoef: 0.1,
+  otherCoef: 0,
+  area: 60,
+  floor: 3,
+  floorCoefs: FLOOR_COEFS['②中間'],
+}
+
+test('buildSensitivityRows varies each input around the selected floor and sorts by swing', () => {
+  const result = buildSensitivityRows({ base, floorPatternOptions: buildFloorPatternOptions([], null), floorCount: 5 })
+  assert.ok(result)
+  assert.deepEqual(result.baseline, buildFloorRows(500000, 1.1, 60, '②中間')[2])
+  assert.deepEqual(result.rows.map((row) => row.key), ['baseUnit', 'yearCoef', 'otherCoef', 'floorPattern'])
+
+  const unitRow = result.rows.find((row) => row.key === 'baseUnit')
+  assert.deepEqual(unitRow?.low, { label: '-5%', ...pick(buildFloorRows(475000, 1.1, 60, '②中間')[2]) })
+  assert.deepEqual(unitRow?.high, { label: '+5%', ...pick(buildFloorRows(525000, 1.1, 60, '②中間')[2]) })
+
+  const patternRow = result.rows.find((row) => row.key === 'floorPattern')
+  assert.equal(patternRow?.low.label, '①保守的')
+  assert.equal(patternRow?.high.label, '④超攻め')
+  assert.equal(patternRow?.swing, (patternRow?.high.buyTarget ?? 0) - (patternRow?.low.buyTarget ?? 0))
+})
+
+test('buildSensitivityRows keeps the area coefficient fixed on top of the other coefficients', () => {
+  const result = buildSensitivityRows({ base: { ...base, areaCoef: 1.05 } })
+  assert.deepEqual(result?.baseline, buildFloorRows(500000, 1.1 * 1.05, 60, '②中間')[2])
+})
+
+test('buildSensitivityRows needs a base unit price and area', () => {
+  assert.equal(buildSensitivityRows({ base: { ...base, baseUnit: 0 } }), null)
+  assert.equal(buildSensitivityRows({ base: { ...base, area: 0 } }), null)
+})
+
+test('resolveBreakEven finds the lowest list price that still covers the purchase price', () => {
+  const result = resolveBreakEven({ purchasePrice: 15_000_000, area: 60, baseCoef: 1.1, floorCoef: 0.96 })
+  assert.ok(result)
+  assert.ok(calcBuyTarget(result.raise, 60) >= 15_000_000)
+  assert.ok(calcBuyTarget(result.raise - 10000, 60) < 15_000_000)
+  assert.equal(result.raise % 10000, 0)
+  assert.equal(result.targetClose, Math.round(result.raise * 1.21))
+  assert.equal(result.targetUnit, Math.round(result.targetClose / 60))
+  assert.equal(result.baseUnit, Math.round(result.targetUnit / (1.1 * 0.96)))
+
+  const cheap = resolveBreakEven({ purchasePrice: 500_000, area: 40, baseCoef: 1, floorCoef: 1 })
+  assert.ok(cheap && cheap.raise < 10_000_000)
+  assert.ok(calcBuyTarget(cheap.raise, 40) >= 500_000)
+
+  assert.equal(resolveBreakEven({ purchasePrice: 0, area: 60, baseCoef: 1, floorCoef: 1 }), null)
+})
+
+function pick(row: { raise: number; buyTarget: number } | undefined) {
+  return { raise: row?.raise ?? 0, buyTarget: row?.buyTarget ?? 0 }
+}
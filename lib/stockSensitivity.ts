@@ -0,0 +1,212 @@
+import { DEFAULT_COST_PROFILE, type CostProfile } from './costProfile.ts'
+import { fitFloorCoefs, type FloorPatternOption } from './floorPatterns.ts'
+import {
+  buildFloorRows,
+  calcBuyTarget,
+  calcPurchaseCosts,
+  calcRenovationCost,
+  paysBrokerage,
+  type FloorRow,
+  type PricingContext,
+} from './stockPricing.ts'
+
+export type SensitivityInputKey = 'baseUnit' | 'yearCoef' | 'otherCoef' | 'floorPattern'
+
+export type SensitivityBase = {
+  baseUnit: number
+  yearCoef: number
+  otherCoef: number
+  // 面積補正係数は振らずに固定で掛ける
+  areaCoef?: number
+  area: number
+  floor: number | null
+  floorCoefs: number[]
+  profile?: CostProfile
+  context?: PricingContext
+}
+
+export type SensitivityRanges = {
+  baseUnitRatio: number
+  yearCoef: number
+  otherCoef: number
+}
+
+export type SensitivityOutcome = {
+  label: string
+  raise: number
+  buyTarget: number
+}
+
+export type SensitivityRow = {
+  key: SensitivityInputKey
+  label: string
+  low: SensitivityOutcome
+  high: SensitivityOutcome
+  swing: number
+}
+
+export type SensitivityResult = {
+  baseline: FloorRow
+  rows: SensitivityRow[]
+}
+
+export type BreakEvenResult = {
+  raise: number
+  targetClose: number
+  targetUnit: number
+  baseUnit: number | null
+}
+
+export const DEFAULT_SENSITIVITY_RANGES: SensitivityRanges = {
+  baseUnitRatio: 0.05,
+  yearCoef: 0.05,
+  otherCoef: 0.05,
+}
+
+const RAISE_STEP = 10000
+
+function formatSigned(value: number, digits: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`
+}
+
+function pickFloorRow(rows: FloorRow[], floor: number | null): FloorRow | null {
+  return rows.find((row) => row.floor === floor) ?? rows[0] ?? null
+}
+
+function evaluate(base: SensitivityBase, overrides: Partial<SensitivityBase>): FloorRow | null {
+  const input = { ...base, ...overrides }
+  const rows = buildFloorRows(
+    input.baseUnit,
+    (1 + input.yearCoef + input.otherCoef) * (input.areaCoef ?? 1),
+    input.area,
+    input.floorCoefs,
+    input.profile ?? DEFAULT_COST_PROFILE,
+    input.context,
+  )
+  return pickFloorRow(rows, input.floor)
+}
+
+function toOutcome(label: string, row: FloorRow): SensitivityOutcome {
+  return { label, raise: row.raise, buyTarget: row.buyTarget }
+}
+
+function buildRangeRow(
+  base: SensitivityBase,
+  key: SensitivityInputKey,
+  label: string,
+  low: { label: string; overrides: Partial<SensitivityBase> },
+  high: { label: string; overrides: Partial<SensitivityBase> },
+): SensitivityRow | null {
+  const lowRow = evaluate(base, low.overrides)
+  const highRow = evaluate(base, high.overrides)
+  if (!lowRow || !highRow) return null
+  return {
+    key,
+    label,
+    low: toOutcome(low.label, lowRow),
+    high: toOutcome(high.label, highRow),
+    swing: Math.abs(highRow.buyTarget - lowRow.buyTarget),
+  }
+}
+
+// 階層パターンは登録済みの全パターンを当てはめ、買付目標額が最小・最大になるものを両端とする
+function buildFloorPatternRow(
+  base: SensitivityBase,
+  options: FloorPatternOption[],
+  floorCount: number | null | undefined,
+): SensitivityRow | null {
+  const outcomes = options
+    .map((option) => {
+      const row = evaluate(base, { floorCoefs: fitFloorCoefs(option.coefs, floorCount) })
+      return row ? toOutcome(option.label, row) : null
+    })
+    .filter((outcome): outcome is SensitivityOutcome => outcome != null)
+    .sort((a, b) => a.buyTarget - b.buyTarget)
+  if (outcomes.length < 2) return null
+  const low = outcomes[0]
+  const high = outcomes[outcomes.length - 1]
+  return { key: 'floorPattern', label: '階層パターン', low, high, swing: high.buyTarget - low.buyTarget }
+}
+
+// 各入力を範囲の両端に振ったときの募集総額・買付目標額を求め、振れ幅の大きい順に並べる（トルネード図用）
+export function buildSensitivityRows(params: {
+  base: SensitivityBase
+  floorPatternOptions?: FloorPatternOption[]
+  floorCount?: number | null
+  ranges?: SensitivityRanges
+}): SensitivityResult | null {
+  const { base, floorPatternOptions = [], floorCount, ranges = DEFAULT_SENSITIVITY_RANGES } = params
+  if (base.baseUnit <= 0 || base.area <= 0) return null
+  const baseline = evaluate(base, {})
+  if (!baseline) return null
+
+  const unitPercent = ranges.baseUnitRatio * 100
+  const rows = [
+    buildRangeRow(base, 'baseUnit', '設定単価',
+      { label: `${formatSigned(-unitPercent, 0)}%`, overrides: { baseUnit: base.baseUnit * (1 - ranges.baseUnitRatio) } },
+      { label: `${formatSigned(unitPercent, 0)}%`, overrides: { baseUnit: base.baseUnit * (1 + ranges.baseUnitRatio) } }),
+    buildRangeRow(base, 'yearCoef', '年数係数',
+      { label: formatSigned(-ranges.yearCoef, 2), overrides: { yearCoef: base.yearCoef - ranges.yearCoef } },
+      { label: formatSigned(ranges.yearCoef, 2), overrides: { yearCoef: base.yearCoef + ranges.yearCoef } }),
+    buildRangeRow(base, 'otherCoef', '加点係数',
+      { label: formatSigned(-ranges.otherCoef, 2), overrides: { otherCoef: base.otherCoef - ranges.otherCoef } },
+      { label: formatSigned(ranges.otherCoef, 2), overrides: { otherCoef: base.otherCoef + ranges.otherCoef } }),
+    buildFloorPatternRow(base, floorPatternOptions, floorCount),
+  ]
+    .filter((row): row is SensitivityRow => row != null)
+    .sort((a, b) => b.swing - a.swing)
+
+  return { baseline, rows }
+}
+
+// 仕入価格で買っても利益率を確保できる最低の募集総額（1万円単位）と、それに必要な成約価格・単価を逆算する
+export function resolveBreakEven(params: {
+  purchasePrice: number
+  area: number
+  baseCoef: number
+  floorCoef: number
+  profile?: CostProfile
+  context?: PricingContext
+}): BreakEvenResult | null {
+  const { purchasePrice, area, baseCoef, floorCoef, profile = DEFAULT_COST_PROFILE, context } = params
+  if (purchasePrice <= 0 || area <= 0) return null
+
+  // 法定方式の仲介手数料と内訳計算の諸費用は仕入価格から直接求まり、一律方式なら募集総額に比例する
+  const { thresholdPrice, flatFee, rate } = profile.brokerage
+  const itemized = profile.otherCostMode === 'itemized'
+  const flatBrokerage = profile.brokerage.mode === 'flat' && paysBrokerage(profile, 'buy')
+  const otherRate = itemized ? 0 : profile.otherCostRate
+  const purchaseCosts = calcPurchaseCosts(purchasePrice, 0, area, profile, context)
+  const fixedCost = calcRenovationCost(area, profile, context)
+    + (itemized ? purchaseCosts.otherCost : 0)
+    + (flatBrokerage ? 0 : purchaseCosts.brokerage)
+  const candidates = (flatBrokerage
+    ? [
+      (purchasePrice + fixedCost + flatFee) / (1 - otherRate),
+      Math.max((purchasePrice + fixedCost) / (1 - rate - otherRate), thresholdPrice),
+    ]
+    : [(purchasePrice + fixedCost) / (1 - otherRate)])
+    .filter((value) => Number.isFinite(value) && value > 0)
+    .map((value) => Math.ceil(value / RAISE_STEP) * RAISE_STEP)
+
+  // 仲介手数料の段差や端数処理で届かない場合は1万円ずつ引き上げて確認する
+  const solved = candidates
+    .map((start) => {
+      let raise = start
+      for (let i = 0; i < 10 && calcBuyTarget(raise, area, profile, context) < purchasePrice; i += 1) raise += RAISE_STEP
+      return calcBuyTarget(raise, area, profile, context) >= purchasePrice ? raise : null
+    })
+    .filter((raise): raise is number => raise != null)
+  if (solved.length === 0) return null
+
+  const raise = Math.min(...solved)
+  const targetClose = Math.round(raise * profile.marginDivisor)
+  const targetUnit = Math.round(targetClose / area)
+  const divisor = baseCoef * floorCoef
+  return {
+    raise,
+    targetClose,
+    targetUnit,
+    baseUnit: divisor > 0 ? Math.round(targetUnit / divisor) : null,
+  }
+}
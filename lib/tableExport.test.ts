@@ -0,0 +1,73 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { crc32 as zlibCrc32 } from 'node:zlib'
+
+import { buildExportFilename, buildTableCsv, buildTableXlsx, crc32, toColumnLetter, type TableExportColumn } from './tableExport.ts'
+
+type Row = { name: string; price: number | null; ok: boolean }
+
+const columns: TableExportColumn<Row>[] = [
+  { key: 'name', label: '名称', value: (row) => row.name },
+  { key: 'price', label: '価格', value: (row) => row.price },
+  { key: 'ok', label: '可否', value: (row) => row.ok },
+]
+
+test('buildTableCsv writes a BOM, a fixed header and escaped cells', () => {
+  const csv = buildTableCsv(columns, [
+    { name: 'A団地, 1号棟', price: 12_000_000, ok: true },
+    { name: '"B"', price: null, ok: false },
+  ])
+  assert.ok(csv.startsWith('\uFEFF'))
+  assert.deepEqual(csv.slice(1).split('\r\n'), [
+    '名称,価格,可否',
+    '"A団地, 1号棟",12000000,有',
+    '"""B""",,無',
+    '',
+  ])
+  assert.equal(buildTableCsv(columns, []), '\uFEFF名称,価格,可否\r\n')
+})
+
+test('buildTableXlsx packs a readable stored zip with the sheet cells', () => {
+  const bytes = buildTableXlsx(columns, [{ name: 'A<&>', price: 1.5, ok: true }], '在庫/一覧')
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const endOffset = bytes.length - 22
+  assert.equal(view.getUint32(endOffset, true), 0x06054B50)
+  const count = view.getUint16(endOffset + 10, true)
+  let cursor = view.getUint32(endOffset + 16, true)
+  const decoder = new TextDecoder()
+  const files = new Map<string, string>()
+  for (let i = 0; i < count; i += 1) {
+    assert.equal(view.getUint32(cursor, true), 0x02014B50)
+    const size = view.getUint32(cursor + 20, true)
+    const nameLength = view.getUint16(cursor + 28, true)
+    const localOffset = view.getUint32(cursor + 42, true)
+    const name = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength))
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true)
+    const data = bytes.subarray(dataStart, dataStart + size)
+    assert.equal(view.getUint32(cursor + 16, true), zlibCrc32(data))
+    files.set(name, decoder.decode(data))
+    cursor += 46 + nameLength
+  }
+  assert.deepEqual([...files.keys()].sort(), [
+    '[Content_Types].xml',
+    '_rels/.rels',
+    'xl/_rels/workbook.xml.rels',
+    'xl/workbook.xml',
+    'xl/worksheets/sheet1.xml',
+  ])
+  assert.match(files.get('xl/workbook.xml') ?? '', /<sheet name="在庫一覧"/)
+  const sheet = files.get('xl/worksheets/sheet1.xml') ?? ''
+  assert.match(sheet, /<c r="A1" t="inlineStr"><is><t xml:space="preserve">名称<\/t><\/is><\/c>/)
+  assert.match(sheet, /<c r="A2" t="inlineStr"><is><t xml:space="preserve">A&lt;&amp;&gt;<\/t><\/is><\/c>/)
+  assert.match(sheet, /<c r="B2"><v>1.5<\/v><\/c>/)
+  assert.match(sheet, /<c r="C2" t="inlineStr"><is><t xml:space="preserve">有<\/t><\/is><\/c>/)
+})
+
+test('export helpers name columns and files predictably', () => {
+  assert.equal(toColumnLetter(0), 'A')
+  assert.equal(toColumnLetter(25), 'Z')
+  assert.equal(toColumnLetter(26), 'AA')
+  assert.equal(toColumnLetter(701), 'ZZ')
+  assert.equal(crc32(new TextEncoder().encode('123456789')), 0xCBF43926)
+  assert.equal(buildExportFilename('stocks', 'xlsx', new Date(2026, 3, 5, 9, 7)), 'stocks-20260405-0907.xlsx')
+})
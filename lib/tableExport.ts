@@ -0,0 +1,189 @@
+export type TableExportValue = string | number | boolean | null
+
+// key は列の識別子。列の並びと key は画面の表示に関係なく固定する
+export type TableExportColumn<T> = {
+  key: string
+  label: string
+  value: (row: T) => TableExportValue
+}
+
+export const CSV_MIME_TYPE = 'text/csv;charset=utf-8'
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+function toCellText(value: TableExportValue): string {
+  if (value == null) return ''
+  if (typeof value === 'boolean') return value ? '有' : '無'
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : ''
+  return value
+}
+
+function toCsvCell(value: TableExportValue): string {
+  const text = toCellText(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Excel で文字化けしないよう先頭に BOM を付ける
+export function buildTableCsv<T>(columns: TableExportColumn<T>[], rows: T[]): string {
+  const lines = [
+    columns.map((column) => toCsvCell(column.label)).join(','),
+    ...rows.map((row) => columns.map((column) => toCsvCell(column.value(row))).join(',')),
+  ]
+  return '\uFEFF' + lines.join('\r\n') + '\r\n'
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export function toColumnLetter(index: number): string {
+  let letter = ''
+  let n = index + 1
+  while (n > 0) {
+    const rem = (n - 1) % 26
+    letter = String.fromCharCode(65 + rem) + letter
+    n = Math.floor((n - 1) / 26)
+  }
+  return letter
+}
+
+function toSheetCell(ref: string, value: TableExportValue): string {
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`
+  const text = toCellText(value)
+  if (!text) return ''
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`
+}
+
+function buildSheetXml<T>(columns: TableExportColumn<T>[], rows: T[]): string {
+  const lines = [columns.map((column) => column.label as TableExportValue), ...rows.map((row) => columns.map((column) => column.value(row)))]
+  const body = lines.map((values, rowIndex) => {
+    const cells = values.map((value, colIndex) => toSheetCell(`${toColumnLetter(colIndex)}${rowIndex + 1}`, value)).join('')
+    return `<row r="${rowIndex + 1}">${cells}</row>`
+  }).join('')
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + `<sheetData>${body}</sheetData></worksheet>`
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let i = 0; i < 256; i += 1) {
+    let c = i
+    for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+    table[i] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xFFFFFFFF
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8)
+  return (crc ^ 0xFFFFFFFF) >>> 0
+}
+
+// 1980-01-01。日時 0 のままだと不正な日付として扱うツールがある
+const DOS_DATE = 0x21
+
+// 無圧縮（store）の zip。xlsx の部品数が少ないので圧縮は行わない
+function buildZip(files: { name: string; data: Uint8Array }[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const locals: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.name)
+    const crc = crc32(file.data)
+    const size = file.data.length
+
+    const local = new Uint8Array(30 + name.length + size)
+    const lv = new DataView(local.buffer)
+    lv.setUint32(0, 0x04034B50, true)
+    lv.setUint16(4, 20, true)
+    lv.setUint16(6, 0x0800, true)
+    lv.setUint16(8, 0, true)
+    lv.setUint16(12, DOS_DATE, true)
+    lv.setUint32(14, crc, true)
+    lv.setUint32(18, size, true)
+    lv.setUint32(22, size, true)
+    lv.setUint16(26, name.length, true)
+    local.set(name, 30)
+    local.set(file.data, 30 + name.length)
+
+    const central = new Uint8Array(46 + name.length)
+    const cv = new DataView(central.buffer)
+    cv.setUint32(0, 0x02014B50, true)
+    cv.setUint16(4, 20, true)
+    cv.setUint16(6, 20, true)
+    cv.setUint16(8, 0x0800, true)
+    cv.setUint16(10, 0, true)
+    cv.setUint16(14, DOS_DATE, true)
+    cv.setUint32(16, crc, true)
+    cv.setUint32(20, size, true)
+    cv.setUint32(24, size, true)
+    cv.setUint16(28, name.length, true)
+    cv.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    locals.push(local)
+    centrals.push(central)
+    offset += local.length
+  }
+
+  const centralSize = centrals.reduce((sum, item) => sum + item.length, 0)
+  const end = new Uint8Array(22)
+  const ev = new DataView(end.buffer)
+  ev.setUint32(0, 0x06054B50, true)
+  ev.setUint16(8, files.length, true)
+  ev.setUint16(10, files.length, true)
+  ev.setUint32(12, centralSize, true)
+  ev.setUint32(16, offset, true)
+
+  const out = new Uint8Array(offset + centralSize + end.length)
+  let cursor = 0
+  for (const part of [...locals, ...centrals, end]) {
+    out.set(part, cursor)
+    cursor += part.length
+  }
+  return out
+}
+
+export function buildTableXlsx<T>(columns: TableExportColumn<T>[], rows: T[], sheetName = 'Sheet1'): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const safeSheetName = escapeXml(sheetName.replace(/[\\/?*[\]:]/g, '').slice(0, 31) || 'Sheet1')
+  const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  const parts: Record<string, string> = {
+    '[Content_Types].xml': xml
+      + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      + '</Types>',
+    '_rels/.rels': xml
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+      + '</Relationships>',
+    'xl/workbook.xml': xml
+      + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+      + `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>`
+      + '</workbook>',
+    'xl/_rels/workbook.xml.rels': xml
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+      + '</Relationships>',
+    'xl/worksheets/sheet1.xml': buildSheetXml(columns, rows),
+  }
+  return buildZip(Object.entries(parts).map(([name, text]) => ({ name, data: encoder.encode(text) })))
+}
+
+export function buildExportFilename(prefix: string, extension: 'csv' | 'xlsx', now: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  const stamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}`
+  return `${prefix}-${stamp}.${extension}`
+}